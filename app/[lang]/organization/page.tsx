@@ -0,0 +1,5 @@
+import OrganizationPageClient from '@/components/OrganizationPageClient';
+
+export default function OrganizationPage() {
+  return <OrganizationPageClient />;
+}
@@ -5,12 +5,13 @@ import { buildPressReleasePrompt } from '@/lib/export/pressReleasePrompt';
 import { formatTranscriptionForMinutes } from '@/lib/export/formatTranscriptionForMinutes';
 import { aiConfig } from '@/lib/config';
 import { requireAuth } from '@/lib/auth-utils';
+import { recordExport } from '@/lib/export/records';
 
 export async function POST(request: NextRequest): Promise<NextResponse<PressReleaseResponse>> {
   const startTime = Date.now();
 
   // Check authentication
-  const authResult = await requireAuth();
+  const authResult = await requireAuth({ role: 'editor' });
   if (!authResult.authorized) {
     return authResult.response as NextResponse<PressReleaseResponse>;
   }
@@ -88,6 +89,15 @@ export async function POST(request: NextRequest): Promise<NextResponse<PressRele
       );
     }
 
+    await recordExport({
+      organizationId: authResult.organizationId,
+      userId: authResult.userId,
+      type: 'press-release',
+      transcriptionId: body.transcriptionId,
+      metadata: body.metadata,
+      content: generatedText,
+    });
+
     const processingTimeMs = Date.now() - startTime;
 
     return NextResponse.json({
@@ -0,0 +1,109 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/auth-utils';
+import { transcriptionJobStore, type TranscriptionJob } from '@/lib/jobs';
+import { cancelTranscriptionJob } from '@/lib/jobs/runner';
+
+export const dynamic = 'force-dynamic';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * Load a job of the active organization
+ * Jobs of other organizations are reported as missing
+ */
+async function getOrganizationJob(id: string, organizationId: string): Promise<TranscriptionJob | null> {
+  const job = await transcriptionJobStore.get(id);
+  return job && job.organizationId === organizationId ? job : null;
+}
+
+/**
+ * Shape a completed job like the former synchronous /api/transcribe response
+ */
+function toResults(job: TranscriptionJob) {
+  const result = job.result!;
+
+  return {
+    results: [{
+      model: `${result.metadata.provider} - ${result.metadata.model || 'default'}`,
+      text: result.text,
+      fileName: result.fileName,
+      metadata: result.metadata,
+      provider: result.metadata.provider,
+      success: true,
+    }],
+    fileName: result.fileName,
+    totalProcessingTimeMs: result.metadata.processingTimeMs,
+    successCount: 1,
+    failureCount: 0,
+  };
+}
+
+/**
+ * GET /api/jobs/:id
+ * Job status and progress, plus the transcription once the job has completed
+ */
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  const authResult = await requireAuth();
+  if (!authResult.authorized) {
+    return authResult.response;
+  }
+
+  try {
+    const { id } = await params;
+    const job = await getOrganizationJob(id, authResult.organizationId);
+
+    if (!job) {
+      return NextResponse.json({ error: 'Job not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      id: job.id,
+      status: job.status,
+      progress: job.progress,
+      stage: job.stage,
+      fileName: job.fileName,
+      error: job.error,
+      transcriptionId: job.transcriptionId,
+      createdAt: job.createdAt,
+      completedAt: job.completedAt,
+      ...(job.status === 'completed' && job.result ? toResults(job) : {}),
+    });
+  } catch (error: unknown) {
+    console.error('[Jobs] Error:', error);
+    const message = error instanceof Error ? error.message : 'Failed to load job';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
+
+/**
+ * DELETE /api/jobs/:id
+ * Cancel a queued or running job
+ */
+export async function DELETE(_request: NextRequest, { params }: RouteContext) {
+  const authResult = await requireAuth({ role: 'editor' });
+  if (!authResult.authorized) {
+    return authResult.response;
+  }
+
+  try {
+    const { id } = await params;
+    const job = await getOrganizationJob(id, authResult.organizationId);
+
+    if (!job) {
+      return NextResponse.json({ error: 'Job not found' }, { status: 404 });
+    }
+
+    const cancelled = await cancelTranscriptionJob(job.id);
+    if (!cancelled) {
+      return NextResponse.json({ error: `Job already ${job.status}` }, { status: 409 });
+    }
+
+    return NextResponse.json({ id: job.id, status: 'cancelled' });
+  } catch (error: unknown) {
+    console.error('[Jobs] Error:', error);
+    const message = error instanceof Error ? error.message : 'Failed to cancel job';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
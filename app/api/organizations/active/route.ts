@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/auth-utils';
+import { getMembership } from '@/lib/organizations/membership';
+import { ACTIVE_ORGANIZATION_COOKIE } from '@/lib/organizations/roles';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * POST /api/organizations/active
+ * Switch the organization the user is working in
+ */
+export async function POST(request: NextRequest) {
+  const authResult = await requireAuth();
+  if (!authResult.authorized) {
+    return authResult.response;
+  }
+
+  try {
+    const { organizationId } = await request.json();
+    const membership = typeof organizationId === 'string'
+      ? await getMembership(authResult.userId, organizationId)
+      : null;
+
+    if (!membership) {
+      return NextResponse.json({ error: 'Organization not found' }, { status: 404 });
+    }
+
+    const response = NextResponse.json(membership);
+    response.cookies.set(ACTIVE_ORGANIZATION_COOKIE, membership.organizationId, {
+      httpOnly: true,
+      sameSite: 'lax',
+      secure: process.env.NODE_ENV === 'production',
+      path: '/',
+      maxAge: 60 * 60 * 24 * 365,
+    });
+    return response;
+  } catch (error: unknown) {
+    console.error('[Organizations] Error:', error);
+    const message = error instanceof Error ? error.message : 'Failed to switch organization';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
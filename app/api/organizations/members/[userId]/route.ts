@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/auth-utils';
+import { removeMember, updateMemberRole, type MemberChangeResult } from '@/lib/organizations/membership';
+import { isOrganizationRole } from '@/lib/organizations/roles';
+
+export const dynamic = 'force-dynamic';
+
+interface RouteContext {
+  params: Promise<{ userId: string }>;
+}
+
+/**
+ * Response to a member change that did not happen
+ */
+function toErrorResponse(result: Exclude<MemberChangeResult, 'changed'>) {
+  return result === 'last_owner'
+    ? NextResponse.json({ error: 'An organization needs at least one owner' }, { status: 409 })
+    : NextResponse.json({ error: 'Member not found' }, { status: 404 });
+}
+
+/**
+ * PATCH /api/organizations/members/:userId
+ * Change a member's role
+ */
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  const authResult = await requireAuth({ role: 'owner' });
+  if (!authResult.authorized) {
+    return authResult.response;
+  }
+
+  try {
+    const { userId } = await params;
+    const { role } = await request.json();
+
+    if (!isOrganizationRole(role)) {
+      return NextResponse.json({ error: 'Invalid role' }, { status: 400 });
+    }
+
+    const result = await updateMemberRole(authResult.organizationId, userId, role);
+    if (result !== 'changed') {
+      return toErrorResponse(result);
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error: unknown) {
+    console.error('[Organizations] Error:', error);
+    const message = error instanceof Error ? error.message : 'Failed to update member';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
+
+/**
+ * DELETE /api/organizations/members/:userId
+ * Remove a member from the active organization
+ */
+export async function DELETE(_request: NextRequest, { params }: RouteContext) {
+  const authResult = await requireAuth({ role: 'owner' });
+  if (!authResult.authorized) {
+    return authResult.response;
+  }
+
+  try {
+    const { userId } = await params;
+
+    const result = await removeMember(authResult.organizationId, userId);
+    if (result !== 'changed') {
+      return toErrorResponse(result);
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error: unknown) {
+    console.error('[Organizations] Error:', error);
+    const message = error instanceof Error ? error.message : 'Failed to remove member';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { Prisma } from '@prisma/client';
+import { requireAuth } from '@/lib/auth-utils';
+import { addMember, listMembers } from '@/lib/organizations/membership';
+import { isOrganizationRole } from '@/lib/organizations/roles';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/organizations/members
+ * Members of the active organization
+ */
+export async function GET() {
+  const authResult = await requireAuth();
+  if (!authResult.authorized) {
+    return authResult.response;
+  }
+
+  try {
+    const members = await listMembers(authResult.organizationId);
+    return NextResponse.json({ members });
+  } catch (error: unknown) {
+    console.error('[Organizations] Error:', error);
+    const message = error instanceof Error ? error.message : 'Failed to load members';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/organizations/members
+ * Add a registered user to the active organization
+ */
+export async function POST(request: NextRequest) {
+  const authResult = await requireAuth({ role: 'owner' });
+  if (!authResult.authorized) {
+    return authResult.response;
+  }
+
+  try {
+    const { email, role } = await request.json();
+
+    if (typeof email !== 'string' || !email.trim()) {
+      return NextResponse.json({ error: 'Email is required' }, { status: 400 });
+    }
+
+    if (!isOrganizationRole(role)) {
+      return NextResponse.json({ error: 'Invalid role' }, { status: 400 });
+    }
+
+    const member = await addMember(authResult.organizationId, email.trim(), role);
+    if (!member) {
+      return NextResponse.json({ error: 'No user is registered with this email' }, { status: 404 });
+    }
+
+    return NextResponse.json(member, { status: 201 });
+  } catch (error: unknown) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      return NextResponse.json({ error: 'User is already a member' }, { status: 409 });
+    }
+
+    console.error('[Organizations] Error:', error);
+    const message = error instanceof Error ? error.message : 'Failed to add member';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
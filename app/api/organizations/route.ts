@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/auth-utils';
+import { createOrganization, listMemberships } from '@/lib/organizations/membership';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/organizations
+ * Organizations of the user and the one they are working in
+ */
+export async function GET() {
+  const authResult = await requireAuth();
+  if (!authResult.authorized) {
+    return authResult.response;
+  }
+
+  try {
+    const organizations = await listMemberships(authResult.userId);
+    return NextResponse.json({ organizations, activeOrganizationId: authResult.organizationId });
+  } catch (error: unknown) {
+    console.error('[Organizations] Error:', error);
+    const message = error instanceof Error ? error.message : 'Failed to load organizations';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/organizations
+ * Create an organization with the user as its owner
+ */
+export async function POST(request: NextRequest) {
+  const authResult = await requireAuth();
+  if (!authResult.authorized) {
+    return authResult.response;
+  }
+
+  try {
+    const { name } = await request.json();
+
+    if (typeof name !== 'string' || !name.trim()) {
+      return NextResponse.json({ error: 'Organization name is required' }, { status: 400 });
+    }
+
+    const organization = await createOrganization(authResult.userId, name.trim());
+    return NextResponse.json(organization, { status: 201 });
+  } catch (error: unknown) {
+    console.error('[Organizations] Error:', error);
+    const message = error instanceof Error ? error.message : 'Failed to create organization';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
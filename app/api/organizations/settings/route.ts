@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/auth-utils';
+import { isPipelineMode } from '@/lib/ai/registry';
+import { isGlossary, normalizeGlossary } from '@/lib/ai/glossary';
+import { isWorkflowStages, normalizeWorkflowStages } from '@/lib/library/workflow';
+import { getOrganizationSettings, updateOrganizationSettings } from '@/lib/organizations/settings';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/organizations/settings
+ * Settings of the active organization
+ */
+export async function GET() {
+  const authResult = await requireAuth();
+  if (!authResult.authorized) {
+    return authResult.response;
+  }
+
+  try {
+    return NextResponse.json(await getOrganizationSettings(authResult.organizationId));
+  } catch (error: unknown) {
+    console.error('[Organizations] Error:', error);
+    const message = error instanceof Error ? error.message : 'Failed to load settings';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
+
+/**
+ * PATCH /api/organizations/settings
+ * Merge changes into the settings of the active organization
+ */
+export async function PATCH(request: NextRequest) {
+  const authResult = await requireAuth({ role: 'owner' });
+  if (!authResult.authorized) {
+    return authResult.response;
+  }
+
+  try {
+    const changes = await request.json();
+
+    if (!changes || typeof changes !== 'object' || Array.isArray(changes)) {
+      return NextResponse.json({ error: 'Settings must be an object' }, { status: 400 });
+    }
+
+    if (changes.pipelineMode != null && !isPipelineMode(changes.pipelineMode)) {
+      return NextResponse.json({ error: `Unknown pipeline mode: ${changes.pipelineMode}` }, { status: 400 });
+    }
+
+    if (changes.glossary != null) {
+      if (!isGlossary(changes.glossary)) {
+        return NextResponse.json({ error: 'Glossary must be a list of { term, aliases, note? }' }, { status: 400 });
+      }
+      changes.glossary = normalizeGlossary(changes.glossary);
+    }
+
+    if (changes.workflow != null) {
+      if (!isWorkflowStages(changes.workflow) || changes.workflow.length === 0) {
+        return NextResponse.json({ error: 'Workflow must be a non-empty list of { state, role }' }, { status: 400 });
+      }
+      changes.workflow = normalizeWorkflowStages(changes.workflow);
+    }
+
+    return NextResponse.json(await updateOrganizationSettings(authResult.organizationId, changes));
+  } catch (error: unknown) {
+    console.error('[Organizations] Error:', error);
+    const message = error instanceof Error ? error.message : 'Failed to update settings';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
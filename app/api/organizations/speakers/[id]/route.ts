@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/auth-utils';
+import { deleteRosterSpeaker } from '@/lib/organizations/roster';
+
+export const dynamic = 'force-dynamic';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * DELETE /api/organizations/speakers/:id
+ * Remove a speaker and their voice clips from the roster
+ */
+export async function DELETE(_request: NextRequest, { params }: RouteContext) {
+  const authResult = await requireAuth({ role: 'owner' });
+  if (!authResult.authorized) {
+    return authResult.response;
+  }
+
+  try {
+    const { id } = await params;
+
+    const deleted = await deleteRosterSpeaker(authResult.organizationId, id);
+    if (!deleted) {
+      return NextResponse.json({ error: 'Speaker not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error: unknown) {
+    console.error('[Roster] Error:', error);
+    const message = error instanceof Error ? error.message : 'Failed to remove speaker';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
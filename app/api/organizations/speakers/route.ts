@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/auth-utils';
+import { enrollSpeaker, listRosterSpeakers } from '@/lib/organizations/roster';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/organizations/speakers
+ * Speaker roster of the active organization
+ */
+export async function GET() {
+  const authResult = await requireAuth();
+  if (!authResult.authorized) {
+    return authResult.response;
+  }
+
+  try {
+    return NextResponse.json({ speakers: await listRosterSpeakers(authResult.organizationId) });
+  } catch (error: unknown) {
+    console.error('[Roster] Error:', error);
+    const message = error instanceof Error ? error.message : 'Failed to load speakers';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/organizations/speakers
+ * Enroll a labelled speaker of a transcription: { transcriptionId, speaker, name }
+ * An empty name removes the speaker's clips from the roster (label cleared)
+ */
+export async function POST(request: NextRequest) {
+  const authResult = await requireAuth({ role: 'reviewer' });
+  if (!authResult.authorized) {
+    return authResult.response;
+  }
+
+  try {
+    const { transcriptionId, speaker, name } = await request.json();
+
+    if (typeof transcriptionId !== 'string' || typeof speaker !== 'string') {
+      return NextResponse.json({ error: 'transcriptionId and speaker are required' }, { status: 400 });
+    }
+
+    const trimmedName = typeof name === 'string' ? name.trim() : '';
+    const rosterSpeaker = await enrollSpeaker(
+      authResult.organizationId,
+      transcriptionId,
+      speaker,
+      trimmedName && trimmedName !== speaker ? trimmedName : undefined
+    );
+
+    if (rosterSpeaker === null) {
+      return NextResponse.json({ error: 'Transcription not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ speaker: rosterSpeaker ?? null });
+  } catch (error: unknown) {
+    console.error('[Roster] Error:', error);
+    const message = error instanceof Error ? error.message : 'Failed to enroll speaker';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
@@ -0,0 +1,35 @@
+import { NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/auth-utils';
+import { getTranscriptionProvider, listPipelineModes } from '@/lib/ai/registry';
+import { pipelineConfig } from '@/lib/config';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/providers
+ * Registered pipeline modes and whether their provider is configured
+ */
+export async function GET() {
+  const authResult = await requireAuth();
+  if (!authResult.authorized) {
+    return authResult.response;
+  }
+
+  try {
+    const modes = listPipelineModes().map(mode => {
+      const { entry, provider } = getTranscriptionProvider(mode)!;
+      return {
+        mode,
+        label: entry.label,
+        configured: provider.isConfigured(),
+        supportedMimeTypes: provider.capabilities.supportedMimeTypes,
+      };
+    });
+
+    return NextResponse.json({ modes, defaultMode: pipelineConfig.mode });
+  } catch (error: unknown) {
+    console.error('[Providers] Error:', error);
+    const message = error instanceof Error ? error.message : 'Failed to load providers';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server'
 import { hash } from 'bcryptjs'
 import { prisma } from '@/lib/prisma'
 import { isEmailAllowed } from '@/lib/auth-utils'
+import { createPersonalOrganization } from '@/lib/organizations/membership'
 
 export async function POST(request: NextRequest) {
   try {
@@ -49,6 +50,9 @@ export async function POST(request: NextRequest) {
       },
     })
 
+    // Every user starts as the owner of their own workspace
+    await createPersonalOrganization(user.id, user.email)
+
     return NextResponse.json(
       { message: 'User created successfully', userId: user.id },
       { status: 201 }
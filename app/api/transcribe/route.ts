@@ -1,19 +1,26 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { Transcriber } from '@/lib/transcriber';
 import { requireAuth } from '@/lib/auth-utils';
+import { isPipelineMode, resolvePipelineMode } from '@/lib/ai/registry';
+import { isTranscriptionLanguage } from '@/lib/ai/languages';
+import { pipelineConfig } from '@/lib/config';
+import { enqueueTranscriptionJob } from '@/lib/jobs/runner';
+import { getOrganizationSettings } from '@/lib/organizations/settings';
 
 // Route segment config for App Router
-export const maxDuration = 7200; // 2 hours for very long audio files (Railway supports up to 6h)
+// Only the upload happens in this request - transcription runs as a background job
+export const maxDuration = 600;
 export const dynamic = 'force-dynamic';
 
 /**
  * POST /api/transcribe
- * Transcribe audio from an uploaded file
- * Configuration comes from environment variables
+ * Upload a file and queue it for transcription
+ * An optional `mode` field picks the pipeline mode, overriding the organization's default
+ * An optional `language` field sets the spoken language (ISO-639-1 or 'auto' to detect it)
+ * Returns the job ID right away; poll GET /api/jobs/:id for status and results
  */
 export async function POST(request: NextRequest) {
   // Check authentication
-  const authResult = await requireAuth();
+  const authResult = await requireAuth({ role: 'editor' });
   if (!authResult.authorized) {
     return authResult.response;
   }
@@ -27,29 +34,28 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'No file provided' }, { status: 400 });
     }
 
-    // Transcribe (config from env vars)
-    const transcriber = new Transcriber();
-    const result = await transcriber.transcribe({
-      buffer: await file.arrayBuffer(),
-      mimeType: file.type,
-      fileName: file.name,
-    });
-
-    // Wrap result in array for backward compatibility with UI
-    return NextResponse.json({
-      results: [{
-        model: `${result.metadata.provider} - ${result.metadata.model || 'default'}`,
-        text: result.text,
-        fileName: result.fileName,
-        metadata: result.metadata,
-        provider: result.metadata.provider,
-        success: true,
-      }],
-      fileName: result.fileName,
-      totalProcessingTimeMs: result.metadata.processingTimeMs,
-      successCount: 1,
-      failureCount: 0,
-    });
+    const requestedMode = formData.get('mode') || undefined;
+    if (requestedMode !== undefined && !isPipelineMode(requestedMode)) {
+      return NextResponse.json({ error: `Unknown pipeline mode: ${requestedMode}` }, { status: 400 });
+    }
+
+    const requestedLanguage = formData.get('language') || undefined;
+    if (requestedLanguage !== undefined && !isTranscriptionLanguage(requestedLanguage)) {
+      return NextResponse.json({ error: `Unsupported language: ${requestedLanguage}` }, { status: 400 });
+    }
+
+    const settings = await getOrganizationSettings(authResult.organizationId);
+    const job = await enqueueTranscriptionJob(
+      { organizationId: authResult.organizationId, userId: authResult.userId },
+      file,
+      resolvePipelineMode(requestedMode, settings.pipelineMode),
+      requestedLanguage ?? pipelineConfig.language
+    );
+
+    return NextResponse.json(
+      { jobId: job.id, status: job.status, fileName: job.fileName },
+      { status: 202 }
+    );
   } catch (error: unknown) {
     console.error('[Transcribe] Error:', error);
     const message = error instanceof Error ? error.message : 'Failed to process the media file.';
@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/auth-utils';
+import { hasRole } from '@/lib/organizations/roles';
+import { deleteSegmentComment, getSegmentComment, setSegmentCommentResolved } from '@/lib/library/repository';
+
+export const dynamic = 'force-dynamic';
+
+interface RouteContext {
+  params: Promise<{ id: string; commentId: string }>;
+}
+
+/**
+ * PATCH /api/transcriptions/:id/comments/:commentId
+ * Resolve or reopen a thread: { resolved }
+ */
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  const authResult = await requireAuth({ role: 'reviewer' });
+  if (!authResult.authorized) {
+    return authResult.response;
+  }
+
+  try {
+    const { id, commentId } = await params;
+    const body = await request.json();
+
+    if (typeof body.resolved !== 'boolean') {
+      return NextResponse.json({ error: 'Missing resolved' }, { status: 400 });
+    }
+
+    const comment = await setSegmentCommentResolved(
+      authResult.organizationId,
+      id,
+      commentId,
+      body.resolved ? authResult.userId : null
+    );
+
+    if (!comment) {
+      return NextResponse.json({ error: 'Comment thread not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(comment);
+  } catch (error: unknown) {
+    console.error('[Comments] Error:', error);
+    const message = error instanceof Error ? error.message : 'Failed to update comment';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
+
+/**
+ * DELETE /api/transcriptions/:id/comments/:commentId
+ * Authors delete their own comments, owners any comment; replies go with the thread
+ */
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  const authResult = await requireAuth({ role: 'reviewer' });
+  if (!authResult.authorized) {
+    return authResult.response;
+  }
+
+  try {
+    const { id, commentId } = await params;
+
+    const comment = await getSegmentComment(authResult.organizationId, id, commentId);
+    if (!comment) {
+      return NextResponse.json({ error: 'Comment not found' }, { status: 404 });
+    }
+
+    if (comment.authorId !== authResult.userId && !hasRole(authResult.role, 'owner')) {
+      return NextResponse.json({ error: 'Only the author or an owner can delete a comment' }, { status: 403 });
+    }
+
+    await deleteSegmentComment(authResult.organizationId, id, commentId);
+    return NextResponse.json({ success: true });
+  } catch (error: unknown) {
+    console.error('[Comments] Error:', error);
+    const message = error instanceof Error ? error.message : 'Failed to delete comment';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/auth-utils';
+import { addSegmentComment } from '@/lib/library/repository';
+import { isCommentRange, MAX_COMMENT_LENGTH } from '@/lib/editor/comments';
+
+export const dynamic = 'force-dynamic';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * POST /api/transcriptions/:id/comments
+ * Comment on a segment: { segmentId, text, range? }, or reply to a thread: { parentId, text }
+ * Comments can be added in any workflow state.
+ */
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  const authResult = await requireAuth({ role: 'reviewer' });
+  if (!authResult.authorized) {
+    return authResult.response;
+  }
+
+  try {
+    const { id } = await params;
+    const body = await request.json();
+    const text = typeof body.text === 'string' ? body.text.trim() : '';
+    const parentId = typeof body.parentId === 'string' ? body.parentId : undefined;
+
+    if (!text || text.length > MAX_COMMENT_LENGTH) {
+      return NextResponse.json(
+        { error: `Comment text is required (up to ${MAX_COMMENT_LENGTH} characters)` },
+        { status: 400 }
+      );
+    }
+
+    if (!parentId && (typeof body.segmentId !== 'string' || !body.segmentId)) {
+      return NextResponse.json({ error: 'Missing segmentId' }, { status: 400 });
+    }
+
+    if (body.range != null && !isCommentRange(body.range)) {
+      return NextResponse.json({ error: 'Invalid range' }, { status: 400 });
+    }
+
+    const comment = await addSegmentComment(authResult.organizationId, id, {
+      segmentId: body.segmentId,
+      parentId,
+      text,
+      range: body.range ?? undefined,
+      userId: authResult.userId,
+    });
+
+    if (!comment) {
+      return NextResponse.json({ error: 'Transcription or comment not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(comment, { status: 201 });
+  } catch (error: unknown) {
+    console.error('[Comments] Error:', error);
+    const message = error instanceof Error ? error.message : 'Failed to add comment';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
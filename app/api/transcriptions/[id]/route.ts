@@ -0,0 +1,126 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/auth-utils';
+import { hasRole } from '@/lib/organizations/roles';
+import {
+  deleteTranscription,
+  getTranscription,
+  getTranscriptionWorkflow,
+  updateTranscription,
+  type UpdateTranscriptionInput,
+} from '@/lib/library/repository';
+
+export const dynamic = 'force-dynamic';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * GET /api/transcriptions/:id
+ * Full transcription with segments and editor state
+ */
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  const authResult = await requireAuth();
+  if (!authResult.authorized) {
+    return authResult.response;
+  }
+
+  try {
+    const { id } = await params;
+    const transcription = await getTranscription(authResult.organizationId, id);
+
+    if (!transcription) {
+      return NextResponse.json({ error: 'Transcription not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(transcription);
+  } catch (error: unknown) {
+    console.error('[Library] Error:', error);
+    const message = error instanceof Error ? error.message : 'Failed to load transcription';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
+
+/**
+ * PATCH /api/transcriptions/:id
+ * Update the file name and/or editor state
+ * Reviewers can save editor state; renaming requires the editor role. The
+ * editor state can only change while the transcription is a draft.
+ */
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  const authResult = await requireAuth({ role: 'reviewer' });
+  if (!authResult.authorized) {
+    return authResult.response;
+  }
+
+  try {
+    const { id } = await params;
+    const body: UpdateTranscriptionInput = await request.json();
+
+    if (body.fileName !== undefined && (typeof body.fileName !== 'string' || !body.fileName.trim())) {
+      return NextResponse.json({ error: 'Invalid fileName' }, { status: 400 });
+    }
+
+    if (body.fileName !== undefined && !hasRole(authResult.role, 'editor')) {
+      return NextResponse.json({ error: 'This action requires the editor role' }, { status: 403 });
+    }
+
+    if (
+      body.editorState !== undefined &&
+      (!Array.isArray(body.editorState?.approvals) ||
+        (body.editorState.segments !== undefined && !Array.isArray(body.editorState.segments)))
+    ) {
+      return NextResponse.json({ error: 'Invalid editorState' }, { status: 400 });
+    }
+
+    if (body.editorState !== undefined) {
+      const workflow = await getTranscriptionWorkflow(authResult.organizationId, id);
+      if (workflow && workflow.state !== 'draft') {
+        return NextResponse.json(
+          { error: `Transcription is ${workflow.state}; send it back to draft to edit it` },
+          { status: 409 }
+        );
+      }
+    }
+
+    const updated = await updateTranscription(authResult.organizationId, id, {
+      fileName: body.fileName,
+      editorState: body.editorState,
+    });
+
+    if (!updated) {
+      return NextResponse.json({ error: 'Transcription not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error: unknown) {
+    console.error('[Library] Error:', error);
+    const message = error instanceof Error ? error.message : 'Failed to update transcription';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
+
+/**
+ * DELETE /api/transcriptions/:id
+ */
+export async function DELETE(_request: NextRequest, { params }: RouteContext) {
+  const authResult = await requireAuth({ role: 'editor' });
+  if (!authResult.authorized) {
+    return authResult.response;
+  }
+
+  try {
+    const { id } = await params;
+    const deleted = await deleteTranscription(authResult.organizationId, id);
+
+    if (!deleted) {
+      return NextResponse.json({ error: 'Transcription not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error: unknown) {
+    console.error('[Library] Error:', error);
+    const message = error instanceof Error ? error.message : 'Failed to delete transcription';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/auth-utils';
+import { findSpeakerCandidates } from '@/lib/organizations/roster';
+
+export const dynamic = 'force-dynamic';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * GET /api/transcriptions/:id/speaker-suggestions
+ * Roster speakers whose voice matches the transcription's diarized speakers, best first
+ */
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  const authResult = await requireAuth();
+  if (!authResult.authorized) {
+    return authResult.response;
+  }
+
+  try {
+    const { id } = await params;
+
+    const candidates = await findSpeakerCandidates(authResult.organizationId, id);
+    if (!candidates) {
+      return NextResponse.json({ error: 'Transcription not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ suggestions: candidates });
+  } catch (error: unknown) {
+    console.error('[Roster] Error:', error);
+    const message = error instanceof Error ? error.message : 'Failed to suggest speakers';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
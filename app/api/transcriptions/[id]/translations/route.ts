@@ -0,0 +1,100 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/auth-utils';
+import { AUTO_DETECT_LANGUAGE, isTranscriptionLanguage } from '@/lib/ai/languages';
+import { getCurrentSegmentTexts, translateSegmentTexts } from '@/lib/ai/translation';
+import { deleteTranslation, getTranscription, saveTranslation } from '@/lib/library/repository';
+
+// Long transcriptions are translated in several model requests
+export const maxDuration = 600;
+export const dynamic = 'force-dynamic';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * POST /api/transcriptions/:id/translations
+ * Translate the current segment texts into `language`, replacing an earlier translation
+ */
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  const authResult = await requireAuth({ role: 'editor' });
+  if (!authResult.authorized) {
+    return authResult.response;
+  }
+
+  try {
+    const { id } = await params;
+    const body = await request.json();
+
+    if (!isTranscriptionLanguage(body.language) || body.language === AUTO_DETECT_LANGUAGE) {
+      return NextResponse.json({ error: `Unsupported language: ${body.language}` }, { status: 400 });
+    }
+
+    const transcription = await getTranscription(authResult.organizationId, id);
+    if (!transcription) {
+      return NextResponse.json({ error: 'Transcription not found' }, { status: 404 });
+    }
+
+    const segments = transcription.metadata?.structuredData?.segments ?? [];
+    if (segments.length === 0) {
+      return NextResponse.json({ error: 'Transcription has no segments to translate' }, { status: 400 });
+    }
+
+    const sourceLanguage = transcription.metadata?.languageCode ??
+      (transcription.metadata?.language !== AUTO_DETECT_LANGUAGE ? transcription.metadata?.language : undefined);
+
+    const current = getCurrentSegmentTexts(segments, transcription.metadata?.editorState);
+    const translated = await translateSegmentTexts(
+      current.map(segment => segment.text),
+      body.language,
+      sourceLanguage
+    );
+
+    const translation = await saveTranslation(authResult.organizationId, id, {
+      language: body.language,
+      segments: Object.fromEntries(current.map((segment, index) => [segment.segmentId, translated.segments[index]])),
+      sourceTexts: Object.fromEntries(current.map(segment => [segment.segmentId, segment.text])),
+      model: translated.model,
+    });
+
+    if (!translation) {
+      return NextResponse.json({ error: 'Transcription not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(translation);
+  } catch (error: unknown) {
+    console.error('[Translation] Error:', error);
+    const message = error instanceof Error ? error.message : 'Failed to translate transcription';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
+
+/**
+ * DELETE /api/transcriptions/:id/translations?language=en
+ */
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  const authResult = await requireAuth({ role: 'editor' });
+  if (!authResult.authorized) {
+    return authResult.response;
+  }
+
+  try {
+    const { id } = await params;
+    const language = request.nextUrl.searchParams.get('language');
+
+    if (!language) {
+      return NextResponse.json({ error: 'Missing language' }, { status: 400 });
+    }
+
+    const deleted = await deleteTranslation(authResult.organizationId, id, language);
+    if (!deleted) {
+      return NextResponse.json({ error: 'Translation not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error: unknown) {
+    console.error('[Translation] Error:', error);
+    const message = error instanceof Error ? error.message : 'Failed to delete translation';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/auth-utils';
+import { hasRole } from '@/lib/organizations/roles';
+import { getOrganizationSettings } from '@/lib/organizations/settings';
+import { getTranscriptionWorkflow, transitionWorkflow } from '@/lib/library/repository';
+import { DEFAULT_WORKFLOW, getWorkflowTransitions, isWorkflowState } from '@/lib/library/workflow';
+
+export const dynamic = 'force-dynamic';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * POST /api/transcriptions/:id/workflow
+ * Move a transcription to another workflow state: { to, comment? }
+ * The role needed depends on the organization's workflow stages; sending a
+ * transcription back requires a comment.
+ */
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  const authResult = await requireAuth();
+  if (!authResult.authorized) {
+    return authResult.response;
+  }
+
+  try {
+    const { id } = await params;
+    const body = await request.json();
+    const comment = typeof body.comment === 'string' ? body.comment.trim() : '';
+
+    if (!isWorkflowState(body.to)) {
+      return NextResponse.json({ error: `Unknown workflow state: ${body.to}` }, { status: 400 });
+    }
+
+    const workflow = await getTranscriptionWorkflow(authResult.organizationId, id);
+    if (!workflow) {
+      return NextResponse.json({ error: 'Transcription not found' }, { status: 404 });
+    }
+
+    const settings = await getOrganizationSettings(authResult.organizationId);
+    const transition = getWorkflowTransitions(workflow.state, settings.workflow ?? DEFAULT_WORKFLOW)
+      .find(item => item.to === body.to);
+
+    if (!transition) {
+      return NextResponse.json(
+        { error: `Cannot move a transcription from ${workflow.state} to ${body.to}` },
+        { status: 409 }
+      );
+    }
+
+    if (!hasRole(authResult.role, transition.role)) {
+      return NextResponse.json({ error: `This action requires the ${transition.role} role` }, { status: 403 });
+    }
+
+    if (transition.kind === 'sendBack' && !comment) {
+      return NextResponse.json({ error: 'A comment is required when sending a transcription back' }, { status: 400 });
+    }
+
+    const updated = await transitionWorkflow(authResult.organizationId, id, {
+      from: workflow.state,
+      to: transition.to,
+      userId: authResult.userId,
+      comment: comment || undefined,
+    });
+
+    if (!updated) {
+      return NextResponse.json({ error: 'The workflow state was changed by someone else' }, { status: 409 });
+    }
+
+    return NextResponse.json(updated);
+  } catch (error: unknown) {
+    console.error('[Workflow] Error:', error);
+    const message = error instanceof Error ? error.message : 'Failed to change workflow state';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
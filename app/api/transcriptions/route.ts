@@ -0,0 +1,100 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { Prisma } from '@prisma/client';
+import { requireAuth } from '@/lib/auth-utils';
+import {
+  createTranscription,
+  deleteAllTranscriptions,
+  listTranscriptions,
+  type CreateTranscriptionInput,
+} from '@/lib/library/repository';
+import { isWorkflowState } from '@/lib/library/workflow';
+import { parseListCursor } from '@/lib/library/cursor';
+import { hasRole } from '@/lib/organizations/roles';
+
+export const dynamic = 'force-dynamic';
+
+const MAX_PAGE_SIZE = 100;
+
+/**
+ * GET /api/transcriptions?cursor=<cursor>&limit=<n>&state=<workflow state>
+ * List the organization's transcriptions, newest first
+ */
+export async function GET(request: NextRequest) {
+  const authResult = await requireAuth();
+  if (!authResult.authorized) {
+    return authResult.response;
+  }
+
+  try {
+    const { searchParams } = request.nextUrl;
+    const cursor = parseListCursor(searchParams.get('cursor'));
+    const limit = Math.min(Number(searchParams.get('limit')) || 20, MAX_PAGE_SIZE);
+    const state = searchParams.get('state');
+
+    if (state !== null && !isWorkflowState(state)) {
+      return NextResponse.json({ error: `Unknown workflow state: ${state}` }, { status: 400 });
+    }
+
+    return NextResponse.json(await listTranscriptions(authResult.organizationId, cursor, limit, state ?? undefined));
+  } catch (error: unknown) {
+    console.error('[Library] Error:', error);
+    const message = error instanceof Error ? error.message : 'Failed to load transcriptions';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/transcriptions
+ * Save a transcription to the library (e.g. one that so far only existed in the browser)
+ */
+export async function POST(request: NextRequest) {
+  const authResult = await requireAuth({ role: 'editor' });
+  if (!authResult.authorized) {
+    return authResult.response;
+  }
+
+  try {
+    const body: CreateTranscriptionInput = await request.json();
+
+    if (typeof body.fileName !== 'string' || typeof body.text !== 'string') {
+      return NextResponse.json({ error: 'fileName and text are required' }, { status: 400 });
+    }
+
+    // Entries finalized in the browser before the workflow count as reviewed,
+    // but only owners may skip the reviewer that way
+    const transcription = await createTranscription(
+      { organizationId: authResult.organizationId, userId: authResult.userId },
+      body,
+      hasRole(authResult.role, 'owner')
+    );
+    return NextResponse.json(transcription, { status: 201 });
+  } catch (error: unknown) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      return NextResponse.json({ error: 'Transcription already exists' }, { status: 409 });
+    }
+
+    console.error('[Library] Error:', error);
+    const message = error instanceof Error ? error.message : 'Failed to save transcription';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
+
+/**
+ * DELETE /api/transcriptions
+ * Delete all of the organization's transcriptions
+ */
+export async function DELETE() {
+  const authResult = await requireAuth({ role: 'owner' });
+  if (!authResult.authorized) {
+    return authResult.response;
+  }
+
+  try {
+    const deleted = await deleteAllTranscriptions(authResult.organizationId);
+    return NextResponse.json({ deleted });
+  } catch (error: unknown) {
+    console.error('[Library] Error:', error);
+    const message = error instanceof Error ? error.message : 'Failed to delete transcriptions';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
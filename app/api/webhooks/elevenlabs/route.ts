@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { ElevenLabsClient } from '@elevenlabs/elevenlabs-js';
 import { transcriptionStore } from '@/lib/transcription-store';
+import { storageConfig } from '@/lib/config';
 
 /**
  * ElevenLabs webhook event structure (actual payload format)
@@ -101,10 +102,15 @@ export async function POST(request: NextRequest) {
       const normalizedId = request_id.toLowerCase();
 
       // Store the transcription result as-is (no conversion needed)
-      transcriptionStore.complete(normalizedId, {
+      await transcriptionStore.complete(normalizedId, {
         transcription,
       });
 
+      // Opportunistically drop old finished entries
+      transcriptionStore
+        .purgeExpired(storageConfig.transcriptionStoreTtlMs)
+        .catch(error => console.warn('[ElevenLabs Webhook] Failed to purge expired entries:', error));
+
       // Return success response
       return NextResponse.json({
         received: true,
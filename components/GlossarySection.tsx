@@ -0,0 +1,144 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { BookOpen, Plus, Trash2, Loader2, Save } from 'lucide-react';
+import { useTranslations } from '@/contexts/TranslationsContext';
+import { normalizeGlossary, type GlossaryTerm } from '@/lib/ai/glossary';
+
+interface GlossarySectionProps {
+  glossary: GlossaryTerm[];
+  canEdit: boolean;
+  onSave: (glossary: GlossaryTerm[]) => Promise<void>;
+}
+
+/** A glossary term being edited, with its aliases as typed */
+interface DraftTerm {
+  term: string;
+  aliases: string;
+  note: string;
+}
+
+function toDraft(glossary: GlossaryTerm[]): DraftTerm[] {
+  return glossary.map(({ term, aliases, note }) => ({ term, aliases: aliases.join(', '), note: note ?? '' }));
+}
+
+function fromDraft(draft: DraftTerm[]): GlossaryTerm[] {
+  return normalizeGlossary(draft.map(({ term, aliases, note }) => ({
+    term,
+    aliases: aliases.split(','),
+    note,
+  })));
+}
+
+export default function GlossarySection({ glossary, canEdit, onSave }: GlossarySectionProps) {
+  const { t } = useTranslations();
+  const [draft, setDraft] = useState<DraftTerm[]>(() => toDraft(glossary));
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Reset the draft when the saved glossary changes (compared by value)
+  const savedGlossary = JSON.stringify(normalizeGlossary(glossary));
+  useEffect(() => {
+    setDraft(toDraft(JSON.parse(savedGlossary)));
+  }, [savedGlossary]);
+
+  const isDirty = JSON.stringify(fromDraft(draft)) !== savedGlossary;
+
+  const updateTerm = (index: number, changes: Partial<DraftTerm>) => {
+    setDraft(prev => prev.map((item, i) => i === index ? { ...item, ...changes } : item));
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      await onSave(fromDraft(draft));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const inputClassName = 'w-full px-3 py-2 rounded-lg border border-slate-200 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:bg-slate-50';
+
+  return (
+    <section className="bg-white rounded-xl border border-slate-200 shadow-sm">
+      <div className="px-6 py-4 border-b border-slate-100">
+        <h2 className="text-lg font-semibold text-slate-900 flex items-center gap-2">
+          <BookOpen className="w-5 h-5 text-slate-500" />
+          {t.organization?.glossary || 'Glossary'} ({glossary.length})
+        </h2>
+        <p className="text-sm text-slate-500 mt-1">
+          {t.organization?.glossaryDescription || 'Preferred spellings of councilors, streets and local bodies. Providers are given the terms, and aliases are replaced with the preferred spelling in new transcriptions.'}
+        </p>
+      </div>
+
+      {draft.length > 0 && (
+        <div className="px-6 py-4 space-y-2">
+          <div className="hidden sm:grid sm:grid-cols-[1fr_1.5fr_1fr_auto] gap-2 text-xs font-medium text-slate-500 uppercase tracking-wide">
+            <span>{t.organization?.glossaryTerm || 'Preferred spelling'}</span>
+            <span>{t.organization?.glossaryAliases || 'Aliases (comma separated)'}</span>
+            <span>{t.organization?.glossaryNote || 'Note'}</span>
+            <span className="w-8" />
+          </div>
+          {draft.map((item, index) => (
+            <div key={index} className="grid grid-cols-1 sm:grid-cols-[1fr_1.5fr_1fr_auto] gap-2 items-center">
+              <input
+                type="text"
+                value={item.term}
+                onChange={(e) => updateTerm(index, { term: e.target.value })}
+                disabled={!canEdit}
+                placeholder={t.organization?.glossaryTermPlaceholder || 'e.g. Δήμος Παλλήνης'}
+                className={inputClassName}
+              />
+              <input
+                type="text"
+                value={item.aliases}
+                onChange={(e) => updateTerm(index, { aliases: e.target.value })}
+                disabled={!canEdit}
+                placeholder={t.organization?.glossaryAliasesPlaceholder || 'e.g. Δήμο Πολλήνης, Δήμος Παληνης'}
+                className={inputClassName}
+              />
+              <input
+                type="text"
+                value={item.note}
+                onChange={(e) => updateTerm(index, { note: e.target.value })}
+                disabled={!canEdit}
+                placeholder={t.organization?.glossaryNotePlaceholder || 'e.g. municipality'}
+                className={inputClassName}
+              />
+              {canEdit ? (
+                <button
+                  onClick={() => setDraft(prev => prev.filter((_, i) => i !== index))}
+                  className="p-2 rounded-lg text-slate-400 hover:text-red-600 hover:bg-red-50 transition-colors justify-self-end"
+                  title={t.organization?.remove || 'Remove'}
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              ) : (
+                <span className="w-8" />
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {canEdit && (
+        <div className="px-6 py-4 border-t border-slate-100 flex flex-col sm:flex-row gap-2 sm:justify-between">
+          <button
+            onClick={() => setDraft(prev => [...prev, { term: '', aliases: '', note: '' }])}
+            className="px-4 py-2 bg-white border border-slate-200 text-sm font-medium text-slate-700 rounded-lg hover:bg-slate-50 transition-colors flex items-center justify-center gap-2"
+          >
+            <Plus className="w-4 h-4" />
+            {t.organization?.glossaryAdd || 'Add term'}
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={!isDirty || isSaving}
+            className="px-4 py-2 bg-blue-600 text-white text-sm font-medium rounded-lg hover:bg-blue-700 transition-colors flex items-center justify-center gap-2 disabled:opacity-50"
+          >
+            {isSaving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Save className="w-4 h-4" />}
+            {t.organization?.glossarySave || 'Save glossary'}
+          </button>
+        </div>
+      )}
+    </section>
+  );
+}
@@ -4,23 +4,26 @@ import React, { useState } from 'react';
 import Link from 'next/link';
 import { usePathname } from 'next/navigation';
 import { useSession, signOut } from 'next-auth/react';
-import { Library, Menu, X, LogIn, LogOut, FileAudio } from 'lucide-react';
+import { Library, Menu, X, LogIn, LogOut, FileAudio, Building2 } from 'lucide-react';
 import Logo from './Logo';
 import { LanguageToggle } from './LanguageToggle';
 import { useTranslations } from '@/contexts/TranslationsContext';
 import { localePath } from '@/i18n/config';
+import { useOrganization } from '@/lib/hooks/useOrganization';
 
 export const Header: React.FC = () => {
   const { t, lang } = useTranslations();
   const pathname = usePathname();
   const { data: session, status } = useSession();
   const [mobileMenuOpen, setMobileMenuOpen] = useState(false);
+  const { organizations, active, switchTo } = useOrganization();
 
   const isAuthenticated = status === 'authenticated';
 
   const navItems = [
     { href: localePath('/transcribe', lang), label: t.header.transcribe, icon: FileAudio },
     { href: localePath('/library', lang), label: t.header.library, icon: Library },
+    { href: localePath('/organization', lang), label: t.header.organization || 'Organization', icon: Building2 },
   ];
 
   const handleSignOut = async () => {
@@ -58,6 +61,21 @@ export const Header: React.FC = () => {
         <div className="flex items-center gap-2">
           <LanguageToggle currentLang={lang} />
 
+          {isAuthenticated && organizations.length > 1 && (
+            <select
+              value={active?.organizationId ?? ''}
+              onChange={(e) => switchTo(e.target.value)}
+              className="hidden md:block max-w-48 px-3 py-2 rounded-lg border border-slate-200 bg-white text-sm text-slate-700 focus:outline-none focus:ring-2 focus:ring-blue-500"
+              aria-label={t.header.switchOrganization || 'Switch organization'}
+            >
+              {organizations.map((org) => (
+                <option key={org.organizationId} value={org.organizationId}>
+                  {org.organizationName}
+                </option>
+              ))}
+            </select>
+          )}
+
           {status === 'loading' ? (
             <div className="hidden md:block w-24 h-10 rounded-lg bg-slate-100 animate-pulse" />
           ) : isAuthenticated ? (
@@ -109,6 +127,21 @@ export const Header: React.FC = () => {
               );
             })}
 
+            {isAuthenticated && organizations.length > 1 && (
+              <select
+                value={active?.organizationId ?? ''}
+                onChange={(e) => switchTo(e.target.value)}
+                className="mx-4 my-2 px-3 py-2 rounded-lg border border-slate-200 bg-white text-sm text-slate-700"
+                aria-label={t.header.switchOrganization || 'Switch organization'}
+              >
+                {organizations.map((org) => (
+                  <option key={org.organizationId} value={org.organizationId}>
+                    {org.organizationName}
+                  </option>
+                ))}
+              </select>
+            )}
+
             {isAuthenticated ? (
               <button
                 onClick={() => {
@@ -1,7 +1,8 @@
 import React, { useState, useRef } from 'react';
-import { UploadCloud, Youtube, FileAudio, Info } from 'lucide-react';
+import { UploadCloud, Youtube, FileAudio, Info, Languages } from 'lucide-react';
 import { UploadConfig } from '../types';
 import { featureFlags } from '@/lib/config';
+import { AUTO_DETECT_LANGUAGE, TRANSCRIPTION_LANGUAGES } from '@/lib/ai/languages';
 import { useTranslations } from '@/contexts/TranslationsContext';
 
 interface InputSectionProps {
@@ -14,6 +15,7 @@ export const InputSection: React.FC<InputSectionProps> = ({ onStartProcessing, i
   const [activeTab, setActiveTab] = useState<'file' | 'url'>('file');
   const [url, setUrl] = useState('');
   const [dragActive, setDragActive] = useState(false);
+  const [language, setLanguage] = useState(TRANSCRIPTION_LANGUAGES[0].code);
   const fileInputRef = useRef<HTMLInputElement>(null);
   const isYoutubeDisabled = featureFlags.disableYouTube;
 
@@ -43,13 +45,13 @@ export const InputSection: React.FC<InputSectionProps> = ({ onStartProcessing, i
   };
 
   const handleFile = (file: File) => {
-    onStartProcessing({ file, youtubeUrl: '', mode: 'file' });
+    onStartProcessing({ file, youtubeUrl: '', mode: 'file', language });
   };
 
   const handleUrlSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     if (!url) return;
-    onStartProcessing({ file: null, youtubeUrl: url, mode: 'url' });
+    onStartProcessing({ file: null, youtubeUrl: url, mode: 'url', language });
   };
 
   return (
@@ -92,6 +94,28 @@ export const InputSection: React.FC<InputSectionProps> = ({ onStartProcessing, i
           </button>
         </div>
 
+        {/* Spoken language */}
+        <div className="flex items-center justify-between gap-3 px-8 pt-6">
+          <label htmlFor="transcription-language" className="flex items-center gap-2 text-sm font-medium text-slate-700">
+            <Languages className="w-4 h-4 text-slate-500" />
+            {t.inputSection?.language || 'Spoken language'}
+          </label>
+          <select
+            id="transcription-language"
+            value={language}
+            onChange={(e) => setLanguage(e.target.value)}
+            disabled={isProcessing}
+            className="px-3 py-1.5 border border-slate-200 rounded-lg text-sm text-slate-900 bg-white focus:outline-none focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500 disabled:opacity-50"
+          >
+            {TRANSCRIPTION_LANGUAGES.map((option) => (
+              <option key={option.code} value={option.code}>
+                {option.nativeName}
+              </option>
+            ))}
+            <option value={AUTO_DETECT_LANGUAGE}>{t.inputSection?.autoDetect || 'Auto-detect'}</option>
+          </select>
+        </div>
+
         {/* Content */}
         <div className="p-8">
           {activeTab === 'file' ? (
@@ -15,7 +15,8 @@ import {
   Hash,
   Clock
 } from 'lucide-react';
-import { SavedTranscription, deleteTranscription } from '@/lib/transcriptionStorage';
+import { SavedTranscription } from '@/lib/transcriptionStorage';
+import { removeTranscription } from '@/lib/library/client';
 import { calculateTranscriptionCost } from '@/lib/pricing/calculator';
 import { useTranslations } from '@/contexts/TranslationsContext';
 import { localePath } from '@/i18n/config';
@@ -58,7 +59,7 @@ export default function LegacyTranscriptView({
 
   const confirmDelete = async () => {
     setIsDeleting(true);
-    await deleteTranscription(transcription.id);
+    await removeTranscription(transcription.id);
     router.push(localePath('/library', lang));
   };
 
@@ -1,19 +1,24 @@
 'use client';
 
-import { useState, useEffect, useCallback } from 'react';
-import { History, Trash2, FileText, Loader2 } from 'lucide-react';
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { History, Trash2, FileText, FileUp, Loader2 } from 'lucide-react';
 import { TranscriptionCard } from '@/components/TranscriptionCard';
 import ConfirmDialog from '@/components/ConfirmDialog';
+import { WORKFLOW_STATE_LABELS } from '@/components/shared/WorkflowBadge';
+import { TranscriptionListItem, migrateFromLocalStorage } from '@/lib/transcriptionStorage';
 import {
-  TranscriptionListItem,
-  getTranscriptionList,
-  deleteTranscription,
-  clearAllTranscriptions,
-  migrateFromLocalStorage
-} from '@/lib/transcriptionStorage';
+  fetchTranscriptionList,
+  importTranscription,
+  removeTranscription,
+  removeAllTranscriptions,
+  syncLocalTranscriptions,
+} from '@/lib/library/client';
+import { WORKFLOW_STATES, type WorkflowState } from '@/lib/library/workflow';
+import { parseTranscriptData } from '@/lib/export/transcriptData';
 import Link from 'next/link';
 import { useTranslations } from '@/contexts/TranslationsContext';
 import { localePath } from '@/i18n/config';
+import { useOrganization } from '@/lib/hooks/useOrganization';
 
 const PAGE_SIZE = 20;
 
@@ -22,41 +27,73 @@ export default function LibraryPageClient() {
   const [transcriptions, setTranscriptions] = useState<TranscriptionListItem[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [isLoadingMore, setIsLoadingMore] = useState(false);
-  const [nextCursor, setNextCursor] = useState<number | null>(null);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
   const [total, setTotal] = useState(0);
   const [showClearAllDialog, setShowClearAllDialog] = useState(false);
+  /** Workflow state shown, or null for all */
+  const [stateFilter, setStateFilter] = useState<WorkflowState | null>(null);
+  const [isInitialized, setIsInitialized] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+  const [importError, setImportError] = useState<string | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const { can } = useOrganization();
 
   useEffect(() => {
     initializeAndLoad();
   }, []);
 
+  useEffect(() => {
+    if (isInitialized) loadTranscriptions();
+  }, [stateFilter]);
+
   const initializeAndLoad = async () => {
     setIsLoading(true);
     await migrateFromLocalStorage();
+    // Upload transcriptions that so far only exist in this browser
+    await syncLocalTranscriptions();
     await loadTranscriptions();
+    setIsInitialized(true);
+  };
+
+  const showLoadError = (error: unknown) => {
+    console.error('[Library] Failed to load transcriptions:', error);
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    setLoadError(`${t.library?.loadFailed || 'Failed to load transcriptions'}: ${message}`);
   };
 
   const loadTranscriptions = async () => {
     setIsLoading(true);
-    const result = await getTranscriptionList(undefined, PAGE_SIZE);
-    setTranscriptions(result.items);
-    setNextCursor(result.nextCursor);
-    setTotal(result.total);
-    setIsLoading(false);
+    setLoadError(null);
+    try {
+      const result = await fetchTranscriptionList(undefined, PAGE_SIZE, stateFilter ?? undefined);
+      setTranscriptions(result.items);
+      setNextCursor(result.nextCursor);
+      setTotal(result.total);
+    } catch (error) {
+      showLoadError(error);
+    } finally {
+      setIsLoading(false);
+    }
   };
 
   const loadMore = useCallback(async () => {
     if (!nextCursor || isLoadingMore) return;
 
     setIsLoadingMore(true);
-    const result = await getTranscriptionList(nextCursor, PAGE_SIZE);
-    setTranscriptions(prev => [...prev, ...result.items]);
-    setNextCursor(result.nextCursor);
-    setIsLoadingMore(false);
-  }, [nextCursor, isLoadingMore]);
+    try {
+      const result = await fetchTranscriptionList(nextCursor, PAGE_SIZE, stateFilter ?? undefined);
+      setTranscriptions(prev => [...prev, ...result.items]);
+      setNextCursor(result.nextCursor);
+    } catch (error) {
+      showLoadError(error);
+    } finally {
+      setIsLoadingMore(false);
+    }
+  }, [nextCursor, isLoadingMore, stateFilter]);
 
   const handleDelete = async (id: string) => {
-    await deleteTranscription(id);
+    await removeTranscription(id);
     setTranscriptions(prev => prev.filter(item => item.id !== id));
     setTotal(prev => prev - 1);
   };
@@ -66,13 +103,34 @@ export default function LibraryPageClient() {
   };
 
   const confirmClearAll = async () => {
-    await clearAllTranscriptions();
+    await removeAllTranscriptions();
     setTranscriptions([]);
     setNextCursor(null);
     setTotal(0);
     setShowClearAllDialog(false);
   };
 
+  // Import a transcript data file (JSON export) as a new library entry
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    setIsImporting(true);
+    setImportError(null);
+    try {
+      const transcription = parseTranscriptData(JSON.parse(await file.text()));
+      await importTranscription(transcription);
+      await loadTranscriptions();
+    } catch (error) {
+      console.error('[Library] Import failed:', error);
+      const message = error instanceof SyntaxError ? 'Invalid JSON' : error instanceof Error ? error.message : 'Import failed';
+      setImportError(`${t.library?.importFailed || 'Import failed'}: ${message}`);
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
   const hasMore = nextCursor !== null;
 
   return (
@@ -102,22 +160,81 @@ export default function LibraryPageClient() {
             </div>
           </div>
 
-          {transcriptions.length > 0 && (
-            <button
-              onClick={handleClearAll}
-              className="px-4 py-2 text-sm font-medium text-red-600 hover:text-red-700 hover:bg-red-50 rounded-lg transition-colors flex items-center gap-2"
-            >
-              <Trash2 className="w-4 h-4" />
-              <span className="hidden sm:inline">{t.library.delete}</span>
-            </button>
-          )}
+          <div className="flex items-center gap-2">
+            {can('editor') && (
+              <>
+                <input
+                  ref={importInputRef}
+                  type="file"
+                  accept=".json,application/json"
+                  onChange={handleImport}
+                  className="hidden"
+                />
+                <button
+                  onClick={() => importInputRef.current?.click()}
+                  disabled={isImporting}
+                  className="px-4 py-2 text-sm font-medium text-slate-600 hover:text-slate-800 hover:bg-slate-100 rounded-lg transition-colors flex items-center gap-2 disabled:opacity-50"
+                  title={t.library?.importDesc || 'Import a JSON transcript data export'}
+                >
+                  {isImporting ? <Loader2 className="w-4 h-4 animate-spin" /> : <FileUp className="w-4 h-4" />}
+                  <span className="hidden sm:inline">{t.library?.import || 'Import'}</span>
+                </button>
+              </>
+            )}
+            {transcriptions.length > 0 && can('owner') && (
+              <button
+                onClick={handleClearAll}
+                className="px-4 py-2 text-sm font-medium text-red-600 hover:text-red-700 hover:bg-red-50 rounded-lg transition-colors flex items-center gap-2"
+              >
+                <Trash2 className="w-4 h-4" />
+                <span className="hidden sm:inline">{t.library.delete}</span>
+              </button>
+            )}
+          </div>
         </div>
 
+        {importError && (
+          <div className="mb-6 px-4 py-3 rounded-lg bg-red-50 border border-red-200 text-sm text-red-700">
+            {importError}
+          </div>
+        )}
+
+        {loadError && (
+          <div className="mb-6 px-4 py-3 rounded-lg bg-red-50 border border-red-200 text-sm text-red-700">
+            {loadError}
+          </div>
+        )}
+
+        {/* Workflow state filter */}
+        {(transcriptions.length > 0 || stateFilter) && (
+          <div className="flex flex-wrap items-center gap-2 mb-6">
+            {[null, ...WORKFLOW_STATES].map((state) => (
+              <button
+                key={state ?? 'all'}
+                onClick={() => setStateFilter(state)}
+                className={`px-3 py-1 rounded-full text-sm font-medium border transition-colors ${
+                  stateFilter === state
+                    ? 'bg-blue-600 text-white border-blue-600'
+                    : 'bg-white text-slate-600 border-slate-200 hover:border-slate-300 hover:bg-slate-50'
+                }`}
+              >
+                {state
+                  ? t.workflow?.states?.[state] || WORKFLOW_STATE_LABELS[state]
+                  : t.workflow?.filterAll || 'All'}
+              </button>
+            ))}
+          </div>
+        )}
+
         {/* Content */}
         {isLoading ? (
           <div className="text-center py-20">
             <div className="text-slate-400">Loading transcriptions...</div>
           </div>
+        ) : transcriptions.length === 0 && stateFilter ? (
+          <div className="text-center py-20 text-slate-500">
+            {t.workflow?.noneInState || 'No transcriptions in this state'}
+          </div>
         ) : transcriptions.length === 0 ? (
           <div className="text-center py-20 animate-in fade-in slide-in-from-bottom-4">
             <div className="w-20 h-20 bg-slate-100 rounded-full flex items-center justify-center mx-auto mb-6">
@@ -0,0 +1,324 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { Building2, Trash2, UserPlus, Loader2, Plus, Settings } from 'lucide-react';
+import ConfirmDialog from '@/components/ConfirmDialog';
+import GlossarySection from '@/components/GlossarySection';
+import SpeakerRosterSection from '@/components/SpeakerRosterSection';
+import WorkflowSection from '@/components/WorkflowSection';
+import { useTranslations } from '@/contexts/TranslationsContext';
+import { useOrganization } from '@/lib/hooks/useOrganization';
+import type { OrganizationMember } from '@/lib/organizations/membership';
+import { ORGANIZATION_ROLES, type OrganizationRole } from '@/lib/organizations/roles';
+import {
+  addMember,
+  createOrganization,
+  fetchMembers,
+  fetchPipelineModes,
+  fetchRosterSpeakers,
+  fetchSettings,
+  removeMember,
+  removeRosterSpeaker,
+  updateMemberRole,
+  updateSettings,
+  type PipelineModeOption,
+} from '@/lib/organizations/client';
+import type { OrganizationSettingsData } from '@/lib/organizations/settings';
+import type { RosterSpeaker } from '@/lib/organizations/roster';
+import type { GlossaryTerm } from '@/lib/ai/glossary';
+import type { WorkflowStage } from '@/lib/library/workflow';
+
+export default function OrganizationPageClient() {
+  const { t } = useTranslations();
+  const { active, isLoading: isOrganizationLoading, can, switchTo } = useOrganization();
+  const [members, setMembers] = useState<OrganizationMember[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [email, setEmail] = useState('');
+  const [role, setRole] = useState<OrganizationRole>('viewer');
+  const [isAdding, setIsAdding] = useState(false);
+  const [newOrganizationName, setNewOrganizationName] = useState('');
+  const [memberToRemove, setMemberToRemove] = useState<OrganizationMember | null>(null);
+  const [settings, setSettings] = useState<OrganizationSettingsData>({});
+  const [pipelineModes, setPipelineModes] = useState<PipelineModeOption[]>([]);
+  const [defaultMode, setDefaultMode] = useState('');
+  const [rosterSpeakers, setRosterSpeakers] = useState<RosterSpeaker[]>([]);
+
+  const isOwner = can('owner');
+  const roleLabel = (value: OrganizationRole) => t.organization?.roles?.[value] || value;
+
+  const loadMembers = useCallback(async () => {
+    try {
+      const [memberList, organizationSettings, providers, roster] = await Promise.all([
+        fetchMembers(),
+        fetchSettings(),
+        fetchPipelineModes(),
+        fetchRosterSpeakers(),
+      ]);
+      setMembers(memberList);
+      setSettings(organizationSettings);
+      setPipelineModes(providers.modes);
+      setDefaultMode(providers.defaultMode);
+      setRosterSpeakers(roster);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load members');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (active) loadMembers();
+  }, [active, loadMembers]);
+
+  const runAction = async (action: () => Promise<void>) => {
+    setError(null);
+    try {
+      await action();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong');
+    }
+  };
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!email.trim()) return;
+
+    setIsAdding(true);
+    await runAction(async () => {
+      const member = await addMember(email.trim(), role);
+      setMembers(prev => [...prev, member]);
+      setEmail('');
+    });
+    setIsAdding(false);
+  };
+
+  const handleRoleChange = (userId: string, newRole: OrganizationRole) => runAction(async () => {
+    await updateMemberRole(userId, newRole);
+    setMembers(prev => prev.map(member => member.userId === userId ? { ...member, role: newRole } : member));
+  });
+
+  const confirmRemove = async () => {
+    if (!memberToRemove) return;
+    const { userId } = memberToRemove;
+    setMemberToRemove(null);
+
+    await runAction(async () => {
+      await removeMember(userId);
+      setMembers(prev => prev.filter(member => member.userId !== userId));
+    });
+  };
+
+  const handlePipelineModeChange = (mode: string) => runAction(async () => {
+    setSettings(await updateSettings({ pipelineMode: mode || null }));
+  });
+
+  const handleGlossarySave = (glossary: GlossaryTerm[]) => runAction(async () => {
+    setSettings(await updateSettings({ glossary: glossary.length > 0 ? glossary : null }));
+  });
+
+  const handleWorkflowSave = (workflow: WorkflowStage[]) => runAction(async () => {
+    setSettings(await updateSettings({ workflow }));
+  });
+
+  const handleRosterSpeakerRemove = (speaker: RosterSpeaker) => runAction(async () => {
+    await removeRosterSpeaker(speaker.id);
+    setRosterSpeakers(prev => prev.filter(item => item.id !== speaker.id));
+  });
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newOrganizationName.trim()) return;
+
+    await runAction(async () => {
+      const organization = await createOrganization(newOrganizationName.trim());
+      await switchTo(organization.organizationId);
+    });
+  };
+
+  return (
+    <div className="flex-1 bg-linear-to-br from-slate-50 via-blue-50/30 to-slate-100 flex flex-col">
+      <ConfirmDialog
+        isOpen={!!memberToRemove}
+        title={t.common?.confirm || 'Confirm'}
+        message={`${t.organization?.removeConfirm || 'Remove this member from the organization?'} ${memberToRemove?.email ?? ''}`}
+        confirmLabel={t.organization?.remove || 'Remove'}
+        variant="danger"
+        onConfirm={confirmRemove}
+        onCancel={() => setMemberToRemove(null)}
+      />
+      <main className="flex-1 w-full max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-12">
+
+        {/* Page Header */}
+        <div className="flex items-center gap-4 mb-8 animate-in fade-in slide-in-from-bottom-4">
+          <div className="w-12 h-12 rounded-xl bg-blue-600 flex items-center justify-center shadow-lg shadow-blue-600/20">
+            <Building2 className="w-6 h-6 text-white" />
+          </div>
+          <div>
+            <h1 className="text-3xl font-bold text-slate-900">
+              {active?.organizationName || t.organization?.title || 'Organization'}
+            </h1>
+            {active && (
+              <p className="text-sm text-slate-500 mt-1">
+                {t.organization?.yourRole || 'Your role'}: {roleLabel(active.role)}
+              </p>
+            )}
+          </div>
+        </div>
+
+        {error && (
+          <div className="mb-6 px-4 py-3 rounded-lg bg-red-50 border border-red-200 text-sm text-red-700">
+            {error}
+          </div>
+        )}
+
+        {isOrganizationLoading || (active && isLoading) ? (
+          <div className="text-center py-20">
+            <Loader2 className="w-6 h-6 animate-spin text-slate-400 mx-auto" />
+          </div>
+        ) : (
+          <div className="space-y-6">
+            {/* Members */}
+            <section className="bg-white rounded-xl border border-slate-200 shadow-sm">
+              <h2 className="px-6 py-4 border-b border-slate-100 text-lg font-semibold text-slate-900">
+                {t.organization?.members || 'Members'} ({members.length})
+              </h2>
+              <ul className="divide-y divide-slate-100">
+                {members.map((member) => (
+                  <li key={member.userId} className="px-6 py-3 flex items-center justify-between gap-4">
+                    <span className="text-sm text-slate-700 truncate">{member.email}</span>
+                    <div className="flex items-center gap-2 shrink-0">
+                      {isOwner ? (
+                        <select
+                          value={member.role}
+                          onChange={(e) => handleRoleChange(member.userId, e.target.value as OrganizationRole)}
+                          className="px-2 py-1 rounded-lg border border-slate-200 text-sm text-slate-700"
+                        >
+                          {ORGANIZATION_ROLES.map((value) => (
+                            <option key={value} value={value}>{roleLabel(value)}</option>
+                          ))}
+                        </select>
+                      ) : (
+                        <span className="text-sm text-slate-500">{roleLabel(member.role)}</span>
+                      )}
+                      {isOwner && (
+                        <button
+                          onClick={() => setMemberToRemove(member)}
+                          className="p-2 rounded-lg text-slate-400 hover:text-red-600 hover:bg-red-50 transition-colors"
+                          title={t.organization?.remove || 'Remove'}
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      )}
+                    </div>
+                  </li>
+                ))}
+              </ul>
+
+              {isOwner && (
+                <form onSubmit={handleAdd} className="px-6 py-4 border-t border-slate-100 flex flex-col sm:flex-row gap-2">
+                  <input
+                    type="email"
+                    value={email}
+                    onChange={(e) => setEmail(e.target.value)}
+                    placeholder={t.organization?.emailPlaceholder || 'Email of a registered user'}
+                    className="flex-1 px-3 py-2 rounded-lg border border-slate-200 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                  <select
+                    value={role}
+                    onChange={(e) => setRole(e.target.value as OrganizationRole)}
+                    className="px-3 py-2 rounded-lg border border-slate-200 text-sm text-slate-700"
+                  >
+                    {ORGANIZATION_ROLES.map((value) => (
+                      <option key={value} value={value}>{roleLabel(value)}</option>
+                    ))}
+                  </select>
+                  <button
+                    type="submit"
+                    disabled={isAdding || !email.trim()}
+                    className="px-4 py-2 bg-blue-600 text-white text-sm font-medium rounded-lg hover:bg-blue-700 transition-colors flex items-center justify-center gap-2 disabled:opacity-50"
+                  >
+                    {isAdding ? <Loader2 className="w-4 h-4 animate-spin" /> : <UserPlus className="w-4 h-4" />}
+                    {t.organization?.addMember || 'Add member'}
+                  </button>
+                </form>
+              )}
+            </section>
+
+            {/* Transcription settings */}
+            <section className="bg-white rounded-xl border border-slate-200 shadow-sm px-6 py-4">
+              <h2 className="text-lg font-semibold text-slate-900 mb-3 flex items-center gap-2">
+                <Settings className="w-5 h-5 text-slate-500" />
+                {t.organization?.settings || 'Transcription settings'}
+              </h2>
+              <label className="flex flex-col sm:flex-row sm:items-center gap-2 text-sm text-slate-700">
+                <span className="sm:w-48">{t.organization?.pipelineMode || 'Transcription provider'}</span>
+                <select
+                  value={settings.pipelineMode ?? ''}
+                  onChange={(e) => handlePipelineModeChange(e.target.value)}
+                  disabled={!isOwner}
+                  className="flex-1 px-3 py-2 rounded-lg border border-slate-200 text-sm text-slate-700 disabled:bg-slate-50"
+                >
+                  <option value="">
+                    {t.organization?.serverDefault || 'Server default'} ({defaultMode})
+                  </option>
+                  {pipelineModes.map((option) => (
+                    <option key={option.mode} value={option.mode} disabled={!option.configured}>
+                      {option.mode} ({option.label}){option.configured ? '' : ` - ${t.organization?.notConfigured || 'not configured'}`}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            </section>
+
+            {/* Glossary */}
+            <GlossarySection
+              glossary={settings.glossary ?? []}
+              canEdit={isOwner}
+              onSave={handleGlossarySave}
+            />
+
+            {/* Review workflow */}
+            <WorkflowSection
+              workflow={settings.workflow}
+              canEdit={isOwner}
+              onSave={handleWorkflowSave}
+            />
+
+            {/* Speaker roster */}
+            <SpeakerRosterSection
+              speakers={rosterSpeakers}
+              canEdit={isOwner}
+              onRemove={handleRosterSpeakerRemove}
+            />
+
+            {/* New organization */}
+            <section className="bg-white rounded-xl border border-slate-200 shadow-sm px-6 py-4">
+              <h2 className="text-lg font-semibold text-slate-900 mb-3">
+                {t.organization?.create || 'New organization'}
+              </h2>
+              <form onSubmit={handleCreate} className="flex flex-col sm:flex-row gap-2">
+                <input
+                  type="text"
+                  value={newOrganizationName}
+                  onChange={(e) => setNewOrganizationName(e.target.value)}
+                  placeholder={t.organization?.namePlaceholder || 'e.g. Municipality of Athens'}
+                  className="flex-1 px-3 py-2 rounded-lg border border-slate-200 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+                <button
+                  type="submit"
+                  disabled={!newOrganizationName.trim()}
+                  className="px-4 py-2 bg-white border border-slate-200 text-sm font-medium text-slate-700 rounded-lg hover:bg-slate-50 transition-colors flex items-center justify-center gap-2 disabled:opacity-50"
+                >
+                  <Plus className="w-4 h-4" />
+                  {t.organization?.createButton || 'Create'}
+                </button>
+              </form>
+            </section>
+          </div>
+        )}
+
+      </main>
+    </div>
+  );
+}
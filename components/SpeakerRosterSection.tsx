@@ -0,0 +1,57 @@
+'use client';
+
+import { Mic, Trash2 } from 'lucide-react';
+import { useTranslations } from '@/contexts/TranslationsContext';
+import type { RosterSpeaker } from '@/lib/organizations/roster';
+
+interface SpeakerRosterSectionProps {
+  speakers: RosterSpeaker[];
+  canEdit: boolean;
+  onRemove: (speaker: RosterSpeaker) => void;
+}
+
+export default function SpeakerRosterSection({ speakers, canEdit, onRemove }: SpeakerRosterSectionProps) {
+  const { t } = useTranslations();
+
+  return (
+    <section className="bg-white rounded-xl border border-slate-200 shadow-sm">
+      <div className="px-6 py-4 border-b border-slate-100">
+        <h2 className="text-lg font-semibold text-slate-900 flex items-center gap-2">
+          <Mic className="w-5 h-5 text-slate-500" />
+          {t.organization?.roster || 'Speaker roster'} ({speakers.length})
+        </h2>
+        <p className="text-sm text-slate-500 mt-1">
+          {t.organization?.rosterDescription || 'Speakers labelled in the editor are remembered by voice, and their names are suggested for the speakers of new transcriptions.'}
+        </p>
+      </div>
+
+      {speakers.length === 0 ? (
+        <p className="px-6 py-4 text-sm text-slate-500">
+          {t.organization?.noRosterSpeakers || 'No speakers yet. Label a speaker in the editor to add them.'}
+        </p>
+      ) : (
+        <ul className="divide-y divide-slate-100">
+          {speakers.map((speaker) => (
+            <li key={speaker.id} className="px-6 py-3 flex items-center justify-between gap-4">
+              <span className="text-sm text-slate-700 truncate">{speaker.name}</span>
+              <div className="flex items-center gap-2 shrink-0">
+                <span className="text-sm text-slate-500">
+                  {speaker.clipCount} {t.organization?.clips || 'clips'}
+                </span>
+                {canEdit && (
+                  <button
+                    onClick={() => onRemove(speaker)}
+                    className="p-2 rounded-lg text-slate-400 hover:text-red-600 hover:bg-red-50 transition-colors"
+                    title={t.organization?.remove || 'Remove'}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                )}
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </section>
+  );
+}
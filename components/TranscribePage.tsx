@@ -4,13 +4,25 @@ import { InputSection } from '@/components/InputSection';
 import { AppStatus } from '@/types';
 import { useTranscription } from '@/lib/hooks/useTranscription';
 import { useTranslations } from '@/contexts/TranslationsContext';
+import { useOrganization } from '@/lib/hooks/useOrganization';
 import ProcessingState from './transcribe/ProcessingState';
 import ErrorState from './transcribe/ErrorState';
 import ResultsView from './transcribe/ResultsView';
+import ImportSection from './transcribe/ImportSection';
 
 export default function TranscribePage() {
   const { t, lang } = useTranslations();
-  const { status, results, errorMsg, handleStartProcessing, resetApp } = useTranscription();
+  const {
+    status,
+    results,
+    errorMsg,
+    currentFileName,
+    progress,
+    handleStartProcessing,
+    cancelProcessing,
+    resetApp,
+  } = useTranscription();
+  const { can } = useOrganization();
 
   return (
     <div className="flex-1 bg-gradient-to-br from-slate-50 via-blue-50/30 to-slate-100 flex flex-col">
@@ -32,7 +44,11 @@ export default function TranscribePage() {
           <InputSection onStartProcessing={handleStartProcessing} isProcessing={false} />
         )}
 
-        {status === AppStatus.PROCESSING && <ProcessingState />}
+        {status === AppStatus.IDLE && can('editor') && <ImportSection />}
+
+        {status === AppStatus.PROCESSING && (
+          <ProcessingState fileName={currentFileName} progress={progress} onCancel={cancelProcessing} />
+        )}
 
         {status === AppStatus.ERROR && <ErrorState errorMsg={errorMsg} onReset={resetApp} />}
 
@@ -1,11 +1,13 @@
 import React, { useState } from 'react';
 import Link from 'next/link';
 import { FileText, Download, Trash2, ArrowRight } from 'lucide-react';
-import { TranscriptionListItem, getTranscriptionById } from '@/lib/transcriptionStorage';
+import { TranscriptionListItem } from '@/lib/transcriptionStorage';
+import { fetchTranscription } from '@/lib/library/client';
 import { useFileDownload } from '@/lib/hooks/useFileDownload';
 import { useTranslations } from '@/contexts/TranslationsContext';
 import { localePath } from '@/i18n/config';
 import MetadataBadges from './shared/MetadataBadges';
+import WorkflowBadge from './shared/WorkflowBadge';
 import ConfirmDialog from './ConfirmDialog';
 
 interface TranscriptionCardProps {
@@ -28,7 +30,7 @@ export const TranscriptionCard: React.FC<TranscriptionCardProps> = ({ transcript
     if (!text) {
       setIsLoadingFull(true);
       try {
-        const full = await getTranscriptionById(transcription.id);
+        const full = await fetchTranscription(transcription.id);
         if (full) {
           text = full.text;
           setFullText(text);
@@ -90,7 +92,10 @@ export const TranscriptionCard: React.FC<TranscriptionCardProps> = ({ transcript
                 </div>
                 <div className="flex-1 min-w-0">
                   <h3 className="font-semibold text-slate-900 truncate group-hover:text-blue-600 transition-colors">{transcription.fileName}</h3>
-                  <p className="text-xs text-slate-500 mt-0.5">{formatDate(transcription.timestamp)}</p>
+                  <div className="flex items-center gap-2 mt-0.5">
+                    <p className="text-xs text-slate-500">{formatDate(transcription.timestamp)}</p>
+                    <WorkflowBadge state={transcription.workflowState ?? 'draft'} />
+                  </div>
                 </div>
               </div>
               <div className="flex items-center gap-1 shrink-0">
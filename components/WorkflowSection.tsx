@@ -0,0 +1,116 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { GitPullRequestArrow, Loader2, Save } from 'lucide-react';
+import { useTranslations } from '@/contexts/TranslationsContext';
+import { ORGANIZATION_ROLES, type OrganizationRole } from '@/lib/organizations/roles';
+import { DEFAULT_WORKFLOW, WORKFLOW_STATES, type WorkflowStage } from '@/lib/library/workflow';
+import { WORKFLOW_STATE_LABELS } from '@/components/shared/WorkflowBadge';
+
+interface WorkflowSectionProps {
+  /** Configured stages, or undefined for the default workflow */
+  workflow?: WorkflowStage[];
+  canEdit: boolean;
+  onSave: (workflow: WorkflowStage[]) => Promise<void>;
+}
+
+/** A stage being edited; disabled stages are skipped */
+interface DraftStage extends WorkflowStage {
+  enabled: boolean;
+}
+
+function toDraft(workflow: WorkflowStage[]): DraftStage[] {
+  return DEFAULT_WORKFLOW.map(stage => {
+    const configured = workflow.find(item => item.state === stage.state);
+    return { ...(configured ?? stage), enabled: !!configured };
+  });
+}
+
+function fromDraft(draft: DraftStage[]): WorkflowStage[] {
+  return draft.filter(stage => stage.enabled).map(({ state, role }) => ({ state, role }));
+}
+
+export default function WorkflowSection({ workflow, canEdit, onSave }: WorkflowSectionProps) {
+  const { t } = useTranslations();
+  const savedWorkflow = JSON.stringify(workflow ?? DEFAULT_WORKFLOW);
+  const [draft, setDraft] = useState<DraftStage[]>(() => toDraft(JSON.parse(savedWorkflow)));
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Reset the draft when the saved workflow changes (compared by value)
+  useEffect(() => {
+    setDraft(toDraft(JSON.parse(savedWorkflow)));
+  }, [savedWorkflow]);
+
+  const stages = fromDraft(draft);
+  const isDirty = JSON.stringify(stages) !== savedWorkflow;
+
+  const updateStage = (index: number, changes: Partial<DraftStage>) => {
+    setDraft(prev => prev.map((item, i) => i === index ? { ...item, ...changes } : item));
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      await onSave(stages);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <section className="bg-white rounded-xl border border-slate-200 shadow-sm">
+      <div className="px-6 py-4 border-b border-slate-100">
+        <h2 className="text-lg font-semibold text-slate-900 flex items-center gap-2">
+          <GitPullRequestArrow className="w-5 h-5 text-slate-500" />
+          {t.workflow?.settingsTitle || 'Review workflow'}
+        </h2>
+        <p className="text-sm text-slate-500 mt-1">
+          {t.workflow?.settingsDescription || 'Stages a transcription goes through after draft and the role needed to move it into each. The same role can send it back with a comment.'}
+        </p>
+      </div>
+
+      <div className="px-6 py-4 space-y-2">
+        <div className="flex items-center gap-3 text-sm text-slate-500">
+          <span className="w-32">{t.workflow?.states?.draft || WORKFLOW_STATE_LABELS.draft}</span>
+        </div>
+        {draft.map((stage, index) => (
+          <div key={stage.state} className="flex items-center gap-3">
+            <label className="w-32 flex items-center gap-2 text-sm text-slate-700">
+              <input
+                type="checkbox"
+                checked={stage.enabled}
+                onChange={(e) => updateStage(index, { enabled: e.target.checked })}
+                disabled={!canEdit}
+                className="rounded border-slate-300"
+              />
+              {t.workflow?.states?.[stage.state] || WORKFLOW_STATE_LABELS[stage.state]}
+            </label>
+            <select
+              value={stage.role}
+              onChange={(e) => updateStage(index, { role: e.target.value as OrganizationRole })}
+              disabled={!canEdit || !stage.enabled}
+              className="px-3 py-1.5 rounded-lg border border-slate-200 text-sm bg-white focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:bg-slate-50 disabled:text-slate-400"
+            >
+              {ORGANIZATION_ROLES.filter(role => role !== 'viewer').map(role => (
+                <option key={role} value={role}>{t.organization?.roles?.[role] || role}</option>
+              ))}
+            </select>
+          </div>
+        ))}
+      </div>
+
+      {canEdit && (
+        <div className="px-6 py-4 border-t border-slate-100 flex justify-end">
+          <button
+            onClick={handleSave}
+            disabled={!isDirty || isSaving || stages.length === 0}
+            className="px-4 py-2 bg-blue-600 text-white text-sm font-medium rounded-lg hover:bg-blue-700 transition-colors flex items-center justify-center gap-2 disabled:opacity-50"
+          >
+            {isSaving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Save className="w-4 h-4" />}
+            {t.workflow?.settingsSave || 'Save workflow'}
+          </button>
+        </div>
+      )}
+    </section>
+  );
+}
@@ -3,13 +3,24 @@
 import Link from 'next/link';
 import { useRouter } from 'next/navigation';
 import { useState } from 'react';
-import { ArrowLeft, Trash2, CheckCircle, Keyboard, ChevronLeft, ChevronRight, RotateCcw } from 'lucide-react';
-import { SavedTranscription, deleteTranscription, TranscriptionEditorState } from '@/lib/transcriptionStorage';
+import { ArrowLeft, Trash2, CheckCircle, Keyboard, ChevronLeft, ChevronRight, AlertTriangle, ListPlus, GitCompare, MessageSquare } from 'lucide-react';
+import { SavedTranscription, TranscriptionEditorState, TranscriptionTranslation } from '@/lib/transcriptionStorage';
+import { removeTranscription } from '@/lib/library/client';
+import { ReviewOrder } from '@/lib/hooks/useEditorState';
+import type { EditorHistoryEntry } from '@/lib/hooks/useEditorHistory';
+import type { TranscriptionWorkflow, WorkflowState, WorkflowTransition } from '@/lib/library/workflow';
+import { useOrganization } from '@/lib/hooks/useOrganization';
+import { ExportColumns } from '@/lib/export/translation';
+import type { SubtitleFormat, SubtitleOptions } from '@/lib/export/subtitles';
+import type { TranscriptDocumentFormat, TranscriptDocumentOptions } from '@/lib/export/transcriptDocument';
 import { useTranslations } from '@/contexts/TranslationsContext';
 import { localePath } from '@/i18n/config';
 import KeyboardShortcutsModal from './KeyboardShortcutsModal';
 import BulkApprovalMenu from './BulkApprovalMenu';
 import ExportMenu from './ExportMenu';
+import TranslationMenu from './TranslationMenu';
+import HistoryPanel from './HistoryPanel';
+import WorkflowMenu from './WorkflowMenu';
 import ConfirmDialog from '@/components/ConfirmDialog';
 
 interface EditorHeaderProps {
@@ -19,40 +30,83 @@ interface EditorHeaderProps {
   approvedCount: number;
   labeledCount: number;
   totalSpeakers: number;
-  onFinalize: () => void;
-  onRevertToDraft: () => void;
-  onExportPlainText: () => void;
+  workflow: TranscriptionWorkflow;
+  workflowTransitions: WorkflowTransition[];
+  isTransitioning: boolean;
+  /** Move the transcription to another workflow state (a comment is required when sending back) */
+  onTransition: (to: WorkflowState, comment?: string) => void;
+  onExportPlainText: (columns: ExportColumns, includeComments: boolean) => void;
   onExportOfficialMinutes: () => void;
   onExportPressRelease: () => void;
+  onExportChangeReport: () => void;
+  onExportSubtitles: (format: SubtitleFormat, options: SubtitleOptions) => void;
+  onExportTranscriptDocument: (format: TranscriptDocumentFormat, options: TranscriptDocumentOptions) => void;
+  onExportData: (format: 'json' | 'csv') => void;
+  /** Whether edited segments show their changes against the original text */
+  showChanges: boolean;
+  onShowChangesChange: (showChanges: boolean) => void;
   onApproveAll: () => void;
   onUnapproveAll: () => void;
+  /** Insert a segment at the playback position */
+  onInsertSegment: () => void;
+  history: { past: EditorHistoryEntry[]; future: EditorHistoryEntry[] };
+  canUndo: boolean;
+  canRedo: boolean;
+  onUndo: () => void;
+  onRedo: () => void;
+  onJumpToHistory: (entryId: number | null) => void;
   onNextUnapproved: () => void;
   onPrevUnapproved: () => void;
   hasUnapproved: boolean;
+  /** Unresolved review comment threads, stepped through like unapproved segments */
+  openCommentCount: number;
+  hasComments: boolean;
+  onNextComment: () => void;
+  onPrevComment: () => void;
+  reviewOrder: ReviewOrder;
+  onReviewOrderChange: (order: ReviewOrder) => void;
+  canReviewUncertainFirst: boolean;
+  translations: TranscriptionTranslation[];
+  activeTranslationLanguage: string | null;
+  translatingLanguage: string | null;
+  onTranslate: (language: string) => void;
+  onShowTranslation: (language: string | null) => void;
+  onRemoveTranslation: (language: string) => void;
 }
 
 export default function EditorHeader({
   transcription, editorState, totalSegments, approvedCount,
   labeledCount, totalSpeakers,
-  onFinalize, onRevertToDraft, onExportPlainText, onExportOfficialMinutes, onExportPressRelease, onApproveAll, onUnapproveAll, onNextUnapproved, onPrevUnapproved, hasUnapproved,
+  workflow, workflowTransitions, isTransitioning, onTransition, onExportPlainText, onExportOfficialMinutes, onExportPressRelease, onExportChangeReport, onExportSubtitles, onExportTranscriptDocument, onExportData, onApproveAll, onUnapproveAll, onInsertSegment, onNextUnapproved, onPrevUnapproved, hasUnapproved,
+  openCommentCount, hasComments, onNextComment, onPrevComment,
+  history, canUndo, canRedo, onUndo, onRedo, onJumpToHistory, showChanges, onShowChangesChange,
+  reviewOrder, onReviewOrderChange, canReviewUncertainFirst,
+  translations, activeTranslationLanguage, translatingLanguage, onTranslate, onShowTranslation, onRemoveTranslation,
 }: EditorHeaderProps) {
   const { t, lang } = useTranslations();
+  const { can } = useOrganization();
   const router = useRouter();
   const [showShortcuts, setShowShortcuts] = useState(false);
   const [showDeleteDialog, setShowDeleteDialog] = useState(false);
-  const [showFinalizeDialog, setShowFinalizeDialog] = useState(false);
-  const [finalizeWarning, setFinalizeWarning] = useState('');
+  const [pendingAdvance, setPendingAdvance] = useState<WorkflowState | null>(null);
+  const [advanceWarning, setAdvanceWarning] = useState('');
 
   const handleDelete = () => {
     setShowDeleteDialog(true);
   };
 
   const confirmDelete = async () => {
-    await deleteTranscription(transcription.id);
+    await removeTranscription(transcription.id);
     router.push(localePath('/library', lang));
   };
 
-  const handleFinalizeWithWarning = () => {
+  // Leaving draft with unreviewed segments or unnamed speakers asks for confirmation
+  const handleAdvance = (to: WorkflowState) => {
+    if (workflow.state !== 'draft') {
+      onTransition(to);
+      return;
+    }
+
     const unapprovedCount = totalSegments - approvedCount;
     const unlabeledSpeakers = totalSpeakers - labeledCount;
 
@@ -70,18 +124,22 @@ export default function EditorHeader({
           : (t.editor?.speakersUnnamed || 'speakers unnamed');
         warnings.push(`${unlabeledSpeakers} ${speakerText}`);
       }
-      setFinalizeWarning(warnings.join(', '));
-      setShowFinalizeDialog(true);
+      setAdvanceWarning(warnings.join(', '));
+      setPendingAdvance(to);
     } else {
-      onFinalize();
+      onTransition(to);
     }
   };
 
-  const confirmFinalize = () => {
-    setShowFinalizeDialog(false);
-    onFinalize();
+  const confirmAdvance = () => {
+    if (pendingAdvance) onTransition(pendingAdvance);
+    setPendingAdvance(null);
   };
 
+  const advanceLabel = pendingAdvance
+    ? t.workflow?.advance?.[pendingAdvance] || t.editor?.finalizeTranscription || 'Finalize'
+    : '';
+
   const progressPercentage = totalSegments > 0 ? (approvedCount / totalSegments) * 100 : 0;
 
   return (
@@ -96,13 +154,13 @@ export default function EditorHeader({
         onCancel={() => setShowDeleteDialog(false)}
       />
       <ConfirmDialog
-        isOpen={showFinalizeDialog}
-        title={t.editor?.finalizeTranscription || 'Finalize Transcription'}
-        message={`${finalizeWarning} - ${t.editor?.finalizeAnyway || 'finalize anyway?'}`}
-        confirmLabel={t.editor?.finalizeTranscription || 'Finalize'}
+        isOpen={pendingAdvance !== null}
+        title={advanceLabel}
+        message={`${advanceWarning} - ${t.workflow?.continueAnyway || 'continue anyway?'}`}
+        confirmLabel={advanceLabel}
         variant="warning"
-        onConfirm={confirmFinalize}
-        onCancel={() => setShowFinalizeDialog(false)}
+        onConfirm={confirmAdvance}
+        onCancel={() => setPendingAdvance(null)}
       />
       <div className="bg-white border-b border-slate-200 shrink-0">
       <div className="max-w-7xl mx-auto px-3 sm:px-6 lg:px-8 py-2 sm:py-3">
@@ -133,32 +191,35 @@ export default function EditorHeader({
               <KeyboardShortcutsModal isOpen={showShortcuts} onClose={() => setShowShortcuts(false)} />
             </div>
 
-            {/* Finalize / Revert button */}
-            {editorState.isDraft ? (
-              <button
-                onClick={handleFinalizeWithWarning}
-                className="p-2 sm:px-3 sm:py-1.5 bg-green-600 text-white text-sm font-medium rounded-lg hover:bg-green-700 transition-colors flex items-center gap-1.5"
-                title={t.editor?.finalizeTranscription || 'Finalize'}
-              >
-                <CheckCircle className="w-4 h-4" />
-                <span className="hidden sm:inline">{t.editor?.finalizeTranscription || 'Finalize'}</span>
-              </button>
-            ) : (
-              <button
-                onClick={onRevertToDraft}
-                className="px-2 py-0.5 sm:px-2.5 sm:py-1 bg-green-100 border border-green-300 text-green-800 rounded-full text-[10px] sm:text-xs font-bold uppercase tracking-wide flex items-center gap-1 shrink-0 hover:bg-green-200 hover:border-green-400 transition-colors cursor-pointer"
-                title={t.editor?.revertToDraft || 'Click to edit again'}
-              >
-                <CheckCircle className="w-3 h-3 sm:w-3.5 sm:h-3.5" />
-                <span>{t.editor?.finalized || 'Finalized'}</span>
-                <RotateCcw className="w-3 h-3 sm:w-3.5 sm:h-3.5 ml-0.5 opacity-60" />
-              </button>
-            )}
+            <WorkflowMenu
+              workflow={workflow}
+              transitions={workflowTransitions}
+              isTransitioning={isTransitioning}
+              onAdvance={handleAdvance}
+              onSendBack={onTransition}
+            />
+
+            <TranslationMenu
+              translations={translations}
+              sourceLanguage={transcription.metadata?.languageCode ?? transcription.metadata?.language}
+              activeLanguage={activeTranslationLanguage}
+              translatingLanguage={translatingLanguage}
+              canTranslate={can('editor')}
+              onTranslate={onTranslate}
+              onShow={onShowTranslation}
+              onRemove={onRemoveTranslation}
+            />
 
             <ExportMenu
               onExportPlainText={onExportPlainText}
               onExportOfficialMinutes={onExportOfficialMinutes}
               onExportPressRelease={onExportPressRelease}
+              onExportChangeReport={onExportChangeReport}
+              onExportSubtitles={onExportSubtitles}
+              onExportTranscriptDocument={onExportTranscriptDocument}
+              onExportData={onExportData}
+              translationLanguage={activeTranslationLanguage ?? undefined}
+              hasComments={hasComments}
             />
 
             <button onClick={handleDelete} className="p-2 text-slate-500 hover:text-red-600 hover:bg-red-50 rounded-lg transition-colors" title={t.libraryDetail?.delete || 'Delete'}>
@@ -192,6 +253,20 @@ export default function EditorHeader({
           <div className="flex items-center gap-2">
             {hasUnapproved ? (
               <div className="flex items-center gap-0.5 bg-slate-100 rounded-lg p-0.5">
+                {canReviewUncertainFirst && (
+                  <button
+                    onClick={() => onReviewOrderChange(reviewOrder === 'uncertain-first' ? 'sequential' : 'uncertain-first')}
+                    className={`p-1.5 rounded-md transition-colors ${
+                      reviewOrder === 'uncertain-first'
+                        ? 'bg-amber-100 text-amber-700'
+                        : 'text-slate-600 hover:text-amber-600 hover:bg-white'
+                    }`}
+                    title={t.editor?.reviewUncertainFirst || 'Review uncertain segments first'}
+                    aria-pressed={reviewOrder === 'uncertain-first'}
+                  >
+                    <AlertTriangle className="w-4 h-4" />
+                  </button>
+                )}
                 <button
                   onClick={onPrevUnapproved}
                   className="p-1.5 text-slate-600 hover:text-blue-600 hover:bg-white rounded-md transition-colors"
@@ -200,7 +275,9 @@ export default function EditorHeader({
                   <ChevronLeft className="w-4 h-4" />
                 </button>
                 <span className="text-xs text-slate-500 px-1 hidden sm:inline">
-                  {t.editor?.unapproved || 'Unapproved'}
+                  {reviewOrder === 'uncertain-first'
+                    ? (t.editor?.uncertainFirst || 'Uncertain first')
+                    : (t.editor?.unapproved || 'Unapproved')}
                 </span>
                 <button
                   onClick={onNextUnapproved}
@@ -217,12 +294,71 @@ export default function EditorHeader({
               </div>
             )}
 
-            <BulkApprovalMenu
-              totalSegments={totalSegments}
-              approvedCount={approvedCount}
-              onApproveAll={onApproveAll}
-              onUnapproveAll={onUnapproveAll}
+            {openCommentCount > 0 && (
+              <div className="flex items-center gap-0.5 bg-amber-50 rounded-lg p-0.5">
+                <button
+                  onClick={onPrevComment}
+                  className="p-1.5 text-amber-700 hover:bg-white rounded-md transition-colors"
+                  title={t.editor?.comments?.prev || 'Previous open comment ([)'}
+                >
+                  <ChevronLeft className="w-4 h-4" />
+                </button>
+                <span className="flex items-center gap-1 text-xs text-amber-800 px-1" title={t.editor?.comments?.open || 'Open comments'}>
+                  <MessageSquare className="w-3.5 h-3.5" />
+                  {openCommentCount}
+                </span>
+                <button
+                  onClick={onNextComment}
+                  className="p-1.5 text-amber-700 hover:bg-white rounded-md transition-colors"
+                  title={t.editor?.comments?.next || 'Next open comment (])'}
+                >
+                  <ChevronRight className="w-4 h-4" />
+                </button>
+              </div>
+            )}
+
+            <button
+              onClick={() => onShowChangesChange(!showChanges)}
+              className={`p-1.5 rounded-md transition-colors ${
+                showChanges
+                  ? 'bg-blue-100 text-blue-700'
+                  : 'text-slate-600 hover:text-blue-600 hover:bg-slate-100'
+              }`}
+              title={t.editor?.showChanges || 'Show changes against the original text'}
+              aria-pressed={showChanges}
+            >
+              <GitCompare className="w-4 h-4" />
+            </button>
+
+            <HistoryPanel
+              past={history.past}
+              future={history.future}
+              canUndo={canUndo}
+              canRedo={canRedo}
+              onUndo={onUndo}
+              onRedo={onRedo}
+              onJumpTo={onJumpToHistory}
             />
+
+            {/* Past draft the transcription can only be read */}
+            {workflow.state === 'draft' && (
+              <>
+                <button
+                  onClick={onInsertSegment}
+                  className="p-1.5 text-slate-600 hover:text-blue-600 hover:bg-slate-100 rounded-md transition-colors"
+                  title={t.editor?.insertSegment || 'Insert segment at playback position (I)'}
+                >
+                  <ListPlus className="w-4 h-4" />
+                </button>
+
+                <BulkApprovalMenu
+                  totalSegments={totalSegments}
+                  approvedCount={approvedCount}
+                  onApproveAll={onApproveAll}
+                  onUnapproveAll={onUnapproveAll}
+                />
+              </>
+            )}
           </div>
         </div>
       </div>
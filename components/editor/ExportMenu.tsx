@@ -1,13 +1,48 @@
 'use client';
 
 import { useState, useRef, useEffect } from 'react';
-import { Download, FileText, ScrollText, Newspaper, ChevronDown } from 'lucide-react';
+import { Download, FileText, FileType, FileJson, ScrollText, Newspaper, FileDiff, Captions, ChevronDown } from 'lucide-react';
 import { useTranslations } from '@/contexts/TranslationsContext';
+import { EXPORT_COLUMNS, ExportColumns } from '@/lib/export/translation';
+import {
+  DEFAULT_SUBTITLE_OPTIONS,
+  SUBTITLE_FORMATS,
+  SUBTITLE_OPTION_LIMITS,
+  normalizeSubtitleOptions,
+  SubtitleFormat,
+  SubtitleOptions,
+} from '@/lib/export/subtitles';
+import {
+  DEFAULT_TRANSCRIPT_DOCUMENT_OPTIONS,
+  TRANSCRIPT_LAYOUTS,
+  TranscriptDocumentFormat,
+  TranscriptDocumentOptions,
+  TranscriptLayout,
+} from '@/lib/export/transcriptDocument';
+
+const TRANSCRIPT_LAYOUT_LABELS: Record<TranscriptLayout, string> = {
+  table: 'Table',
+  paragraphs: 'Paragraphs',
+  legal: 'Legal (line numbers)',
+};
 
 interface ExportMenuProps {
-  onExportPlainText: () => void;
+  /** @param includeComments - Add the review comments under their segments */
+  onExportPlainText: (columns: ExportColumns, includeComments: boolean) => void;
   onExportOfficialMinutes: () => void;
   onExportPressRelease: () => void;
+  /** Report of the text edits against the provider output */
+  onExportChangeReport: () => void;
+  /** Subtitles from the segments, in a format */
+  onExportSubtitles: (format: SubtitleFormat, options: SubtitleOptions) => void;
+  /** Transcript with cover page, times and speakers, as DOCX or PDF */
+  onExportTranscriptDocument: (format: TranscriptDocumentFormat, options: TranscriptDocumentOptions) => void;
+  /** Machine-readable data: versioned JSON or one CSV row per segment */
+  onExportData: (format: 'json' | 'csv') => void;
+  /** Language of the translation shown in the editor; offers column choices */
+  translationLanguage?: string;
+  /** Whether the transcription has review comments; offers including them */
+  hasComments?: boolean;
   disabled?: boolean;
 }
 
@@ -15,10 +50,19 @@ export default function ExportMenu({
   onExportPlainText,
   onExportOfficialMinutes,
   onExportPressRelease,
+  onExportChangeReport,
+  onExportSubtitles,
+  onExportTranscriptDocument,
+  onExportData,
+  translationLanguage,
+  hasComments = false,
   disabled = false,
 }: ExportMenuProps) {
   const { t } = useTranslations();
   const [isOpen, setIsOpen] = useState(false);
+  const [includeComments, setIncludeComments] = useState(false);
+  const [subtitleOptions, setSubtitleOptions] = useState<SubtitleOptions>(DEFAULT_SUBTITLE_OPTIONS);
+  const [documentOptions, setDocumentOptions] = useState<TranscriptDocumentOptions>(DEFAULT_TRANSCRIPT_DOCUMENT_OPTIONS);
   const menuRef = useRef<HTMLDivElement>(null);
 
   // Close menu when clicking outside
@@ -49,8 +93,8 @@ export default function ExportMenu({
     }
   }, [isOpen]);
 
-  const handleExportPlainText = () => {
-    onExportPlainText();
+  const handleExportPlainText = (columns: ExportColumns = 'original') => {
+    onExportPlainText(columns, hasComments && includeComments);
     setIsOpen(false);
   };
 
@@ -64,6 +108,26 @@ export default function ExportMenu({
     setIsOpen(false);
   };
 
+  const handleExportChangeReport = () => {
+    onExportChangeReport();
+    setIsOpen(false);
+  };
+
+  const handleExportSubtitles = (format: SubtitleFormat) => {
+    onExportSubtitles(format, normalizeSubtitleOptions(subtitleOptions));
+    setIsOpen(false);
+  };
+
+  const handleExportTranscriptDocument = (format: TranscriptDocumentFormat) => {
+    onExportTranscriptDocument(format, documentOptions);
+    setIsOpen(false);
+  };
+
+  const handleExportData = (format: 'json' | 'csv') => {
+    onExportData(format);
+    setIsOpen(false);
+  };
+
   if (disabled) return null;
 
   return (
@@ -81,11 +145,11 @@ export default function ExportMenu({
 
       {/* Dropdown Menu */}
       {isOpen && (
-        <div className="absolute right-0 top-full mt-1 z-50 bg-white rounded-xl shadow-xl border border-slate-200 overflow-hidden min-w-[260px]">
+        <div className="absolute right-0 top-full mt-1 z-50 bg-white rounded-xl shadow-xl border border-slate-200 overflow-y-auto max-h-[80vh] min-w-[260px]">
           <div className="py-1">
             {/* Plain Text Export */}
             <button
-              onClick={handleExportPlainText}
+              onClick={() => handleExportPlainText()}
               className="w-full flex items-center gap-3 px-4 py-2.5 text-left text-sm hover:bg-blue-50 transition-colors"
             >
               <div className="w-8 h-8 rounded-full bg-blue-100 flex items-center justify-center">
@@ -101,6 +165,178 @@ export default function ExportMenu({
               </div>
             </button>
 
+            {/* Column choice when a translation is shown */}
+            {translationLanguage && (
+              <div className="flex items-center gap-1 px-4 pb-2 pl-15">
+                {EXPORT_COLUMNS.map((columns) => (
+                  <button
+                    key={columns}
+                    onClick={() => handleExportPlainText(columns)}
+                    className="px-2 py-0.5 text-xs font-medium text-slate-600 bg-slate-100 hover:bg-blue-100 hover:text-blue-700 rounded-md transition-colors"
+                  >
+                    {columns === 'original' && (t.editor?.exportOriginal || 'Original')}
+                    {columns === 'translation' && `${t.editor?.exportTranslation || 'Translation'} (${translationLanguage.toUpperCase()})`}
+                    {columns === 'both' && (t.editor?.exportBoth || 'Both')}
+                  </button>
+                ))}
+              </div>
+            )}
+
+            {/* Review comments are left out unless asked for */}
+            {hasComments && (
+              <label className="flex items-center gap-2 px-4 pb-2 pl-15 text-xs text-slate-600 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={includeComments}
+                  onChange={(e) => setIncludeComments(e.target.checked)}
+                  className="rounded border-slate-300"
+                />
+                {t.editor?.exportIncludeComments || 'Include review comments'}
+              </label>
+            )}
+
+            <div className="border-t border-slate-100 my-1" />
+
+            {/* Transcript Document Export */}
+            <div className="flex items-center gap-3 px-4 py-2.5 text-sm">
+              <div className="w-8 h-8 rounded-full bg-indigo-100 flex items-center justify-center">
+                <FileType className="w-4 h-4 text-indigo-600" />
+              </div>
+              <div className="flex-1">
+                <div className="font-medium text-slate-900">
+                  {t.editor?.exportTranscriptDocument || 'Transcript Document'}
+                </div>
+                <div className="text-xs text-slate-500">
+                  {t.editor?.exportTranscriptDocumentDesc || 'Cover page, times and speakers'}
+                </div>
+              </div>
+            </div>
+            <div className="flex items-center gap-1 px-4 pb-2 pl-15">
+              {(['docx', 'pdf'] as const).map((format) => (
+                <button
+                  key={format}
+                  onClick={() => handleExportTranscriptDocument(format)}
+                  className="px-2 py-0.5 text-xs font-medium text-slate-600 bg-slate-100 hover:bg-indigo-100 hover:text-indigo-700 rounded-md transition-colors"
+                >
+                  .{format}
+                </button>
+              ))}
+              <select
+                value={documentOptions.layout}
+                onChange={(e) => setDocumentOptions({ ...documentOptions, layout: e.target.value as TranscriptLayout })}
+                className="ml-1 px-1.5 py-0.5 text-xs text-slate-600 border border-slate-200 rounded-md bg-white outline-none focus:border-blue-400"
+              >
+                {TRANSCRIPT_LAYOUTS.map((layout) => (
+                  <option key={layout} value={layout}>
+                    {t.editor?.transcriptLayouts?.[layout] || TRANSCRIPT_LAYOUT_LABELS[layout]}
+                  </option>
+                ))}
+              </select>
+            </div>
+            {documentOptions.layout !== 'legal' && (
+              <label className="flex items-center gap-2 px-4 pb-2 pl-15 text-xs text-slate-600 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={documentOptions.colorSpeakers}
+                  onChange={(e) => setDocumentOptions({ ...documentOptions, colorSpeakers: e.target.checked })}
+                  className="rounded border-slate-300"
+                />
+                {t.editor?.exportColorSpeakers || 'Speaker colors'}
+              </label>
+            )}
+
+            <div className="border-t border-slate-100 my-1" />
+
+            {/* Subtitles Export */}
+            <div className="flex items-center gap-3 px-4 py-2.5 text-sm">
+              <div className="w-8 h-8 rounded-full bg-sky-100 flex items-center justify-center">
+                <Captions className="w-4 h-4 text-sky-600" />
+              </div>
+              <div className="flex-1">
+                <div className="font-medium text-slate-900">
+                  {t.editor?.exportSubtitles || 'Subtitles'}
+                </div>
+                <div className="text-xs text-slate-500">
+                  {t.editor?.exportSubtitlesDesc || 'Captions for the session video'}
+                </div>
+              </div>
+            </div>
+            <div className="flex items-center gap-1 px-4 pb-2 pl-15">
+              {SUBTITLE_FORMATS.map((format) => (
+                <button
+                  key={format}
+                  onClick={() => handleExportSubtitles(format)}
+                  className="px-2 py-0.5 text-xs font-medium text-slate-600 bg-slate-100 hover:bg-sky-100 hover:text-sky-700 rounded-md transition-colors"
+                >
+                  .{format}
+                </button>
+              ))}
+            </div>
+            <div className="px-4 pb-2 pl-15 space-y-1.5 text-xs text-slate-600">
+              <label className="flex items-center gap-2 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={subtitleOptions.includeSpeakers}
+                  onChange={(e) => setSubtitleOptions({ ...subtitleOptions, includeSpeakers: e.target.checked })}
+                  className="rounded border-slate-300"
+                />
+                {t.editor?.exportSubtitlesSpeakers || 'Speaker names'}
+              </label>
+              <div className="flex items-center gap-3">
+                <label className="flex items-center gap-1.5">
+                  <input
+                    type="number"
+                    value={subtitleOptions.maxLineLength || ''}
+                    min={SUBTITLE_OPTION_LIMITS.maxLineLength.min}
+                    max={SUBTITLE_OPTION_LIMITS.maxLineLength.max}
+                    onChange={(e) => setSubtitleOptions({ ...subtitleOptions, maxLineLength: e.target.valueAsNumber })}
+                    className="w-14 px-1.5 py-0.5 border border-slate-200 rounded-md outline-none focus:border-blue-400"
+                  />
+                  {t.editor?.exportSubtitlesLineLength || 'chars/line'}
+                </label>
+                <label className="flex items-center gap-1.5">
+                  <input
+                    type="number"
+                    value={subtitleOptions.maxCueDuration || ''}
+                    min={SUBTITLE_OPTION_LIMITS.maxCueDuration.min}
+                    max={SUBTITLE_OPTION_LIMITS.maxCueDuration.max}
+                    step={0.5}
+                    onChange={(e) => setSubtitleOptions({ ...subtitleOptions, maxCueDuration: e.target.valueAsNumber })}
+                    className="w-14 px-1.5 py-0.5 border border-slate-200 rounded-md outline-none focus:border-blue-400"
+                  />
+                  {t.editor?.exportSubtitlesCueDuration || 's/cue'}
+                </label>
+              </div>
+            </div>
+
+            <div className="border-t border-slate-100 my-1" />
+
+            {/* Data Export */}
+            <div className="flex items-center gap-3 px-4 py-2.5 text-sm">
+              <div className="w-8 h-8 rounded-full bg-slate-100 flex items-center justify-center">
+                <FileJson className="w-4 h-4 text-slate-600" />
+              </div>
+              <div className="flex-1">
+                <div className="font-medium text-slate-900">
+                  {t.editor?.exportData || 'Data'}
+                </div>
+                <div className="text-xs text-slate-500">
+                  {t.editor?.exportDataDesc || 'For spreadsheets, BI tools or another installation'}
+                </div>
+              </div>
+            </div>
+            <div className="flex items-center gap-1 px-4 pb-2 pl-15">
+              {(['json', 'csv'] as const).map((format) => (
+                <button
+                  key={format}
+                  onClick={() => handleExportData(format)}
+                  className="px-2 py-0.5 text-xs font-medium text-slate-600 bg-slate-100 hover:bg-slate-200 hover:text-slate-800 rounded-md transition-colors"
+                >
+                  .{format}
+                </button>
+              ))}
+            </div>
+
             <div className="border-t border-slate-100 my-1" />
 
             {/* Official Minutes Export */}
@@ -140,6 +376,26 @@ export default function ExportMenu({
                 </div>
               </div>
             </button>
+
+            <div className="border-t border-slate-100 my-1" />
+
+            {/* Change Report Export */}
+            <button
+              onClick={handleExportChangeReport}
+              className="w-full flex items-center gap-3 px-4 py-2.5 text-left text-sm hover:bg-amber-50 transition-colors"
+            >
+              <div className="w-8 h-8 rounded-full bg-amber-100 flex items-center justify-center">
+                <FileDiff className="w-4 h-4 text-amber-600" />
+              </div>
+              <div className="flex-1">
+                <div className="font-medium text-slate-900">
+                  {t.editor?.exportChangeReport || 'Change Report (.txt)'}
+                </div>
+                <div className="text-xs text-slate-500">
+                  {t.editor?.exportChangeReportDesc || 'Edits compared with the original transcription'}
+                </div>
+              </div>
+            </button>
           </div>
         </div>
       )}
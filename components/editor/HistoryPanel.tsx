@@ -0,0 +1,143 @@
+'use client';
+
+import { useState, useRef, useEffect } from 'react';
+import { History, Undo2, Redo2, ChevronDown } from 'lucide-react';
+import { useTranslations } from '@/contexts/TranslationsContext';
+import type { EditorActionType, EditorHistoryEntry } from '@/lib/hooks/useEditorHistory';
+
+interface HistoryPanelProps {
+  /** Applied actions, oldest first */
+  past: EditorHistoryEntry[];
+  /** Undone actions, next to redo first */
+  future: EditorHistoryEntry[];
+  canUndo: boolean;
+  canRedo: boolean;
+  onUndo: () => void;
+  onRedo: () => void;
+  /** Go back or forward to the state after an entry (null: before any action) */
+  onJumpTo: (entryId: number | null) => void;
+}
+
+const ACTION_LABELS: Record<EditorActionType, string> = {
+  approve: 'Approved segment',
+  unapprove: 'Unapproved segment',
+  approveAll: 'Approved all segments',
+  unapproveAll: 'Unapproved all segments',
+  edit: 'Edited segment',
+  labelSpeaker: 'Labelled speaker',
+  rejectSuggestion: 'Rejected speaker suggestion',
+  mergeSpeakers: 'Merged speakers',
+  reassignSpeaker: 'Changed segment speaker',
+  splitSegment: 'Split segment',
+  mergeSegments: 'Merged segments',
+  insertSegment: 'Inserted segment',
+  deleteSegment: 'Deleted segment',
+  nudgeTiming: 'Adjusted segment timing',
+};
+
+export default function HistoryPanel({
+  past,
+  future,
+  canUndo,
+  canRedo,
+  onUndo,
+  onRedo,
+  onJumpTo,
+}: HistoryPanelProps) {
+  const { t, lang } = useTranslations();
+  const [isOpen, setIsOpen] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  // Close menu when clicking outside
+  useEffect(() => {
+    function handleClickOutside(event: MouseEvent) {
+      if (menuRef.current && !menuRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    }
+
+    if (isOpen) {
+      document.addEventListener('mousedown', handleClickOutside);
+      return () => document.removeEventListener('mousedown', handleClickOutside);
+    }
+  }, [isOpen]);
+
+  const describe = ({ action }: EditorHistoryEntry) => {
+    const label = t.editor?.historyActions?.[action.type] || ACTION_LABELS[action.type];
+    const segment = action.segmentIndex !== undefined ? ` #${action.segmentIndex + 1}` : '';
+    return `${label}${segment}`;
+  };
+
+  const formatTime = (timestamp: number) =>
+    new Date(timestamp).toLocaleTimeString(lang === 'el' ? 'el-GR' : 'en-US', { hour: '2-digit', minute: '2-digit', second: '2-digit' });
+
+  const renderEntry = (entry: EditorHistoryEntry, isUndone: boolean, isCurrent: boolean) => (
+    <button
+      key={entry.id}
+      onClick={() => onJumpTo(entry.id)}
+      className={`w-full flex items-start gap-2 px-4 py-2 text-left text-sm transition-colors hover:bg-slate-50 ${
+        isCurrent ? 'bg-blue-50' : ''
+      }`}
+    >
+      <div className="flex-1 min-w-0">
+        <div className={`truncate ${isUndone ? 'text-slate-400 line-through' : 'text-slate-800'}`}>
+          {describe(entry)}
+        </div>
+        {entry.action.detail && (
+          <div className="text-xs text-slate-500 truncate">{entry.action.detail}</div>
+        )}
+      </div>
+      <span className="text-xs text-slate-400 font-mono shrink-0">{formatTime(entry.timestamp)}</span>
+    </button>
+  );
+
+  return (
+    <div className="relative flex items-center gap-0.5" ref={menuRef}>
+      <button
+        onClick={onUndo}
+        disabled={!canUndo}
+        className="p-1.5 text-slate-600 hover:text-blue-600 hover:bg-slate-100 rounded-md transition-colors disabled:opacity-40 disabled:hover:bg-transparent disabled:hover:text-slate-600"
+        title={t.editor?.undo || 'Undo (Ctrl+Z)'}
+      >
+        <Undo2 className="w-4 h-4" />
+      </button>
+      <button
+        onClick={onRedo}
+        disabled={!canRedo}
+        className="p-1.5 text-slate-600 hover:text-blue-600 hover:bg-slate-100 rounded-md transition-colors disabled:opacity-40 disabled:hover:bg-transparent disabled:hover:text-slate-600"
+        title={t.editor?.redo || 'Redo (Ctrl+Shift+Z)'}
+      >
+        <Redo2 className="w-4 h-4" />
+      </button>
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="flex items-center gap-1 p-1.5 text-slate-600 hover:text-blue-600 hover:bg-slate-100 rounded-md transition-colors"
+        title={t.editor?.history || 'History'}
+      >
+        <History className="w-4 h-4" />
+        <ChevronDown className={`w-3.5 h-3.5 transition-transform ${isOpen ? 'rotate-180' : ''}`} />
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 top-full mt-1 z-50 bg-white rounded-xl shadow-xl border border-slate-200 overflow-hidden w-72">
+          <div className="px-4 py-2 border-b border-slate-100 text-xs font-semibold text-slate-500 uppercase tracking-wide">
+            {t.editor?.history || 'History'}
+          </div>
+          <div className="max-h-80 overflow-y-auto py-1">
+            {/* Undone actions, furthest first, then applied actions, newest first */}
+            {[...future].reverse().map((entry) => renderEntry(entry, true, false))}
+            {[...past].reverse().map((entry, index) => renderEntry(entry, false, index === 0))}
+            <button
+              onClick={() => onJumpTo(null)}
+              className={`w-full px-4 py-2 text-left text-sm transition-colors hover:bg-slate-50 ${
+                past.length === 0 ? 'bg-blue-50 text-slate-800' : 'text-slate-500'
+              }`}
+            >
+              {t.editor?.historyStart || 'Opened for editing'}
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -24,8 +24,13 @@ export default function KeyboardShortcutsModal({ isOpen, onClose }: KeyboardShor
           <ShortcutRow label={t.editor?.shortcutPrev || 'Previous segment'} keys={['K', '↑']} />
           <ShortcutRow label={t.editor?.shortcutNextUnapproved || 'Next unapproved'} keys={['N']} />
           <ShortcutRow label={t.editor?.shortcutPrevUnapproved || 'Previous unapproved'} keys={['P']} />
+          <ShortcutRow label={t.editor?.shortcutNextComment || 'Next open comment'} keys={[']']} />
+          <ShortcutRow label={t.editor?.shortcutPrevComment || 'Previous open comment'} keys={['[']} />
           <ShortcutRow label={t.editor?.shortcutPlayPause || 'Play from segment'} keys={['Space']} />
           <ShortcutRow label={t.editor?.shortcutSearch || 'Search'} keys={['/', '⌘F']} />
+          <ShortcutRow label={t.editor?.shortcutInsertSegment || 'Insert segment at playback position'} keys={['I']} />
+          <ShortcutRow label={t.editor?.shortcutUndo || 'Undo'} keys={['⌘Z']} />
+          <ShortcutRow label={t.editor?.shortcutRedo || 'Redo'} keys={['⌘⇧Z']} />
           <ShortcutRow label={t.editor?.shortcutEscape || 'Close search'} keys={['Esc']} />
         </div>
       </div>
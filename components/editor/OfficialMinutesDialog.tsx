@@ -2,6 +2,7 @@
 
 import { useState, useEffect, useRef, useCallback, useMemo } from 'react';
 import { X, ChevronLeft, ChevronRight, ScrollText, Users, FileText, Trash2 } from 'lucide-react';
+import toast from 'react-hot-toast';
 import { downloadInFormat, DownloadFormat } from '@/lib/export/downloadFormats';
 import { useTranslations } from '@/contexts/TranslationsContext';
 import {
@@ -171,7 +172,7 @@ export default function OfficialMinutesDialog({
       const response = await fetch('/api/export/official-minutes', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ segments: resolvedSegments, metadata }),
+        body: JSON.stringify({ segments: resolvedSegments, metadata, transcriptionId }),
         signal: abortController.signal,
       });
 
@@ -196,7 +197,12 @@ export default function OfficialMinutesDialog({
   const handleDownload = async (format: DownloadFormat) => {
     if (!formState.generatedMarkdown) return;
     const baseFilename = fileName.replace(/\.[^/.]+$/, '') + '_praktika';
-    await downloadInFormat(formState.generatedMarkdown, baseFilename, format);
+    try {
+      await downloadInFormat(formState.generatedMarkdown, baseFilename, format);
+    } catch (error) {
+      console.error('[OfficialMinutes] Download failed:', error);
+      toast.error(error instanceof Error ? error.message : 'Download failed');
+    }
   };
 
   const handleRegenerateConfirm = useCallback(() => {
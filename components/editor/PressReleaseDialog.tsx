@@ -2,6 +2,7 @@
 
 import { useState, useEffect, useRef, useCallback, useMemo } from 'react';
 import { X, ChevronLeft, ChevronRight, Newspaper, FileText, Trash2 } from 'lucide-react';
+import toast from 'react-hot-toast';
 import { downloadInFormat, DownloadFormat } from '@/lib/export/downloadFormats';
 import { useTranslations } from '@/contexts/TranslationsContext';
 import {
@@ -156,7 +157,7 @@ export default function PressReleaseDialog({
       const response = await fetch('/api/export/press-release', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ segments: resolvedSegs, metadata }),
+        body: JSON.stringify({ segments: resolvedSegs, metadata, transcriptionId }),
         signal: abortController.signal,
       });
 
@@ -184,7 +185,12 @@ export default function PressReleaseDialog({
   const handleDownload = async (format: DownloadFormat) => {
     if (!formState.generatedMarkdown) return;
     const baseFilename = fileName.replace(/\.[^/.]+$/, '') + '_press_release';
-    await downloadInFormat(formState.generatedMarkdown, baseFilename, format);
+    try {
+      await downloadInFormat(formState.generatedMarkdown, baseFilename, format);
+    } catch (error) {
+      console.error('[PressRelease] Download failed:', error);
+      toast.error(error instanceof Error ? error.message : 'Download failed');
+    }
   };
 
   const handleRegenerateConfirm = useCallback(() => {
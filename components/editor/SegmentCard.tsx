@@ -1,13 +1,18 @@
 'use client';
 
-import { useState, useEffect, memo } from 'react';
-import { Edit2, Volume2 } from 'lucide-react';
+import { useState, useEffect, useRef, memo } from 'react';
+import { Edit2, Volume2, Combine, Trash2, MessageSquarePlus } from 'lucide-react';
 import { TranscriptionSegment } from '@/lib/ai/types';
-import { SegmentApproval } from '@/lib/transcriptionStorage';
+import { SegmentApproval, SegmentComment } from '@/lib/transcriptionStorage';
 import { ColorScheme } from '@/lib/editor/speakerColors';
+import { isUncertainWord } from '@/lib/editor/uncertainty';
+import { diffWords } from '@/lib/editor/textDiff';
+import type { CommentThread } from '@/lib/editor/comments';
+import type { SegmentCommentActions } from '@/lib/hooks/useSegmentComments';
 import { useTranslations } from '@/contexts/TranslationsContext';
 import SegmentHeader from './SegmentHeader';
 import SegmentEditForm from './SegmentEditForm';
+import SegmentComments from './SegmentComments';
 
 interface SearchMatchHighlight {
   matchStart: number;
@@ -24,33 +29,60 @@ interface SegmentCardProps {
   editingSegmentIndex: number | null;
   speakerColor: ColorScheme;
   searchMatch?: SearchMatchHighlight | null;
+  /** Playback position while this segment is active, for word highlighting */
+  currentTime?: number | null;
+  /** Translated text shown next to the original, if a translation is shown */
+  translationText?: string;
+  translationLanguage?: string;
+  /** Show the edits against the original text, with the revision history */
+  showChanges?: boolean;
   onApprove?: (index: number) => void;
   onUnapprove?: (index: number) => void;
   onEdit?: (index: number, newText: string) => void;
   onSegmentClick: (segment: TranscriptionSegment) => void;
+  onWordClick?: (time: number) => void;
   onEditRequestHandled: () => void;
   onEditingChange: (index: number | null) => void;
   getSpeakerDisplayName?: (originalId: string) => string;
   onLabelSpeaker?: (originalId: string, customName: string) => void;
+  /** Speakers of the transcription, for reassigning and splitting */
+  speakers?: string[];
+  newSpeakerId?: string;
+  onReassignSpeaker?: (index: number, speaker: string) => void;
+  onSplitSegment?: (index: number, text: string, offset: number, speaker: string) => boolean;
+  /** Merge with the next segment (not given for the last segment) */
+  onMergeWithNext?: (index: number) => void;
+  onDeleteSegment?: (index: number) => void;
+  onNudgeTiming?: (index: number, edge: 'startTime' | 'endTime', delta: number) => void;
+  /** Hide the approval and editing controls (transcription is past draft) */
+  readOnly?: boolean;
+  /** Review comment threads on this segment */
+  commentThreads?: CommentThread[];
+  commentActions?: SegmentCommentActions;
 }
 
 function SegmentCard({
   segment, index, approval, isActive, isPlaying, isEditRequested, editingSegmentIndex,
-  speakerColor, searchMatch, onApprove, onUnapprove, onEdit, onSegmentClick, onEditRequestHandled,
-  onEditingChange, getSpeakerDisplayName, onLabelSpeaker,
+  speakerColor, searchMatch, currentTime, translationText, translationLanguage, showChanges, onApprove, onUnapprove, onEdit, onSegmentClick, onWordClick,
+  onEditRequestHandled, onEditingChange, getSpeakerDisplayName, onLabelSpeaker,
+  speakers, newSpeakerId, onReassignSpeaker, onSplitSegment, onMergeWithNext, onDeleteSegment, onNudgeTiming, readOnly,
+  commentThreads = [], commentActions,
 }: SegmentCardProps) {
-  const { t } = useTranslations();
+  const { t, lang } = useTranslations();
   const [isEditing, setIsEditing] = useState(false);
   const [editedText, setEditedText] = useState(approval.editedText || segment.text);
+  const [isCommenting, setIsCommenting] = useState(false);
+  const [commentRange, setCommentRange] = useState<SegmentComment['range']>();
+  const cardRef = useRef<HTMLDivElement>(null);
 
   // Handle edit request from keyboard shortcut
   useEffect(() => {
-    if (isEditRequested && isActive && !approval.approved && !isEditing) {
+    if (isEditRequested && isActive && !approval.approved && !isEditing && !readOnly) {
       setIsEditing(true);
       onEditingChange(index);
       onEditRequestHandled();
     }
-  }, [isEditRequested, isActive, approval.approved, isEditing, onEditRequestHandled, onEditingChange, index]);
+  }, [isEditRequested, isActive, approval.approved, isEditing, readOnly, onEditRequestHandled, onEditingChange, index]);
 
   // Close edit mode when another segment starts being edited
   useEffect(() => {
@@ -60,6 +92,13 @@ function SegmentCard({
     }
   }, [editingSegmentIndex, index, isEditing, approval.editedText, segment.text]);
 
+  // Keep the draft in sync while not editing (e.g. after a merge or split)
+  useEffect(() => {
+    if (!isEditing) {
+      setEditedText(approval.editedText || segment.text);
+    }
+  }, [isEditing, approval.editedText, segment.text]);
+
   const handleSaveEdit = () => {
     onEdit?.(index, editedText);
     setIsEditing(false);
@@ -72,6 +111,25 @@ function SegmentCard({
     onEditingChange(null);
   };
 
+  const handleSplit = (offset: number, speaker: string) => {
+    if (onSplitSegment?.(index, editedText, offset, speaker)) {
+      setIsEditing(false);
+      onEditingChange(null);
+    }
+  };
+
+  // The second part of a split goes to another speaker by default
+  const splitSpeakers = [
+    ...(speakers ?? []).filter((speaker) => speaker !== segment.speaker),
+    ...(newSpeakerId ? [newSpeakerId] : []),
+    segment.speaker,
+  ].map((speaker) => ({
+    id: speaker,
+    name: speaker === newSpeakerId
+      ? `${t.editor?.newSpeaker || 'New speaker'} (${speaker})`
+      : getSpeakerDisplayName?.(speaker) ?? speaker,
+  }));
+
   const handleApproveToggle = () => {
     approval.approved ? onUnapprove?.(index) : onApprove?.(index);
   };
@@ -96,10 +154,73 @@ function SegmentCard({
   const displayText = approval.editedText || segment.text;
   const hasBeenEdited = approval.editedText !== undefined && approval.editedText !== segment.text;
 
+  // Word timings only match the provider text, not an edited version
+  const words = !hasBeenEdited ? segment.words : undefined;
+
+  // Start a comment on the text selected in this card, if any
+  const handleStartComment = () => {
+    const selection = window.getSelection();
+    const quote = selection?.toString().trim() ?? '';
+    const start = quote && cardRef.current?.contains(selection!.anchorNode) ? displayText.indexOf(quote) : -1;
+    setCommentRange(start >= 0 ? { start, end: start + quote.length, quote } : undefined);
+    setIsCommenting(true);
+  };
+
+  const openCommentCount = commentThreads.filter((thread) => !thread.resolved).length;
+
+  // Render words that follow playback and seek to their start when clicked
+  const renderWords = (timedWords: NonNullable<TranscriptionSegment['words']>) => {
+    let spokenIndex = -1;
+    if (currentTime != null) {
+      timedWords.forEach((word, wordIndex) => {
+        if (word.start <= currentTime) spokenIndex = wordIndex;
+      });
+    }
+
+    return timedWords.map((word, wordIndex) => (
+      <span key={wordIndex}>
+        {wordIndex > 0 && ' '}
+        <span
+          onClick={(e) => {
+            if (!onWordClick) return;
+            e.stopPropagation();
+            onWordClick(word.start);
+          }}
+          className={`rounded px-0.5 -mx-0.5 transition-colors ${
+            wordIndex === spokenIndex && currentTime! <= word.end + 0.3
+              ? 'bg-blue-200 text-slate-900'
+              : 'hover:bg-slate-100'
+          } ${isUncertainWord(word) ? 'underline decoration-wavy decoration-amber-500 underline-offset-4' : ''}`}
+          title={isUncertainWord(word)
+            ? `${t.editor?.wordConfidence || 'Confidence'}: ${Math.round(word.confidence! * 100)}%`
+            : undefined}
+        >
+          {word.text}
+        </span>
+      </span>
+    ));
+  };
+
+  // Render a text against an earlier version, removed words struck through
+  const renderChanges = (before: string, after: string) =>
+    diffWords(before, after).map((part, partIndex) => {
+      if (part.type === 'removed') {
+        return <del key={partIndex} className="bg-red-100 text-red-700 rounded px-0.5">{part.text}</del>;
+      }
+      if (part.type === 'added') {
+        return <ins key={partIndex} className="bg-green-100 text-green-800 no-underline rounded px-0.5">{part.text}</ins>;
+      }
+      return <span key={partIndex}>{part.text}</span>;
+    });
+
   // Render text with optional search match highlighting
   const renderHighlightedText = () => {
+    if (showChanges && hasBeenEdited) {
+      return renderChanges(segment.text, displayText);
+    }
+
     if (!searchMatch) {
-      return displayText;
+      return words?.length ? renderWords(words) : displayText;
     }
 
     const { matchStart, matchEnd } = searchMatch;
@@ -130,7 +251,7 @@ function SegmentCard({
   };
 
   return (
-    <div className={`${getCardClasses()} relative`} onClick={handleCardClick}>
+    <div ref={cardRef} className={`${getCardClasses()} relative`} onClick={handleCardClick}>
       {/* Now Playing indicator */}
       {isNowPlaying && (
         <div className="absolute bottom-2 right-2 flex items-center gap-1.5 bg-blue-500 text-white px-2 py-1 rounded-full text-xs font-medium shadow-md">
@@ -144,10 +265,14 @@ function SegmentCard({
         speakerColor={speakerColor}
         hasBeenEdited={hasBeenEdited}
         isEditing={isEditing}
-        onApproveToggle={handleApproveToggle}
+        openCommentCount={openCommentCount}
+        onApproveToggle={readOnly ? undefined : handleApproveToggle}
         onTimestampClick={() => onSegmentClick(segment)}
         getSpeakerDisplayName={getSpeakerDisplayName}
-        onLabelSpeaker={onLabelSpeaker}
+        onLabelSpeaker={readOnly ? undefined : onLabelSpeaker}
+        speakers={speakers}
+        newSpeakerId={newSpeakerId}
+        onReassignSpeaker={onReassignSpeaker && !approval.approved && !readOnly ? (speaker) => onReassignSpeaker(index, speaker) : undefined}
       />
 
       {isEditing ? (
@@ -156,22 +281,108 @@ function SegmentCard({
           onTextChange={setEditedText}
           onSave={handleSaveEdit}
           onCancel={handleCancelEdit}
+          splitSpeakers={onSplitSegment ? splitSpeakers : undefined}
+          onSplit={onSplitSegment ? handleSplit : undefined}
+          startTime={segment.startTime}
+          endTime={segment.endTime}
+          onNudge={onNudgeTiming ? (edge, delta) => onNudgeTiming(index, edge, delta) : undefined}
         />
       ) : (
         <div className="space-y-2 sm:space-y-3">
-          <p className="text-sm sm:text-base text-slate-700 leading-relaxed whitespace-pre-wrap">{renderHighlightedText()}</p>
-          {!approval.approved && (
-            <button
-              onClick={(e) => {
-                e.stopPropagation();
-                setIsEditing(true);
-                onEditingChange(index);
-              }}
-              className="flex items-center gap-1.5 sm:gap-2 px-2.5 sm:px-3 py-1 sm:py-1.5 text-xs sm:text-sm font-medium text-slate-600 hover:text-blue-600 hover:bg-blue-50 rounded-lg transition-colors"
-            >
-              <Edit2 className="w-3.5 h-3.5 sm:w-4 sm:h-4" />
-              {t.editor?.edit || t.common?.edit || 'Edit'}
-            </button>
+          {translationText !== undefined ? (
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+              <p className="text-sm sm:text-base text-slate-700 leading-relaxed whitespace-pre-wrap">{renderHighlightedText()}</p>
+              <div className="md:border-l md:border-slate-200 md:pl-3">
+                {translationLanguage && (
+                  <div className="text-[10px] font-bold uppercase tracking-wide text-indigo-500 mb-0.5">{translationLanguage}</div>
+                )}
+                <p className="text-sm sm:text-base text-slate-600 leading-relaxed whitespace-pre-wrap">{translationText}</p>
+              </div>
+            </div>
+          ) : (
+            <p className="text-sm sm:text-base text-slate-700 leading-relaxed whitespace-pre-wrap">{renderHighlightedText()}</p>
+          )}
+          {showChanges && approval.revisions && approval.revisions.length > 0 && (
+            <ol className="text-xs text-slate-500 space-y-0.5 border-l-2 border-slate-200 pl-2">
+              {approval.revisions.map((revision, revisionIndex) => (
+                <li key={revisionIndex}>
+                  <span className="font-mono">
+                    {new Date(revision.editedAt).toLocaleString(lang === 'el' ? 'el-GR' : 'en-US')}
+                  </span>
+                  {revision.authorEmail && <span> · {revision.authorEmail}</span>}
+                  <span className="block text-slate-600">{renderChanges(revision.before, revision.after)}</span>
+                </li>
+              ))}
+            </ol>
+          )}
+          {((!approval.approved && !readOnly) || commentActions?.canComment) && (
+            <div className="flex items-center gap-1">
+              {!approval.approved && !readOnly && (
+                <>
+                  <button
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      setIsEditing(true);
+                      onEditingChange(index);
+                    }}
+                    className="flex items-center gap-1.5 sm:gap-2 px-2.5 sm:px-3 py-1 sm:py-1.5 text-xs sm:text-sm font-medium text-slate-600 hover:text-blue-600 hover:bg-blue-50 rounded-lg transition-colors"
+                  >
+                    <Edit2 className="w-3.5 h-3.5 sm:w-4 sm:h-4" />
+                    {t.editor?.edit || t.common?.edit || 'Edit'}
+                  </button>
+                  {onMergeWithNext && (
+                    <button
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        onMergeWithNext(index);
+                      }}
+                      className="flex items-center gap-1.5 sm:gap-2 px-2.5 sm:px-3 py-1 sm:py-1.5 text-xs sm:text-sm font-medium text-slate-600 hover:text-blue-600 hover:bg-blue-50 rounded-lg transition-colors"
+                      title={t.editor?.mergeWithNextHint || 'Join this segment and the next one'}
+                    >
+                      <Combine className="w-3.5 h-3.5 sm:w-4 sm:h-4" />
+                      {t.editor?.mergeWithNext || 'Merge with next'}
+                    </button>
+                  )}
+                  {onDeleteSegment && (
+                    <button
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        onDeleteSegment(index);
+                      }}
+                      className="flex items-center gap-1.5 sm:gap-2 px-2.5 sm:px-3 py-1 sm:py-1.5 text-xs sm:text-sm font-medium text-slate-600 hover:text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+                      title={t.editor?.deleteSegmentHint || 'Delete this segment (e.g. noise)'}
+                    >
+                      <Trash2 className="w-3.5 h-3.5 sm:w-4 sm:h-4" />
+                      {t.editor?.deleteSegment || 'Delete'}
+                    </button>
+                  )}
+                </>
+              )}
+              {commentActions?.canComment && (
+                <button
+                  onMouseDown={(e) => e.preventDefault()}
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    handleStartComment();
+                  }}
+                  className="flex items-center gap-1.5 sm:gap-2 px-2.5 sm:px-3 py-1 sm:py-1.5 text-xs sm:text-sm font-medium text-slate-600 hover:text-amber-700 hover:bg-amber-50 rounded-lg transition-colors"
+                  title={t.editor?.comments?.addHint || 'Comment on this segment (select text first to comment on part of it)'}
+                >
+                  <MessageSquarePlus className="w-3.5 h-3.5 sm:w-4 sm:h-4" />
+                  {t.editor?.comments?.add || 'Comment'}
+                </button>
+              )}
+            </div>
+          )}
+          {commentActions && (
+            <SegmentComments
+              segmentId={approval.segmentId}
+              threads={commentThreads}
+              actions={commentActions}
+              newCommentRange={commentRange}
+              isComposing={isCommenting}
+              onComposingChange={setIsCommenting}
+            />
           )}
         </div>
       )}
@@ -0,0 +1,215 @@
+'use client';
+
+import { useState } from 'react';
+import { Check, RotateCcw, Trash2, Reply } from 'lucide-react';
+import type { SegmentComment } from '@/lib/transcriptionStorage';
+import type { CommentThread } from '@/lib/editor/comments';
+import { MAX_COMMENT_LENGTH } from '@/lib/editor/comments';
+import type { SegmentCommentActions } from '@/lib/hooks/useSegmentComments';
+import { useTranslations } from '@/contexts/TranslationsContext';
+
+interface SegmentCommentsProps {
+  segmentId: string;
+  threads: CommentThread[];
+  actions: SegmentCommentActions;
+  /** Range of the segment text the new comment refers to, when composing */
+  newCommentRange?: SegmentComment['range'];
+  isComposing: boolean;
+  onComposingChange: (isComposing: boolean) => void;
+}
+
+interface CommentFormProps {
+  placeholder: string;
+  submitLabel: string;
+  /** Resolves to whether the comment was saved; the text is kept otherwise */
+  onSubmit: (text: string) => Promise<boolean>;
+  onCancel: () => void;
+}
+
+function CommentForm({ placeholder, submitLabel, onSubmit, onCancel }: CommentFormProps) {
+  const { t } = useTranslations();
+  const [text, setText] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleSubmit = async () => {
+    if (!text.trim()) return;
+    setIsSaving(true);
+    const saved = await onSubmit(text.trim());
+    setIsSaving(false);
+    if (saved) setText('');
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Enter' && (e.ctrlKey || e.metaKey)) {
+      e.preventDefault();
+      handleSubmit();
+    } else if (e.key === 'Escape') {
+      e.stopPropagation();
+      onCancel();
+    }
+  };
+
+  return (
+    <div className="space-y-1.5">
+      <textarea
+        value={text}
+        onChange={(e) => setText(e.target.value)}
+        onKeyDown={handleKeyDown}
+        rows={2}
+        maxLength={MAX_COMMENT_LENGTH}
+        autoFocus
+        placeholder={placeholder}
+        className="w-full px-2 py-1.5 text-sm border border-slate-200 rounded-lg outline-none focus:border-blue-400 resize-none bg-white"
+      />
+      <div className="flex items-center justify-end gap-1.5">
+        <button
+          onClick={onCancel}
+          className="px-2.5 py-1 text-xs font-medium text-slate-600 hover:bg-slate-100 rounded-md transition-colors"
+        >
+          {t.common?.cancel || 'Cancel'}
+        </button>
+        <button
+          onClick={handleSubmit}
+          disabled={!text.trim() || isSaving}
+          className="px-2.5 py-1 text-xs font-medium text-white bg-blue-600 hover:bg-blue-700 rounded-md transition-colors disabled:opacity-50"
+        >
+          {submitLabel}
+        </button>
+      </div>
+    </div>
+  );
+}
+
+export default function SegmentComments({
+  segmentId,
+  threads,
+  actions,
+  newCommentRange,
+  isComposing,
+  onComposingChange,
+}: SegmentCommentsProps) {
+  const { t, lang } = useTranslations();
+  const [showResolved, setShowResolved] = useState(false);
+  const [replyingTo, setReplyingTo] = useState<string | null>(null);
+
+  const openThreads = threads.filter((thread) => !thread.resolved);
+  const resolvedThreads = threads.filter((thread) => thread.resolved);
+  const visibleThreads = showResolved ? threads : openThreads;
+
+  if (threads.length === 0 && !isComposing) return null;
+
+  const formatDate = (time: number) =>
+    new Date(time).toLocaleString(lang === 'el' ? 'el-GR' : 'en-US', { dateStyle: 'short', timeStyle: 'short' });
+
+  const renderComment = (comment: SegmentComment) => (
+    <div key={comment.id} className="group/comment">
+      <div className="flex items-center gap-1.5 text-[11px] text-slate-500">
+        <span className="font-medium text-slate-700">{comment.authorEmail}</span>
+        <span>· {formatDate(comment.createdAt)}</span>
+        {actions.canDelete(comment) && (
+          <button
+            onClick={() => actions.remove(comment.id)}
+            className="ml-auto p-0.5 text-slate-400 hover:text-red-600 rounded opacity-0 group-hover/comment:opacity-100 transition-opacity"
+            title={comment.parentId ? (t.editor?.comments?.delete || 'Delete comment') : (t.editor?.comments?.deleteThread || 'Delete thread')}
+          >
+            <Trash2 className="w-3 h-3" />
+          </button>
+        )}
+      </div>
+      <p className="text-sm text-slate-800 whitespace-pre-wrap">{comment.text}</p>
+    </div>
+  );
+
+  return (
+    <div className="space-y-2" onClick={(e) => e.stopPropagation()}>
+      {visibleThreads.map(({ root, replies, resolved }) => (
+        <div
+          key={root.id}
+          className={`rounded-lg border p-2 space-y-1.5 ${
+            resolved ? 'bg-slate-50 border-slate-200 opacity-75' : 'bg-amber-50 border-amber-200'
+          }`}
+        >
+          {root.range && (
+            <blockquote className="text-xs text-slate-600 italic border-l-2 border-amber-400 pl-2 truncate">
+              “{root.range.quote}”
+            </blockquote>
+          )}
+          {renderComment(root)}
+          {replies.length > 0 && (
+            <div className="pl-3 border-l border-slate-200 space-y-1.5">
+              {replies.map(renderComment)}
+            </div>
+          )}
+
+          {replyingTo === root.id ? (
+            <CommentForm
+              placeholder={t.editor?.comments?.replyPlaceholder || 'Reply...'}
+              submitLabel={t.editor?.comments?.reply || 'Reply'}
+              onSubmit={async (text) => {
+                const saved = await actions.reply(root, text);
+                if (saved) setReplyingTo(null);
+                return saved;
+              }}
+              onCancel={() => setReplyingTo(null)}
+            />
+          ) : actions.canComment && (
+            <div className="flex items-center gap-1">
+              {!resolved && (
+                <button
+                  onClick={() => setReplyingTo(root.id)}
+                  className="flex items-center gap-1 px-2 py-0.5 text-xs font-medium text-slate-600 hover:text-blue-600 hover:bg-white rounded-md transition-colors"
+                >
+                  <Reply className="w-3 h-3" />
+                  {t.editor?.comments?.reply || 'Reply'}
+                </button>
+              )}
+              <button
+                onClick={() => actions.setResolved(root.id, !resolved)}
+                className="flex items-center gap-1 px-2 py-0.5 text-xs font-medium text-slate-600 hover:text-green-700 hover:bg-white rounded-md transition-colors"
+              >
+                {resolved ? <RotateCcw className="w-3 h-3" /> : <Check className="w-3 h-3" />}
+                {resolved ? (t.editor?.comments?.reopen || 'Reopen') : (t.editor?.comments?.resolve || 'Resolve')}
+              </button>
+              {resolved && root.resolvedByEmail && (
+                <span className="text-[11px] text-slate-400">
+                  {t.editor?.comments?.resolvedBy || 'Resolved by'} {root.resolvedByEmail}
+                </span>
+              )}
+            </div>
+          )}
+        </div>
+      ))}
+
+      {resolvedThreads.length > 0 && (
+        <button
+          onClick={() => setShowResolved(!showResolved)}
+          className="text-xs font-medium text-slate-500 hover:text-slate-700"
+        >
+          {showResolved
+            ? (t.editor?.comments?.hideResolved || 'Hide resolved comments')
+            : `${t.editor?.comments?.showResolved || 'Show resolved comments'} (${resolvedThreads.length})`}
+        </button>
+      )}
+
+      {isComposing && (
+        <div className="rounded-lg border border-blue-200 bg-blue-50 p-2 space-y-1.5">
+          {newCommentRange && (
+            <blockquote className="text-xs text-slate-600 italic border-l-2 border-blue-400 pl-2 truncate">
+              “{newCommentRange.quote}”
+            </blockquote>
+          )}
+          <CommentForm
+            placeholder={t.editor?.comments?.placeholder || 'e.g. Check this amount against the budget document'}
+            submitLabel={t.editor?.comments?.add || 'Comment'}
+            onSubmit={async (text) => {
+              const saved = await actions.add(segmentId, text, newCommentRange);
+              if (saved) onComposingChange(false);
+              return saved;
+            }}
+            onCancel={() => onComposingChange(false)}
+          />
+        </div>
+      )}
+    </div>
+  );
+}
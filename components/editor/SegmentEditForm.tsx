@@ -1,5 +1,6 @@
-import { useRef, useEffect } from 'react';
-import { X, Save } from 'lucide-react';
+import { useRef, useEffect, useState } from 'react';
+import { X, Save, Scissors, Minus, Plus } from 'lucide-react';
+import { formatTimestamp } from '@/lib/editor/speakerColors';
 import { useTranslations } from '@/contexts/TranslationsContext';
 
 interface SegmentEditFormProps {
@@ -7,16 +8,33 @@ interface SegmentEditFormProps {
   onTextChange: (text: string) => void;
   onSave: () => void;
   onCancel: () => void;
+  /** Speakers the second part of a split can be given to (first is the default) */
+  splitSpeakers?: Array<{ id: string; name: string }>;
+  /** Split the text at the cursor, giving the second part to `speaker` */
+  onSplit?: (offset: number, speaker: string) => void;
+  startTime?: number;
+  endTime?: number;
+  /** Move the start or end of the segment by `delta` seconds */
+  onNudge?: (edge: 'startTime' | 'endTime', delta: number) => void;
 }
 
+/** Step of the timing nudge buttons (seconds) */
+const NUDGE_STEP = 0.1;
+
 export default function SegmentEditForm({
   editedText,
   onTextChange,
   onSave,
   onCancel,
+  splitSpeakers = [],
+  onSplit,
+  startTime,
+  endTime,
+  onNudge,
 }: SegmentEditFormProps) {
   const { t } = useTranslations();
   const textAreaRef = useRef<HTMLTextAreaElement>(null);
+  const [splitSpeaker, setSplitSpeaker] = useState(splitSpeakers[0]?.id ?? '');
 
   useEffect(() => {
     if (textAreaRef.current) {
@@ -25,8 +43,35 @@ export default function SegmentEditForm({
     }
   }, []);
 
+  const renderNudge = (edge: 'startTime' | 'endTime', label: string, time: number) => (
+    <div className="flex items-center gap-1">
+      <span className="text-slate-500">{label}</span>
+      <button
+        onClick={() => onNudge?.(edge, -NUDGE_STEP)}
+        className="p-1 rounded text-slate-500 hover:text-blue-600 hover:bg-blue-50 transition-colors"
+        title={`-${NUDGE_STEP}s`}
+      >
+        <Minus className="w-3 h-3" />
+      </button>
+      <span className="font-mono text-slate-700">{formatTimestamp(time)}.{Math.floor(Math.round(time * 1000) / 100) % 10}</span>
+      <button
+        onClick={() => onNudge?.(edge, NUDGE_STEP)}
+        className="p-1 rounded text-slate-500 hover:text-blue-600 hover:bg-blue-50 transition-colors"
+        title={`+${NUDGE_STEP}s`}
+      >
+        <Plus className="w-3 h-3" />
+      </button>
+    </div>
+  );
+
   return (
     <div className="space-y-3">
+      {onNudge && startTime !== undefined && endTime !== undefined && (
+        <div className="flex flex-wrap items-center gap-3 text-xs">
+          {renderNudge('startTime', t.editor?.segmentStart || 'Start', startTime)}
+          {renderNudge('endTime', t.editor?.segmentEnd || 'End', endTime)}
+        </div>
+      )}
       <textarea
         ref={textAreaRef}
         value={editedText}
@@ -35,7 +80,7 @@ export default function SegmentEditForm({
         rows={3}
         style={{ minHeight: '80px' }}
       />
-      <div className="flex items-center gap-2">
+      <div className="flex flex-wrap items-center gap-2">
         <button
           onClick={onSave}
           className="flex items-center gap-1.5 sm:gap-2 px-3 sm:px-4 py-1.5 sm:py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors text-xs sm:text-sm font-medium"
@@ -50,6 +95,29 @@ export default function SegmentEditForm({
           <X className="w-3.5 h-3.5 sm:w-4 sm:h-4" />
           {t.editor?.cancel || t.common?.cancel || 'Cancel'}
         </button>
+
+        {onSplit && splitSpeakers.length > 0 && (
+          <div className="ml-auto flex items-center gap-1.5">
+            <select
+              value={splitSpeaker}
+              onChange={(e) => setSplitSpeaker(e.target.value)}
+              className="px-2 py-1.5 sm:py-2 rounded-lg border border-slate-200 bg-white text-xs sm:text-sm text-slate-700 max-w-[140px]"
+              title={t.editor?.splitSpeaker || 'Speaker of the second part'}
+            >
+              {splitSpeakers.map((speaker) => (
+                <option key={speaker.id} value={speaker.id}>{speaker.name}</option>
+              ))}
+            </select>
+            <button
+              onClick={() => onSplit(textAreaRef.current?.selectionStart ?? 0, splitSpeaker)}
+              className="flex items-center gap-1.5 sm:gap-2 px-3 sm:px-4 py-1.5 sm:py-2 bg-white border border-slate-200 text-slate-700 rounded-lg hover:bg-slate-50 transition-colors text-xs sm:text-sm font-medium"
+              title={t.editor?.splitHint || 'Place the cursor where the next speaker starts'}
+            >
+              <Scissors className="w-3.5 h-3.5 sm:w-4 sm:h-4" />
+              {t.editor?.split || 'Split'}
+            </button>
+          </div>
+        )}
       </div>
     </div>
   );
@@ -1,8 +1,9 @@
 import { useState, useRef, useEffect } from 'react';
-import { Check } from 'lucide-react';
+import { Check, MessageSquare } from 'lucide-react';
 import { TranscriptionSegment } from '@/lib/ai/types';
 import { SegmentApproval } from '@/lib/transcriptionStorage';
 import { ColorScheme, formatTimestamp } from '@/lib/editor/speakerColors';
+import { getSegmentUncertainty, UNCERTAIN_SEGMENT_THRESHOLD } from '@/lib/editor/uncertainty';
 import { useTranslations } from '@/contexts/TranslationsContext';
 
 interface SegmentHeaderProps {
@@ -11,10 +12,16 @@ interface SegmentHeaderProps {
   speakerColor: ColorScheme;
   hasBeenEdited: boolean;
   isEditing: boolean;
+  /** Unresolved review comment threads on the segment */
+  openCommentCount?: number;
   onApproveToggle?: () => void;
   onTimestampClick: () => void;
   getSpeakerDisplayName?: (originalId: string) => string;
   onLabelSpeaker?: (originalId: string, customName: string) => void;
+  /** Speakers the segment can be given to, and an unused ID for a new speaker */
+  speakers?: string[];
+  newSpeakerId?: string;
+  onReassignSpeaker?: (speaker: string) => void;
 }
 
 export default function SegmentHeader({
@@ -23,13 +30,19 @@ export default function SegmentHeader({
   speakerColor,
   hasBeenEdited,
   isEditing,
+  openCommentCount = 0,
   onApproveToggle,
   onTimestampClick,
   getSpeakerDisplayName,
   onLabelSpeaker,
+  speakers = [],
+  newSpeakerId,
+  onReassignSpeaker,
 }: SegmentHeaderProps) {
   const { t } = useTranslations();
   const displayName = getSpeakerDisplayName ? getSpeakerDisplayName(segment.speaker) : segment.speaker;
+  const uncertainty = getSegmentUncertainty(segment);
+  const isUncertain = uncertainty !== undefined && uncertainty >= UNCERTAIN_SEGMENT_THRESHOLD;
   const [isEditingSpeaker, setIsEditingSpeaker] = useState(false);
   const [speakerInputValue, setSpeakerInputValue] = useState(displayName);
   const speakerInputRef = useRef<HTMLInputElement>(null);
@@ -95,6 +108,30 @@ export default function SegmentHeader({
           </button>
         )}
 
+        {onReassignSpeaker && !isEditing && !isEditingSpeaker && (
+          <select
+            value=""
+            onChange={(e) => onReassignSpeaker(e.target.value)}
+            onClick={(e) => e.stopPropagation()}
+            className="px-1 py-0.5 rounded-md border border-slate-200 bg-transparent text-[10px] sm:text-xs text-slate-500 hover:border-slate-300 outline-none cursor-pointer"
+            title={t.editor?.reassignSpeakerHint || 'Give this segment to another speaker'}
+          >
+            <option value="" disabled>{t.editor?.reassignSpeaker || 'Change speaker'}</option>
+            {speakers
+              .filter((speaker) => speaker !== segment.speaker)
+              .map((speaker) => (
+                <option key={speaker} value={speaker}>
+                  {getSpeakerDisplayName ? getSpeakerDisplayName(speaker) : speaker}
+                </option>
+              ))}
+            {newSpeakerId && (
+              <option value={newSpeakerId}>
+                {t.editor?.newSpeaker || 'New speaker'} ({newSpeakerId})
+              </option>
+            )}
+          </select>
+        )}
+
         <button
           onClick={(e) => {
             e.stopPropagation();
@@ -111,6 +148,25 @@ export default function SegmentHeader({
             {t.editor?.edited || 'Edited'}
           </span>
         )}
+
+        {isUncertain && !approval.approved && !hasBeenEdited && (
+          <span
+            className="px-1.5 sm:px-2 py-0.5 rounded-md bg-amber-100 text-amber-700 text-[10px] sm:text-xs font-medium"
+            title={`${t.editor?.uncertainty || 'Uncertainty'}: ${Math.round(uncertainty * 100)}%`}
+          >
+            {t.editor?.uncertain || 'Uncertain'}
+          </span>
+        )}
+
+        {openCommentCount > 0 && (
+          <span
+            className="flex items-center gap-1 px-1.5 sm:px-2 py-0.5 rounded-md bg-amber-100 text-amber-800 text-[10px] sm:text-xs font-medium"
+            title={t.editor?.comments?.open || 'Open comments'}
+          >
+            <MessageSquare className="w-3 h-3" />
+            {openCommentCount}
+          </span>
+        )}
       </div>
 
       {onApproveToggle && (
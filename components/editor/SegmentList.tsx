@@ -3,9 +3,11 @@
 import { useRef, useEffect, useCallback } from 'react';
 import { useVirtualizer } from '@tanstack/react-virtual';
 import { TranscriptionSegment } from '@/lib/ai/types';
-import { SegmentApproval } from '@/lib/transcriptionStorage';
+import { EditorSegment, SegmentApproval } from '@/lib/transcriptionStorage';
 import { ColorScheme } from '@/lib/editor/speakerColors';
 import { SearchMatchEvent } from '@/lib/hooks/useSegmentSearch';
+import type { SegmentCommentActions } from '@/lib/hooks/useSegmentComments';
+import type { CommentThread } from '@/lib/editor/comments';
 import SegmentCard from './SegmentCard';
 
 interface SeekEvent {
@@ -14,12 +16,19 @@ interface SeekEvent {
 }
 
 interface SegmentListProps {
-  segments: TranscriptionSegment[];
+  segments: EditorSegment[];
+  /** Approval of each segment, in segment order */
   approvals: SegmentApproval[];
   speakerColorMap: Record<string, ColorScheme>;
   activeSegmentIndex: number | null;
+  currentTime: number;
   seekEvent: SeekEvent | null;
   currentSearchMatch: SearchMatchEvent | null;
+  /** Translated segment texts shown next to the originals, by segment ID */
+  translationTexts?: Record<string, string>;
+  translationLanguage?: string;
+  /** Show edits against the original text */
+  showChanges?: boolean;
   isPlaying: boolean;
   isEditRequested: boolean;
   editingSegmentIndex: number | null;
@@ -27,11 +36,24 @@ interface SegmentListProps {
   onUnapprove: (index: number) => void;
   onEdit: (index: number, newText: string) => void;
   onSegmentClick: (segment: TranscriptionSegment) => void;
+  onWordClick: (time: number) => void;
   onEditRequestHandled: () => void;
   onSeekEventHandled: () => void;
   onEditingChange: (index: number | null) => void;
   getSpeakerDisplayName?: (originalId: string) => string;
   onLabelSpeaker?: (originalId: string, customName: string) => void;
+  speakers?: string[];
+  newSpeakerId?: string;
+  onReassignSpeaker?: (index: number, speaker: string) => void;
+  onSplitSegment?: (index: number, text: string, offset: number, speaker: string) => boolean;
+  onMergeWithNext?: (index: number) => void;
+  onDeleteSegment?: (index: number) => void;
+  onNudgeTiming?: (index: number, edge: 'startTime' | 'endTime', delta: number) => void;
+  /** Hide the approval and editing controls */
+  readOnly?: boolean;
+  /** Review comment threads by segment ID */
+  commentThreads?: Map<string, CommentThread[]>;
+  commentActions?: SegmentCommentActions;
 }
 
 export default function SegmentList({
@@ -39,8 +61,12 @@ export default function SegmentList({
   approvals,
   speakerColorMap,
   activeSegmentIndex,
+  currentTime,
   seekEvent,
   currentSearchMatch,
+  translationTexts,
+  translationLanguage,
+  showChanges,
   isPlaying,
   isEditRequested,
   editingSegmentIndex,
@@ -48,17 +74,30 @@ export default function SegmentList({
   onUnapprove,
   onEdit,
   onSegmentClick,
+  onWordClick,
   onEditRequestHandled,
   onSeekEventHandled,
   onEditingChange,
   getSpeakerDisplayName,
   onLabelSpeaker,
+  speakers,
+  newSpeakerId,
+  onReassignSpeaker,
+  onSplitSegment,
+  onMergeWithNext,
+  onDeleteSegment,
+  onNudgeTiming,
+  readOnly,
+  commentThreads,
+  commentActions,
 }: SegmentListProps) {
   const parentRef = useRef<HTMLDivElement>(null);
 
   const virtualizer = useVirtualizer({
     count: segments.length,
     getScrollElement: () => parentRef.current,
+    // Keyed by segment ID so cards keep their state when segments are inserted or removed
+    getItemKey: (index) => segments[index]?.id ?? index,
     estimateSize: () => 172,
     overscan: 5,
   });
@@ -128,7 +167,7 @@ export default function SegmentList({
           const index = virtualRow.index;
           const segment = segments[index];
           const approval = approvals[index] || {
-            segmentIndex: index,
+            segmentId: segment.id,
             approved: false,
           };
 
@@ -156,14 +195,29 @@ export default function SegmentList({
                   editingSegmentIndex={editingSegmentIndex}
                   speakerColor={speakerColorMap[segment.speaker]}
                   searchMatch={currentSearchMatch?.segmentIndex === index ? currentSearchMatch : null}
+                  currentTime={activeSegmentIndex === index ? currentTime : null}
+                  translationText={translationTexts?.[segment.id]}
+                  translationLanguage={translationLanguage}
+                  showChanges={showChanges}
                   onApprove={onApprove}
                   onUnapprove={onUnapprove}
                   onEdit={onEdit}
                   onSegmentClick={onSegmentClick}
+                  onWordClick={onWordClick}
                   onEditRequestHandled={onEditRequestHandled}
                   onEditingChange={onEditingChange}
                   getSpeakerDisplayName={getSpeakerDisplayName}
                   onLabelSpeaker={onLabelSpeaker}
+                  speakers={speakers}
+                  newSpeakerId={newSpeakerId}
+                  onReassignSpeaker={onReassignSpeaker}
+                  onSplitSegment={onSplitSegment}
+                  onMergeWithNext={index < segments.length - 1 ? onMergeWithNext : undefined}
+                  onDeleteSegment={onDeleteSegment}
+                  onNudgeTiming={onNudgeTiming}
+                  readOnly={readOnly}
+                  commentThreads={commentThreads?.get(segment.id)}
+                  commentActions={commentActions}
                 />
               </div>
             </div>
@@ -1,8 +1,9 @@
 'use client';
 
 import { useState, useRef, useEffect } from 'react';
-import { ChevronDown, Volume2, VolumeX, X } from 'lucide-react';
+import { ChevronDown, Volume2, VolumeX, X, Check, UserCheck, Merge } from 'lucide-react';
 import { TranscriptionSegment } from '@/lib/ai/types';
+import { SpeakerSuggestion } from '@/lib/transcriptionStorage';
 import { getAllSpeakersWithColors, ColorScheme } from '@/lib/editor/speakerColors';
 import { useTranslations } from '@/contexts/TranslationsContext';
 
@@ -14,6 +15,12 @@ interface SpeakerLegendProps {
   onStopSample?: () => void;
   isPlayingSample?: boolean;
   currentPlayingSpeaker?: string | null;
+  /** Labels suggested from the organization roster, at most one per speaker */
+  suggestions?: SpeakerSuggestion[];
+  onAcceptSuggestion?: (suggestion: SpeakerSuggestion) => void;
+  onRejectSuggestion?: (suggestion: SpeakerSuggestion) => void;
+  /** Merge the segments of one speaker into another (diarization split one person in two) */
+  onMergeSpeakers?: (from: string, into: string) => void;
 }
 
 const COLLAPSED_COUNT = 4;
@@ -28,6 +35,12 @@ interface SpeakerItemProps {
   onPlaySample?: () => void;
   onStopSample?: () => void;
   isPlaying?: boolean;
+  suggestion?: SpeakerSuggestion;
+  onAcceptSuggestion?: () => void;
+  onRejectSuggestion?: () => void;
+  /** Other speakers this one can be merged into */
+  mergeTargets?: Array<{ id: string; name: string }>;
+  onMerge?: (into: string) => void;
 }
 
 function SpeakerItem({
@@ -40,9 +53,15 @@ function SpeakerItem({
   onPlaySample,
   onStopSample,
   isPlaying,
+  suggestion,
+  onAcceptSuggestion,
+  onRejectSuggestion,
+  mergeTargets = [],
+  onMerge,
 }: SpeakerItemProps) {
   const { t } = useTranslations();
   const [isEditing, setIsEditing] = useState(false);
+  const [isMerging, setIsMerging] = useState(false);
   const [editValue, setEditValue] = useState(displayName);
   const inputRef = useRef<HTMLInputElement>(null);
 
@@ -78,63 +97,128 @@ function SpeakerItem({
   };
 
   return (
-    <div className="flex items-center gap-2 min-w-0 group py-1">
-      {/* Color indicator with optional play button */}
-      <div className="relative shrink-0">
-        <div
-          className={`w-4 h-4 rounded-full ${color.bg} ${color.border} border-2`}
-        />
-        {onPlaySample && (
+    <div className="py-1">
+      <div className="flex items-center gap-2 min-w-0 group">
+        {/* Color indicator with optional play button */}
+        <div className="relative shrink-0">
+          <div
+            className={`w-4 h-4 rounded-full ${color.bg} ${color.border} border-2`}
+          />
+          {onPlaySample && (
+            <button
+              onClick={(e) => {
+                e.stopPropagation();
+                isPlaying ? onStopSample?.() : onPlaySample();
+              }}
+              className="absolute -inset-1 flex items-center justify-center opacity-0 group-hover:opacity-100 bg-white/90 rounded-full transition-opacity"
+              title={isPlaying ? t.editor?.stopSample || 'Stop' : t.editor?.playSample || 'Play'}
+            >
+              {isPlaying ? (
+                <VolumeX className="w-3 h-3 text-slate-600" />
+              ) : (
+                <Volume2 className="w-3 h-3 text-slate-600" />
+              )}
+            </button>
+          )}
+        </div>
+
+        {/* Name - editable */}
+        {isEditing ? (
+          <input
+            ref={inputRef}
+            value={editValue}
+            onChange={(e) => setEditValue(e.target.value)}
+            onBlur={handleSave}
+            onKeyDown={handleKeyDown}
+            className="flex-1 min-w-0 text-sm px-1.5 py-0.5 border border-purple-300 rounded focus:ring-1 focus:ring-purple-200 focus:border-purple-400 outline-none"
+            placeholder={speakerId}
+          />
+        ) : (
+          <button
+            onClick={() => setIsEditing(true)}
+            className="flex-1 min-w-0 text-left text-sm text-slate-700 hover:text-purple-600 truncate transition-colors"
+            title={t.editor?.clickToRenameSpeaker || 'Click to rename'}
+          >
+            {displayName}
+          </button>
+        )}
+
+        {/* Clear button (only if renamed) */}
+        {isRenamed && !isEditing && (
+          <button
+            onClick={(e) => {
+              e.stopPropagation();
+              onClear();
+            }}
+            className="shrink-0 p-0.5 opacity-0 group-hover:opacity-100 text-slate-400 hover:text-red-500 rounded transition-all"
+            title={t.editor?.clearLabel || 'Clear'}
+          >
+            <X className="w-3 h-3" />
+          </button>
+        )}
+
+        {/* Merge button */}
+        {onMerge && mergeTargets.length > 0 && !isEditing && (
           <button
             onClick={(e) => {
               e.stopPropagation();
-              isPlaying ? onStopSample?.() : onPlaySample();
+              setIsMerging(!isMerging);
             }}
-            className="absolute -inset-1 flex items-center justify-center opacity-0 group-hover:opacity-100 bg-white/90 rounded-full transition-opacity"
-            title={isPlaying ? t.editor?.stopSample || 'Stop' : t.editor?.playSample || 'Play'}
+            className="shrink-0 p-0.5 opacity-0 group-hover:opacity-100 text-slate-400 hover:text-purple-600 rounded transition-all"
+            title={t.editor?.mergeSpeaker || 'Merge into another speaker'}
           >
-            {isPlaying ? (
-              <VolumeX className="w-3 h-3 text-slate-600" />
-            ) : (
-              <Volume2 className="w-3 h-3 text-slate-600" />
-            )}
+            <Merge className="w-3 h-3" />
           </button>
         )}
       </div>
 
-      {/* Name - editable */}
-      {isEditing ? (
-        <input
-          ref={inputRef}
-          value={editValue}
-          onChange={(e) => setEditValue(e.target.value)}
-          onBlur={handleSave}
-          onKeyDown={handleKeyDown}
-          className="flex-1 min-w-0 text-sm px-1.5 py-0.5 border border-purple-300 rounded focus:ring-1 focus:ring-purple-200 focus:border-purple-400 outline-none"
-          placeholder={speakerId}
-        />
-      ) : (
-        <button
-          onClick={() => setIsEditing(true)}
-          className="flex-1 min-w-0 text-left text-sm text-slate-700 hover:text-purple-600 truncate transition-colors"
-          title={t.editor?.clickToRenameSpeaker || 'Click to rename'}
-        >
-          {displayName}
-        </button>
+      {/* Merge target */}
+      {isMerging && (
+        <div className="ml-6 mt-1">
+          <select
+            autoFocus
+            value=""
+            onChange={(e) => {
+              onMerge?.(e.target.value);
+              setIsMerging(false);
+            }}
+            onBlur={() => setIsMerging(false)}
+            className="w-full text-xs px-1.5 py-1 border border-purple-300 rounded text-slate-700 outline-none focus:ring-1 focus:ring-purple-200"
+          >
+            <option value="" disabled>{t.editor?.mergeInto || 'Merge into...'}</option>
+            {mergeTargets.map((target) => (
+              <option key={target.id} value={target.id}>{target.name}</option>
+            ))}
+          </select>
+        </div>
       )}
 
-      {/* Clear button (only if renamed) */}
-      {isRenamed && !isEditing && (
-        <button
-          onClick={(e) => {
-            e.stopPropagation();
-            onClear();
-          }}
-          className="shrink-0 p-0.5 opacity-0 group-hover:opacity-100 text-slate-400 hover:text-red-500 rounded transition-all"
-          title={t.editor?.clearLabel || 'Clear'}
-        >
-          <X className="w-3 h-3" />
-        </button>
+      {/* Roster suggestion */}
+      {suggestion && !isRenamed && !isEditing && (
+        <div className="ml-6 mt-1 flex items-center gap-1.5 text-xs">
+          <UserCheck className="w-3.5 h-3.5 text-purple-500 shrink-0" />
+          <span
+            className="flex-1 min-w-0 truncate text-slate-600"
+            title={t.editor?.suggestedSpeaker || 'Suggested from the speaker roster by voice'}
+          >
+            {suggestion.customName}{' '}
+            <span className="text-slate-400">{Math.round(suggestion.confidence * 100)}%</span>
+          </span>
+          <button
+            onClick={onAcceptSuggestion}
+            className="shrink-0 p-0.5 text-slate-400 hover:text-green-600 hover:bg-green-50 rounded transition-colors"
+            title={t.editor?.acceptSuggestion || 'Accept'}
+          >
+            <Check className="w-3.5 h-3.5" />
+          </button>
+          <button
+            onClick={onRejectSuggestion}
+            className="shrink-0 p-0.5 text-slate-400 hover:text-red-500 hover:bg-red-50 rounded transition-colors"
+            title={t.editor?.rejectSuggestion || 'Reject'}
+          >
+            <X className="w-3.5 h-3.5" />
+          </button>
+        </div>
       )}
     </div>
   );
@@ -148,6 +232,10 @@ export default function SpeakerLegend({
   onStopSample,
   isPlayingSample,
   currentPlayingSpeaker,
+  suggestions = [],
+  onAcceptSuggestion,
+  onRejectSuggestion,
+  onMergeSpeakers,
 }: SpeakerLegendProps) {
   const { t } = useTranslations();
   const [isExpanded, setIsExpanded] = useState(false);
@@ -170,6 +258,7 @@ export default function SpeakerLegend({
         {visibleSpeakers.map(({ speaker, color }) => {
           const displayName = getSpeakerDisplayName(speaker);
           const isRenamed = displayName !== speaker;
+          const suggestion = suggestions.find((item) => item.originalId === speaker);
 
           return (
             <SpeakerItem
@@ -183,6 +272,13 @@ export default function SpeakerLegend({
               onPlaySample={onPlaySpeakerSample ? () => onPlaySpeakerSample(speaker) : undefined}
               onStopSample={onStopSample}
               isPlaying={isPlayingSample && currentPlayingSpeaker === speaker}
+              suggestion={suggestion}
+              onAcceptSuggestion={suggestion ? () => onAcceptSuggestion?.(suggestion) : undefined}
+              onRejectSuggestion={suggestion ? () => onRejectSuggestion?.(suggestion) : undefined}
+              mergeTargets={speakersWithColors
+                .filter((item) => item.speaker !== speaker)
+                .map((item) => ({ id: item.speaker, name: getSpeakerDisplayName(item.speaker) }))}
+              onMerge={onMergeSpeakers ? (into) => onMergeSpeakers(speaker, into) : undefined}
             />
           );
         })}
@@ -1,20 +1,42 @@
 'use client';
 
-import { useRef, useCallback, useMemo, useState } from 'react';
+import { useRef, useCallback, useMemo, useState, useEffect } from 'react';
 import toast from 'react-hot-toast';
-import { SavedTranscription } from '@/lib/transcriptionStorage';
+import { Lock } from 'lucide-react';
+import { SavedTranscription, TranscriptionTranslation } from '@/lib/transcriptionStorage';
+import { translateTranscription, removeTranslation, saveEditorState } from '@/lib/library/client';
+import type { WorkflowState } from '@/lib/library/workflow';
+import { ExportColumns, formatSegmentColumns } from '@/lib/export/translation';
+import { formatChangeReport, DEFAULT_CHANGE_REPORT_LABELS } from '@/lib/export/changeReport';
+import { formatCommentThreads, DEFAULT_COMMENT_EXPORT_LABELS } from '@/lib/export/comments';
+import { buildSubtitleCues, formatSubtitles, SubtitleFormat, SubtitleOptions } from '@/lib/export/subtitles';
+import { buildTranscriptData, formatTranscriptCsv } from '@/lib/export/transcriptData';
+import { downloadAsTxt, downloadAsSubtitles, downloadAsJson, downloadAsCsv } from '@/lib/export/downloadFormats';
+import {
+  buildTranscriptDocument,
+  downloadTranscriptDocument,
+  DEFAULT_TRANSCRIPT_DOCUMENT_LABELS,
+  TranscriptDocumentFormat,
+  TranscriptDocumentOptions,
+} from '@/lib/export/transcriptDocument';
 import { SPEAKER_COLORS, ColorScheme } from '@/lib/editor/speakerColors';
+import { getSegmentText, getTranslatedText, toTranslatedTexts } from '@/lib/editor/segmentStructure';
 import { useEditorKeyboardShortcuts } from '@/lib/hooks/useEditorKeyboardShortcuts';
 import { useEditorState } from '@/lib/hooks/useEditorState';
 import { useAudioSync } from '@/lib/hooks/useAudioSync';
 import { useSegmentSearch } from '@/lib/hooks/useSegmentSearch';
 import { useSpeakerSample } from '@/lib/hooks/useSpeakerSample';
+import { useSpeakerSuggestions } from '@/lib/hooks/useSpeakerSuggestions';
+import { useWorkflow } from '@/lib/hooks/useWorkflow';
+import { useSegmentComments } from '@/lib/hooks/useSegmentComments';
+import { useOrganization } from '@/lib/hooks/useOrganization';
 import { useTranslations } from '@/contexts/TranslationsContext';
 import EditorHeader from './EditorHeader';
 import AudioPlayer from './AudioPlayer';
 import SpeakerLegend from './SpeakerLegend';
 import SegmentList from './SegmentList';
 import SearchBar from './SearchBar';
+import { WORKFLOW_STATE_LABELS } from '@/components/shared/WorkflowBadge';
 import OfficialMinutesDialog from './OfficialMinutesDialog';
 import PressReleaseDialog from './PressReleaseDialog';
 
@@ -34,38 +56,93 @@ function formatTime(seconds: number): string {
 }
 
 export default function TranscriptionEditor({ transcription }: TranscriptionEditorProps) {
-  const { t } = useTranslations();
+  const { t, lang } = useTranslations();
   const audioRef = useRef<HTMLAudioElement>(null);
   const [showOfficialMinutesDialog, setShowOfficialMinutesDialog] = useState(false);
   const [showPressReleaseDialog, setShowPressReleaseDialog] = useState(false);
+  const [showChanges, setShowChanges] = useState(false);
+
+  // Translation tracks, one of which can be shown next to the original
+  // (copies cached before translations were keyed by segment ID hold lists)
+  const [translations, setTranslations] = useState<TranscriptionTranslation[]>(
+    () => (transcription.metadata?.translations ?? []).map((translation) => ({
+      ...translation,
+      segments: toTranslatedTexts(translation.segments),
+    }))
+  );
+  const [activeTranslationLanguage, setActiveTranslationLanguage] = useState<string | null>(null);
+  const [translatingLanguage, setTranslatingLanguage] = useState<string | null>(null);
 
-  // Get segments sorted by start time
-  const segments = useMemo(() => {
+  // Provider segments sorted by start time
+  const providerSegments = useMemo(() => {
     const rawSegments = transcription.metadata?.structuredData?.segments || [];
     return [...rawSegments].sort((a, b) => a.startTime - b.startTime);
   }, [transcription.metadata?.structuredData?.segments]);
 
+  // Review workflow; past draft the editor is read-only, as it is for viewers
+  const workflow = useWorkflow(transcription);
+  const { can } = useOrganization();
+  const isReadOnly = workflow.isLocked || !can('reviewer');
+
   // Editor state with speaker management
   const {
     editorState,
+    saveError,
+    segments,
+    approvals,
+    applyAction,
+    undo,
+    redo,
+    jumpTo,
+    canUndo,
+    canRedo,
+    history,
     handleApprove,
     handleUnapprove,
     handleApproveAll,
     handleUnapproveAll,
     handleEdit,
-    handleFinalize,
-    handleRevertToDraft,
     approvedCount,
     getNextUnapprovedIndex,
     getPrevUnapprovedIndex,
+    reviewOrder,
+    setReviewOrder,
+    hasUncertaintyScores,
     speakerLabels,
     handleLabelSpeaker,
     getSpeakerDisplayName,
     uniqueSpeakers,
     labeledCount,
-  } = useEditorState(transcription, segments, () =>
-    toast.success(t.editor?.finalizeSuccess || 'Transcription finalized successfully!')
-  );
+    handleMergeSpeakers,
+    handleReassignSpeaker,
+    newSpeakerId,
+    handleSplitSegment,
+    handleMergeWithNext,
+    handleInsertSegment,
+    handleDeleteSegment,
+    handleNudgeTiming,
+  } = useEditorState(transcription, providerSegments, isReadOnly);
+
+  // Changes the server rejected are not saved; the next change retries
+  useEffect(() => {
+    if (saveError) toast.error(saveError);
+  }, [saveError]);
+
+  // Speaker labels suggested from the organization roster
+  const speakerSuggestions = useSpeakerSuggestions({
+    transcriptionId: transcription.id,
+    editorState,
+    applyAction,
+    onLabelSpeaker: handleLabelSpeaker,
+  });
+
+  // Review comments, kept apart from the editor state
+  const handleCommentError = useCallback((error: unknown) => {
+    console.error('[Editor] Comment change failed:', error);
+    toast.error(error instanceof Error ? error.message : 'Failed to save comment');
+  }, []);
+
+  const comments = useSegmentComments({ transcription, segments, onError: handleCommentError });
 
   // Speaker sample playback (always enabled for sidebar legend)
   const speakerSample = useSpeakerSample({
@@ -75,6 +152,7 @@ export default function TranscriptionEditor({ transcription }: TranscriptionEdit
   });
 
   const {
+    currentTime,
     isPlaying,
     activeSegmentIndex,
     isEditRequested,
@@ -86,6 +164,7 @@ export default function TranscriptionEditor({ transcription }: TranscriptionEdit
     handleTimeUpdate,
     handleSeek,
     handleSegmentClick,
+    handleWordClick,
     navigateToSegment,
     playFromActiveSegment,
     clearSeekEvent,
@@ -109,7 +188,7 @@ export default function TranscriptionEditor({ transcription }: TranscriptionEdit
     matchCount,
     goToNextMatch,
     goToPrevMatch,
-  } = useSegmentSearch(segments, editorState.approvals);
+  } = useSegmentSearch(segments, approvals);
 
   // Memoize speaker colors
   const speakerColorMap = useMemo(() => {
@@ -124,14 +203,68 @@ export default function TranscriptionEditor({ transcription }: TranscriptionEdit
     ) as Record<string, ColorScheme>;
   }, [segments]);
 
+  const activeTranslation = useMemo(
+    () => translations.find((translation) => translation.language === activeTranslationLanguage),
+    [translations, activeTranslationLanguage]
+  );
+
+  // Translated text of each segment by ID, leaving out stale ones
+  const translationTexts = useMemo(() => {
+    if (!activeTranslation) return undefined;
+    const texts: Record<string, string> = {};
+    segments.forEach((segment, index) => {
+      const text = getTranslatedText(activeTranslation, segment.id, getSegmentText(segment, approvals[index]));
+      if (text !== undefined) texts[segment.id] = text;
+    });
+    return texts;
+  }, [activeTranslation, segments, approvals]);
+
+  const handleTranslate = useCallback(async (language: string) => {
+    setTranslatingLanguage(language);
+    try {
+      const translation = await translateTranscription(transcription.id, language);
+      setTranslations((prev) => [...prev.filter((existing) => existing.language !== language), translation]);
+      setActiveTranslationLanguage(language);
+    } catch (error) {
+      console.error('[Editor] Translation failed:', error);
+      toast.error(t.editor?.translationFailed || 'Translation failed');
+    } finally {
+      setTranslatingLanguage(null);
+    }
+  }, [transcription.id, t]);
+
+  const handleRemoveTranslation = useCallback(async (language: string) => {
+    try {
+      await removeTranslation(transcription.id, language);
+      setTranslations((prev) => prev.filter((existing) => existing.language !== language));
+      setActiveTranslationLanguage((prev) => (prev === language ? null : prev));
+    } catch (error) {
+      console.error('[Editor] Failed to delete translation:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to delete translation');
+    }
+  }, [transcription.id]);
+
   // Plain text export handler
-  const handleExportPlainText = useCallback(() => {
+  const handleExportPlainText = useCallback((columns: ExportColumns = 'original', includeComments = false) => {
     const exportText = segments
       .map((segment, index) => {
-        const approval = editorState.approvals[index];
-        const text = approval?.editedText || segment.text;
+        const approval = approvals[index];
+        const text = formatSegmentColumns(
+          approval?.editedText || segment.text,
+          translationTexts?.[segment.id],
+          columns,
+          activeTranslation?.language
+        );
         const speakerName = getSpeakerDisplayName(segment.speaker);
-        return `${speakerName} [${formatTime(segment.startTime)} - ${formatTime(segment.endTime)}]:\n${text}\n`;
+        const threads = includeComments ? comments.threads.get(segment.id) : undefined;
+        const commentLines = threads?.length
+          ? `${formatCommentThreads(
+              threads,
+              { ...DEFAULT_COMMENT_EXPORT_LABELS, ...t.editor?.comments?.exportLabels },
+              lang === 'el' ? 'el-GR' : 'en-US'
+            )}\n`
+          : '';
+        return `${speakerName} [${formatTime(segment.startTime)} - ${formatTime(segment.endTime)}]:\n${text}\n${commentLines}`;
       })
       .join('\n');
 
@@ -139,12 +272,81 @@ export default function TranscriptionEditor({ transcription }: TranscriptionEdit
     const url = URL.createObjectURL(blob);
     const a = document.createElement('a');
     a.href = url;
-    a.download = `${transcription.fileName.replace(/\.[^/.]+$/, '')}_approved.txt`;
+    const suffix = columns === 'original' || !activeTranslation ? 'approved' : `${columns}_${activeTranslation.language}`;
+    a.download = `${transcription.fileName.replace(/\.[^/.]+$/, '')}_${suffix}.txt`;
     document.body.appendChild(a);
     a.click();
     document.body.removeChild(a);
     URL.revokeObjectURL(url);
-  }, [segments, editorState.approvals, transcription.fileName, getSpeakerDisplayName]);
+  }, [segments, approvals, activeTranslation, translationTexts, transcription.fileName, getSpeakerDisplayName, comments.threads, t, lang]);
+
+  // Change report export handler
+  const handleExportChangeReport = useCallback(() => {
+    const report = formatChangeReport(segments, approvals, {
+      fileName: transcription.fileName,
+      getSpeakerDisplayName,
+      labels: { ...DEFAULT_CHANGE_REPORT_LABELS, ...t.editor?.changeReport },
+      locale: lang === 'el' ? 'el-GR' : 'en-US',
+    });
+    downloadAsTxt(report, `${transcription.fileName.replace(/\.[^/.]+$/, '')}_changes`);
+  }, [segments, approvals, transcription.fileName, getSpeakerDisplayName, t, lang]);
+
+  // Subtitle export handler (edited texts, re-split into cues)
+  const handleExportSubtitles = useCallback((format: SubtitleFormat, options: SubtitleOptions) => {
+    const cues = buildSubtitleCues(segments, approvals, getSpeakerDisplayName, options);
+    const language = transcription.metadata?.languageCode
+      ?? (transcription.metadata?.language && transcription.metadata.language !== 'auto' ? transcription.metadata.language : 'el');
+    const baseName = transcription.fileName.replace(/\.[^/.]+$/, '');
+    downloadAsSubtitles(formatSubtitles(format, cues, language, baseName), baseName, format);
+  }, [segments, approvals, getSpeakerDisplayName, transcription.metadata, transcription.fileName]);
+
+  // Transcript document export handler (DOCX/PDF with cover page and timestamps)
+  const handleExportTranscriptDocument = useCallback(async (
+    format: TranscriptDocumentFormat,
+    options: TranscriptDocumentOptions
+  ) => {
+    try {
+      const transcript = buildTranscriptDocument(segments, approvals, speakerLabels, {
+        fileName: transcription.fileName,
+        timestamp: transcription.timestamp,
+        audioDurationSeconds: transcription.metadata?.audioDurationSeconds,
+        language: transcription.metadata?.languageCode,
+      }, {
+        labels: { ...DEFAULT_TRANSCRIPT_DOCUMENT_LABELS, ...t.editor?.transcriptDocument },
+        locale: lang === 'el' ? 'el-GR' : 'en-US',
+      });
+      await downloadTranscriptDocument(transcript, `${transcription.fileName.replace(/\.[^/.]+$/, '')}_transcript`, format, options);
+    } catch (error) {
+      console.error('[Editor] Transcript document export failed:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to export transcript');
+    }
+  }, [segments, approvals, speakerLabels, transcription, t, lang]);
+
+  // Data export handler (versioned JSON with everything, or one CSV row per segment)
+  const handleExportData = useCallback((format: 'json' | 'csv') => {
+    const baseName = transcription.fileName.replace(/\.[^/.]+$/, '');
+    if (format === 'json') {
+      const data = buildTranscriptData(transcription, editorState, translations);
+      downloadAsJson(JSON.stringify(data, null, 2), baseName);
+    } else {
+      downloadAsCsv(formatTranscriptCsv(segments, approvals, getSpeakerDisplayName), baseName);
+    }
+  }, [transcription, editorState, translations, segments, approvals, getSpeakerDisplayName]);
+
+  // Workflow transition handler; the latest edits are saved before leaving draft
+  const handleTransition = useCallback(async (to: WorkflowState, comment?: string) => {
+    try {
+      if (workflow.workflow.state === 'draft') {
+        await saveEditorState(transcription.id, editorState);
+      }
+      await workflow.transition(to, comment);
+      const state = t.workflow?.states?.[to] || WORKFLOW_STATE_LABELS[to];
+      toast.success(`${t.workflow?.transitionSuccess || 'Transcription is now'}: ${state}`);
+    } catch (error) {
+      console.error('[Editor] Workflow transition failed:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to change workflow state');
+    }
+  }, [workflow, transcription.id, editorState, t]);
 
   // Official minutes export handler
   const handleExportOfficialMinutes = useCallback(() => {
@@ -159,11 +361,29 @@ export default function TranscriptionEditor({ transcription }: TranscriptionEdit
   // Keyboard shortcut handlers
   const handleKeyboardApprove = useCallback(() => {
     if (activeSegmentIndex !== null) {
-      editorState.approvals[activeSegmentIndex]?.approved
+      approvals[activeSegmentIndex]?.approved
         ? handleUnapprove(activeSegmentIndex)
         : handleApprove(activeSegmentIndex);
     }
-  }, [activeSegmentIndex, editorState.approvals, handleApprove, handleUnapprove]);
+  }, [activeSegmentIndex, approvals, handleApprove, handleUnapprove]);
+
+  // Insert a segment at the playback position and open it for editing once it is rendered
+  const [insertedSegmentIndex, setInsertedSegmentIndex] = useState<number | null>(null);
+
+  const handleInsertAtCurrentTime = useCallback(() => {
+    if (isReadOnly) return;
+    const time = audioRef.current?.currentTime ?? currentTime;
+    const previous = segments.filter((segment) => segment.startTime <= time).pop();
+    const speaker = previous?.speaker ?? segments[0]?.speaker ?? newSpeakerId;
+    setInsertedSegmentIndex(handleInsertSegment(time, speaker));
+  }, [isReadOnly, currentTime, segments, newSpeakerId, handleInsertSegment]);
+
+  useEffect(() => {
+    if (insertedSegmentIndex === null) return;
+    navigateToSegment(insertedSegmentIndex, audioRef);
+    setIsEditRequested(true);
+    setInsertedSegmentIndex(null);
+  }, [insertedSegmentIndex, navigateToSegment, setIsEditRequested]);
 
   const handleKeyboardEdit = useCallback(() => {
     if (activeSegmentIndex !== null) {
@@ -198,6 +418,22 @@ export default function TranscriptionEditor({ transcription }: TranscriptionEdit
     }
   }, [activeSegmentIndex, segments.length, getPrevUnapprovedIndex, navigateToSegment]);
 
+  const { getNextCommentIndex, getPrevCommentIndex } = comments;
+
+  const handleNextComment = useCallback(() => {
+    const nextIndex = getNextCommentIndex(activeSegmentIndex ?? -1);
+    if (nextIndex !== null) {
+      navigateToSegment(nextIndex, audioRef);
+    }
+  }, [activeSegmentIndex, getNextCommentIndex, navigateToSegment]);
+
+  const handlePrevComment = useCallback(() => {
+    const prevIndex = getPrevCommentIndex(activeSegmentIndex ?? segments.length);
+    if (prevIndex !== null) {
+      navigateToSegment(prevIndex, audioRef);
+    }
+  }, [activeSegmentIndex, segments.length, getPrevCommentIndex, navigateToSegment]);
+
   const handlePlayPause = useCallback(() => {
     if (audioRef.current) {
       if (audioRef.current.paused) {
@@ -221,8 +457,13 @@ export default function TranscriptionEditor({ transcription }: TranscriptionEdit
     onPrevSegment: handlePrevSegment,
     onNextUnapproved: handleNextUnapproved,
     onPrevUnapproved: handlePrevUnapproved,
+    onNextComment: handleNextComment,
+    onPrevComment: handlePrevComment,
     onPlayPause: handlePlayPause,
     onSearch: openSearch,
+    onInsertSegment: handleInsertAtCurrentTime,
+    onUndo: undo,
+    onRedo: redo,
     onEscape: handleEscape,
     enabled: !isSearchOpen,
   });
@@ -247,17 +488,55 @@ export default function TranscriptionEditor({ transcription }: TranscriptionEdit
           approvedCount={approvedCount}
           labeledCount={labeledCount}
           totalSpeakers={uniqueSpeakers.length}
-          onFinalize={handleFinalize}
-          onRevertToDraft={handleRevertToDraft}
+          workflow={workflow.workflow}
+          workflowTransitions={workflow.transitions}
+          isTransitioning={workflow.isTransitioning}
+          onTransition={handleTransition}
           onExportPlainText={handleExportPlainText}
           onExportOfficialMinutes={handleExportOfficialMinutes}
           onExportPressRelease={handleExportPressRelease}
+          onExportChangeReport={handleExportChangeReport}
+          onExportSubtitles={handleExportSubtitles}
+          onExportTranscriptDocument={handleExportTranscriptDocument}
+          onExportData={handleExportData}
+          showChanges={showChanges}
+          onShowChangesChange={setShowChanges}
           onApproveAll={handleApproveAll}
           onUnapproveAll={handleUnapproveAll}
+          onInsertSegment={handleInsertAtCurrentTime}
+          history={history}
+          canUndo={canUndo}
+          canRedo={canRedo}
+          onUndo={undo}
+          onRedo={redo}
+          onJumpToHistory={jumpTo}
           onNextUnapproved={handleNextUnapproved}
           onPrevUnapproved={handlePrevUnapproved}
           hasUnapproved={approvedCount < segments.length}
+          openCommentCount={comments.openThreadCount}
+          hasComments={comments.threads.size > 0}
+          onNextComment={handleNextComment}
+          onPrevComment={handlePrevComment}
+          reviewOrder={reviewOrder}
+          onReviewOrderChange={setReviewOrder}
+          canReviewUncertainFirst={hasUncertaintyScores}
+          translations={translations}
+          activeTranslationLanguage={activeTranslationLanguage}
+          translatingLanguage={translatingLanguage}
+          onTranslate={handleTranslate}
+          onShowTranslation={setActiveTranslationLanguage}
+          onRemoveTranslation={handleRemoveTranslation}
         />
+        {isReadOnly && (
+          <div className="bg-amber-50 border-b border-amber-200 text-amber-800 text-xs sm:text-sm">
+            <div className="max-w-7xl mx-auto px-3 sm:px-6 lg:px-8 py-1.5 flex items-center gap-2">
+              <Lock className="w-3.5 h-3.5 shrink-0" />
+              {workflow.isLocked
+                ? t.workflow?.locked || 'This transcription is in review. Send it back to draft to edit it.'
+                : t.workflow?.viewOnly || 'You can view this transcription. Editing it requires the reviewer role.'}
+            </div>
+          </div>
+        )}
       </div>
 
       <div className="lg:hidden shrink-0">
@@ -289,17 +568,25 @@ export default function TranscriptionEditor({ transcription }: TranscriptionEdit
             onStopSample={speakerSample.stopSample}
             isPlayingSample={speakerSample.isPlayingSample}
             currentPlayingSpeaker={speakerSample.currentSpeaker}
+            suggestions={isReadOnly ? undefined : speakerSuggestions.suggestions}
+            onAcceptSuggestion={speakerSuggestions.acceptSuggestion}
+            onRejectSuggestion={speakerSuggestions.rejectSuggestion}
+            onMergeSpeakers={isReadOnly ? undefined : handleMergeSpeakers}
           />
         </div>
 
         <div className="flex-1 overflow-hidden p-4 lg:p-6 lg:pl-0">
           <SegmentList
             segments={segments}
-            approvals={editorState.approvals}
+            approvals={approvals}
             speakerColorMap={speakerColorMap}
             activeSegmentIndex={activeSegmentIndex}
+            currentTime={currentTime}
             seekEvent={seekEvent}
             currentSearchMatch={currentMatch}
+            translationTexts={translationTexts}
+            translationLanguage={activeTranslation?.language}
+            showChanges={showChanges}
             isPlaying={isPlaying}
             isEditRequested={isEditRequested}
             editingSegmentIndex={editingSegmentIndex}
@@ -307,11 +594,22 @@ export default function TranscriptionEditor({ transcription }: TranscriptionEdit
             onUnapprove={handleUnapprove}
             onEdit={handleEdit}
             onSegmentClick={(segment) => handleSegmentClick(segment, audioRef)}
+            onWordClick={(time) => handleWordClick(time, audioRef)}
             onEditRequestHandled={() => setIsEditRequested(false)}
             onSeekEventHandled={clearSeekEvent}
             onEditingChange={setEditingSegmentIndex}
             getSpeakerDisplayName={getSpeakerDisplayName}
             onLabelSpeaker={handleLabelSpeaker}
+            speakers={uniqueSpeakers}
+            newSpeakerId={newSpeakerId}
+            onReassignSpeaker={handleReassignSpeaker}
+            onSplitSegment={handleSplitSegment}
+            onMergeWithNext={handleMergeWithNext}
+            onDeleteSegment={handleDeleteSegment}
+            onNudgeTiming={handleNudgeTiming}
+            readOnly={isReadOnly}
+            commentThreads={comments.threads}
+            commentActions={comments.actions}
           />
         </div>
       </div>
@@ -321,7 +619,7 @@ export default function TranscriptionEditor({ transcription }: TranscriptionEdit
         isOpen={showOfficialMinutesDialog}
         onClose={() => setShowOfficialMinutesDialog(false)}
         segments={segments}
-        approvals={editorState.approvals}
+        approvals={approvals}
         speakerLabels={speakerLabels}
         getSpeakerDisplayName={getSpeakerDisplayName}
         fileName={transcription.fileName}
@@ -333,7 +631,7 @@ export default function TranscriptionEditor({ transcription }: TranscriptionEdit
         isOpen={showPressReleaseDialog}
         onClose={() => setShowPressReleaseDialog(false)}
         segments={segments}
-        approvals={editorState.approvals}
+        approvals={approvals}
         getSpeakerDisplayName={getSpeakerDisplayName}
         fileName={transcription.fileName}
         transcriptionId={transcription.id}
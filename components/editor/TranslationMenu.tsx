@@ -0,0 +1,139 @@
+'use client';
+
+import { useState, useRef, useEffect } from 'react';
+import { Languages, ChevronDown, Eye, EyeOff, RefreshCw, Trash2, Loader2 } from 'lucide-react';
+import { TranscriptionTranslation } from '@/lib/transcriptionStorage';
+import { TRANSCRIPTION_LANGUAGES } from '@/lib/ai/languages';
+import { useTranslations } from '@/contexts/TranslationsContext';
+
+interface TranslationMenuProps {
+  translations: TranscriptionTranslation[];
+  /** Language of the transcription, not offered as a target */
+  sourceLanguage?: string;
+  /** Translation shown next to the original, if any */
+  activeLanguage: string | null;
+  /** Language currently being translated */
+  translatingLanguage: string | null;
+  canTranslate: boolean;
+  onTranslate: (language: string) => void;
+  onShow: (language: string | null) => void;
+  onRemove: (language: string) => void;
+}
+
+export default function TranslationMenu({
+  translations,
+  sourceLanguage,
+  activeLanguage,
+  translatingLanguage,
+  canTranslate,
+  onTranslate,
+  onShow,
+  onRemove,
+}: TranslationMenuProps) {
+  const { t } = useTranslations();
+  const [isOpen, setIsOpen] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  // Close menu when clicking outside
+  useEffect(() => {
+    function handleClickOutside(event: MouseEvent) {
+      if (menuRef.current && !menuRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    }
+
+    if (isOpen) {
+      document.addEventListener('mousedown', handleClickOutside);
+      return () => document.removeEventListener('mousedown', handleClickOutside);
+    }
+  }, [isOpen]);
+
+  const targetLanguages = TRANSCRIPTION_LANGUAGES.filter((language) => language.code !== sourceLanguage);
+
+  if (!canTranslate && translations.length === 0) return null;
+
+  return (
+    <div className="relative" ref={menuRef}>
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className={`flex items-center gap-1.5 px-3 py-1.5 text-sm font-medium border rounded-lg transition-colors ${
+          activeLanguage
+            ? 'text-indigo-700 bg-indigo-50 border-indigo-200 hover:bg-indigo-100'
+            : 'text-slate-700 bg-white border-slate-200 hover:bg-slate-50 hover:border-slate-300'
+        }`}
+        title={t.editor?.translation || 'Translation'}
+      >
+        {translatingLanguage ? <Loader2 className="w-4 h-4 animate-spin" /> : <Languages className="w-4 h-4" />}
+        <span className="hidden sm:inline">
+          {activeLanguage ? activeLanguage.toUpperCase() : (t.editor?.translation || 'Translation')}
+        </span>
+        <ChevronDown className={`w-3.5 h-3.5 transition-transform ${isOpen ? 'rotate-180' : ''}`} />
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 top-full mt-1 z-50 bg-white rounded-xl shadow-xl border border-slate-200 overflow-hidden min-w-[260px] py-1">
+          {targetLanguages.map((language) => {
+            const translation = translations.find((item) => item.language === language.code);
+            const isActive = activeLanguage === language.code;
+            const isTranslating = translatingLanguage === language.code;
+
+            return (
+              <div key={language.code} className="flex items-center gap-2 px-4 py-2 text-sm">
+                <div className="flex-1 min-w-0">
+                  <div className="font-medium text-slate-900">{language.nativeName}</div>
+                  <div className="text-xs text-slate-500">
+                    {isTranslating
+                      ? (t.editor?.translating || 'Translating...')
+                      : translation
+                        ? new Date(translation.timestamp).toLocaleString()
+                        : (t.editor?.notTranslated || 'Not translated')}
+                  </div>
+                </div>
+
+                {translation ? (
+                  <>
+                    <button
+                      onClick={() => onShow(isActive ? null : language.code)}
+                      className="p-1.5 text-slate-500 hover:text-indigo-600 hover:bg-indigo-50 rounded-md transition-colors"
+                      title={isActive ? (t.editor?.hideTranslation || 'Hide translation') : (t.editor?.showTranslation || 'Show side by side')}
+                    >
+                      {isActive ? <EyeOff className="w-4 h-4" /> : <Eye className="w-4 h-4" />}
+                    </button>
+                    {canTranslate && (
+                      <>
+                        <button
+                          onClick={() => onTranslate(language.code)}
+                          disabled={translatingLanguage !== null}
+                          className="p-1.5 text-slate-500 hover:text-blue-600 hover:bg-blue-50 rounded-md transition-colors disabled:opacity-50"
+                          title={t.editor?.retranslate || 'Translate again from the current text'}
+                        >
+                          <RefreshCw className={`w-4 h-4 ${isTranslating ? 'animate-spin' : ''}`} />
+                        </button>
+                        <button
+                          onClick={() => onRemove(language.code)}
+                          disabled={isTranslating}
+                          className="p-1.5 text-slate-500 hover:text-red-600 hover:bg-red-50 rounded-md transition-colors disabled:opacity-50"
+                          title={t.common?.delete || 'Delete'}
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      </>
+                    )}
+                  </>
+                ) : canTranslate && (
+                  <button
+                    onClick={() => onTranslate(language.code)}
+                    disabled={translatingLanguage !== null}
+                    className="px-2.5 py-1 text-xs font-medium text-white bg-indigo-600 hover:bg-indigo-700 rounded-md transition-colors disabled:opacity-50"
+                  >
+                    {isTranslating ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : (t.editor?.translate || 'Translate')}
+                  </button>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
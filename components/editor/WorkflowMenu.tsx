@@ -0,0 +1,172 @@
+'use client';
+
+import { useState, useRef, useEffect } from 'react';
+import { ChevronDown, CheckCircle, Undo2, Loader2, ArrowRight } from 'lucide-react';
+import { useTranslations } from '@/contexts/TranslationsContext';
+import type { TranscriptionWorkflow, WorkflowState, WorkflowTransition } from '@/lib/library/workflow';
+import WorkflowBadge, { WORKFLOW_STATE_LABELS } from '@/components/shared/WorkflowBadge';
+
+interface WorkflowMenuProps {
+  workflow: TranscriptionWorkflow;
+  /** Transitions the user may make */
+  transitions: WorkflowTransition[];
+  isTransitioning: boolean;
+  onAdvance: (to: WorkflowState) => void;
+  onSendBack: (to: WorkflowState, comment: string) => void;
+}
+
+const ADVANCE_LABELS: Record<WorkflowState, string> = {
+  draft: 'Back to draft',
+  reviewed: 'Mark as reviewed',
+  approved: 'Approve',
+  published: 'Publish',
+};
+
+export default function WorkflowMenu({
+  workflow,
+  transitions,
+  isTransitioning,
+  onAdvance,
+  onSendBack,
+}: WorkflowMenuProps) {
+  const { t, lang } = useTranslations();
+  const [isOpen, setIsOpen] = useState(false);
+  const [sendBackTo, setSendBackTo] = useState<WorkflowState | ''>('');
+  const [comment, setComment] = useState('');
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  const advance = transitions.find((transition) => transition.kind === 'advance');
+  const sendBackTargets = transitions.filter((transition) => transition.kind === 'sendBack');
+
+  // Close menu when clicking outside
+  useEffect(() => {
+    function handleClickOutside(event: MouseEvent) {
+      if (menuRef.current && !menuRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    }
+
+    if (isOpen) {
+      document.addEventListener('mousedown', handleClickOutside);
+      return () => document.removeEventListener('mousedown', handleClickOutside);
+    }
+  }, [isOpen]);
+
+  // Reset the send-back form when the state changes
+  useEffect(() => {
+    setSendBackTo('');
+    setComment('');
+  }, [workflow.state]);
+
+  const stateLabel = (state: WorkflowState) => t.workflow?.states?.[state] || WORKFLOW_STATE_LABELS[state];
+
+  const handleAdvance = (to: WorkflowState) => {
+    setIsOpen(false);
+    onAdvance(to);
+  };
+
+  const handleSendBack = () => {
+    const to = sendBackTo || sendBackTargets[0]?.to;
+    if (!to || !comment.trim()) return;
+    setIsOpen(false);
+    onSendBack(to, comment.trim());
+  };
+
+  return (
+    <div className="relative" ref={menuRef}>
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        disabled={isTransitioning}
+        className="flex items-center gap-1 p-1 rounded-lg hover:bg-slate-100 transition-colors disabled:opacity-60"
+        title={t.workflow?.title || 'Review workflow'}
+      >
+        {isTransitioning ? (
+          <Loader2 className="w-4 h-4 animate-spin text-slate-500" />
+        ) : (
+          <WorkflowBadge state={workflow.state} />
+        )}
+        <ChevronDown className={`w-3.5 h-3.5 text-slate-500 transition-transform ${isOpen ? 'rotate-180' : ''}`} />
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 top-full mt-1 z-50 bg-white rounded-xl shadow-xl border border-slate-200 overflow-hidden w-80">
+          {advance && (
+            <div className="p-2 border-b border-slate-100">
+              <button
+                onClick={() => handleAdvance(advance.to)}
+                className="w-full flex items-center justify-center gap-2 px-3 py-2 bg-green-600 text-white text-sm font-medium rounded-lg hover:bg-green-700 transition-colors"
+              >
+                <CheckCircle className="w-4 h-4" />
+                {t.workflow?.advance?.[advance.to] || ADVANCE_LABELS[advance.to]}
+              </button>
+            </div>
+          )}
+
+          {sendBackTargets.length > 0 && (
+            <div className="p-3 border-b border-slate-100 space-y-2">
+              <div className="text-xs font-semibold text-slate-500 uppercase tracking-wide">
+                {t.workflow?.sendBack || 'Send back'}
+              </div>
+              <select
+                value={sendBackTo || sendBackTargets[0].to}
+                onChange={(e) => setSendBackTo(e.target.value as WorkflowState)}
+                className="w-full px-2 py-1.5 text-sm border border-slate-200 rounded-lg bg-white outline-none focus:border-blue-400"
+              >
+                {sendBackTargets.map((transition) => (
+                  <option key={transition.to} value={transition.to}>
+                    {stateLabel(transition.to)}
+                  </option>
+                ))}
+              </select>
+              <textarea
+                value={comment}
+                onChange={(e) => setComment(e.target.value)}
+                rows={3}
+                placeholder={t.workflow?.commentPlaceholder || 'What needs to change?'}
+                className="w-full px-2 py-1.5 text-sm border border-slate-200 rounded-lg outline-none focus:border-blue-400 resize-none"
+              />
+              <button
+                onClick={handleSendBack}
+                disabled={!comment.trim()}
+                className="w-full flex items-center justify-center gap-2 px-3 py-1.5 text-sm font-medium text-amber-800 bg-amber-50 border border-amber-200 rounded-lg hover:bg-amber-100 transition-colors disabled:opacity-50 disabled:hover:bg-amber-50"
+              >
+                <Undo2 className="w-4 h-4" />
+                {t.workflow?.sendBack || 'Send back'}
+              </button>
+            </div>
+          )}
+
+          <div className="px-4 py-2 text-xs font-semibold text-slate-500 uppercase tracking-wide">
+            {t.workflow?.history || 'Workflow history'}
+          </div>
+          <div className="max-h-64 overflow-y-auto pb-2">
+            {workflow.events.length === 0 ? (
+              <div className="px-4 py-2 text-sm text-slate-400">
+                {t.workflow?.noEvents || 'No changes yet'}
+              </div>
+            ) : (
+              [...workflow.events].reverse().map((event, index) => (
+                <div key={index} className="px-4 py-2 text-sm">
+                  <div className="flex items-center gap-1.5 text-slate-800">
+                    <span>{stateLabel(event.from)}</span>
+                    <ArrowRight className="w-3 h-3 text-slate-400" />
+                    <span className="font-medium">{stateLabel(event.to)}</span>
+                  </div>
+                  <div className="text-xs text-slate-500">
+                    {new Date(event.timestamp).toLocaleString(lang === 'el' ? 'el-GR' : 'en-US')}
+                    {event.userEmail && <span> · {event.userEmail}</span>}
+                  </div>
+                  {event.comment && (
+                    <div className="mt-1 text-xs text-slate-600 italic border-l-2 border-amber-300 pl-2 whitespace-pre-wrap">
+                      {event.comment}
+                    </div>
+                  )}
+                </div>
+              ))
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
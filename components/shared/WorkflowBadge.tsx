@@ -0,0 +1,35 @@
+'use client';
+
+import { useTranslations } from '@/contexts/TranslationsContext';
+import type { WorkflowState } from '@/lib/library/workflow';
+
+export const WORKFLOW_STATE_LABELS: Record<WorkflowState, string> = {
+  draft: 'Draft',
+  reviewed: 'Reviewed',
+  approved: 'Approved',
+  published: 'Published',
+};
+
+const WORKFLOW_STATE_CLASSES: Record<WorkflowState, string> = {
+  draft: 'bg-slate-100 text-slate-700 border-slate-200',
+  reviewed: 'bg-blue-50 text-blue-700 border-blue-200',
+  approved: 'bg-amber-50 text-amber-800 border-amber-200',
+  published: 'bg-green-50 text-green-800 border-green-200',
+};
+
+interface WorkflowBadgeProps {
+  state: WorkflowState;
+  className?: string;
+}
+
+export default function WorkflowBadge({ state, className = '' }: WorkflowBadgeProps) {
+  const { t } = useTranslations();
+
+  return (
+    <span
+      className={`inline-flex items-center px-2 py-0.5 rounded-full border text-[10px] sm:text-xs font-bold uppercase tracking-wide ${WORKFLOW_STATE_CLASSES[state]} ${className}`}
+    >
+      {t.workflow?.states?.[state] || WORKFLOW_STATE_LABELS[state]}
+    </span>
+  );
+}
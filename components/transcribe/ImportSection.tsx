@@ -0,0 +1,125 @@
+'use client';
+
+import { useRef, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { FileAudio, FileText, FileUp, Loader2, X } from 'lucide-react';
+import { useTranslations } from '@/contexts/TranslationsContext';
+import { localePath } from '@/i18n/config';
+import { useTranscriptImport } from '@/lib/hooks/useTranscriptImport';
+import { TRANSCRIPT_IMPORT_ACCEPT } from '@/lib/library/imports';
+
+/**
+ * Import of an existing transcript (SRT, WebVTT or transcript data JSON),
+ * optionally with its audio; opens the new entry in the editor
+ */
+export default function ImportSection() {
+  const { t, lang } = useTranslations();
+  const router = useRouter();
+  const { isImporting, errorMsg, importTranscript } = useTranscriptImport();
+  const [transcriptFile, setTranscriptFile] = useState<File | null>(null);
+  const [audioFile, setAudioFile] = useState<File | null>(null);
+  const transcriptInputRef = useRef<HTMLInputElement>(null);
+  const audioInputRef = useRef<HTMLInputElement>(null);
+
+  const handleImport = async () => {
+    if (!transcriptFile) return;
+    const saved = await importTranscript(transcriptFile, audioFile);
+    if (saved) {
+      router.push(localePath(`/library/${saved.id}`, lang));
+    }
+  };
+
+  const clearAudio = () => {
+    setAudioFile(null);
+    if (audioInputRef.current) audioInputRef.current.value = '';
+  };
+
+  return (
+    <div className="w-full max-w-2xl mx-auto mt-6">
+      <div className="bg-white rounded-2xl shadow-xl shadow-slate-200/50 border border-slate-100 p-6">
+        <div className="flex items-start gap-3 mb-4">
+          <div className="w-10 h-10 bg-slate-100 text-slate-600 rounded-full flex items-center justify-center shrink-0">
+            <FileUp className="w-5 h-5" />
+          </div>
+          <div>
+            <h3 className="text-base font-semibold text-slate-900">
+              {t.transcribe?.import?.title || 'Import an existing transcript'}
+            </h3>
+            <p className="text-sm text-slate-500">
+              {t.transcribe?.import?.subtitle || 'SRT or WebVTT subtitles, or a JSON data export. Add the audio to play it back in the editor.'}
+            </p>
+          </div>
+        </div>
+
+        <input
+          ref={transcriptInputRef}
+          type="file"
+          className="hidden"
+          accept={TRANSCRIPT_IMPORT_ACCEPT}
+          onChange={(e) => setTranscriptFile(e.target.files?.[0] ?? null)}
+          disabled={isImporting}
+        />
+        <input
+          ref={audioInputRef}
+          type="file"
+          className="hidden"
+          accept="audio/*,video/*"
+          onChange={(e) => setAudioFile(e.target.files?.[0] ?? null)}
+          disabled={isImporting}
+        />
+
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 mb-4">
+          <button
+            onClick={() => transcriptInputRef.current?.click()}
+            disabled={isImporting}
+            className="flex items-center gap-2 px-4 py-2.5 border border-slate-200 rounded-lg text-sm text-left hover:bg-slate-50 transition-colors disabled:opacity-50"
+          >
+            <FileText className="w-4 h-4 text-slate-500 shrink-0" />
+            <span className={`truncate ${transcriptFile ? 'text-slate-900' : 'text-slate-500'}`}>
+              {transcriptFile?.name || t.transcribe?.import?.chooseTranscript || 'Choose transcript (.srt, .vtt, .json)'}
+            </span>
+          </button>
+          <div className="flex items-center gap-1">
+            <button
+              onClick={() => audioInputRef.current?.click()}
+              disabled={isImporting}
+              className="flex-1 min-w-0 flex items-center gap-2 px-4 py-2.5 border border-slate-200 rounded-lg text-sm text-left hover:bg-slate-50 transition-colors disabled:opacity-50"
+            >
+              <FileAudio className="w-4 h-4 text-slate-500 shrink-0" />
+              <span className={`truncate ${audioFile ? 'text-slate-900' : 'text-slate-500'}`}>
+                {audioFile?.name || t.transcribe?.import?.chooseAudio || 'Add audio (optional)'}
+              </span>
+            </button>
+            {audioFile && (
+              <button
+                onClick={clearAudio}
+                disabled={isImporting}
+                className="p-2 text-slate-400 hover:text-slate-600 rounded-lg transition-colors"
+                title={t.transcribe?.import?.removeAudio || 'Remove audio'}
+              >
+                <X className="w-4 h-4" />
+              </button>
+            )}
+          </div>
+        </div>
+
+        {errorMsg && (
+          <div className="mb-4 px-4 py-3 rounded-lg bg-red-50 border border-red-200 text-sm text-red-700">
+            {t.transcribe?.import?.failed || 'Import failed'}: {errorMsg}
+          </div>
+        )}
+
+        <button
+          onClick={handleImport}
+          disabled={!transcriptFile || isImporting}
+          className="w-full py-2.5 bg-slate-900 text-white text-sm font-medium rounded-lg hover:bg-slate-800 focus:ring-4 focus:ring-slate-100 transition-all flex items-center justify-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {isImporting && <Loader2 className="w-4 h-4 animate-spin" />}
+          {isImporting
+            ? t.transcribe?.import?.importing || 'Importing...'
+            : t.transcribe?.import?.button || 'Import and open in editor'}
+        </button>
+      </div>
+    </div>
+  );
+}
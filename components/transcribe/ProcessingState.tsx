@@ -1,8 +1,17 @@
 import { Loader2 } from 'lucide-react';
 import { useTranslations } from '@/contexts/TranslationsContext';
+import type { TranscriptionJobProgress } from '@/lib/hooks/useTranscription';
 
-export default function ProcessingState() {
+interface ProcessingStateProps {
+  fileName?: string;
+  progress?: TranscriptionJobProgress | null;
+  onCancel?: () => void;
+}
+
+export default function ProcessingState({ fileName, progress, onCancel }: ProcessingStateProps) {
   const { t } = useTranslations();
+  const stageLabel = progress?.stage ? t.transcribe.processing.stages?.[progress.stage] : undefined;
+  const showBar = !!progress && progress.stage === 'transcribing' && progress.percent > 0;
 
   return (
     <div className="flex flex-col items-center justify-center py-20 animate-in fade-in zoom-in duration-300">
@@ -13,7 +22,38 @@ export default function ProcessingState() {
         </div>
       </div>
       <h3 className="mt-8 text-xl font-semibold text-slate-900">{t.transcribe.processing.title}</h3>
+      {fileName && <p className="text-sm font-medium text-slate-700 mt-1 max-w-md truncate">{fileName}</p>}
       <p className="text-slate-500 mt-2 max-w-md text-center">{t.transcribe.processing.subtitle}</p>
+
+      {(stageLabel || showBar) && (
+        <div className="w-full max-w-sm mt-6">
+          <div className="flex items-center justify-between text-xs text-slate-500 mb-1">
+            <span>{stageLabel}</span>
+            {showBar && <span>{progress!.percent}%</span>}
+          </div>
+          {showBar && (
+            <div className="h-2 bg-slate-200 rounded-full overflow-hidden">
+              <div
+                className="h-full bg-blue-600 rounded-full transition-all duration-500"
+                style={{ width: `${progress!.percent}%` }}
+              />
+            </div>
+          )}
+        </div>
+      )}
+
+      <p className="text-xs text-slate-400 mt-6 max-w-md text-center">
+        {t.transcribe.processing.closeTabHint || 'You can close this tab - the transcription continues and will be here when you come back.'}
+      </p>
+
+      {onCancel && (
+        <button
+          onClick={onCancel}
+          className="mt-4 px-4 py-2 bg-white border border-slate-200 text-slate-600 text-sm font-medium rounded-lg hover:bg-slate-50 transition-colors"
+        >
+          {t.transcribe.processing.cancel || 'Cancel'}
+        </button>
+      )}
     </div>
   );
 }
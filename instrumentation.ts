@@ -0,0 +1,22 @@
+/**
+ * Runs once when the server starts
+ * Picks up transcription jobs that were interrupted by a restart or deploy,
+ * now and whenever the lease of an instance that died runs out
+ */
+export async function register() {
+  if (process.env.NEXT_RUNTIME !== 'nodejs') {
+    return;
+  }
+
+  const { resumeActiveJobs } = await import('./lib/jobs/runner');
+  const { storageConfig } = await import('./lib/config');
+
+  const resume = () => resumeActiveJobs().catch(error => {
+    console.error('[Jobs] Failed to resume jobs:', error);
+  });
+
+  void resume();
+  // Jobs leased by an instance that died (including this one before a restart)
+  // become claimable once the lease expires
+  setInterval(resume, storageConfig.jobLeaseMs).unref();
+}
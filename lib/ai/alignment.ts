@@ -0,0 +1,79 @@
+/**
+ * Align the text of one transcription onto the segments of another by time
+ *
+ * Used by the hybrid pipeline mode: ElevenLabs segments provide timing and
+ * speakers, Gemini provides the wording. Gemini's timestamps are coarse, so its
+ * words are spread evenly over their segment and each word goes to the timing
+ * segment containing its estimated midpoint.
+ */
+
+import type { TranscriptionSegment } from './types';
+
+/**
+ * A word with an estimated position on the timeline (seconds)
+ */
+interface EstimatedWord {
+  text: string;
+  midpoint: number;
+}
+
+/**
+ * Spread the words of each segment evenly over the segment's time range
+ */
+function estimateWordTimes(segments: TranscriptionSegment[]): EstimatedWord[] {
+  return segments.flatMap(segment => {
+    const words = segment.text.split(/\s+/).filter(Boolean);
+    const duration = Math.max(0, segment.endTime - segment.startTime);
+
+    return words.map((text, index) => ({
+      text,
+      midpoint: segment.startTime + duration * ((index + 0.5) / words.length),
+    }));
+  });
+}
+
+/**
+ * Find the timing segment for a point in time
+ * Points in a gap between segments go to the closest segment
+ */
+function findSegmentIndex(segments: TranscriptionSegment[], time: number): number {
+  let closest = 0;
+  let closestDistance = Infinity;
+
+  for (let i = 0; i < segments.length; i++) {
+    const { startTime, endTime } = segments[i];
+    if (time >= startTime && time <= endTime) return i;
+
+    const distance = time < startTime ? startTime - time : time - endTime;
+    if (distance < closestDistance) {
+      closest = i;
+      closestDistance = distance;
+    }
+  }
+
+  return closest;
+}
+
+/**
+ * Replace the text of timing segments with the overlapping words of text segments
+ * Timing segments that receive no words keep their own text and word timings.
+ * @returns New segments with the timing and speakers of `timingSegments`
+ */
+export function alignTextToSegments(
+  timingSegments: TranscriptionSegment[],
+  textSegments: TranscriptionSegment[]
+): TranscriptionSegment[] {
+  if (timingSegments.length === 0) return [];
+
+  const assigned: string[][] = timingSegments.map(() => []);
+  for (const word of estimateWordTimes(textSegments)) {
+    assigned[findSegmentIndex(timingSegments, word.midpoint)].push(word.text);
+  }
+
+  return timingSegments.map((segment, index) => {
+    if (assigned[index].length === 0) return segment;
+
+    // Word timings and confidence belong to the replaced text, so they are dropped
+    return { ...segment, text: assigned[index].join(' '), words: undefined, confidence: undefined };
+  });
+}
@@ -0,0 +1,169 @@
+/**
+ * Organization glossary: preferred spellings of names, streets and local bodies
+ *
+ * The glossary is stored in the organization settings (`glossary` key). It is
+ * given to providers as context (the Gemini prompt, ElevenLabs keyterms) and
+ * applied afterwards as a deterministic replacement pass, so known misspellings
+ * are fixed even when a provider ignores the hint.
+ */
+
+import type { TranscriptionSegment, TranscriptionWord } from './types';
+
+export interface GlossaryTerm {
+  /** Preferred spelling, e.g. "Δήμος Παλλήνης" */
+  term: string;
+  /** Misspellings and variants replaced with the preferred spelling */
+  aliases: string[];
+  /** What the term is (e.g. "councilor", "street"), given to providers as context */
+  note?: string;
+}
+
+/**
+ * Check whether a value is a list of glossary terms
+ */
+export function isGlossary(value: unknown): value is GlossaryTerm[] {
+  return Array.isArray(value) && value.every(item =>
+    !!item && typeof item === 'object' &&
+    typeof item.term === 'string' && item.term.trim() !== '' &&
+    Array.isArray(item.aliases) && item.aliases.every((alias: unknown) => typeof alias === 'string') &&
+    (item.note === undefined || typeof item.note === 'string')
+  );
+}
+
+/**
+ * Trim a glossary and drop empty terms, empty aliases and aliases equal to their term
+ */
+export function normalizeGlossary(glossary: GlossaryTerm[]): GlossaryTerm[] {
+  return glossary
+    .map(({ term, aliases, note }) => {
+      const trimmedTerm = term.trim();
+      const trimmedNote = note?.trim();
+      return {
+        term: trimmedTerm,
+        aliases: [...new Set(aliases.map(alias => alias.trim()))].filter(alias => alias && alias !== trimmedTerm),
+        ...(trimmedNote ? { note: trimmedNote } : {}),
+      };
+    })
+    .filter(({ term }) => term !== '');
+}
+
+/**
+ * Glossary section of a transcription prompt
+ */
+export function formatGlossaryForPrompt(glossary: GlossaryTerm[]): string {
+  return glossary
+    .map(({ term, aliases, note }) => {
+      let line = `- ${term}`;
+      if (note) line += ` (${note})`;
+      if (aliases.length > 0) line += ` - not: ${aliases.join(', ')}`;
+      return line;
+    })
+    .join('\n');
+}
+
+const LETTER_OR_DIGIT = '[\\p{L}\\p{N}]';
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Spellings to replace with each term, longest first so that a longer alias
+ * wins over one it contains. The term itself is included to fix its capitalization.
+ */
+function getReplacements(glossary: GlossaryTerm[]): Array<{ variant: string; term: string }> {
+  return glossary
+    .flatMap(({ term, aliases }) => [term, ...aliases].map(variant => ({ variant, term })))
+    .filter(({ variant }) => variant.trim() !== '')
+    .sort((a, b) => b.variant.length - a.variant.length);
+}
+
+/**
+ * Replace glossary variants in a text (whole words, case-insensitive)
+ * All variants are replaced in a single pass, so a variant never matches inside
+ * a term inserted for another one.
+ */
+export function applyGlossaryToText(text: string, glossary: GlossaryTerm[]): string {
+  const replacements = getReplacements(glossary);
+  if (replacements.length === 0) return text;
+
+  // One capture group per variant, longest first, to find which one matched
+  const alternatives = replacements
+    .map(({ variant }) => `(${variant.trim().split(/\s+/).map(escapeRegExp).join('\\s+')})`)
+    .join('|');
+  const pattern = new RegExp(`(?<!${LETTER_OR_DIGIT})(?:${alternatives})(?!${LETTER_OR_DIGIT})`, 'giu');
+
+  // A function, so $ patterns in a term are not expanded
+  return text.replace(pattern, (match, ...groups: unknown[]) => {
+    const index = groups.slice(0, replacements.length).findIndex(group => group !== undefined);
+    return index === -1 ? match : replacements[index].term;
+  });
+}
+
+/**
+ * Split a word into leading punctuation, the word itself and trailing punctuation
+ */
+function splitPunctuation(text: string): [string, string, string] {
+  const match = text.match(/^([^\p{L}\p{N}]*)(.*?)([^\p{L}\p{N}]*)$/u)!;
+  return [match[1], match[2], match[3]];
+}
+
+/**
+ * Replace glossary variants in timed words
+ * A variant spanning several words becomes one word covering their time range.
+ * Like the text pass, this is a single pass: replaced words are not matched again.
+ */
+function applyGlossaryToWords(words: TranscriptionWord[], glossary: GlossaryTerm[]): TranscriptionWord[] {
+  const replacements = getReplacements(glossary).map(({ variant, term }) => ({
+    tokens: variant.trim().toLowerCase().split(/\s+/),
+    term,
+  }));
+  const result: TranscriptionWord[] = [];
+
+  for (let i = 0; i < words.length; i++) {
+    const match = replacements.find(({ tokens }) => {
+      const span = words.slice(i, i + tokens.length);
+      // Like the text pass, punctuation is only allowed around the whole variant
+      return span.length === tokens.length && span.every((word, offset) => {
+        const [leading, core, trailing] = splitPunctuation(word.text);
+        return core.toLowerCase() === tokens[offset] &&
+          (offset === 0 || leading === '') &&
+          (offset === tokens.length - 1 || trailing === '');
+      });
+    });
+
+    if (!match) {
+      result.push(words[i]);
+      continue;
+    }
+
+    const span = words.slice(i, i + match.tokens.length);
+    const first = span[0];
+    const last = span[span.length - 1];
+    const confidences = span.map(word => word.confidence).filter((value): value is number => value !== undefined);
+    result.push({
+      text: `${splitPunctuation(first.text)[0]}${match.term}${splitPunctuation(last.text)[2]}`,
+      start: first.start,
+      end: last.end,
+      ...(confidences.length > 0 ? { confidence: Math.min(...confidences) } : {}),
+    });
+    i += match.tokens.length - 1;
+  }
+
+  return result;
+}
+
+/**
+ * Apply the glossary to transcribed segments
+ * Segment texts and word timings are both updated, so the editor's word view
+ * shows the preferred spellings too.
+ */
+export function applyGlossary(segments: TranscriptionSegment[], glossary: GlossaryTerm[]): TranscriptionSegment[] {
+  if (glossary.length === 0) return segments;
+
+  return segments.map(segment => ({
+    ...segment,
+    text: applyGlossaryToText(segment.text, glossary),
+    ...(segment.words ? { words: applyGlossaryToWords(segment.words, glossary) } : {}),
+  }));
+}
@@ -2,3 +2,6 @@ export * from './types';
 export * from './prompts';
 export { GoogleGeminiProvider } from './providers/google';
 export { ElevenLabsProvider } from './providers/elevenlabs';
+export { LocalWhisperProvider } from './providers/whisper';
+export { HybridProvider } from './providers/hybrid';
+export * from './registry';
@@ -0,0 +1,71 @@
+/**
+ * Languages that can be selected for a transcription
+ *
+ * Codes are ISO-639-1, which ElevenLabs and Whisper accept as is; Gemini gets
+ * the language name in its prompt. Detected languages come back from providers
+ * as ISO-639-3 codes (ElevenLabs) or names (some Whisper servers) and are
+ * normalized to ISO-639-1 with normalizeLanguageCode().
+ */
+
+/** Value for letting the provider detect the spoken language */
+export const AUTO_DETECT_LANGUAGE = 'auto';
+
+export interface TranscriptionLanguage {
+  /** ISO-639-1 code */
+  code: string;
+  /** ISO-639-3 code */
+  iso639_3: string;
+  /** English name, used in prompts */
+  name: string;
+  /** Name in the language itself, shown in the language selector */
+  nativeName: string;
+}
+
+export const TRANSCRIPTION_LANGUAGES: TranscriptionLanguage[] = [
+  { code: 'el', iso639_3: 'ell', name: 'Greek', nativeName: 'Ελληνικά' },
+  { code: 'en', iso639_3: 'eng', name: 'English', nativeName: 'English' },
+  { code: 'tr', iso639_3: 'tur', name: 'Turkish', nativeName: 'Türkçe' },
+];
+
+/**
+ * Check whether a value is a selectable language code or AUTO_DETECT_LANGUAGE
+ */
+export function isTranscriptionLanguage(value: unknown): value is string {
+  return value === AUTO_DETECT_LANGUAGE ||
+    TRANSCRIPTION_LANGUAGES.some(language => language.code === value);
+}
+
+export function getTranscriptionLanguage(code: string | undefined): TranscriptionLanguage | undefined {
+  return TRANSCRIPTION_LANGUAGES.find(language => language.code === code);
+}
+
+/**
+ * ISO-639-1 code to send to a provider, or undefined to let it detect the language
+ * Codes outside TRANSCRIPTION_LANGUAGES (e.g. from env defaults) are passed through.
+ */
+export function toProviderLanguageCode(code: string | undefined): string | undefined {
+  return code && code !== AUTO_DETECT_LANGUAGE ? code : undefined;
+}
+
+/**
+ * Language description for transcription prompts, e.g. "Greek (Ελληνικά)"
+ */
+export function describeLanguageForPrompt(code: string | undefined): string {
+  const language = getTranscriptionLanguage(code);
+  if (!language) return 'the language spoken in the audio';
+  return language.name === language.nativeName
+    ? language.name
+    : `${language.name} (${language.nativeName})`;
+}
+
+/**
+ * Normalize a provider's detected language ("ell", "greek", "el") to ISO-639-1
+ * Unknown languages are returned lowercased as reported.
+ */
+export function normalizeLanguageCode(value: string): string {
+  const lower = value.trim().toLowerCase();
+  const language = TRANSCRIPTION_LANGUAGES.find(candidate =>
+    candidate.code === lower || candidate.iso639_3 === lower || candidate.name.toLowerCase() === lower
+  );
+  return language?.code ?? lower;
+}
@@ -1,9 +1,13 @@
+import { formatGlossaryForPrompt, type GlossaryTerm } from './glossary';
+
 export interface PromptConfig {
   targetLanguage: string;
   enableSpeakerIdentification: boolean;
   enableTimestamps?: boolean;
   durationSeconds?: number;
   customInstructions?: string;
+  /** Preferred spellings of names and places */
+  glossary?: GlossaryTerm[];
 }
 
 /**
@@ -11,7 +15,7 @@ export interface PromptConfig {
  * Simplified approach matching working sample for better structured output
  */
 export function buildTranscriptionPrompt(config: PromptConfig): string {
-  const { targetLanguage, enableSpeakerIdentification, enableTimestamps, customInstructions } = config;
+  const { targetLanguage, enableSpeakerIdentification, enableTimestamps, customInstructions, glossary } = config;
 
   let prompt = `You are an expert transcriber fluent in ${targetLanguage}.
 
@@ -31,6 +35,13 @@ Task:
 4. Provide accurate start and end timestamps in seconds for each segment.`;
   }
 
+  if (glossary && glossary.length > 0) {
+    prompt += `
+
+Vocabulary - always use these spellings for names, places and bodies:
+${formatGlossaryForPrompt(glossary)}`;
+  }
+
   if (customInstructions) {
     prompt += `
 
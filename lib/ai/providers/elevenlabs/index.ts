@@ -13,7 +13,10 @@ import type {
   TranscriptionSegment,
 } from '../../types';
 import { transcriptionStore } from '../../../transcription-store';
-  
+import { convertWordsToStructuredOutput, logprobToConfidence } from '../words';
+import { normalizeLanguageCode, toProviderLanguageCode } from '../../languages';
+import { pipelineConfig } from '../../../config';
+
 export interface ElevenLabsProviderConfig {
   /** ElevenLabs API key (defaults to ELEVENLABS_API_KEY env var) */
   apiKey?: string;
@@ -121,72 +124,102 @@ export class ElevenLabsProvider implements AITranscriptionProvider {
         ? await this.transcribeAsync(file, config)
         : await this.transcribeSync(file, config);
 
-      // Type guard to check if response is a chunk response (not webhook or multichannel)
-      if ('text' in response && 'words' in response) {
-        const result = response as SpeechToTextChunkResponseModel;
+      return this.buildResult(response, startTime);
+    } catch (error) {
+      console.error('[ElevenLabs] Transcription failed:', error);
+      throw new Error(
+        `ElevenLabs transcription failed: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
 
-        // Extract text
-        let text = result.text || '';
-        let structuredData: StructuredTranscription | undefined;
-        let rawJson: string | undefined;
+  /**
+   * Convert an API or webhook response into a TranscriptionResult
+   */
+  private buildResult(
+    response: SpeechToTextChunkResponseModel,
+    startTime: number
+  ): TranscriptionResult {
+    // Type guard to check if response is a chunk response (not webhook or multichannel)
+    if ('text' in response && 'words' in response) {
+      const result = response as SpeechToTextChunkResponseModel;
 
-        // Handle both camelCase (from SDK) and snake_case (from webhook)
-        const formats = (result as any).additionalFormats || (result as any).additional_formats;
+      // Extract text
+      let text = result.text || '';
+      let structuredData: StructuredTranscription | undefined;
+      let rawJson: string | undefined;
 
-        console.log('[ElevenLabs] Result has additionalFormats:', !!(result as any).additionalFormats);
-        console.log('[ElevenLabs] Result has additional_formats:', !!(result as any).additional_formats);
-        console.log('[ElevenLabs] Result has words:', !!result.words);
-        if (formats) {
-          console.log('[ElevenLabs] formats length:', formats.length);
-        }
+      // Handle both camelCase (from SDK) and snake_case (from webhook)
+      const formats = (result as any).additionalFormats || (result as any).additional_formats;
 
-        // Try to use segmented_json format first, then fall back to word-level conversion
-        if (formats && formats.length > 0) {
-          const segmentedJson = formats.find(
-            (format: any) => format?.requestedFormat === 'segmented_json' ||
-                            format?.requested_format === 'segmented_json'
-          );
-
-          if (segmentedJson) {
-            console.log('[ElevenLabs] Using segmented_json format from API');
-            structuredData = this.convertSegmentedJsonToStructuredOutput(segmentedJson);
-            rawJson = segmentedJson.content;
-          }
-        }
+      console.log('[ElevenLabs] Result has additionalFormats:', !!(result as any).additionalFormats);
+      console.log('[ElevenLabs] Result has additional_formats:', !!(result as any).additional_formats);
+      console.log('[ElevenLabs] Result has words:', !!result.words);
+      if (formats) {
+        console.log('[ElevenLabs] formats length:', formats.length);
+      }
 
-        // Fallback: If segmented_json not available, use word-level data
-        if (!structuredData && result.words && result.words.length > 0) {
-          console.log('[ElevenLabs] Falling back to word-level conversion');
-          structuredData = this.convertWordsToStructuredOutput(result.words);
-          rawJson = JSON.stringify(result);
+      // Try to use segmented_json format first, then fall back to word-level conversion
+      if (formats && formats.length > 0) {
+        const segmentedJson = formats.find(
+          (format: any) => format?.requestedFormat === 'segmented_json' ||
+                          format?.requested_format === 'segmented_json'
+        );
+
+        if (segmentedJson) {
+          console.log('[ElevenLabs] Using segmented_json format from API');
+          structuredData = this.convertSegmentedJsonToStructuredOutput(segmentedJson);
+          rawJson = segmentedJson.content;
         }
+      }
 
-        const processingTimeMs = Date.now() - startTime;
+      // Fallback: If segmented_json not available, use word-level data
+      if (!structuredData && result.words && result.words.length > 0) {
+        console.log('[ElevenLabs] Falling back to word-level conversion');
+        structuredData = this.convertWordsToStructuredOutput(result.words);
+        rawJson = JSON.stringify(result);
+      }
 
-        console.log(`[ElevenLabs] Transcription complete in ${processingTimeMs}ms`);
+      const processingTimeMs = Date.now() - startTime;
 
-        return {
-          text,
-          provider: `elevenlabs-${this.model}`,
-          structuredData,
-          rawJson,
-          metadata: {
-            model: this.model,
-            processingTimeMs,
-            wordCount: text.split(/\s+/).length,
-          },
-        };
-      } else {
-        throw new Error('Unexpected response format from ElevenLabs API');
-      }
-    } catch (error) {
-      console.error('[ElevenLabs] Transcription failed:', error);
-      throw new Error(
-        `ElevenLabs transcription failed: ${error instanceof Error ? error.message : String(error)}`
-      );
+      // Handle both camelCase (from SDK) and snake_case (from webhook)
+      const languageCode: string | undefined = result.languageCode || (result as any).language_code;
+      const languageProbability: number | undefined = result.languageProbability ?? (result as any).language_probability;
+
+      console.log(`[ElevenLabs] Transcription complete in ${processingTimeMs}ms (language: ${languageCode ?? 'unknown'})`);
+
+      return {
+        text,
+        provider: `elevenlabs-${this.model}`,
+        structuredData,
+        rawJson,
+        metadata: {
+          model: this.model,
+          processingTimeMs,
+          wordCount: text.split(/\s+/).length,
+          languageCode: languageCode ? normalizeLanguageCode(languageCode) : undefined,
+          languageProbability,
+        },
+      };
+    } else {
+      throw new Error('Unexpected response format from ElevenLabs API');
     }
   }
 
+  /**
+   * Glossary terms to bias the transcription towards (scribe_v2 only)
+   * ElevenLabs accepts up to 100 keyterms of under 50 characters and at most 5 words
+   */
+  private getKeyterms(config: TranscriptionConfig): string[] | undefined {
+    if (this.model !== 'scribe_v2' || !config.glossary?.length) return undefined;
+
+    const keyterms = [...new Set(config.glossary.map(({ term }) => term.trim()))]
+      .filter(term => term.length > 0 && term.length < 50 && term.split(/\s+/).length <= 5)
+      .slice(0, 100);
+
+    return keyterms.length > 0 ? keyterms : undefined;
+  }
+
   /**
    * Synchronous transcription - waits for the entire transcription to complete
    */
@@ -199,8 +232,10 @@ export class ElevenLabsProvider implements AITranscriptionProvider {
     const response = await this.client.speechToText.convert({
       modelId: this.model,
       file,
-      languageCode: 'el', // ISO-639-1 code for Greek
+      // Omitted for auto-detection
+      languageCode: toProviderLanguageCode(config.language ?? pipelineConfig.language),
       diarize: config.enableSpeakerIdentification,
+      keyterms: this.getKeyterms(config),
       timestampsGranularity: config.enableTimestamps ? 'word' : 'none',
       temperature: 0.0,
       additionalFormats: [
@@ -210,7 +245,7 @@ export class ElevenLabsProvider implements AITranscriptionProvider {
           includeTimestamps: config.enableTimestamps ?? true,
         },
       ],
-    });
+    }, { abortSignal: config.signal });
 
     // Type guard to check if response is a chunk response
     if ('text' in response && 'words' in response) {
@@ -229,12 +264,23 @@ export class ElevenLabsProvider implements AITranscriptionProvider {
   ): Promise<SpeechToTextChunkResponseModel> {
     console.log('[ElevenLabs] Using async mode with webhook');
 
+    // A job re-run after a restart: keep waiting for the request submitted last time
+    if (config.resumeKey) {
+      const existing = await transcriptionStore.findByTranscriptionId(config.resumeKey);
+      if (existing && existing.status !== 'failed') {
+        console.log(`[ElevenLabs] Reusing request ${existing.requestId} for ${config.resumeKey}`);
+        return await this.pollForWebhookResult(existing.requestId, config.signal);
+      }
+    }
+
     // Submit transcription job with webhook enabled
     const submitResponse = await this.client.speechToText.convert({
       modelId: this.model,
       file,
-      languageCode: 'el', // ISO-639-1 code for Greek
+      // Omitted for auto-detection
+      languageCode: toProviderLanguageCode(config.language ?? pipelineConfig.language),
       diarize: config.enableSpeakerIdentification,
+      keyterms: this.getKeyterms(config),
       timestampsGranularity: config.enableTimestamps ? 'word' : 'none',
       temperature: 0.0,
       webhook: true, // Enable async mode - will POST to configured webhook
@@ -245,7 +291,7 @@ export class ElevenLabsProvider implements AITranscriptionProvider {
           includeTimestamps: config.enableTimestamps ?? true,
         },
       ],
-    });
+    }, { abortSignal: config.signal });
 
     // Type guard to check if this is a webhook response with request_id
     if ('requestId' in submitResponse && submitResponse.requestId) {
@@ -257,11 +303,11 @@ export class ElevenLabsProvider implements AITranscriptionProvider {
       console.log('[ElevenLabs] Waiting for webhook callback...');
 
       // Store the pending transcription with normalized ID
-      transcriptionStore.create(normalizedId);
-      transcriptionStore.updateStatus(normalizedId, 'processing');
+      await transcriptionStore.create(normalizedId, config.resumeKey);
+      await transcriptionStore.updateStatus(normalizedId, 'processing');
 
       // Poll the store for webhook result using normalized ID
-      return await this.pollForWebhookResult(normalizedId);
+      return await this.pollForWebhookResult(normalizedId, config.signal);
     }
 
     throw new Error('Failed to get request ID from async submission');
@@ -271,14 +317,18 @@ export class ElevenLabsProvider implements AITranscriptionProvider {
    * Poll for webhook result from transcription store
    */
   private async pollForWebhookResult(
-    requestId: string
+    requestId: string,
+    signal?: AbortSignal
   ): Promise<SpeechToTextChunkResponseModel> {
     let attempts = 0;
     const maxAttempts = 1800; // 60 minutes (1 hour) with 2-second intervals
 
     while (attempts < maxAttempts) {
+      // Stop waiting when the job is cancelled; the webhook result is simply ignored
+      signal?.throwIfAborted();
+
       // Check the store for the result
-      const stored = transcriptionStore.get(requestId);
+      const stored = await transcriptionStore.get(requestId);
 
       if (stored?.status === 'completed' && stored.result) {
         console.log(`[ElevenLabs] Webhook result received after ${attempts + 1} polling attempts`);
@@ -346,7 +396,8 @@ export class ElevenLabsProvider implements AITranscriptionProvider {
         // Extract speaker and timing from the words array
         const words = segment.words || [];
         const firstWord = words.find((w: any) => w.type === 'word');
-        const lastWord = words.filter((w: any) => w.type === 'word').pop();
+        const spokenWords = words.filter((w: any) => w.type === 'word');
+        const lastWord = spokenWords[spokenWords.length - 1];
 
         const speakerId = firstWord?.speaker_id || 'unknown';
         const startTime = firstWord?.start ?? 0;
@@ -361,6 +412,12 @@ export class ElevenLabsProvider implements AITranscriptionProvider {
           startTime,
           endTime,
           text: segment.text || '',
+          words: spokenWords.map((w: any) => ({
+            text: w.text,
+            start: w.start ?? 0,
+            end: w.end ?? w.start ?? 0,
+            confidence: logprobToConfidence(w.logprob),
+          })),
         };
       });
 
@@ -373,60 +430,16 @@ export class ElevenLabsProvider implements AITranscriptionProvider {
 
   /**
    * Convert word-level data to structured transcription format
+   * Spacing and audio event tokens are skipped, so the words line up with the text
    */
   private convertWordsToStructuredOutput(words: SpeechToTextWordResponseModel[]): StructuredTranscription {
-    const segments: TranscriptionSegment[] = [];
-    let currentSpeaker: string | null = null;
-    let currentSegment: { words: string[]; startTime: number; endTime: number } = {
-      words: [],
-      startTime: 0,
-      endTime: 0
-    };
-
-    for (const word of words) {
-      const speakerId = word.speakerId ?? null;
-      const startTime = word.start ?? 0;
-      const endTime = word.end ?? startTime;
-
-      // New speaker detected or first word
-      if (speakerId !== currentSpeaker && speakerId !== null) {
-        // Flush current segment if it has content
-        if (currentSegment.words.length > 0 && currentSpeaker !== null) {
-          // Convert speaker ID to number and add 1 to start from Speaker 1
-          const speakerNumber = isNaN(Number(currentSpeaker)) ? currentSpeaker : String(Number(currentSpeaker) + 1);
-          segments.push({
-            speaker: `Speaker ${speakerNumber}`,
-            startTime: currentSegment.startTime,
-            endTime: currentSegment.endTime,
-            text: currentSegment.words.join(' '),
-          });
-        }
-
-        // Start new segment
-        currentSpeaker = speakerId;
-        currentSegment = { words: [word.text], startTime, endTime };
-      } else {
-        // Same speaker, add word and update end time
-        currentSegment.words.push(word.text);
-        currentSegment.endTime = endTime;
-      }
-    }
-
-    // Flush final segment
-    if (currentSegment.words.length > 0 && currentSpeaker !== null) {
-      // Convert speaker ID to number and add 1 to start from Speaker 1
-      const speakerNumber = isNaN(Number(currentSpeaker)) ? currentSpeaker : String(Number(currentSpeaker) + 1);
-      segments.push({
-        speaker: `Speaker ${speakerNumber}`,
-        startTime: currentSegment.startTime,
-        endTime: currentSegment.endTime,
-        text: currentSegment.words.join(' '),
-      });
-    }
-
-    return {
-      segments,
-    };
+    return convertWordsToStructuredOutput(words.filter(word => word.type === 'word').map(word => ({
+      text: word.text,
+      start: word.start ?? 0,
+      end: word.end ?? word.start ?? 0,
+      speakerId: word.speakerId,
+      confidence: logprobToConfidence(word.logprob),
+    })));
   }
 
 }
@@ -6,6 +6,9 @@ import {
   TranscriptionResult,
   ProviderCapabilities,
   StructuredTranscription,
+  TranscriptionSegment,
+  TranslationConfig,
+  TranslationResult,
 } from '../../types';
 import { buildTranscriptionPrompt } from '../../prompts';
 import { aiConfig } from '../../../config';
@@ -16,6 +19,8 @@ export interface GoogleProviderConfig {
   pollingIntervalMs?: number;
   requestTimeoutMs?: number;
   enableStructuredOutput?: boolean;
+  /** Request token log probabilities to estimate segment confidence (default: GEMINI_LOGPROBS env var) */
+  responseLogprobs?: boolean;
 }
 
 export class GoogleGeminiProvider implements AITranscriptionProvider {
@@ -52,6 +57,7 @@ export class GoogleGeminiProvider implements AITranscriptionProvider {
       pollingIntervalMs: config?.pollingIntervalMs || 2000,
       requestTimeoutMs: config?.requestTimeoutMs || 300000, // 5 minutes default
       enableStructuredOutput: config?.enableStructuredOutput ?? true, // Default: enabled
+      responseLogprobs: config?.responseLogprobs ?? process.env.GEMINI_LOGPROBS === 'true',
     };
 
     if (this.config.apiKey) {
@@ -168,17 +174,10 @@ export class GoogleGeminiProvider implements AITranscriptionProvider {
       enableTimestamps: config.enableTimestamps,
       durationSeconds: config.durationSeconds,
       customInstructions: config.customInstructions,
+      glossary: config.glossary,
     });
 
-    // Determine appropriate token limit based on model
-    // Gemini 2.0 Flash: 8,192 tokens max
-    // Gemini 2.5 Flash: 65,536 tokens max
-    // Gemini 3.0 Pro: Use conservative 32,768 for preview models
-    const maxOutputTokens = this.config.model.includes('gemini-3')
-      ? 32768 // Conservative limit for preview models
-      : this.config.model.includes('2.5')
-        ? 65536
-        : 8192;
+    const maxOutputTokens = this.getMaxOutputTokens();
 
     // Build generation config following gemini-approach.md specifications
     const generationConfig: any = {
@@ -198,6 +197,10 @@ export class GoogleGeminiProvider implements AITranscriptionProvider {
       });
     }
 
+    if (this.config.responseLogprobs) {
+      generationConfig.responseLogprobs = true;
+    }
+
     // Generate content with timeout protection
     const response = await this.generateContentWithTimeout(
       {
@@ -245,6 +248,11 @@ export class GoogleGeminiProvider implements AITranscriptionProvider {
         if (parsed.segments && Array.isArray(parsed.segments) && parsed.segments.length > 0) {
           console.log(`[Google Gemini] Found ${parsed.segments.length} segments in structured output`);
 
+          const chosenTokens = response.candidates?.[0]?.logprobsResult?.chosenCandidates;
+          if (chosenTokens?.length) {
+            this.addSegmentConfidence(text, parsed.segments, chosenTokens);
+          }
+
           // Generate plain text from segments for backward compatibility
           const plainText = parsed.segments
             .map(seg => {
@@ -295,6 +303,131 @@ export class GoogleGeminiProvider implements AITranscriptionProvider {
     };
   }
 
+  /**
+   * Estimate each segment's confidence from the log probabilities of the
+   * tokens that make up its text in the JSON response
+   */
+  private addSegmentConfidence(
+    responseText: string,
+    segments: TranscriptionSegment[],
+    tokens: Array<{ token?: string; logProbability?: number }>
+  ): void {
+    const tokenSpans: Array<{ start: number; end: number; logProbability?: number }> = [];
+    let offset = 0;
+    for (const token of tokens) {
+      const length = token.token?.length ?? 0;
+      tokenSpans.push({ start: offset, end: offset + length, logProbability: token.logProbability });
+      offset += length;
+    }
+
+    // Tokens must add up to the response text for the offsets to be meaningful
+    if (offset !== responseText.length) {
+      console.warn('[Google Gemini] Token log probabilities do not match the response text, skipping confidence');
+      return;
+    }
+
+    let searchFrom = 0;
+    for (const segment of segments) {
+      const encodedText = JSON.stringify(segment.text).slice(1, -1);
+      const start = encodedText ? responseText.indexOf(encodedText, searchFrom) : -1;
+      if (start === -1) continue;
+
+      const end = start + encodedText.length;
+      searchFrom = end;
+
+      const logProbabilities = tokenSpans
+        .filter(span => span.end > start && span.start < end && span.logProbability !== undefined)
+        .map(span => span.logProbability!);
+
+      if (logProbabilities.length > 0) {
+        const mean = logProbabilities.reduce((sum, value) => sum + value, 0) / logProbabilities.length;
+        segment.confidence = Math.exp(Math.min(mean, 0));
+      }
+    }
+  }
+
+  /**
+   * Translate segment texts in batches, one translated text per segment
+   * Segments are numbered in the request so the output can be matched back
+   */
+  async translate(texts: string[], config: TranslationConfig): Promise<TranslationResult> {
+    if (!this.client) {
+      throw new Error('Google Gemini API key not configured');
+    }
+
+    const batchSize = 50;
+    const translated: string[] = [];
+
+    for (let start = 0; start < texts.length; start += batchSize) {
+      config.signal?.throwIfAborted();
+      const batch = texts.slice(start, start + batchSize);
+
+      const prompt = `Translate each numbered segment of a council meeting transcript${config.sourceLanguage ? ` from ${config.sourceLanguage}` : ''} into ${config.targetLanguage}.
+Keep the meaning, register and proper names. Translate every segment separately; do not merge, split or summarize segments.
+Return one entry per segment with the same index.
+
+${batch.map((text, index) => `[${index}] ${text}`).join('\n')}`;
+
+      const generationConfig = {
+        maxOutputTokens: this.getMaxOutputTokens(),
+        temperature: 0.0,
+        responseMimeType: 'application/json',
+        responseSchema: {
+          type: Type.OBJECT,
+          properties: {
+            segments: {
+              type: Type.ARRAY,
+              items: {
+                type: Type.OBJECT,
+                properties: {
+                  index: { type: Type.INTEGER },
+                  text: { type: Type.STRING },
+                },
+                required: ['index', 'text'],
+              },
+            },
+          },
+          required: ['segments'],
+        },
+      };
+
+      const response = await this.generateContentWithTimeout(
+        {
+          model: this.config.model,
+          contents: createUserContent([prompt]),
+          config: generationConfig,
+        },
+        this.config.requestTimeoutMs
+      );
+
+      const parsed = JSON.parse(response.text || '{}') as { segments?: Array<{ index: number; text: string }> };
+      const byIndex = new Map((parsed.segments ?? []).map(segment => [segment.index, segment.text]));
+
+      if (batch.some((_, index) => !byIndex.has(index))) {
+        throw new Error(`Translation returned ${byIndex.size} of ${batch.length} segments`);
+      }
+
+      translated.push(...batch.map((_, index) => byIndex.get(index)!));
+      console.log(`[Google Gemini] Translated ${translated.length}/${texts.length} segments`);
+    }
+
+    return { texts: translated, model: this.config.model };
+  }
+
+  /**
+   * Determine appropriate token limit based on model
+   * Gemini 2.0 Flash: 8,192 tokens max
+   * Gemini 2.5 Flash: 65,536 tokens max
+   * Gemini 3.0 Pro: Use conservative 32,768 for preview models
+   */
+  private getMaxOutputTokens(): number {
+    return this.config.model.includes('gemini-3')
+      ? 32768 // Conservative limit for preview models
+      : this.config.model.includes('2.5')
+        ? 65536
+        : 8192;
+  }
+
   private delay(ms: number): Promise<void> {
     return new Promise((resolve) => setTimeout(resolve, ms));
   }
@@ -0,0 +1,126 @@
+import type {
+  AITranscriptionProvider,
+  TranscriptionInput,
+  TranscriptionConfig,
+  TranscriptionResult,
+  ProviderCapabilities,
+} from '../../types';
+import { alignTextToSegments } from '../../alignment';
+
+export interface HybridProviderConfig {
+  /** Provides segment timing and speakers (ElevenLabs) */
+  timingProvider: AITranscriptionProvider;
+  /** Provides the wording (Gemini) */
+  textProvider: AITranscriptionProvider;
+  /** Keys for the raw output of each provider in rawResponses */
+  rawResponseKeys: { timing: string; text: string };
+}
+
+/**
+ * Consensus of two providers
+ *
+ * Runs both providers on the same input and aligns the text provider's words
+ * onto the timing provider's segments (see lib/ai/alignment.ts). Both raw
+ * outputs are kept for audit. When the text provider fails, the timing
+ * provider's result is used as is.
+ */
+export class HybridProvider implements AITranscriptionProvider {
+  readonly name = 'hybrid';
+  private readonly timingProvider: AITranscriptionProvider;
+  private readonly textProvider: AITranscriptionProvider;
+  private readonly rawResponseKeys: HybridProviderConfig['rawResponseKeys'];
+
+  readonly capabilities: ProviderCapabilities;
+
+  constructor(config: HybridProviderConfig) {
+    this.timingProvider = config.timingProvider;
+    this.textProvider = config.textProvider;
+    this.rawResponseKeys = config.rawResponseKeys;
+
+    const timing = this.timingProvider.capabilities;
+    const text = this.textProvider.capabilities;
+
+    // Only inputs both providers can take
+    this.capabilities = {
+      supportedMimeTypes: timing.supportedMimeTypes.filter(type => text.supportedMimeTypes.includes(type)),
+      maxFileSizeBytes: Math.min(timing.maxFileSizeBytes, text.maxFileSizeBytes),
+      supportsSpeakerIdentification: timing.supportsSpeakerIdentification,
+      supportsTranslation: false,
+    };
+  }
+
+  isConfigured(): boolean {
+    return this.timingProvider.isConfigured() && this.textProvider.isConfigured();
+  }
+
+  validateInput(input: TranscriptionInput): { valid: boolean; error?: string } {
+    for (const provider of [this.timingProvider, this.textProvider]) {
+      const validation = provider.validateInput(input);
+      if (!validation.valid) {
+        return { valid: false, error: `${provider.name}: ${validation.error}` };
+      }
+    }
+
+    return { valid: true };
+  }
+
+  async transcribe(
+    input: TranscriptionInput,
+    config: TranscriptionConfig
+  ): Promise<TranscriptionResult> {
+    const startTime = Date.now();
+    console.log(`[Hybrid] Running ${this.timingProvider.name} and ${this.textProvider.name}`);
+
+    const [timingOutcome, textOutcome] = await Promise.allSettled([
+      this.timingProvider.transcribe(input, config),
+      // Async providers record requests under the resume key; keep the text provider's apart
+      this.textProvider.transcribe(input, {
+        ...config,
+        resumeKey: config.resumeKey ? `${config.resumeKey}:text` : undefined,
+      }),
+    ]);
+
+    if (timingOutcome.status === 'rejected') {
+      throw timingOutcome.reason;
+    }
+
+    const timing = timingOutcome.value;
+    const text = textOutcome.status === 'fulfilled' ? textOutcome.value : undefined;
+
+    if (textOutcome.status === 'rejected') {
+      console.warn(`[Hybrid] ${this.textProvider.name} failed, using ${this.timingProvider.name} text:`, textOutcome.reason);
+    }
+
+    const timingSegments = timing.structuredData?.segments ?? [];
+    const textSegments = text?.structuredData?.segments ?? [];
+    const segments = textSegments.length > 0
+      ? alignTextToSegments(timingSegments, textSegments)
+      : timingSegments;
+
+    const mergedText = segments.length > 0
+      ? segments.map(segment => segment.text).join(' ')
+      : timing.text;
+
+    console.log(`[Hybrid] Aligned ${textSegments.length} text segments onto ${timingSegments.length} timed segments`);
+
+    return {
+      text: mergedText,
+      provider: this.name,
+      structuredData: segments.length > 0 ? { segments } : timing.structuredData,
+      rawJson: timing.rawJson,
+      rawResponses: {
+        [this.rawResponseKeys.timing]: timing.rawJson,
+        [this.rawResponseKeys.text]: text?.rawJson,
+      },
+      metadata: {
+        model: [timing.metadata?.model, text?.metadata?.model].filter(Boolean).join(' + '),
+        processingTimeMs: Date.now() - startTime,
+        wordCount: mergedText.split(/\s+/).filter(Boolean).length,
+        languageCode: timing.metadata?.languageCode ?? text?.metadata?.languageCode,
+        languageProbability: timing.metadata?.languageCode
+          ? timing.metadata.languageProbability
+          : text?.metadata?.languageProbability,
+      },
+    };
+  }
+}
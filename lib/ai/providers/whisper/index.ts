@@ -0,0 +1,344 @@
+import { spawn } from 'child_process';
+import { mkdtemp, readFile, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import type {
+  AITranscriptionProvider,
+  TranscriptionInput,
+  TranscriptionConfig,
+  TranscriptionResult,
+  ProviderCapabilities,
+} from '../../types';
+import { convertToWav } from '../../../audio/ffmpeg';
+import { localWhisperConfig } from '../../../config';
+import { convertWordsToStructuredOutput, type TimedWord } from '../words';
+import { normalizeLanguageCode, toProviderLanguageCode } from '../../languages';
+
+export interface LocalWhisperProviderConfig {
+  /** Local endpoint to send audio to instead of running the binary (optional) */
+  serverUrl?: string;
+  /** whisper.cpp CLI binary (default: 'whisper-cli') */
+  binaryPath?: string;
+  /** ggml model file for the binary */
+  modelPath?: string;
+  /** ISO-639-1 language code or 'auto', used when a request sets none (default: 'el') */
+  language?: string;
+  /** CPU threads for the binary (default: 4) */
+  threads?: number;
+  /** Use tinydiarize speaker turns, needs a *-tdrz model (default: false) */
+  tinydiarize?: boolean;
+  /** Split segments at the next sentence end once they are this long (default: 30s) */
+  maxSegmentSeconds?: number;
+}
+
+/**
+ * Segment of whisper.cpp's full JSON output (-ojf)
+ */
+interface WhisperCppSegment {
+  offsets: { from: number; to: number };
+  text: string;
+  tokens?: Array<{ text: string; offsets: { from: number; to: number }; p?: number }>;
+  speaker_turn_next?: boolean;
+}
+
+/**
+ * verbose_json response of a whisper.cpp or faster-whisper server
+ */
+interface WhisperServerResponse {
+  text?: string;
+  language?: string;
+  segments?: Array<{
+    start: number;
+    end: number;
+    text: string;
+    words?: Array<{ word: string; start: number; end: number; probability?: number }>;
+  }>;
+  words?: Array<{ word: string; start: number; end: number; probability?: number }>;
+}
+
+/**
+ * Offline transcription with a locally installed Whisper
+ *
+ * Runs the whisper.cpp binary on CPU, or posts the audio to a whisper.cpp /
+ * faster-whisper server on the same machine. Nothing is sent to a cloud
+ * service, for organizations that may not share council audio.
+ */
+export class LocalWhisperProvider implements AITranscriptionProvider {
+  readonly name = 'local-whisper';
+  private readonly config: Required<Omit<LocalWhisperProviderConfig, 'serverUrl' | 'modelPath'>> &
+    Pick<LocalWhisperProviderConfig, 'serverUrl' | 'modelPath'>;
+
+  readonly capabilities: ProviderCapabilities;
+
+  constructor(config: LocalWhisperProviderConfig = {}) {
+    this.config = {
+      serverUrl: config.serverUrl ?? localWhisperConfig.serverUrl,
+      binaryPath: config.binaryPath ?? localWhisperConfig.binaryPath,
+      modelPath: config.modelPath ?? localWhisperConfig.modelPath,
+      language: config.language ?? localWhisperConfig.language,
+      threads: config.threads ?? localWhisperConfig.threads,
+      tinydiarize: config.tinydiarize ?? localWhisperConfig.tinydiarize,
+      maxSegmentSeconds: config.maxSegmentSeconds ?? localWhisperConfig.maxSegmentSeconds,
+    };
+
+    this.capabilities = {
+      // Everything ffmpeg can decode; the binary gets a converted WAV file
+      supportedMimeTypes: [
+        'audio/mpeg',
+        'audio/mp3',
+        'audio/wav',
+        'audio/wave',
+        'audio/x-wav',
+        'audio/mp4',
+        'audio/m4a',
+        'audio/x-m4a',
+        'audio/aac',
+        'audio/flac',
+        'audio/ogg',
+        'audio/webm',
+        'video/mp4',
+        'video/mpeg',
+        'video/webm',
+        'video/quicktime',
+        'video/x-msvideo',
+      ],
+      maxFileSizeBytes: 2 * 1024 * 1024 * 1024, // 2GB
+      supportsSpeakerIdentification: this.config.tinydiarize && !this.config.serverUrl,
+      supportsTranslation: false, // Whisper only translates into English
+    };
+  }
+
+  /**
+   * Model name reported with results
+   */
+  get model(): string {
+    if (this.config.serverUrl) return 'whisper-server';
+    return this.config.modelPath
+      ? path.basename(this.config.modelPath).replace(/^ggml-|\.bin$/g, '')
+      : 'whisper';
+  }
+
+  isConfigured(): boolean {
+    return !!this.config.serverUrl || !!this.config.modelPath;
+  }
+
+  validateInput(input: TranscriptionInput): { valid: boolean; error?: string } {
+    if (input.buffer.byteLength > this.capabilities.maxFileSizeBytes) {
+      return {
+        valid: false,
+        error: `File size ${(input.buffer.byteLength / 1024 / 1024).toFixed(2)}MB exceeds the 2GB limit`,
+      };
+    }
+
+    if (!this.capabilities.supportedMimeTypes.includes(input.mimeType)) {
+      return {
+        valid: false,
+        error: `Unsupported file type: ${input.mimeType}`,
+      };
+    }
+
+    return { valid: true };
+  }
+
+  async transcribe(
+    input: TranscriptionInput,
+    config: TranscriptionConfig
+  ): Promise<TranscriptionResult> {
+    if (!this.isConfigured()) {
+      throw new Error('Local Whisper is not configured. Set WHISPER_MODEL_PATH or WHISPER_SERVER_URL.');
+    }
+
+    const startTime = Date.now();
+
+    try {
+      console.log(`[Whisper] Starting local transcription with ${this.model}...`);
+
+      const { words, text, rawJson, languageCode } = this.config.serverUrl
+        ? await this.transcribeWithServer(this.config.serverUrl, input, config)
+        : await this.transcribeWithBinary(input, config);
+
+      const structuredData = convertWordsToStructuredOutput(words, {
+        maxSegmentSeconds: this.config.maxSegmentSeconds,
+      });
+
+      const processingTimeMs = Date.now() - startTime;
+      console.log(`[Whisper] Transcription complete in ${processingTimeMs}ms`);
+
+      return {
+        text,
+        provider: `whisper-${this.model}`,
+        structuredData,
+        rawJson,
+        metadata: {
+          model: this.model,
+          processingTimeMs,
+          wordCount: words.length,
+          languageCode,
+        },
+      };
+    } catch (error) {
+      console.error('[Whisper] Transcription failed:', error);
+      throw new Error(
+        `Local Whisper transcription failed: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+
+  /**
+   * Run the whisper.cpp binary on a 16kHz WAV copy of the input
+   */
+  private async transcribeWithBinary(input: TranscriptionInput, config: TranscriptionConfig) {
+    const workDir = await mkdtemp(path.join(tmpdir(), 'grecho-whisper-'));
+
+    try {
+      const inputPath = path.join(workDir, `input${path.extname(input.fileName) || '.bin'}`);
+      const wavPath = path.join(workDir, 'audio.wav');
+      const outputBase = path.join(workDir, 'output');
+
+      await writeFile(inputPath, Buffer.from(input.buffer));
+      await convertToWav(inputPath, wavPath);
+      config.signal?.throwIfAborted();
+
+      await this.runBinary([
+        '-m', this.config.modelPath!,
+        '-f', wavPath,
+        '-l', this.getLanguageCode(config) ?? 'auto',
+        '-t', String(this.config.threads),
+        '-ojf',
+        '-of', outputBase,
+        '-np',
+        ...(this.config.tinydiarize && config.enableSpeakerIdentification ? ['-tdrz'] : []),
+      ], config.signal);
+
+      const rawJson = await readFile(`${outputBase}.json`, 'utf-8');
+      const output = JSON.parse(rawJson);
+      const segments: WhisperCppSegment[] = output.transcription ?? [];
+      const detectedLanguage: string | undefined = output.result?.language;
+
+      return {
+        words: this.convertCppSegmentsToWords(segments),
+        text: segments.map(segment => segment.text.trim()).join(' '),
+        rawJson,
+        languageCode: detectedLanguage ? normalizeLanguageCode(detectedLanguage) : undefined,
+      };
+    } finally {
+      await rm(workDir, { recursive: true, force: true }).catch(() => {
+        // Ignore cleanup errors
+      });
+    }
+  }
+
+  /**
+   * Post the input to a local server that returns verbose_json
+   */
+  private async transcribeWithServer(serverUrl: string, input: TranscriptionInput, config: TranscriptionConfig) {
+    const form = new FormData();
+    form.append('file', new Blob([input.buffer], { type: input.mimeType }), input.fileName);
+    const language = this.getLanguageCode(config);
+    if (language) {
+      form.append('language', language);
+    }
+    form.append('response_format', 'verbose_json');
+    form.append('timestamp_granularities[]', 'word');
+    form.append('temperature', '0');
+
+    const response = await fetch(serverUrl, { method: 'POST', body: form, signal: config.signal });
+    if (!response.ok) {
+      throw new Error(`Whisper server returned ${response.status}: ${(await response.text()).slice(0, 500)}`);
+    }
+
+    const rawJson = await response.text();
+    const data: WhisperServerResponse = JSON.parse(rawJson);
+    const segments = data.segments ?? [];
+    const serverWords = data.words ?? segments.flatMap(segment => segment.words ?? []);
+
+    // Servers without word timestamps: treat each segment as one "word"
+    const words: TimedWord[] = serverWords.length > 0
+      ? serverWords.map(word => ({
+          text: word.word.trim(),
+          start: word.start,
+          end: word.end,
+          speakerId: '0',
+          confidence: word.probability,
+        }))
+      : segments.map(segment => ({ text: segment.text.trim(), start: segment.start, end: segment.end, speakerId: '0' }));
+
+    return {
+      words: words.filter(word => word.text),
+      text: data.text?.trim() ?? words.map(word => word.text).join(' '),
+      rawJson,
+      languageCode: data.language ? normalizeLanguageCode(data.language) : undefined,
+    };
+  }
+
+  /**
+   * Language to request, or undefined to let Whisper detect it
+   */
+  private getLanguageCode(config: TranscriptionConfig): string | undefined {
+    return toProviderLanguageCode(config.language ?? this.config.language);
+  }
+
+  /**
+   * Join whisper.cpp tokens into words
+   * Tokens starting with a space begin a new word; special tokens ([_BEG_], [_TT_n]) are skipped.
+   * Speaker IDs advance after every tinydiarize speaker turn.
+   * A word's confidence is that of its least certain token.
+   */
+  private convertCppSegmentsToWords(segments: WhisperCppSegment[]): TimedWord[] {
+    const words: TimedWord[] = [];
+    let speaker = 0;
+
+    for (const segment of segments) {
+      const tokens = segment.tokens?.length
+        ? segment.tokens
+        : [{ text: segment.text, offsets: segment.offsets }];
+
+      for (const token of tokens) {
+        if (/^\s*\[_[^\]]*\]\s*$/.test(token.text)) continue;
+
+        const start = token.offsets.from / 1000;
+        const end = token.offsets.to / 1000;
+        const last = words[words.length - 1];
+
+        if (last && !/^\s/.test(token.text) && last.speakerId === String(speaker)) {
+          last.text += token.text;
+          last.end = end;
+          if (token.p !== undefined) {
+            last.confidence = Math.min(last.confidence ?? 1, token.p);
+          }
+        } else if (token.text.trim()) {
+          words.push({ text: token.text.trim(), start, end, speakerId: String(speaker), confidence: token.p });
+        }
+      }
+
+      if (segment.speaker_turn_next) {
+        speaker++;
+      }
+    }
+
+    return words;
+  }
+
+  /**
+   * Run the whisper.cpp binary, killing it when the signal aborts
+   */
+  private runBinary(args: string[], signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const child = spawn(this.config.binaryPath, args, { stdio: ['ignore', 'ignore', 'pipe'], signal });
+      let stderr = '';
+
+      child.stderr.on('data', (data) => {
+        stderr += data.toString();
+      });
+
+      child.on('error', reject);
+      child.on('close', (code) => {
+        if (code === 0) {
+          resolve();
+        } else {
+          reject(new Error(`${this.config.binaryPath} exited with code ${code}: ${stderr.slice(-500)}`));
+        }
+      });
+    });
+  }
+}
@@ -0,0 +1,106 @@
+/**
+ * Shared conversion of word-level provider output into segments
+ */
+
+import type { StructuredTranscription, TranscriptionSegment, TranscriptionWord } from '../types';
+
+/**
+ * A recognized word with its timing (seconds) and diarized speaker
+ */
+export interface TimedWord {
+  text: string;
+  start: number;
+  end: number;
+  /** Provider speaker ID (e.g. "0" or "speaker_1"); words without one continue the current speaker */
+  speakerId?: string | null;
+  /** Recognition confidence from 0 to 1 */
+  confidence?: number;
+}
+
+export interface WordGroupingOptions {
+  /**
+   * Start a new segment at the next sentence end once a segment is this long
+   * (default: no limit). Keeps single-speaker output from becoming one segment.
+   */
+  maxSegmentSeconds?: number;
+}
+
+/** Sentence-ending punctuation, including the Greek question mark */
+const SENTENCE_END = /[.!?;;…]["»”')]*$/;
+
+/**
+ * Convert a numeric speaker ID to a 1-based "Speaker N" label
+ */
+function toSpeakerLabel(speakerId: string): string {
+  const speakerNumber = isNaN(Number(speakerId)) ? speakerId : String(Number(speakerId) + 1);
+  return `Speaker ${speakerNumber}`;
+}
+
+/**
+ * Convert a log probability (ElevenLabs logprob) to a 0-1 confidence
+ */
+export function logprobToConfidence(logprob: number | null | undefined): number | undefined {
+  return typeof logprob === 'number' ? Math.exp(Math.min(logprob, 0)) : undefined;
+}
+
+/**
+ * Group consecutive words of the same speaker into segments
+ */
+export function convertWordsToStructuredOutput(
+  words: TimedWord[],
+  options: WordGroupingOptions = {}
+): StructuredTranscription {
+  const segments: TranscriptionSegment[] = [];
+  let currentSpeaker: string | null = null;
+  let currentSegment: { words: TranscriptionWord[]; startTime: number; endTime: number } = {
+    words: [],
+    startTime: 0,
+    endTime: 0
+  };
+
+  const flush = () => {
+    if (currentSegment.words.length > 0 && currentSpeaker !== null) {
+      segments.push({
+        speaker: toSpeakerLabel(currentSpeaker),
+        startTime: currentSegment.startTime,
+        endTime: currentSegment.endTime,
+        text: currentSegment.words.map(word => word.text).join(' '),
+        words: currentSegment.words,
+      });
+    }
+  };
+
+  for (const word of words) {
+    const speakerId = word.speakerId ?? null;
+    const startTime = word.start ?? 0;
+    const endTime = word.end ?? startTime;
+
+    const timedWord: TranscriptionWord = { text: word.text, start: startTime, end: endTime };
+    if (word.confidence !== undefined) timedWord.confidence = word.confidence;
+
+    const lastWord = currentSegment.words[currentSegment.words.length - 1]?.text;
+    const isLongSentenceEnd = options.maxSegmentSeconds !== undefined &&
+      currentSegment.endTime - currentSegment.startTime >= options.maxSegmentSeconds &&
+      !!lastWord && SENTENCE_END.test(lastWord);
+
+    // New speaker detected or first word
+    if ((speakerId !== currentSpeaker && speakerId !== null) || isLongSentenceEnd) {
+      flush();
+
+      // Start new segment
+      currentSpeaker = speakerId ?? currentSpeaker;
+      currentSegment = { words: [timedWord], startTime, endTime };
+    } else {
+      // Same speaker, add word and update end time
+      currentSegment.words.push(timedWord);
+      currentSegment.endTime = endTime;
+    }
+  }
+
+  // Flush final segment
+  flush();
+
+  return {
+    segments,
+  };
+}
@@ -0,0 +1,176 @@
+/**
+ * Registry of transcription providers, keyed by pipeline mode
+ *
+ * Each entry creates an AITranscriptionProvider on first use; the Transcriber
+ * looks the mode up here instead of knowing about concrete providers. Adding a
+ * provider means registering it with registerTranscriptionProvider().
+ */
+
+import type { AITranscriptionProvider } from './types';
+import { ElevenLabsProvider } from './providers/elevenlabs';
+import { GoogleGeminiProvider } from './providers/google';
+import { HybridProvider } from './providers/hybrid';
+import { LocalWhisperProvider } from './providers/whisper';
+import { pipelineConfig } from '../config';
+
+/**
+ * Keys under which raw provider output is kept (metadata.rawResponses)
+ */
+export type RawResponseKey = 'gemini' | 'elevenlabs' | 'whisper';
+
+/**
+ * A registered provider
+ */
+export interface TranscriptionProviderEntry {
+  /** Pipeline mode that selects this provider */
+  mode: string;
+  /** Name recorded as the result's provider */
+  label: string;
+  /** Model recorded with the result */
+  model: string;
+  /**
+   * Where the raw provider output is stored
+   * Composite providers report rawResponses per underlying provider instead
+   */
+  rawResponseKey?: RawResponseKey;
+  /**
+   * Runs without network access (default: false)
+   * An offline mode only falls back to other offline modes, so audio never
+   * leaves the server once one was chosen
+   */
+  offline?: boolean;
+  /** Create the provider (called once, on first use) */
+  create: () => AITranscriptionProvider;
+}
+
+const entries = new Map<string, TranscriptionProviderEntry>();
+const instances = new Map<string, AITranscriptionProvider>();
+
+/**
+ * Register a provider under its pipeline mode
+ * Registering a mode again replaces the previous entry
+ */
+export function registerTranscriptionProvider(entry: TranscriptionProviderEntry): void {
+  entries.set(entry.mode, entry);
+  instances.delete(entry.mode);
+}
+
+/**
+ * Get the entry and provider instance for a mode
+ */
+export function getTranscriptionProvider(
+  mode: string
+): { entry: TranscriptionProviderEntry; provider: AITranscriptionProvider } | undefined {
+  const entry = entries.get(mode);
+  if (!entry) return undefined;
+
+  let provider = instances.get(mode);
+  if (!provider) {
+    provider = entry.create();
+    instances.set(mode, provider);
+  }
+
+  return { entry, provider };
+}
+
+/**
+ * List registered modes in registration order
+ */
+export function listPipelineModes(): string[] {
+  return [...entries.keys()];
+}
+
+/**
+ * Check whether a mode is registered
+ */
+export function isPipelineMode(mode: unknown): mode is string {
+  return typeof mode === 'string' && entries.has(mode);
+}
+
+/**
+ * First configured provider that can translate, in registration order
+ */
+export function getTranslationProvider(): AITranscriptionProvider | undefined {
+  return listPipelineModes()
+    .map(mode => getTranscriptionProvider(mode)!.provider)
+    .find(provider => provider.capabilities.supportsTranslation && !!provider.translate && provider.isConfigured());
+}
+
+/**
+ * Pick the mode for a transcription
+ * The first registered mode out of the request, the organization setting and
+ * PIPELINE_MODE wins
+ */
+export function resolvePipelineMode(...preferred: Array<string | undefined>): string {
+  const mode = [...preferred, pipelineConfig.mode].find(isPipelineMode);
+  if (!mode) {
+    throw new Error(`Unknown pipeline mode: ${pipelineConfig.mode}. Available: ${listPipelineModes().join(', ')}`);
+  }
+  return mode;
+}
+
+/**
+ * Modes to try for a transcription, in order
+ * Starts with the selected mode, followed by the configured fallbacks
+ * (only offline ones when the selected mode is offline)
+ */
+export function getFallbackChain(mode: string): string[] {
+  const offlineOnly = !!entries.get(mode)?.offline;
+  const fallbacks = pipelineConfig.fallbackModes.length > 0
+    ? pipelineConfig.fallbackModes
+    : listPipelineModes();
+
+  return [
+    mode,
+    ...fallbacks.filter(fallback =>
+      fallback !== mode && isPipelineMode(fallback) && (!offlineOnly || !!entries.get(fallback)!.offline)
+    ),
+  ];
+}
+
+registerTranscriptionProvider({
+  mode: 'elevenlabs-only',
+  label: `elevenlabs-${pipelineConfig.elevenLabsModel}`,
+  model: pipelineConfig.elevenLabsModel,
+  rawResponseKey: 'elevenlabs',
+  create: () => new ElevenLabsProvider({
+    model: pipelineConfig.elevenLabsModel,
+    timeoutMs: 2 * 60 * 60 * 1000, // 2 hours for very long audio files
+    // Use async webhook mode if ELEVENLABS_WEBHOOK_SECRET is set
+    useAsyncMode: !!process.env.ELEVENLABS_WEBHOOK_SECRET,
+  }),
+});
+
+registerTranscriptionProvider({
+  mode: 'gemini-only',
+  label: pipelineConfig.geminiModel,
+  model: pipelineConfig.geminiModel,
+  rawResponseKey: 'gemini',
+  create: () => new GoogleGeminiProvider({
+    model: pipelineConfig.geminiModel,
+    enableStructuredOutput: true,
+  }),
+});
+
+registerTranscriptionProvider({
+  mode: 'hybrid',
+  label: `hybrid-elevenlabs-${pipelineConfig.elevenLabsModel}+${pipelineConfig.geminiModel}`,
+  model: `${pipelineConfig.elevenLabsModel} + ${pipelineConfig.geminiModel}`,
+  // ElevenLabs timing and speakers, Gemini punctuation and proper names
+  create: () => new HybridProvider({
+    timingProvider: getTranscriptionProvider('elevenlabs-only')!.provider,
+    textProvider: getTranscriptionProvider('gemini-only')!.provider,
+    rawResponseKeys: { timing: 'elevenlabs', text: 'gemini' },
+  }),
+});
+
+const localWhisperModel = new LocalWhisperProvider().model;
+
+registerTranscriptionProvider({
+  mode: 'local-whisper',
+  label: `whisper-${localWhisperModel}`,
+  model: localWhisperModel,
+  rawResponseKey: 'whisper',
+  offline: true,
+  create: () => new LocalWhisperProvider(),
+});
@@ -0,0 +1,59 @@
+/**
+ * Translation of a transcription into a parallel segment track
+ *
+ * Each segment is translated on its own, so the translation keeps the segment
+ * boundaries and speakers of the original and can be shown side by side.
+ */
+
+import type { TranscriptionSegment } from './types';
+import { getTranslationProvider } from './registry';
+import { describeLanguageForPrompt } from './languages';
+import type { TranscriptionEditorState } from '../transcriptionStorage';
+import { alignApprovals, getEditorSegments, getSegmentText } from '../editor/segmentStructure';
+
+/**
+ * Segments to translate, with the edited text of a segment where there is one
+ * Segments are taken as the editor shows them (its working copy, or in start
+ * time order); the translation is keyed by their IDs, so it stays with its
+ * segments through later structural edits.
+ */
+export function getCurrentSegmentTexts(
+  segments: TranscriptionSegment[],
+  editorState?: TranscriptionEditorState
+): Array<{ segmentId: string; text: string }> {
+  const editorSegments = getEditorSegments(editorState, [...segments].sort((a, b) => a.startTime - b.startTime));
+  const approvals = alignApprovals(editorSegments, editorState?.approvals ?? []);
+  return editorSegments.map((segment, index) => ({
+    segmentId: segment.id,
+    text: getSegmentText(segment, approvals[index]),
+  }));
+}
+
+/**
+ * Translate segment texts with the first provider that supports translation
+ * @param sourceLanguage - ISO-639-1 code of the texts (optional)
+ * @param targetLanguage - ISO-639-1 code to translate into
+ */
+export async function translateSegmentTexts(
+  texts: string[],
+  targetLanguage: string,
+  sourceLanguage?: string
+): Promise<{ segments: string[]; model?: string }> {
+  const provider = getTranslationProvider();
+  if (!provider) {
+    throw new Error('No translation provider is configured. Set GEMINI_API_KEY.');
+  }
+
+  console.log(`[Translation] Translating ${texts.length} segments into ${targetLanguage} with ${provider.name}`);
+
+  const result = await provider.translate!(texts, {
+    targetLanguage: describeLanguageForPrompt(targetLanguage),
+    sourceLanguage: sourceLanguage ? describeLanguageForPrompt(sourceLanguage) : undefined,
+  });
+
+  if (result.texts.length !== texts.length) {
+    throw new Error(`Translation returned ${result.texts.length} of ${texts.length} segments`);
+  }
+
+  return { segments: result.texts, model: result.model };
+}
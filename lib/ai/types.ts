@@ -1,3 +1,5 @@
+import type { GlossaryTerm } from './glossary';
+
 /**
  * A segment of transcribed content with metadata
  * Matches the working sample schema for Gemini structured output
@@ -11,6 +13,23 @@ export interface TranscriptionSegment {
   endTime: number;
   /** The transcribed text */
   text: string;
+  /** Recognized words with timing, when the provider returns word-level output */
+  words?: TranscriptionWord[];
+  /** Recognition confidence of the whole segment from 0 to 1, for providers without word-level output */
+  confidence?: number;
+}
+
+/**
+ * A single recognized word within a segment
+ */
+export interface TranscriptionWord {
+  text: string;
+  /** Start timestamp in seconds */
+  start: number;
+  /** End timestamp in seconds */
+  end: number;
+  /** Recognition confidence from 0 to 1 (if the provider reports one) */
+  confidence?: number;
 }
 
 /**
@@ -25,8 +44,13 @@ export interface StructuredTranscription {
  * Configuration for transcription requests
  */
 export interface TranscriptionConfig {
-  /** Target language for transcription/translation */
+  /** Target language for transcription/translation, as described in prompts */
   targetLanguage: string;
+  /**
+   * Spoken language: ISO-639-1 code, or 'auto' to let the provider detect it
+   * (see lib/ai/languages.ts). Providers use their default when unset.
+   */
+  language?: string;
   /** Whether to identify different speakers */
   enableSpeakerIdentification: boolean;
   /** Whether to include timestamps in transcription */
@@ -35,6 +59,26 @@ export interface TranscriptionConfig {
   durationSeconds?: number;
   /** Custom prompt additions (optional) */
   customInstructions?: string;
+  /** Organization glossary, given to providers that accept vocabulary hints (optional) */
+  glossary?: GlossaryTerm[];
+  /**
+   * Stable key for this request within a job (optional)
+   * Async providers record it with the submitted request, so re-running the job
+   * after a restart picks the pending request up instead of submitting it again
+   */
+  resumeKey?: string;
+  /** Aborts the transcription, e.g. when the job is cancelled (optional) */
+  signal?: AbortSignal;
+}
+
+/**
+ * Progress update emitted while a transcription runs
+ */
+export interface TranscriptionProgress {
+  /** Current stage of the pipeline */
+  stage: 'preparing' | 'transcribing' | 'finalizing';
+  /** Completion of the current stage (0-100) */
+  percent: number;
 }
 
 /**
@@ -52,11 +96,39 @@ export interface TranscriptionResult {
     processingTimeMs?: number;
     finishReason?: string;
     wasTruncated?: boolean;
+    /** Language detected by the provider (ISO-639-1 when known) */
+    languageCode?: string;
+    /** Confidence of the detected language from 0 to 1 */
+    languageProbability?: number;
   };
   /** Structured transcription data (when available from provider) */
   structuredData?: StructuredTranscription;
   /** Raw JSON response from the provider (when structured output is used) */
   rawJson?: string;
+  /** Raw responses of each underlying provider, keyed by provider (composite providers only) */
+  rawResponses?: Record<string, string | undefined>;
+}
+
+/**
+ * Configuration for translating segment texts
+ */
+export interface TranslationConfig {
+  /** Language to translate into, as described in prompts (e.g. "English") */
+  targetLanguage: string;
+  /** Language of the texts, as described in prompts (optional) */
+  sourceLanguage?: string;
+  /** Aborts the translation (optional) */
+  signal?: AbortSignal;
+}
+
+/**
+ * Result of a translation
+ */
+export interface TranslationResult {
+  /** Translated texts, one per input text and in the same order */
+  texts: string[];
+  /** Model that translated */
+  model?: string;
 }
 
 /**
@@ -115,4 +187,10 @@ export interface AITranscriptionProvider {
    * Validate if the input file is supported
    */
   validateInput(input: TranscriptionInput): { valid: boolean; error?: string };
+
+  /**
+   * Translate segment texts, keeping one text per segment
+   * Implemented by providers with capabilities.supportsTranslation
+   */
+  translate?(texts: string[], config: TranslationConfig): Promise<TranslationResult>;
 }
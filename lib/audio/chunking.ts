@@ -0,0 +1,476 @@
+/**
+ * Server-side chunking pipeline for long recordings
+ *
+ * Splits the input on silence boundaries with ffmpeg, transcribes the chunks with
+ * bounded concurrency and stitches the segments back onto a single timeline.
+ */
+
+import { mkdtemp, readFile, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import type {
+  AITranscriptionProvider,
+  TranscriptionConfig,
+  TranscriptionInput,
+  TranscriptionProgress,
+  TranscriptionResult,
+  TranscriptionSegment,
+} from '../ai/types';
+import { audioConfig } from '../config';
+import {
+  detectSilences,
+  extractAudioSegment,
+  isFfmpegAvailable,
+  probeDuration,
+  SilenceInterval,
+} from './ffmpeg';
+
+/**
+ * A planned chunk on the original timeline (seconds, overlap excluded)
+ */
+export interface ChunkPlan {
+  index: number;
+  start: number;
+  end: number;
+}
+
+/**
+ * Transcription of a single chunk, with segment times relative to the chunk
+ */
+interface ChunkTranscription {
+  plan: ChunkPlan;
+  /** End of the extracted audio on the original timeline (plan.end + overlap) */
+  extractEnd: number;
+  segments: TranscriptionSegment[];
+  rawJson?: string;
+  rawResponses?: Record<string, string | undefined>;
+  languageCode?: string;
+  languageProbability?: number;
+}
+
+/** Minimum overlap (seconds) for two diarized speakers to be treated as the same person */
+const MIN_SPEAKER_MATCH_SECONDS = 0.5;
+
+/** Segments ending within this tolerance of already stitched audio are duplicates */
+const DUPLICATE_TOLERANCE_SECONDS = 0.25;
+
+/**
+ * Pick a chunk size based on total duration
+ * Longer recordings get longer chunks to keep the number of requests reasonable
+ */
+export function getChunkSizeSeconds(durationSeconds: number): number {
+  const minutes = durationSeconds / 60;
+  if (minutes < 15) return 5 * 60;
+  if (minutes < 60) return 10 * 60;
+  if (minutes < 120) return 15 * 60;
+  if (minutes < 180) return 20 * 60;
+  return 30 * 60;
+}
+
+/**
+ * Plan chunk boundaries, snapping each cut to the silence closest to the target time
+ * Falls back to a hard cut when no silence exists within the search window
+ */
+export function planChunks(
+  durationSeconds: number,
+  silences: SilenceInterval[],
+  chunkSizeSeconds: number
+): ChunkPlan[] {
+  const searchWindow = Math.min(60, chunkSizeSeconds * 0.1);
+  const plans: ChunkPlan[] = [];
+  let start = 0;
+
+  while (durationSeconds - start > chunkSizeSeconds + searchWindow) {
+    const target = start + chunkSizeSeconds;
+    let cut = target;
+    let bestDistance = Infinity;
+
+    for (const silence of silences) {
+      const midpoint = (silence.start + silence.end) / 2;
+      const distance = Math.abs(midpoint - target);
+      if (distance <= searchWindow && distance < bestDistance && midpoint > start) {
+        cut = midpoint;
+        bestDistance = distance;
+      }
+    }
+
+    plans.push({ index: plans.length, start, end: cut });
+    start = cut;
+  }
+
+  plans.push({ index: plans.length, start, end: durationSeconds });
+  return plans;
+}
+
+/**
+ * Map over items with a concurrency limit
+ * 0 or 1 = sequential, -1 = unlimited, N = at most N in flight
+ *
+ * The first failure aborts the signal given to fn and no further items are
+ * started. Rejects with that failure once the items in flight have settled, so
+ * nothing is still running when the caller cleans up.
+ */
+async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, signal: AbortSignal) => Promise<R>
+): Promise<R[]> {
+  const concurrency = limit < 0 ? items.length : Math.max(1, limit);
+  const results: R[] = new Array(items.length);
+  const controller = new AbortController();
+  let failure: { error: unknown } | undefined;
+  let nextIndex = 0;
+
+  const worker = async () => {
+    while (nextIndex < items.length && !controller.signal.aborted) {
+      const current = nextIndex++;
+      try {
+        results[current] = await fn(items[current], controller.signal);
+      } catch (error) {
+        failure ??= { error };
+        controller.abort();
+      }
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(concurrency, items.length) }, worker));
+  if (failure) throw failure.error;
+  return results;
+}
+
+/**
+ * Run an async operation, retrying with linear backoff
+ * Gives up immediately once the signal is aborted
+ */
+async function withRetries<T>(
+  label: string,
+  retries: number,
+  fn: () => Promise<T>,
+  signal?: AbortSignal
+): Promise<T> {
+  let lastError: unknown;
+
+  for (let attempt = 0; attempt <= retries; attempt++) {
+    try {
+      return await fn();
+    } catch (error) {
+      lastError = error;
+      if (signal?.aborted) break;
+      if (attempt < retries) {
+        const delayMs = 2000 * (attempt + 1);
+        console.warn(`[Chunking] ${label} failed (attempt ${attempt + 1}/${retries + 1}), retrying in ${delayMs}ms`);
+        await new Promise(resolve => setTimeout(resolve, delayMs));
+      }
+    }
+  }
+
+  throw lastError;
+}
+
+/**
+ * Match the speakers of a chunk to the (already global) speakers of the previous chunk
+ * using how long they talk at the same time inside the overlap region
+ *
+ * Diarization labels are only meaningful within a single request, so the overlap is the
+ * only evidence we have. Speakers that do not talk during the overlap get new IDs.
+ */
+function matchSpeakers(
+  previous: TranscriptionSegment[],
+  current: TranscriptionSegment[],
+  regionStart: number,
+  regionEnd: number
+): Map<string, string> {
+  const overlapByPair = new Map<string, { local: string; global: string; seconds: number }>();
+
+  for (const a of previous) {
+    for (const b of current) {
+      const overlap =
+        Math.min(a.endTime, b.endTime, regionEnd) - Math.max(a.startTime, b.startTime, regionStart);
+      if (overlap <= 0) continue;
+
+      const key = `${b.speaker}\u0000${a.speaker}`;
+      const entry = overlapByPair.get(key) || { local: b.speaker, global: a.speaker, seconds: 0 };
+      entry.seconds += overlap;
+      overlapByPair.set(key, entry);
+    }
+  }
+
+  const mapping = new Map<string, string>();
+  const usedGlobals = new Set<string>();
+  const candidates = [...overlapByPair.values()].sort((a, b) => b.seconds - a.seconds);
+
+  for (const candidate of candidates) {
+    if (candidate.seconds < MIN_SPEAKER_MATCH_SECONDS) break;
+    if (mapping.has(candidate.local) || usedGlobals.has(candidate.global)) continue;
+    mapping.set(candidate.local, candidate.global);
+    usedGlobals.add(candidate.global);
+  }
+
+  return mapping;
+}
+
+/**
+ * Remove the part of a segment that was already stitched from the previous chunk
+ *
+ * Segments ending inside the stitched audio are dropped. Segments that start before
+ * its end keep only their later words: by word timestamps when the provider returned
+ * them, otherwise by the share of the segment's duration that is new.
+ * @returns The trimmed segment, or null when nothing new is left
+ */
+function trimStitchedOverlap(segment: TranscriptionSegment, stitchedEnd: number): TranscriptionSegment | null {
+  const cutoff = stitchedEnd + DUPLICATE_TOLERANCE_SECONDS;
+  if (segment.endTime <= cutoff) return null;
+  if (segment.startTime >= stitchedEnd - DUPLICATE_TOLERANCE_SECONDS) return segment;
+
+  if (segment.words && segment.words.length > 0) {
+    const words = segment.words.filter(word => word.end > cutoff);
+    if (words.length === 0) return null;
+
+    return {
+      ...segment,
+      startTime: words[0].start,
+      text: words.map(word => word.text).join(' '),
+      words,
+    };
+  }
+
+  const tokens = segment.text.trim().split(/\s+/);
+  const newShare = (segment.endTime - stitchedEnd) / (segment.endTime - segment.startTime);
+  const kept = tokens.slice(tokens.length - Math.round(tokens.length * newShare));
+  if (kept.length === 0) return null;
+
+  return { ...segment, startTime: stitchedEnd, text: kept.join(' ') };
+}
+
+/**
+ * Stitch chunk transcriptions into one segment list on the original timeline
+ * - Offsets segment and word times by the chunk start
+ * - Relabels speakers to global "Speaker N" IDs, carried across chunk boundaries
+ * - Drops segments that belong to the next chunk, and trims or drops those that
+ *   repeat already stitched audio
+ */
+export function stitchChunkSegments(chunks: ChunkTranscription[]): TranscriptionSegment[] {
+  const stitched: TranscriptionSegment[] = [];
+  let previous: { segments: TranscriptionSegment[]; extractEnd: number } | null = null;
+  let nextSpeakerNumber = 1;
+  let stitchedEnd = -Infinity;
+
+  chunks.forEach((chunk, position) => {
+    const isLast = position === chunks.length - 1;
+    const offset = chunk.plan.start;
+
+    const absolute = chunk.segments.map(segment => ({
+      ...segment,
+      startTime: segment.startTime + offset,
+      endTime: segment.endTime + offset,
+      words: segment.words?.map(word => ({
+        ...word,
+        start: word.start + offset,
+        end: word.end + offset,
+      })),
+    }));
+
+    const speakerMap = previous
+      ? matchSpeakers(previous.segments, absolute, chunk.plan.start, previous.extractEnd)
+      : new Map<string, string>();
+
+    for (const segment of absolute) {
+      if (!speakerMap.has(segment.speaker)) {
+        speakerMap.set(segment.speaker, `Speaker ${nextSpeakerNumber++}`);
+      }
+    }
+
+    const relabeled = absolute.map(segment => ({
+      ...segment,
+      speaker: speakerMap.get(segment.speaker)!,
+    }));
+
+    // Compared against earlier chunks only: segments of one chunk may overlap each
+    // other when speakers talk at the same time
+    const previousEnd = stitchedEnd;
+
+    for (const segment of relabeled) {
+      if (!isLast && segment.startTime >= chunk.plan.end) continue;
+
+      const trimmed = trimStitchedOverlap(segment, previousEnd);
+      if (!trimmed) continue;
+
+      stitched.push(trimmed);
+      stitchedEnd = Math.max(stitchedEnd, trimmed.endTime);
+    }
+
+    previous = { segments: relabeled, extractEnd: chunk.extractEnd };
+  });
+
+  return stitched;
+}
+
+/**
+ * Language detected for the whole recording: the one detected in most chunks,
+ * with the mean probability of those chunks
+ */
+function detectChunkLanguage(chunks: ChunkTranscription[]): { languageCode?: string; languageProbability?: number } {
+  const byLanguage = new Map<string, ChunkTranscription[]>();
+  for (const chunk of chunks) {
+    if (chunk.languageCode) {
+      byLanguage.set(chunk.languageCode, [...(byLanguage.get(chunk.languageCode) ?? []), chunk]);
+    }
+  }
+
+  const [languageCode, detectedIn] = [...byLanguage.entries()].sort((a, b) => b[1].length - a[1].length)[0] ?? [];
+  if (!languageCode) return {};
+
+  const probabilities = detectedIn
+    .map(chunk => chunk.languageProbability)
+    .filter((value): value is number => value !== undefined);
+
+  return {
+    languageCode,
+    languageProbability: probabilities.length > 0
+      ? probabilities.reduce((sum, value) => sum + value, 0) / probabilities.length
+      : undefined,
+  };
+}
+
+/**
+ * Transcribe an input with the given provider, chunking it when it is long enough
+ *
+ * Short files, disabled chunking or a missing ffmpeg installation all fall back to a
+ * single provider request. Progress is reported as the share of finished chunks.
+ */
+export async function transcribeWithChunking(
+  provider: AITranscriptionProvider,
+  input: TranscriptionInput,
+  config: TranscriptionConfig,
+  onProgress?: (progress: TranscriptionProgress) => void
+): Promise<TranscriptionResult> {
+  if (!audioConfig.enableChunking) {
+    onProgress?.({ stage: 'transcribing', percent: 0 });
+    return provider.transcribe(input, config);
+  }
+
+  if (!(await isFfmpegAvailable())) {
+    console.warn('[Chunking] ffmpeg/ffprobe not available, transcribing in a single request');
+    onProgress?.({ stage: 'transcribing', percent: 0 });
+    return provider.transcribe(input, config);
+  }
+
+  const workDir = await mkdtemp(path.join(tmpdir(), 'grecho-chunks-'));
+  const startTime = Date.now();
+
+  try {
+    const extension = path.extname(input.fileName) || '.bin';
+    const sourcePath = path.join(workDir, `source${extension}`);
+    await writeFile(sourcePath, Buffer.from(input.buffer));
+
+    const durationSeconds = await probeDuration(sourcePath);
+
+    if (durationSeconds <= audioConfig.chunkingThresholdSeconds) {
+      console.log(`[Chunking] ${durationSeconds.toFixed(0)}s is below the chunking threshold`);
+      onProgress?.({ stage: 'transcribing', percent: 0 });
+      return provider.transcribe(input, { ...config, durationSeconds });
+    }
+
+    const chunkSize = getChunkSizeSeconds(durationSeconds);
+    const silences = await detectSilences(sourcePath);
+    const plans = planChunks(durationSeconds, silences, chunkSize);
+
+    console.log(
+      `[Chunking] ${durationSeconds.toFixed(0)}s split into ${plans.length} chunks ` +
+      `(~${chunkSize / 60} min each, ${silences.length} silences found, ` +
+      `concurrency ${audioConfig.maxConcurrentChunks})`
+    );
+
+    let completedChunks = 0;
+    onProgress?.({ stage: 'transcribing', percent: 0 });
+
+    const baseName = path.basename(input.fileName, extension);
+
+    const chunks = await mapWithConcurrency(plans, audioConfig.maxConcurrentChunks, async (plan, failed) => {
+      // Stops on cancellation of the job and on the failure of another chunk
+      const signal = config.signal ? AbortSignal.any([config.signal, failed]) : failed;
+      signal.throwIfAborted();
+
+      const extractEnd = Math.min(plan.end + audioConfig.chunkOverlapSeconds, durationSeconds);
+      const chunkPath = path.join(workDir, `chunk-${plan.index}.flac`);
+      await extractAudioSegment(sourcePath, chunkPath, plan.start, extractEnd - plan.start, signal);
+
+      const chunkBuffer = await readFile(chunkPath);
+      const chunkInput: TranscriptionInput = {
+        buffer: chunkBuffer.buffer.slice(
+          chunkBuffer.byteOffset,
+          chunkBuffer.byteOffset + chunkBuffer.byteLength
+        ) as ArrayBuffer,
+        mimeType: 'audio/flac',
+        fileName: `${baseName}.part${plan.index + 1}.flac`,
+      };
+
+      const label = `Chunk ${plan.index + 1}/${plans.length}`;
+      const chunkConfig: TranscriptionConfig = {
+        ...config,
+        signal,
+        durationSeconds: extractEnd - plan.start,
+        // Planning is deterministic, so a re-run maps each chunk to the same key
+        resumeKey: config.resumeKey ? `${config.resumeKey}:chunk-${plan.index}` : undefined,
+      };
+      const result = await withRetries(label, audioConfig.maxChunkRetries, () => {
+        signal.throwIfAborted();
+        return provider.transcribe(chunkInput, chunkConfig);
+      }, signal);
+      await rm(chunkPath, { force: true });
+
+      completedChunks++;
+      onProgress?.({ stage: 'transcribing', percent: Math.round((completedChunks / plans.length) * 100) });
+      console.log(`[Chunking] ${label} done (${result.structuredData?.segments.length ?? 0} segments)`);
+
+      // Providers without structured output still yield text; keep it as one segment
+      const segments = result.structuredData?.segments ?? (result.text
+        ? [{ speaker: 'Speaker 1', startTime: 0, endTime: extractEnd - plan.start, text: result.text }]
+        : []);
+
+      return {
+        plan,
+        extractEnd,
+        segments,
+        rawJson: result.rawJson,
+        rawResponses: result.rawResponses,
+        languageCode: result.metadata?.languageCode,
+        languageProbability: result.metadata?.languageProbability,
+      } satisfies ChunkTranscription;
+    });
+
+    const segments = stitchChunkSegments(chunks);
+    const text = segments.map(segment => segment.text).join(' ');
+    const combineRawJson = (rawJsonOf: (chunk: ChunkTranscription) => string | undefined) => JSON.stringify(
+      chunks.map(chunk => ({
+        index: chunk.plan.index,
+        startTime: chunk.plan.start,
+        endTime: chunk.extractEnd,
+        rawJson: rawJsonOf(chunk),
+      }))
+    );
+
+    // Composite providers report raw output per underlying provider; combine each one separately
+    const rawResponseKeys = [...new Set(chunks.flatMap(chunk => Object.keys(chunk.rawResponses ?? {})))];
+    const rawResponses = rawResponseKeys.length > 0
+      ? Object.fromEntries(rawResponseKeys.map(key => [key, combineRawJson(chunk => chunk.rawResponses?.[key])]))
+      : undefined;
+
+    return {
+      text,
+      provider: provider.name,
+      structuredData: { segments },
+      rawJson: combineRawJson(chunk => chunk.rawJson),
+      rawResponses,
+      metadata: {
+        processingTimeMs: Date.now() - startTime,
+        wordCount: text.split(/\s+/).filter(Boolean).length,
+        ...detectChunkLanguage(chunks),
+      },
+    };
+  } finally {
+    await rm(workDir, { recursive: true, force: true }).catch(() => {
+      // Ignore cleanup errors
+    });
+  }
+}
@@ -0,0 +1,216 @@
+/**
+ * Thin wrappers around the ffmpeg / ffprobe binaries
+ * Binary paths come from audioConfig (FFMPEG_PATH / FFPROBE_PATH)
+ */
+
+import { spawn } from 'child_process';
+import { audioConfig } from '../config';
+
+/**
+ * A detected stretch of silence in an audio file (seconds)
+ */
+export interface SilenceInterval {
+  start: number;
+  end: number;
+}
+
+/**
+ * Options for silence detection
+ */
+export interface SilenceDetectionOptions {
+  /** Noise floor in dB below which audio counts as silence (default: -35) */
+  noiseDb?: number;
+  /** Minimum silence length in seconds (default: 0.5) */
+  minDurationSeconds?: number;
+}
+
+/**
+ * Run a binary and collect its output
+ * Rejects with the tail of stderr when the process exits with a non-zero code,
+ * and kills the process when the signal is aborted
+ */
+function run(command: string, args: string[], signal?: AbortSignal): Promise<{ stdout: string; stderr: string }> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(command, args, { stdio: ['ignore', 'pipe', 'pipe'], signal });
+    let stdout = '';
+    let stderr = '';
+
+    child.stdout.on('data', (data) => {
+      stdout += data.toString();
+    });
+    child.stderr.on('data', (data) => {
+      stderr += data.toString();
+    });
+
+    child.on('error', reject);
+    child.on('close', (code) => {
+      if (code === 0) {
+        resolve({ stdout, stderr });
+      } else {
+        reject(new Error(`${command} exited with code ${code}: ${stderr.slice(-500)}`));
+      }
+    });
+  });
+}
+
+/**
+ * Check whether ffmpeg and ffprobe can be executed
+ */
+export async function isFfmpegAvailable(): Promise<boolean> {
+  try {
+    await run(audioConfig.ffmpegPath, ['-version']);
+    await run(audioConfig.ffprobePath, ['-version']);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Get media duration in seconds using ffprobe
+ */
+export async function probeDuration(filePath: string): Promise<number> {
+  const { stdout } = await run(audioConfig.ffprobePath, [
+    '-v', 'error',
+    '-show_entries', 'format=duration',
+    '-of', 'default=noprint_wrappers=1:nokey=1',
+    filePath,
+  ]);
+
+  const duration = parseFloat(stdout.trim());
+  if (!Number.isFinite(duration)) {
+    throw new Error(`Could not determine duration of ${filePath}`);
+  }
+  return duration;
+}
+
+/**
+ * Detect silent intervals using ffmpeg's silencedetect filter
+ * Decodes the whole file, so this takes a while for multi-hour recordings
+ */
+export async function detectSilences(
+  filePath: string,
+  options: SilenceDetectionOptions = {}
+): Promise<SilenceInterval[]> {
+  const noiseDb = options.noiseDb ?? -35;
+  const minDuration = options.minDurationSeconds ?? 0.5;
+
+  const { stderr } = await run(audioConfig.ffmpegPath, [
+    '-hide_banner',
+    '-nostats',
+    '-i', filePath,
+    '-vn',
+    '-af', `silencedetect=noise=${noiseDb}dB:d=${minDuration}`,
+    '-f', 'null',
+    '-',
+  ]);
+
+  const silences: SilenceInterval[] = [];
+  let pendingStart: number | null = null;
+
+  for (const line of stderr.split('\n')) {
+    const startMatch = line.match(/silence_start:\s*(-?[\d.]+)/);
+    if (startMatch) {
+      pendingStart = Math.max(0, parseFloat(startMatch[1]));
+      continue;
+    }
+
+    const endMatch = line.match(/silence_end:\s*([\d.]+)/);
+    if (endMatch && pendingStart !== null) {
+      silences.push({ start: pendingStart, end: parseFloat(endMatch[1]) });
+      pendingStart = null;
+    }
+  }
+
+  return silences;
+}
+
+/**
+ * Extract a time range into a mono 16kHz FLAC file
+ * FLAC keeps the audio lossless while staying much smaller than WAV
+ */
+export async function extractAudioSegment(
+  inputPath: string,
+  outputPath: string,
+  startSeconds: number,
+  durationSeconds: number,
+  signal?: AbortSignal
+): Promise<void> {
+  await run(audioConfig.ffmpegPath, [
+    '-hide_banner',
+    '-loglevel', 'error',
+    '-y',
+    '-ss', startSeconds.toFixed(3),
+    '-t', durationSeconds.toFixed(3),
+    '-i', inputPath,
+    '-vn',
+    '-ac', '1',
+    '-ar', '16000',
+    '-c:a', 'flac',
+    outputPath,
+  ], signal);
+}
+
+/**
+ * Convert any input into a mono 16kHz 16-bit WAV file
+ * The format whisper.cpp expects
+ */
+export async function convertToWav(inputPath: string, outputPath: string): Promise<void> {
+  await run(audioConfig.ffmpegPath, [
+    '-hide_banner',
+    '-loglevel', 'error',
+    '-y',
+    '-i', inputPath,
+    '-vn',
+    '-ac', '1',
+    '-ar', '16000',
+    '-c:a', 'pcm_s16le',
+    outputPath,
+  ]);
+}
+
+/**
+ * Decode a time range into mono 32-bit float samples
+ * @returns Samples at `sampleRate` (default 16kHz)
+ */
+export function readAudioSamples(
+  inputPath: string,
+  startSeconds: number,
+  durationSeconds: number,
+  sampleRate = 16000
+): Promise<Float32Array> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(audioConfig.ffmpegPath, [
+      '-hide_banner',
+      '-loglevel', 'error',
+      '-ss', startSeconds.toFixed(3),
+      '-t', durationSeconds.toFixed(3),
+      '-i', inputPath,
+      '-vn',
+      '-ac', '1',
+      '-ar', String(sampleRate),
+      '-f', 'f32le',
+      'pipe:1',
+    ], { stdio: ['ignore', 'pipe', 'pipe'] });
+    const chunks: Buffer[] = [];
+    let stderr = '';
+
+    child.stdout.on('data', (data: Buffer) => chunks.push(data));
+    child.stderr.on('data', (data) => {
+      stderr += data.toString();
+    });
+
+    child.on('error', reject);
+    child.on('close', (code) => {
+      if (code !== 0) {
+        reject(new Error(`${audioConfig.ffmpegPath} exited with code ${code}: ${stderr.slice(-500)}`));
+        return;
+      }
+      const buffer = Buffer.concat(chunks);
+      // Copy into an aligned buffer - Buffer.concat may return a view at any offset
+      const samples = new Float32Array(Math.floor(buffer.byteLength / 4));
+      new Uint8Array(samples.buffer).set(buffer.subarray(0, samples.byteLength));
+      resolve(samples);
+    });
+  });
+}
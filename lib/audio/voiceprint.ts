@@ -0,0 +1,210 @@
+/**
+ * Voiceprints for matching diarized speakers against the organization roster
+ *
+ * A voiceprint summarizes a clip by the mean and spread of its MFCCs (mel
+ * frequency cepstral coefficients), which mostly depend on the speaker's vocal
+ * tract rather than on what is said. It is not a speaker embedding model, but
+ * it tells apart the few dozen regular voices of a council well enough to
+ * suggest names that a clerk then confirms.
+ *
+ * Clips are decoded with ffmpeg while the upload is still on disk (see
+ * lib/jobs/runner.ts), since audio otherwise stays in the browser.
+ */
+
+import type { TranscriptionSegment } from '../ai/types';
+import { getBestSampleSegments } from '../editor/speakerSamples';
+import { readAudioSamples } from './ffmpeg';
+
+const SAMPLE_RATE = 16000;
+const FRAME_LENGTH = 400; // 25ms
+const FRAME_HOP = 160; // 10ms
+const FFT_SIZE = 512;
+const MEL_FILTER_COUNT = 26;
+/** Cepstral coefficients kept, without c0 (loudness) */
+const COEFFICIENT_COUNT = 12;
+/** Frames quieter than the loudest frame by this much (natural log of energy) are skipped as silence */
+const SILENCE_LOG_ENERGY_RANGE = 7;
+
+/** Clips per speaker and their length limits (seconds) */
+const CLIPS_PER_SPEAKER = 3;
+const MIN_CLIP_SECONDS = 2;
+const MAX_CLIP_SECONDS = 10;
+
+/**
+ * Voiceprint of one clip of a diarized speaker
+ */
+export interface SpeakerVoiceprint {
+  /** Diarized speaker ID (e.g. "Speaker 1") */
+  speaker: string;
+  startTime: number;
+  endTime: number;
+  /** MFCC means followed by their standard deviations */
+  voiceprint: number[];
+}
+
+/**
+ * Iterative radix-2 FFT, in place
+ */
+function fft(real: Float64Array, imag: Float64Array): void {
+  const n = real.length;
+
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) j ^= bit;
+    j ^= bit;
+    if (i < j) {
+      [real[i], real[j]] = [real[j], real[i]];
+      [imag[i], imag[j]] = [imag[j], imag[i]];
+    }
+  }
+
+  for (let size = 2; size <= n; size <<= 1) {
+    const angle = (-2 * Math.PI) / size;
+    for (let start = 0; start < n; start += size) {
+      for (let k = 0; k < size / 2; k++) {
+        const cos = Math.cos(angle * k);
+        const sin = Math.sin(angle * k);
+        const evenIndex = start + k;
+        const oddIndex = evenIndex + size / 2;
+        const oddReal = real[oddIndex] * cos - imag[oddIndex] * sin;
+        const oddImag = real[oddIndex] * sin + imag[oddIndex] * cos;
+        real[oddIndex] = real[evenIndex] - oddReal;
+        imag[oddIndex] = imag[evenIndex] - oddImag;
+        real[evenIndex] += oddReal;
+        imag[evenIndex] += oddImag;
+      }
+    }
+  }
+}
+
+const hzToMel = (hz: number) => 2595 * Math.log10(1 + hz / 700);
+const melToHz = (mel: number) => 700 * (10 ** (mel / 2595) - 1);
+
+/**
+ * Triangular mel filters over the FFT bins (up to 8kHz)
+ */
+function createMelFilters(): number[][] {
+  const binCount = FFT_SIZE / 2 + 1;
+  const maxMel = hzToMel(SAMPLE_RATE / 2);
+  const bins = Array.from({ length: MEL_FILTER_COUNT + 2 }, (_, i) =>
+    Math.floor(((FFT_SIZE + 1) * melToHz((maxMel * i) / (MEL_FILTER_COUNT + 1))) / SAMPLE_RATE)
+  );
+
+  return Array.from({ length: MEL_FILTER_COUNT }, (_, m) => {
+    const [left, center, right] = [bins[m], bins[m + 1], bins[m + 2]];
+    const filter = new Array<number>(binCount).fill(0);
+    for (let k = left; k < center; k++) filter[k] = (k - left) / Math.max(center - left, 1);
+    for (let k = center; k < right; k++) filter[k] = (right - k) / Math.max(right - center, 1);
+    return filter;
+  });
+}
+
+const melFilters = createMelFilters();
+const hammingWindow = Array.from({ length: FRAME_LENGTH }, (_, i) =>
+  0.54 - 0.46 * Math.cos((2 * Math.PI * i) / (FRAME_LENGTH - 1))
+);
+
+/**
+ * MFCCs (c1..c12) and log energy of one frame
+ */
+function analyzeFrame(samples: Float32Array, offset: number): { coefficients: number[]; logEnergy: number } {
+  const real = new Float64Array(FFT_SIZE);
+  const imag = new Float64Array(FFT_SIZE);
+  let energy = 0;
+
+  for (let i = 0; i < FRAME_LENGTH; i++) {
+    // Pre-emphasis boosts the higher formants
+    const sample = samples[offset + i] - 0.97 * (offset + i > 0 ? samples[offset + i - 1] : 0);
+    real[i] = sample * hammingWindow[i];
+    energy += sample * sample;
+  }
+
+  fft(real, imag);
+
+  const power = Array.from({ length: FFT_SIZE / 2 + 1 }, (_, k) => real[k] * real[k] + imag[k] * imag[k]);
+  const logMel = melFilters.map(filter =>
+    Math.log(filter.reduce((sum, weight, k) => sum + weight * power[k], 0) + 1e-10)
+  );
+
+  // DCT-II of the log mel energies
+  const coefficients = Array.from({ length: COEFFICIENT_COUNT }, (_, index) => {
+    const c = index + 1;
+    return logMel.reduce(
+      (sum, value, m) => sum + value * Math.cos((Math.PI * c * (m + 0.5)) / MEL_FILTER_COUNT),
+      0
+    );
+  });
+
+  return { coefficients, logEnergy: Math.log(energy + 1e-10) };
+}
+
+/**
+ * Voiceprint of mono 16kHz samples
+ * @returns MFCC means and standard deviations, or null when the clip has too little speech
+ */
+export function computeVoiceprint(samples: Float32Array): number[] | null {
+  const frames: Array<{ coefficients: number[]; logEnergy: number }> = [];
+  for (let offset = 0; offset + FRAME_LENGTH <= samples.length; offset += FRAME_HOP) {
+    frames.push(analyzeFrame(samples, offset));
+  }
+  if (frames.length === 0) return null;
+
+  const maxLogEnergy = Math.max(...frames.map(frame => frame.logEnergy));
+  const voiced = frames.filter(frame => frame.logEnergy > maxLogEnergy - SILENCE_LOG_ENERGY_RANGE);
+  // At least half a second of speech
+  if (voiced.length < 50) return null;
+
+  const means = Array.from({ length: COEFFICIENT_COUNT }, (_, c) =>
+    voiced.reduce((sum, frame) => sum + frame.coefficients[c], 0) / voiced.length
+  );
+  const deviations = means.map((mean, c) =>
+    Math.sqrt(voiced.reduce((sum, frame) => sum + (frame.coefficients[c] - mean) ** 2, 0) / voiced.length)
+  );
+
+  return [...means, ...deviations].map(value => Math.round(value * 1000) / 1000);
+}
+
+/**
+ * Similarity of two voiceprints from 0 to 1
+ * The difference of the MFCC means is measured in units of their spread, so
+ * every coefficient counts alike.
+ */
+export function compareVoiceprints(a: number[], b: number[]): number {
+  const count = Math.min(a.length, b.length) / 2;
+  if (count === 0) return 0;
+
+  let sum = 0;
+  for (let c = 0; c < count; c++) {
+    const pooledVariance = (a[count + c] ** 2 + b[count + c] ** 2) / 2 || 1e-6;
+    sum += (a[c] - b[c]) ** 2 / pooledVariance;
+  }
+
+  return Math.exp(-Math.sqrt(sum / count));
+}
+
+/**
+ * Voiceprints of each diarized speaker's longest segments
+ * Clips that cannot be decoded or have too little speech are skipped
+ */
+export async function extractSpeakerVoiceprints(
+  filePath: string,
+  segments: TranscriptionSegment[]
+): Promise<SpeakerVoiceprint[]> {
+  const speakers = [...new Set(segments.map(segment => segment.speaker))];
+  const voiceprints: SpeakerVoiceprint[] = [];
+
+  for (const speaker of speakers) {
+    for (const segment of getBestSampleSegments(segments, speaker, CLIPS_PER_SPEAKER, MIN_CLIP_SECONDS)) {
+      const duration = Math.min(segment.endTime - segment.startTime, MAX_CLIP_SECONDS);
+      const samples = await readAudioSamples(filePath, segment.startTime, duration, SAMPLE_RATE);
+      const voiceprint = computeVoiceprint(samples);
+
+      if (voiceprint) {
+        voiceprints.push({ speaker, startTime: segment.startTime, endTime: segment.startTime + duration, voiceprint });
+      }
+    }
+  }
+
+  console.log(`[Voiceprint] ${voiceprints.length} clips for ${speakers.length} speakers`);
+  return voiceprints;
+}
@@ -1,12 +1,25 @@
 import { auth } from '@/auth';
+import { cookies } from 'next/headers';
 import { NextResponse } from 'next/server';
+import { resolveMembership } from '@/lib/organizations/membership';
+import { ACTIVE_ORGANIZATION_COOKIE, hasRole, type OrganizationRole } from '@/lib/organizations/roles';
 
-export async function requireAuth() {
+export interface RequireAuthOptions {
+  /** Minimum role in the active organization (default: viewer) */
+  role?: OrganizationRole;
+}
+
+/**
+ * Check the session and the user's role in the active organization
+ * The active organization comes from the organization cookie and falls back to
+ * the user's first organization
+ */
+export async function requireAuth(options: RequireAuthOptions = {}) {
   const session = await auth();
 
-  if (!session?.user) {
+  if (!session?.user?.id) {
     return {
-      authorized: false,
+      authorized: false as const,
       response: NextResponse.json(
         { error: 'Unauthorized' },
         { status: 401 }
@@ -14,9 +27,29 @@ export async function requireAuth() {
     };
   }
 
+  const cookieStore = await cookies();
+  const membership = await resolveMembership(
+    session.user.id,
+    session.user.email ?? session.user.id,
+    cookieStore.get(ACTIVE_ORGANIZATION_COOKIE)?.value
+  );
+
+  if (options.role && !hasRole(membership.role, options.role)) {
+    return {
+      authorized: false as const,
+      response: NextResponse.json(
+        { error: `This action requires the ${options.role} role` },
+        { status: 403 }
+      ),
+    };
+  }
+
   return {
-    authorized: true,
+    authorized: true as const,
     session,
+    userId: session.user.id,
+    organizationId: membership.organizationId,
+    role: membership.role,
   };
 }
 
@@ -15,11 +15,28 @@ export const featureFlags = {
  * Pipeline configuration
  */
 export const pipelineConfig = {
-  /** Pipeline mode: 'gemini-only' or 'elevenlabs-only' */
-  mode: "elevenlabs-only",
+  /**
+   * Default pipeline mode, one of the modes registered in lib/ai/registry.ts
+   * ('elevenlabs-only', 'gemini-only', 'hybrid', 'local-whisper'). Organizations and single requests can
+   * pick another mode.
+   */
+  mode: process.env.PIPELINE_MODE || 'elevenlabs-only',
+
+  /**
+   * Modes to fall back to, in order, when the selected provider cannot take
+   * the input (e.g. unsupported file type). Comma-separated; defaults to all
+   * registered modes.
+   */
+  fallbackModes: (process.env.PIPELINE_FALLBACK_MODES || '')
+    .split(',')
+    .map(mode => mode.trim())
+    .filter(Boolean),
 
-  /** Target language for transcription */
-  targetLanguage: process.env.TARGET_LANGUAGE || 'Greek (Ελληνικά)',
+  /**
+   * Default spoken language: an ISO-639-1 code from lib/ai/languages.ts ('el', 'en', 'tr')
+   * or 'auto' to let the provider detect it. Uploads can pick another language.
+   */
+  language: process.env.TRANSCRIPTION_LANGUAGE || 'el',
 
   /** Gemini model to use */
   geminiModel: process.env.GEMINI_MODEL || 'gemini-3-pro-preview',
@@ -39,6 +56,37 @@ export const aiConfig = {
   ELEVENLABS_API_KEY: process.env.ELEVENLABS_API_KEY,
 } as const;
 
+/**
+ * Local (offline) Whisper provider configuration
+ * Used by the 'local-whisper' pipeline mode; audio never leaves the server
+ */
+export const localWhisperConfig = {
+  /**
+   * URL of a local transcription endpoint (whisper.cpp server's /inference or a
+   * faster-whisper server's /v1/audio/transcriptions). When set it is used
+   * instead of the whisper.cpp binary.
+   */
+  serverUrl: process.env.WHISPER_SERVER_URL,
+
+  /** Path to the whisper.cpp CLI binary */
+  binaryPath: process.env.WHISPER_CPP_PATH || 'whisper-cli',
+
+  /** Path to the ggml model file used by the whisper.cpp binary */
+  modelPath: process.env.WHISPER_MODEL_PATH,
+
+  /** ISO-639-1 language code passed to Whisper */
+  language: process.env.WHISPER_LANGUAGE || 'el',
+
+  /** CPU threads for the whisper.cpp binary. Default: 4 */
+  threads: parseInt(process.env.WHISPER_THREADS || '4', 10),
+
+  /** Use tinydiarize speaker turns (needs a *-tdrz model). Default: false */
+  tinydiarize: process.env.WHISPER_TINYDIARIZE === 'true',
+
+  /** Segments are split at the next sentence end once they are this long (seconds). Default: 30 */
+  maxSegmentSeconds: parseInt(process.env.WHISPER_MAX_SEGMENT_SECONDS || '30', 10),
+} as const;
+
 /**
  * Audio processing configuration
  */
@@ -61,6 +109,54 @@ export const audioConfig = {
    */
   maxConcurrentChunks: parseInt(
     process.env.MAX_CONCURRENT_CHUNKS || '3',
-    5
+    10
   ),
+
+  /** Only files longer than this (seconds) are chunked. Default: 600 (10 minutes) */
+  chunkingThresholdSeconds: parseInt(process.env.CHUNKING_THRESHOLD_SECONDS || '600', 10),
+
+  /** Seconds of audio shared by consecutive chunks, used to carry speaker IDs across. Default: 10 */
+  chunkOverlapSeconds: parseInt(process.env.CHUNK_OVERLAP_SECONDS || '10', 10),
+
+  /** How many times a failed chunk is retried before the job fails. Default: 2 */
+  maxChunkRetries: parseInt(process.env.MAX_CHUNK_RETRIES || '2', 10),
+} as const;
+
+/**
+ * Persistence configuration
+ */
+export const storageConfig = {
+  /**
+   * Where async provider requests (ElevenLabs webhook jobs) are stored
+   * 'prisma' = Postgres, survives restarts and works across instances
+   * 'memory' = process-local, for tests and local development
+   * Defaults to 'prisma' when DATABASE_URL is set
+   */
+  transcriptionStore: (process.env.TRANSCRIPTION_STORE ||
+    (process.env.DATABASE_URL ? 'prisma' : 'memory')) as 'prisma' | 'memory',
+
+  /** How long finished provider requests are kept (default: 24 hours) */
+  transcriptionStoreTtlMs: parseInt(process.env.TRANSCRIPTION_STORE_TTL_MS || String(24 * 60 * 60 * 1000), 10),
+
+  /** Where transcription jobs are stored - same options and default as transcriptionStore */
+  jobStore: (process.env.JOB_STORE ||
+    (process.env.DATABASE_URL ? 'prisma' : 'memory')) as 'prisma' | 'memory',
+
+  /**
+   * Directory for uploads of queued/running jobs, kept until the job finishes
+   * Must be a persistent volume for jobs to resume after a restart
+   */
+  jobUploadDir: process.env.JOB_UPLOAD_DIR || '.data/uploads',
+
+  /** How long finished jobs (and their results) are kept (default: 7 days) */
+  jobTtlMs: parseInt(process.env.JOB_TTL_MS || String(7 * 24 * 60 * 60 * 1000), 10),
+
+  /** How often a running job checks whether it was cancelled from another instance (default: 5s) */
+  jobCancelCheckIntervalMs: parseInt(process.env.JOB_CANCEL_CHECK_INTERVAL_MS || '5000', 10),
+
+  /**
+   * How long a running job stays claimed by its instance without a heartbeat (default: 60s)
+   * The lease is renewed on every cancel check, so keep it well above that interval
+   */
+  jobLeaseMs: parseInt(process.env.JOB_LEASE_MS || '60000', 10),
 } as const;
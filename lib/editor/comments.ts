@@ -0,0 +1,71 @@
+/**
+ * Review comment threads on segments
+ *
+ * Comments are keyed by segment ID, so they stay with their segment through
+ * splits, merges and inserts. A thread whose segment was merged away or
+ * deleted is no longer shown in the editor.
+ */
+
+import type { EditorSegment, SegmentComment } from '@/lib/transcriptionStorage';
+
+/** Longest comment accepted */
+export const MAX_COMMENT_LENGTH = 2000;
+
+/**
+ * A comment and its replies, oldest first
+ */
+export interface CommentThread {
+  root: SegmentComment;
+  replies: SegmentComment[];
+  resolved: boolean;
+}
+
+/**
+ * Check whether a value is a character range of a segment text
+ */
+export function isCommentRange(value: unknown): value is NonNullable<SegmentComment['range']> {
+  if (!value || typeof value !== 'object') return false;
+  const { start, end, quote } = value as Record<string, unknown>;
+  return Number.isInteger(start) && Number.isInteger(end) &&
+    (start as number) >= 0 && (end as number) > (start as number) &&
+    typeof quote === 'string';
+}
+
+/**
+ * Group comments into threads by segment ID, oldest thread first
+ * Replies whose thread is missing are left out.
+ */
+export function getCommentThreads(comments: SegmentComment[]): Map<string, CommentThread[]> {
+  const threads = new Map<string, CommentThread>();
+  for (const comment of comments) {
+    if (!comment.parentId) {
+      threads.set(comment.id, { root: comment, replies: [], resolved: comment.resolvedAt !== undefined });
+    }
+  }
+  for (const comment of comments) {
+    if (comment.parentId) {
+      threads.get(comment.parentId)?.replies.push(comment);
+    }
+  }
+
+  const bySegment = new Map<string, CommentThread[]>();
+  for (const thread of threads.values()) {
+    const segmentThreads = bySegment.get(thread.root.segmentId) ?? [];
+    segmentThreads.push(thread);
+    bySegment.set(thread.root.segmentId, segmentThreads);
+  }
+  return bySegment;
+}
+
+/**
+ * Indexes of segments with unresolved threads, in segment order
+ */
+export function getOpenCommentIndexes(
+  segments: EditorSegment[],
+  threads: Map<string, CommentThread[]>
+): number[] {
+  return segments
+    .map((segment, index) => ({ index, open: threads.get(segment.id)?.some(thread => !thread.resolved) }))
+    .filter(({ open }) => open)
+    .map(({ index }) => index);
+}
@@ -0,0 +1,254 @@
+import { TranscriptionSegment } from '@/lib/ai/types';
+import type {
+  EditorSegment,
+  SegmentApproval,
+  TranscriptionEditorState,
+  TranscriptionTranslation,
+} from '@/lib/transcriptionStorage';
+
+/**
+ * Structural edits on the editor's working copy of the segments
+ *
+ * Segments carry stable IDs and approvals refer to them, so splitting,
+ * merging, inserting and deleting segments never moves an approval to another
+ * segment. Each operation returns new segments and leaves its input untouched.
+ */
+
+/** Shortest segment that timing nudges leave (seconds) */
+export const MIN_SEGMENT_DURATION = 0.1;
+
+/** Length of an inserted segment when no segment follows closely (seconds) */
+const INSERTED_SEGMENT_DURATION = 3;
+
+/**
+ * ID of a provider segment, by its position in start time order
+ */
+export function getProviderSegmentId(index: number): string {
+  return `segment-${index}`;
+}
+
+/**
+ * ID for a segment created in the editor
+ */
+export function createSegmentId(): string {
+  return `segment-${Date.now().toString(36)}-${Math.random().toString(36).substring(2, 7)}`;
+}
+
+/**
+ * Segments as the editor shows them: the working copy, or the provider segments
+ * Segments without an ID (states saved before segments had IDs) get the ID of
+ * their position.
+ * @param providerSegments - Provider segments in start time order
+ */
+export function getEditorSegments(
+  editorState: Pick<TranscriptionEditorState, 'segments'> | undefined,
+  providerSegments: TranscriptionSegment[]
+): EditorSegment[] {
+  const segments: Array<TranscriptionSegment & { id?: string }> = editorState?.segments ?? providerSegments;
+  return segments.map((segment, index) => (segment.id ? segment as EditorSegment : { ...segment, id: getProviderSegmentId(index) }));
+}
+
+/**
+ * Approval of each segment, in segment order
+ * Approvals saved before segments had IDs are matched by their segmentIndex.
+ */
+export function alignApprovals(segments: EditorSegment[], approvals: SegmentApproval[]): SegmentApproval[] {
+  const byId = new Map(approvals.filter((a) => a.segmentId).map((a) => [a.segmentId, a]));
+
+  return segments.map((segment, index) => {
+    const approval = byId.get(segment.id) ?? approvals.find((a) => !a.segmentId && a.segmentIndex === index);
+    return { ...approval, segmentId: segment.id, segmentIndex: undefined, approved: approval?.approved ?? false };
+  });
+}
+
+/**
+ * Text of a segment as shown in the editor
+ */
+export function getSegmentText(segment: TranscriptionSegment, approval?: SegmentApproval): string {
+  return approval?.editedText || segment.text;
+}
+
+/**
+ * Translated texts by segment ID, from a stored translation
+ * Translations made before they were keyed by segment ID are lists in editor
+ * order; their texts get the ID of their position, which is right unless the
+ * segment structure had been edited before the translation.
+ */
+export function toTranslatedTexts(stored: unknown): Record<string, string> {
+  const entries: Array<[string, unknown]> = Array.isArray(stored)
+    ? stored.map((text, index) => [getProviderSegmentId(index), text])
+    : stored && typeof stored === 'object'
+      ? Object.entries(stored)
+      : [];
+  return Object.fromEntries(entries.filter((entry): entry is [string, string] => typeof entry[1] === 'string'));
+}
+
+/**
+ * Translated text of a segment, unless the segment's text changed since it was
+ * translated (split, merged or edited: the translation is stale)
+ * @param text - Current text of the segment (see getSegmentText)
+ */
+export function getTranslatedText(
+  translation: Pick<TranscriptionTranslation, 'segments' | 'sourceTexts'>,
+  segmentId: string,
+  text: string
+): string | undefined {
+  const source = translation.sourceTexts?.[segmentId];
+  return source === undefined || source === text ? translation.segments[segmentId] : undefined;
+}
+
+/**
+ * The two trimmed parts of a text split at a character offset
+ */
+export function splitText(text: string, offset: number): [string, string] {
+  return [text.slice(0, offset).trim(), text.slice(offset).trim()];
+}
+
+/**
+ * Offset in a segment's provider text that matches an offset in its edited text
+ * An edit leaves no exact correspondence, so the offset is taken proportionally
+ * and moved to the nearest word boundary.
+ */
+function getProviderOffset(providerText: string, text: string, offset: number): number {
+  if (providerText === text) return offset;
+
+  const target = Math.round((providerText.length * offset) / text.length);
+  const boundaries = [...providerText.matchAll(/\s+/g)].map((match) => match.index!);
+  if (boundaries.length === 0) {
+    return target < providerText.length / 2 ? 0 : providerText.length;
+  }
+  return boundaries.reduce((best, boundary) => (Math.abs(boundary - target) < Math.abs(best - target) ? boundary : best));
+}
+
+/**
+ * Split a segment into two at a character offset of its text
+ * Each part keeps its share of the provider text as `text`, so edits stay
+ * comparable with the provider output; the caller records the parts of the
+ * edited text (see splitText). The split time is taken from the word timings
+ * when the provider text is split between words, and interpolated from the
+ * character position otherwise. The second part gets a new ID.
+ * @param text - Text to split (the edited text, if the segment was edited)
+ * @param offset - Character offset of the cursor in `text`
+ * @param speaker - Speaker of the second part
+ * @returns The segments, or null when the cursor leaves one part empty
+ */
+export function splitSegment(
+  segments: EditorSegment[],
+  segmentIndex: number,
+  text: string,
+  offset: number,
+  speaker: string
+): EditorSegment[] | null {
+  const segment = segments[segmentIndex];
+  const [firstText, secondText] = splitText(text, offset);
+  if (!segment || !firstText || !secondText) return null;
+
+  const providerOffset = getProviderOffset(segment.text, text, offset);
+  const [firstProviderText, secondProviderText] = splitText(segment.text, providerOffset);
+
+  const duration = segment.endTime - segment.startTime;
+  let firstEnd = segment.startTime + (duration * offset) / text.length;
+  let secondStart = firstEnd;
+  let firstWords: TranscriptionSegment['words'];
+  let secondWords: TranscriptionSegment['words'];
+
+  // Word timings line up with the provider text when the split is between two of its words
+  const isBetweenWords = !!firstProviderText && !!secondProviderText &&
+    (/\s/.test(segment.text[providerOffset - 1]) || /\s/.test(segment.text[providerOffset]));
+  if (isBetweenWords && segment.words?.length === segment.text.trim().split(/\s+/).length) {
+    const wordCount = firstProviderText.split(/\s+/).length;
+    firstWords = segment.words.slice(0, wordCount);
+    secondWords = segment.words.slice(wordCount);
+    firstEnd = firstWords[firstWords.length - 1].end;
+    secondStart = secondWords[0].start;
+  }
+
+  const first: EditorSegment = {
+    ...segment,
+    endTime: firstEnd,
+    text: firstProviderText,
+    words: firstWords,
+  };
+  const second: EditorSegment = {
+    ...segment,
+    id: createSegmentId(),
+    speaker,
+    startTime: secondStart,
+    text: secondProviderText,
+    words: secondWords,
+  };
+
+  return [...segments.slice(0, segmentIndex), first, second, ...segments.slice(segmentIndex + 1)];
+}
+
+/**
+ * Merge a segment with the next one, keeping its ID and speaker
+ * The merged segment joins the provider texts and word timings of both; the
+ * caller records the joined edited texts, if any.
+ * @returns The segments, or null for the last segment
+ */
+export function mergeWithNext(
+  segments: EditorSegment[],
+  segmentIndex: number
+): EditorSegment[] | null {
+  const first = segments[segmentIndex];
+  const second = segments[segmentIndex + 1];
+  if (!first || !second) return null;
+
+  const merged: EditorSegment = {
+    ...first,
+    endTime: Math.max(first.endTime, second.endTime),
+    text: [first.text, second.text].filter(Boolean).join(' '),
+    words: first.words && second.words ? [...first.words, ...second.words] : undefined,
+  };
+
+  return [...segments.slice(0, segmentIndex), merged, ...segments.slice(segmentIndex + 2)];
+}
+
+/**
+ * Insert an empty segment at a time, in start time order
+ * It lasts until the next segment starts (at most INSERTED_SEGMENT_DURATION).
+ * @returns The segments and the index of the new segment
+ */
+export function insertSegment(
+  segments: EditorSegment[],
+  time: number,
+  speaker: string
+): { segments: EditorSegment[]; index: number } {
+  const index = segments.filter((segment) => segment.startTime <= time).length;
+  const next = segments[index];
+  const endTime = next && next.startTime - time >= MIN_SEGMENT_DURATION
+    ? Math.min(next.startTime, time + INSERTED_SEGMENT_DURATION)
+    : time + INSERTED_SEGMENT_DURATION;
+
+  const segment: EditorSegment = { id: createSegmentId(), speaker, startTime: time, endTime, text: '' };
+  return { segments: [...segments.slice(0, index), segment, ...segments.slice(index)], index };
+}
+
+/**
+ * Remove a segment (e.g. noise transcribed as speech)
+ */
+export function deleteSegment(segments: EditorSegment[], segmentIndex: number): EditorSegment[] {
+  return segments.filter((_, index) => index !== segmentIndex);
+}
+
+/**
+ * Move the start or end of a segment by `delta` seconds
+ * The segment keeps at least MIN_SEGMENT_DURATION and does not start before 0.
+ */
+export function nudgeSegmentTiming(
+  segments: EditorSegment[],
+  segmentIndex: number,
+  edge: 'startTime' | 'endTime',
+  delta: number
+): EditorSegment[] {
+  return segments.map((segment, index) => {
+    if (index !== segmentIndex) return segment;
+
+    // Round to milliseconds so repeated nudges don't accumulate float noise
+    const value = Math.round((segment[edge] + delta) * 1000) / 1000;
+    return edge === 'startTime'
+      ? { ...segment, startTime: Math.min(Math.max(value, 0), segment.endTime - MIN_SEGMENT_DURATION) }
+      : { ...segment, endTime: Math.max(value, segment.startTime + MIN_SEGMENT_DURATION) };
+  });
+}
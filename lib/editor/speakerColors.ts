@@ -7,6 +7,8 @@ export interface ColorScheme {
   bg: string;
   border: string;
   text: string;
+  /** Text color as hex (RRGGBB), for documents */
+  hex: string;
   name: string;
 }
 
@@ -19,60 +21,70 @@ export const SPEAKER_COLORS: ColorScheme[] = [
     bg: 'bg-blue-100',
     border: 'border-blue-400',
     text: 'text-blue-700',
+    hex: '1D4ED8',
     name: 'Blue',
   },
   {
     bg: 'bg-green-100',
     border: 'border-green-400',
     text: 'text-green-700',
+    hex: '15803D',
     name: 'Green',
   },
   {
     bg: 'bg-purple-100',
     border: 'border-purple-400',
     text: 'text-purple-700',
+    hex: '7E22CE',
     name: 'Purple',
   },
   {
     bg: 'bg-orange-100',
     border: 'border-orange-400',
     text: 'text-orange-700',
+    hex: 'C2410C',
     name: 'Orange',
   },
   {
     bg: 'bg-pink-100',
     border: 'border-pink-400',
     text: 'text-pink-700',
+    hex: 'BE185D',
     name: 'Pink',
   },
   {
     bg: 'bg-teal-100',
     border: 'border-teal-400',
     text: 'text-teal-700',
+    hex: '0F766E',
     name: 'Teal',
   },
   {
     bg: 'bg-indigo-100',
     border: 'border-indigo-400',
     text: 'text-indigo-700',
+    hex: '4338CA',
     name: 'Indigo',
   },
   {
     bg: 'bg-rose-100',
     border: 'border-rose-400',
     text: 'text-rose-700',
+    hex: 'BE123C',
     name: 'Rose',
   },
   {
     bg: 'bg-cyan-100',
     border: 'border-cyan-400',
     text: 'text-cyan-700',
+    hex: '0E7490',
     name: 'Cyan',
   },
   {
     bg: 'bg-amber-100',
     border: 'border-amber-400',
     text: 'text-amber-700',
+    hex: 'B45309',
     name: 'Amber',
   },
 ];
@@ -0,0 +1,40 @@
+import { TranscriptionSegment } from '@/lib/ai/types';
+
+/**
+ * Speaker corrections on the editor's working copy of the segments
+ * Each operation returns new segments and leaves its input untouched, so the
+ * provider output in structuredData is never modified. Splitting a segment is
+ * in lib/editor/segmentStructure.ts.
+ */
+
+/**
+ * An unused speaker ID in the providers' "Speaker N" format
+ */
+export function getNewSpeakerId(segments: TranscriptionSegment[]): string {
+  const speakers = new Set(segments.map((segment) => segment.speaker));
+  let number = 1;
+  while (speakers.has(`Speaker ${number}`)) number++;
+  return `Speaker ${number}`;
+}
+
+/**
+ * Give every segment of speaker `from` to speaker `into`
+ */
+export function mergeSpeakers<T extends TranscriptionSegment>(
+  segments: T[],
+  from: string,
+  into: string
+): T[] {
+  return segments.map((segment) => (segment.speaker === from ? { ...segment, speaker: into } : segment));
+}
+
+/**
+ * Give a single segment to another speaker
+ */
+export function reassignSegmentSpeaker<T extends TranscriptionSegment>(
+  segments: T[],
+  segmentIndex: number,
+  speaker: string
+): T[] {
+  return segments.map((segment, index) => (index === segmentIndex ? { ...segment, speaker } : segment));
+}
@@ -0,0 +1,19 @@
+import { TranscriptionSegment } from '@/lib/ai/types';
+
+/**
+ * Best sample segments of a speaker, longest first
+ * Used for playing a speaker sample and for collecting roster voice clips
+ * @param limit - Number of segments to return
+ * @param minDuration - Skip segments shorter than this (seconds)
+ */
+export function getBestSampleSegments(
+  segments: TranscriptionSegment[],
+  speakerId: string,
+  limit = 1,
+  minDuration = 0
+): TranscriptionSegment[] {
+  return segments
+    .filter((segment) => segment.speaker === speakerId && segment.endTime - segment.startTime >= minDuration)
+    .sort((a, b) => (b.endTime - b.startTime) - (a.endTime - a.startTime))
+    .slice(0, limit);
+}
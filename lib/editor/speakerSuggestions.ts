@@ -0,0 +1,26 @@
+import { SpeakerLabel, SpeakerSuggestion, TranscriptionEditorState } from '@/lib/transcriptionStorage';
+
+/**
+ * Pick one suggestion per unlabelled speaker from the roster candidates
+ * The closest matches are assigned first, so a roster speaker is suggested at
+ * most once. Rejected suggestions and names already given to a speaker are skipped.
+ * @param candidates - Candidates from the server, best first
+ */
+export function pickSpeakerSuggestions(
+  candidates: SpeakerSuggestion[],
+  speakerLabels: SpeakerLabel[],
+  rejected: NonNullable<TranscriptionEditorState['rejectedSpeakerSuggestions']> = []
+): SpeakerSuggestion[] {
+  const suggestions: SpeakerSuggestion[] = [];
+
+  for (const candidate of candidates) {
+    const isUnavailable =
+      speakerLabels.some((label) => label.originalId === candidate.originalId || label.customName === candidate.customName) ||
+      rejected.some((item) => item.originalId === candidate.originalId && item.rosterSpeakerId === candidate.rosterSpeakerId) ||
+      suggestions.some((item) => item.originalId === candidate.originalId || item.rosterSpeakerId === candidate.rosterSpeakerId);
+
+    if (!isUnavailable) suggestions.push(candidate);
+  }
+
+  return suggestions;
+}
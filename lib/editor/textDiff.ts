@@ -0,0 +1,79 @@
+/**
+ * Word-level diff between the provider text of a segment and its edited text
+ */
+
+export interface DiffPart {
+  type: 'equal' | 'added' | 'removed';
+  text: string;
+}
+
+/** Above this many word pairs the texts are shown as replaced rather than diffed */
+const MAX_DIFF_CELLS = 250_000;
+
+/**
+ * Split text into words, each with the whitespace that follows it
+ * Leading whitespace stays with the first word.
+ */
+function tokenize(text: string): string[] {
+  const tokens = text.match(/\s*\S+\s*/g) ?? [];
+  return tokens.map((token, index) => (index === 0 ? token : token.trimStart()));
+}
+
+/**
+ * Append a part, joining it with the previous part of the same type
+ */
+function pushPart(parts: DiffPart[], type: DiffPart['type'], text: string) {
+  const last = parts[parts.length - 1];
+  if (last?.type === type) {
+    last.text += text;
+  } else {
+    parts.push({ type, text });
+  }
+}
+
+/**
+ * Diff two texts word by word (longest common subsequence)
+ * Words are compared without their whitespace. Equal parts keep the
+ * whitespace of `before`.
+ */
+export function diffWords(before: string, after: string): DiffPart[] {
+  const a = tokenize(before);
+  const b = tokenize(after);
+  const wordsA = a.map((token) => token.trim());
+  const wordsB = b.map((token) => token.trim());
+  const parts: DiffPart[] = [];
+
+  if (a.length * b.length > MAX_DIFF_CELLS) {
+    if (before) parts.push({ type: 'removed', text: before });
+    if (after) parts.push({ type: 'added', text: after });
+    return parts;
+  }
+
+  // lengths[i][j]: longest common subsequence of a[i..] and b[j..]
+  const lengths = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] = wordsA[i] === wordsB[j]
+        ? lengths[i + 1][j + 1] + 1
+        : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (wordsA[i] === wordsB[j]) {
+      pushPart(parts, 'equal', a[i]);
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      pushPart(parts, 'removed', a[i++]);
+    } else {
+      pushPart(parts, 'added', b[j++]);
+    }
+  }
+  while (i < a.length) pushPart(parts, 'removed', a[i++]);
+  while (j < b.length) pushPart(parts, 'added', b[j++]);
+
+  return parts;
+}
@@ -0,0 +1,50 @@
+import { TranscriptionSegment, TranscriptionWord } from '@/lib/ai/types';
+
+/** Words below this confidence are highlighted for review */
+export const UNCERTAIN_WORD_CONFIDENCE = 0.5;
+
+/** Segments at or above this uncertainty are flagged in the editor */
+export const UNCERTAIN_SEGMENT_THRESHOLD = 0.25;
+
+/**
+ * Uncertainty of a word from 0 (certain) to 1, if the provider reported a confidence
+ */
+export function getWordUncertainty(word: TranscriptionWord): number | undefined {
+  return word.confidence !== undefined ? 1 - word.confidence : undefined;
+}
+
+export function isUncertainWord(word: TranscriptionWord): boolean {
+  return word.confidence !== undefined && word.confidence < UNCERTAIN_WORD_CONFIDENCE;
+}
+
+/**
+ * Uncertainty of a segment from 0 (certain) to 1
+ * Uses the least certain words, so a single misheard name in a long segment still
+ * counts. Falls back to the segment confidence (Gemini) and is undefined when the
+ * provider reported neither.
+ */
+export function getSegmentUncertainty(segment: TranscriptionSegment): number | undefined {
+  const uncertainties = (segment.words ?? [])
+    .map(getWordUncertainty)
+    .filter((value): value is number => value !== undefined)
+    .sort((a, b) => b - a);
+
+  if (uncertainties.length > 0) {
+    // Mean of the three least certain words
+    const worst = uncertainties.slice(0, 3);
+    return worst.reduce((sum, value) => sum + value, 0) / worst.length;
+  }
+
+  return segment.confidence !== undefined ? 1 - segment.confidence : undefined;
+}
+
+/**
+ * Segment indexes ordered from most to least uncertain
+ * Segments without a score come last, in their original order.
+ */
+export function orderByUncertainty(segments: TranscriptionSegment[]): number[] {
+  const scores = segments.map(segment => getSegmentUncertainty(segment) ?? -1);
+  return segments
+    .map((_, index) => index)
+    .sort((a, b) => scores[b] - scores[a] || a - b);
+}
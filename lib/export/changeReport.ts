@@ -0,0 +1,135 @@
+/**
+ * Change report: what the editors changed compared with the provider output
+ */
+
+import { TranscriptionSegment } from '@/lib/ai/types';
+import { SegmentApproval } from '@/lib/transcriptionStorage';
+import { diffWords } from '@/lib/editor/textDiff';
+import { getSegmentText } from '@/lib/editor/segmentStructure';
+
+/**
+ * Headings of the report, so it can be generated in the interface language
+ */
+export interface ChangeReportLabels {
+  title: string;
+  file: string;
+  generated: string;
+  changedSegments: string;
+  noChanges: string;
+  original: string;
+  final: string;
+  changes: string;
+  revisions: string;
+  by: string;
+}
+
+export const DEFAULT_CHANGE_REPORT_LABELS: ChangeReportLabels = {
+  title: 'Change report',
+  file: 'File',
+  generated: 'Generated',
+  changedSegments: 'Changed segments',
+  noChanges: 'No segment text was changed.',
+  original: 'Original',
+  final: 'Final',
+  changes: 'Changes',
+  revisions: 'Revisions',
+  by: 'by',
+};
+
+interface ChangeReportOptions {
+  fileName: string;
+  getSpeakerDisplayName: (id: string) => string;
+  labels?: ChangeReportLabels;
+  /** Locale for dates (e.g. 'el-GR') */
+  locale?: string;
+  generatedAt?: Date;
+}
+
+/**
+ * Format seconds to MM:SS or H:MM:SS
+ */
+function formatTimestamp(seconds: number): string {
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  const secs = Math.floor(seconds % 60);
+
+  if (hours > 0) {
+    return `${hours}:${minutes.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}`;
+  }
+  return `${minutes}:${secs.toString().padStart(2, '0')}`;
+}
+
+/**
+ * Inline diff as text: removed words in [-...-], added words in {+...+}
+ */
+export function formatInlineDiff(before: string, after: string): string {
+  return diffWords(before, after)
+    .map((part) => {
+      if (part.type === 'removed') return `[-${part.text}-]`;
+      if (part.type === 'added') return `{+${part.text}+}`;
+      return part.text;
+    })
+    .join('');
+}
+
+/**
+ * Plain text report of every edited segment: its original and final text, an
+ * inline diff and each revision (author, time, before/after)
+ * The original text is the segment's text before edits in the editor (the
+ * provider text, or the part of it a split left in the segment); revisions made
+ * before a split or merge stay with the segment that kept its ID.
+ * @param approvals - Approval of each segment, in segment order
+ */
+export function formatChangeReport(
+  segments: TranscriptionSegment[],
+  approvals: SegmentApproval[],
+  {
+    fileName,
+    getSpeakerDisplayName,
+    labels = DEFAULT_CHANGE_REPORT_LABELS,
+    locale,
+    generatedAt = new Date(),
+  }: ChangeReportOptions
+): string {
+  const formatDate = (time: number | Date) => new Date(time).toLocaleString(locale);
+
+  const changed = segments
+    .map((segment, index) => ({ segment, index, approval: approvals[index] }))
+    .filter(({ segment, approval }) => (approval?.revisions?.length ?? 0) > 0 || getSegmentText(segment, approval) !== segment.text);
+
+  const header = [
+    labels.title,
+    `${labels.file}: ${fileName}`,
+    `${labels.generated}: ${formatDate(generatedAt)}`,
+    `${labels.changedSegments}: ${changed.length} / ${segments.length}`,
+  ].join('\n');
+
+  if (changed.length === 0) {
+    return `${header}\n\n${labels.noChanges}\n`;
+  }
+
+  const sections = changed.map(({ segment, index, approval }) => {
+    const finalText = getSegmentText(segment, approval);
+    const lines = [
+      `#${index + 1} ${getSpeakerDisplayName(segment.speaker)} [${formatTimestamp(segment.startTime)} - ${formatTimestamp(segment.endTime)}]`,
+      `${labels.original}: ${segment.text}`,
+      `${labels.final}: ${finalText}`,
+    ];
+    if (finalText !== segment.text) {
+      lines.push(`${labels.changes}: ${formatInlineDiff(segment.text, finalText)}`);
+    }
+
+    const revisions = approval?.revisions ?? [];
+    if (revisions.length > 0) {
+      lines.push(`${labels.revisions}:`);
+      revisions.forEach((revision) => {
+        const author = revision.authorEmail ? ` ${labels.by} ${revision.authorEmail}` : '';
+        lines.push(`  - ${formatDate(revision.editedAt)}${author}: ${formatInlineDiff(revision.before, revision.after)}`);
+      });
+    }
+
+    return lines.join('\n');
+  });
+
+  return `${header}\n\n${sections.join('\n\n')}\n`;
+}
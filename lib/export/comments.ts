@@ -0,0 +1,40 @@
+/**
+ * Review comments in text exports (only when asked for; exports leave them out by default)
+ */
+
+import type { CommentThread } from '@/lib/editor/comments';
+
+export interface CommentExportLabels {
+  comment: string;
+  resolved: string;
+}
+
+export const DEFAULT_COMMENT_EXPORT_LABELS: CommentExportLabels = {
+  comment: 'Comment',
+  resolved: 'resolved',
+};
+
+/**
+ * Comment threads of a segment as indented lines, replies under their thread
+ * @param locale - Locale for dates (e.g. 'el-GR')
+ */
+export function formatCommentThreads(
+  threads: CommentThread[],
+  labels: CommentExportLabels = DEFAULT_COMMENT_EXPORT_LABELS,
+  locale?: string
+): string {
+  const formatDate = (time: number) => new Date(time).toLocaleString(locale);
+  const byline = (comment: CommentThread['root']) =>
+    `${comment.authorEmail ? `${comment.authorEmail} ` : ''}(${formatDate(comment.createdAt)})`;
+
+  return threads
+    .flatMap(({ root, replies, resolved }) => {
+      const status = resolved ? ` (${labels.resolved})` : '';
+      const quote = root.range ? ` "${root.range.quote}"` : '';
+      return [
+        `  [${labels.comment}${status}]${quote} ${byline(root)}: ${root.text}`,
+        ...replies.map(reply => `    > ${byline(reply)}: ${reply.text}`),
+      ];
+    })
+    .join('\n');
+}
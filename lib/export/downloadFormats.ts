@@ -5,59 +5,8 @@
 import { jsPDF } from 'jspdf';
 import { Document, Packer, Paragraph, TextRun, HeadingLevel } from 'docx';
 import { saveAs } from 'file-saver';
-
-// Font cache
-let fontCache: { regular: string | null; bold: string | null } = {
-  regular: null,
-  bold: null,
-};
-
-/**
- * Load Noto Sans fonts for Greek character support
- * Uses jsDelivr CDN to fetch TTF font files (more reliable than woff2 for jsPDF)
- */
-async function loadNotoSansFonts(): Promise<{
-  regular: string | null;
-  bold: string | null;
-}> {
-  if (fontCache.regular && fontCache.bold) {
-    return fontCache;
-  }
-
-  const arrayBufferToBase64 = (buffer: ArrayBuffer): string => {
-    const bytes = new Uint8Array(buffer);
-    let binary = '';
-    for (let i = 0; i < bytes.byteLength; i++) {
-      binary += String.fromCharCode(bytes[i]);
-    }
-    return btoa(binary);
-  };
-
-  const fetchFont = async (url: string): Promise<string | null> => {
-    try {
-      const response = await fetch(url);
-      if (!response.ok) return null;
-      const arrayBuffer = await response.arrayBuffer();
-      return arrayBufferToBase64(arrayBuffer);
-    } catch {
-      return null;
-    }
-  };
-
-  // Fetch both regular and bold variants in parallel
-  // Using Noto Sans TTF from Google Fonts GitHub (TTF required for jsPDF unicode support)
-  const [regular, bold] = await Promise.all([
-    fetchFont(
-      'https://cdn.jsdelivr.net/gh/notofonts/notofonts.github.io/fonts/NotoSans/full/ttf/NotoSans-Regular.ttf'
-    ),
-    fetchFont(
-      'https://cdn.jsdelivr.net/gh/notofonts/notofonts.github.io/fonts/NotoSans/full/ttf/NotoSans-Bold.ttf'
-    ),
-  ]);
-
-  fontCache = { regular, bold };
-  return fontCache;
-}
+import type { SubtitleFormat } from './subtitles';
+import { registerPdfFonts } from './pdfFonts';
 
 /**
  * Strip markdown formatting from text for PDF output
@@ -81,9 +30,27 @@ export function downloadAsTxt(content: string, filename: string): void {
   saveAs(blob, `${filename}.txt`);
 }
 
+/**
+ * Download content as JSON file
+ */
+export function downloadAsJson(content: string, filename: string): void {
+  const blob = new Blob([content], { type: 'application/json;charset=utf-8' });
+  saveAs(blob, `${filename}.json`);
+}
+
+/**
+ * Download content as CSV file
+ */
+export function downloadAsCsv(content: string, filename: string): void {
+  const blob = new Blob([content], { type: 'text/csv;charset=utf-8' });
+  saveAs(blob, `${filename}.csv`);
+}
+
 /**
  * Download content as PDF file
- * Supports Greek characters by embedding Noto Sans font
+ * Supports Greek characters by embedding Noto Sans font (italic for paragraphs
+ * that are italic as a whole)
+ * @throws Error when the fonts cannot be loaded
  */
 export async function downloadAsPdf(content: string, filename: string): Promise<void> {
   const pdf = new jsPDF({
@@ -101,25 +68,7 @@ export async function downloadAsPdf(content: string, filename: string): Promise<
   let yPosition = margin;
 
   // Load and register Noto Sans font for Greek support
-  const fonts = await loadNotoSansFonts();
-
-  let fontName = 'Helvetica';
-  if (fonts.regular) {
-    try {
-      pdf.addFileToVFS('NotoSans-Regular.ttf', fonts.regular);
-      pdf.addFont('NotoSans-Regular.ttf', 'NotoSans', 'normal');
-      if (fonts.bold) {
-        pdf.addFileToVFS('NotoSans-Bold.ttf', fonts.bold);
-        pdf.addFont('NotoSans-Bold.ttf', 'NotoSans', 'bold');
-      } else {
-        // Fallback: use regular for bold if bold font failed to load
-        pdf.addFont('NotoSans-Regular.ttf', 'NotoSans', 'bold');
-      }
-      fontName = 'NotoSans';
-    } catch (error) {
-      console.warn('Failed to register Noto Sans font:', error);
-    }
-  }
+  const fontName = (await registerPdfFonts(pdf)).sans;
 
   pdf.setFont(fontName, 'normal');
   pdf.setFontSize(11);
@@ -179,6 +128,13 @@ export async function downloadAsPdf(content: string, filename: string): Promise<
       pdf.text('•', margin, yPosition);
       pdf.text(wrappedLines, margin + 5, yPosition);
       yPosition += wrappedLines.length * lineHeight;
+    } else if (/^\*[^*]+\*$|^_[^_]+_$/.test(line.trim())) {
+      // Italic paragraph (e.g. notes in generated minutes)
+      pdf.setFont(fontName, 'italic');
+      const wrappedLines = pdf.splitTextToSize(stripMarkdown(line.trim()), maxWidth);
+      pdf.text(wrappedLines, margin, yPosition);
+      yPosition += wrappedLines.length * lineHeight;
+      pdf.setFont(fontName, 'normal');
     } else {
       // Regular paragraph - strip markdown formatting
       const cleanedLine = stripMarkdown(line);
@@ -320,6 +276,20 @@ export async function downloadAsDocx(content: string, filename: string): Promise
   saveAs(blob, `${filename}.docx`);
 }
 
+const SUBTITLE_MIME_TYPES: Record<SubtitleFormat, string> = {
+  srt: 'application/x-subrip',
+  vtt: 'text/vtt',
+  ttml: 'application/ttml+xml',
+};
+
+/**
+ * Download subtitles, with the format as the file extension
+ */
+export function downloadAsSubtitles(content: string, filename: string, format: SubtitleFormat): void {
+  const blob = new Blob([content], { type: `${SUBTITLE_MIME_TYPES[format]};charset=utf-8` });
+  saveAs(blob, `${filename}.${format}`);
+}
+
 export type DownloadFormat = 'txt' | 'pdf' | 'docx';
 
 /**
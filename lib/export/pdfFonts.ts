@@ -0,0 +1,107 @@
+/**
+ * Fonts embedded in PDF exports
+ * jsPDF's built-in fonts only cover Latin-1, so Greek text needs embedded
+ * TrueType fonts. They are served by the app itself (public/fonts), so PDF
+ * export works on networks that block external CDNs.
+ */
+
+import type { jsPDF } from 'jspdf';
+
+export type PdfFontStyle = 'normal' | 'bold' | 'italic';
+
+/** Font families registered with PDFs, by role */
+export const PDF_FONTS = {
+  sans: 'NotoSans',
+  mono: 'NotoSansMono',
+} as const;
+
+export type PdfFontRole = keyof typeof PDF_FONTS;
+
+interface PdfFontFace {
+  role: PdfFontRole;
+  style: PdfFontStyle;
+  /** TTF file in public/fonts */
+  file: string;
+}
+
+/** Font registry: every face of every family */
+const PDF_FONT_FACES: PdfFontFace[] = [
+  { role: 'sans', style: 'normal', file: 'NotoSans-Regular.ttf' },
+  { role: 'sans', style: 'bold', file: 'NotoSans-Bold.ttf' },
+  { role: 'sans', style: 'italic', file: 'NotoSans-Italic.ttf' },
+  { role: 'mono', style: 'normal', file: 'NotoSansMono-Regular.ttf' },
+];
+
+const FONT_BASE_PATH = '/fonts';
+
+/** Base64 font files by file name, loaded once per session */
+const fontCache = new Map<string, Promise<string>>();
+
+function arrayBufferToBase64(buffer: ArrayBuffer): string {
+  const bytes = new Uint8Array(buffer);
+  let binary = '';
+  for (let i = 0; i < bytes.byteLength; i++) {
+    binary += String.fromCharCode(bytes[i]);
+  }
+  return btoa(binary);
+}
+
+/**
+ * Whether a file is a TrueType font, by its signature (so an HTML error page
+ * from a proxy is not embedded as a font)
+ */
+function isTrueTypeFont(buffer: ArrayBuffer): boolean {
+  if (buffer.byteLength < 4) return false;
+  const signature = new DataView(buffer).getUint32(0);
+  return signature === 0x00010000 || signature === 0x74727565; // 1.0 or 'true'
+}
+
+/**
+ * Load a font file as base64
+ * @throws Error when the file cannot be loaded; failed loads are not cached
+ */
+function loadFontFile(file: string): Promise<string> {
+  let font = fontCache.get(file);
+  if (!font) {
+    font = fetch(`${FONT_BASE_PATH}/${file}`)
+      .then(async (response) => {
+        if (!response.ok) {
+          throw new Error(`HTTP ${response.status}`);
+        }
+        const buffer = await response.arrayBuffer();
+        if (!isTrueTypeFont(buffer)) {
+          throw new Error('not a TrueType font');
+        }
+        return arrayBufferToBase64(buffer);
+      })
+      .catch((error: unknown) => {
+        fontCache.delete(file);
+        const reason = error instanceof Error ? error.message : String(error);
+        throw new Error(`Could not load PDF font ${file} (${reason}). Greek text cannot be written without it.`);
+      });
+    fontCache.set(file, font);
+  }
+  return font;
+}
+
+/**
+ * Register fonts with a PDF
+ * All faces must load: there is no fallback to jsPDF's built-in fonts, which
+ * would turn Greek text into unreadable characters.
+ * @param roles - Families to register (each adds its faces to the file size)
+ * @throws Error when a font cannot be loaded or registered
+ */
+export async function registerPdfFonts(
+  pdf: jsPDF,
+  roles: PdfFontRole[] = ['sans']
+): Promise<typeof PDF_FONTS> {
+  const faces = PDF_FONT_FACES.filter((face) => roles.includes(face.role));
+  const files = await Promise.all(faces.map((face) => loadFontFile(face.file)));
+
+  faces.forEach((face, index) => {
+    pdf.addFileToVFS(face.file, files[index]);
+    pdf.addFont(face.file, PDF_FONTS[face.role], face.style);
+  });
+
+  return PDF_FONTS;
+}
@@ -31,6 +31,8 @@ export interface PressReleaseMetadata {
 export interface PressReleaseRequest {
   segments: ResolvedSegment[];
   metadata: PressReleaseMetadata;
+  /** Library entry the press release was generated from, recorded with the export */
+  transcriptionId?: string;
 }
 
 /**
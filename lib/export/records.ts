@@ -0,0 +1,47 @@
+/**
+ * History of generated exports, scoped to an organization (server only)
+ */
+
+import type { Prisma } from '@prisma/client';
+import { prisma } from '../prisma';
+
+export type ExportRecordType = 'official-minutes' | 'press-release';
+
+export interface RecordExportInput {
+  organizationId: string;
+  userId: string;
+  type: ExportRecordType;
+  /** Library entry the export was generated from, ignored if it is not in the organization */
+  transcriptionId?: string;
+  /** Form data the export was generated with */
+  metadata?: unknown;
+  content: string;
+}
+
+/**
+ * Store a generated export
+ * Never throws - the export is still returned to the user when recording fails
+ */
+export async function recordExport(input: RecordExportInput): Promise<void> {
+  try {
+    const transcription = input.transcriptionId
+      ? await prisma.transcription.findFirst({
+          where: { id: input.transcriptionId, organizationId: input.organizationId },
+          select: { id: true },
+        })
+      : null;
+
+    await prisma.exportRecord.create({
+      data: {
+        organizationId: input.organizationId,
+        userId: input.userId,
+        transcriptionId: transcription?.id,
+        type: input.type,
+        metadata: input.metadata ? (input.metadata as Prisma.InputJsonValue) : undefined,
+        content: input.content,
+      },
+    });
+  } catch (error) {
+    console.error(`[Exports] Failed to record ${input.type} export:`, error);
+  }
+}
@@ -0,0 +1,357 @@
+/**
+ * Subtitle exports (SRT, WebVTT, TTML) built directly from the editor segments
+ *
+ * Segments are re-split into cues that respect a maximum line length, number
+ * of lines and duration. Cue times come from the word timings while a segment
+ * is unedited, and are interpolated from the character position otherwise.
+ */
+
+import type { EditorSegment, SegmentApproval } from '@/lib/transcriptionStorage';
+import { getSegmentText } from '@/lib/editor/segmentStructure';
+
+export type SubtitleFormat = 'srt' | 'vtt' | 'ttml';
+
+export const SUBTITLE_FORMATS: SubtitleFormat[] = ['srt', 'vtt', 'ttml'];
+
+export interface SubtitleOptions {
+  /** Longest line of a cue (characters) */
+  maxLineLength: number;
+  /** Most lines in one cue */
+  maxLinesPerCue: number;
+  /** Longest cue (seconds) */
+  maxCueDuration: number;
+  /** Prefix the first cue of each segment with its speaker name */
+  includeSpeakers: boolean;
+}
+
+export const DEFAULT_SUBTITLE_OPTIONS: SubtitleOptions = {
+  maxLineLength: 42,
+  maxLinesPerCue: 2,
+  maxCueDuration: 6,
+  includeSpeakers: false,
+};
+
+/** Accepted ranges of the numeric options */
+export const SUBTITLE_OPTION_LIMITS = {
+  maxLineLength: { min: 20, max: 80 },
+  maxLinesPerCue: { min: 1, max: 3 },
+  maxCueDuration: { min: 1, max: 15 },
+} as const;
+
+/** Words that end a sentence (the Greek question mark is ';') */
+const SENTENCE_END = /[.!?;·…]["»”’)]*$/;
+
+/**
+ * A timed block of text shown on screen
+ */
+export interface SubtitleCue {
+  start: number;
+  end: number;
+  lines: string[];
+  /** Speaker name, on the first cue of a segment when speakers are included */
+  speaker?: string;
+}
+
+interface TimedWord {
+  text: string;
+  start: number;
+  end: number;
+}
+
+/**
+ * Clamp the numeric options to their accepted ranges
+ */
+export function normalizeSubtitleOptions(options: Partial<SubtitleOptions>): SubtitleOptions {
+  const clamp = (key: keyof typeof SUBTITLE_OPTION_LIMITS, value: number | undefined) => {
+    const { min, max } = SUBTITLE_OPTION_LIMITS[key];
+    return Number.isFinite(value) ? Math.min(max, Math.max(min, value!)) : DEFAULT_SUBTITLE_OPTIONS[key];
+  };
+
+  return {
+    maxLineLength: Math.round(clamp('maxLineLength', options.maxLineLength)),
+    maxLinesPerCue: Math.round(clamp('maxLinesPerCue', options.maxLinesPerCue)),
+    maxCueDuration: clamp('maxCueDuration', options.maxCueDuration),
+    includeSpeakers: options.includeSpeakers ?? DEFAULT_SUBTITLE_OPTIONS.includeSpeakers,
+  };
+}
+
+/**
+ * Words of a segment text with their times
+ * Word timings are used only while they line up with the text.
+ */
+function getTimedWords(segment: EditorSegment, text: string): TimedWord[] {
+  const tokens = text.split(/\s+/).filter(Boolean);
+  if (text === segment.text.trim() && segment.words?.length === tokens.length) {
+    return tokens.map((token, i) => ({ text: token, start: segment.words![i].start, end: segment.words![i].end }));
+  }
+
+  const duration = segment.endTime - segment.startTime;
+  const length = tokens.join(' ').length;
+  let offset = 0;
+  return tokens.map((token) => {
+    const start = segment.startTime + (duration * offset) / length;
+    offset += token.length + 1;
+    const end = segment.startTime + (duration * Math.min(offset - 1, length)) / length;
+    return { text: token, start, end };
+  });
+}
+
+/**
+ * Break words into lines of at most maxLineLength characters (longer words get
+ * a line of their own); two lines are balanced so neither is much longer
+ */
+function wrapLines(words: string[], maxLineLength: number): string[] {
+  const lines: string[] = [];
+  for (const word of words) {
+    const last = lines[lines.length - 1];
+    if (last !== undefined && last.length + 1 + word.length <= maxLineLength) {
+      lines[lines.length - 1] = `${last} ${word}`;
+    } else {
+      lines.push(word);
+    }
+  }
+
+  if (lines.length === 2) {
+    let best = lines;
+    for (let i = 1; i < words.length; i++) {
+      const first = words.slice(0, i).join(' ');
+      const second = words.slice(i).join(' ');
+      if (first.length > maxLineLength || second.length > maxLineLength) continue;
+      if (Math.max(first.length, second.length) < Math.max(best[0].length, best[1].length)) {
+        best = [first, second];
+      }
+    }
+    return best;
+  }
+  return lines;
+}
+
+/**
+ * Cues of all segments, in time order
+ * A cue is closed when the next word would exceed its lines or duration, and
+ * after a sentence end once it fills more than one line. Cues never overlap.
+ * @param approvals - Approvals aligned with the segments (for edited texts)
+ */
+export function buildSubtitleCues(
+  segments: EditorSegment[],
+  approvals: SegmentApproval[],
+  getSpeakerDisplayName: (id: string) => string,
+  options: Partial<SubtitleOptions> = {}
+): SubtitleCue[] {
+  const { maxLineLength, maxLinesPerCue, maxCueDuration, includeSpeakers } = normalizeSubtitleOptions(options);
+  const cues: SubtitleCue[] = [];
+
+  segments.forEach((segment, index) => {
+    const text = getSegmentText(segment, approvals[index]).trim();
+    if (!text) return;
+
+    const speaker = includeSpeakers ? getSpeakerDisplayName(segment.speaker) : undefined;
+    const words = getTimedWords(segment, text);
+    let cueWords: TimedWord[] = [];
+
+    const closeCue = () => {
+      if (cueWords.length === 0) return;
+      const prefix = speaker && cueWords[0] === words[0] ? `${speaker}: ` : '';
+      cues.push({
+        start: cueWords[0].start,
+        end: cueWords[cueWords.length - 1].end,
+        lines: wrapLines(`${prefix}${cueWords.map((word) => word.text).join(' ')}`.split(' '), maxLineLength),
+        speaker: prefix ? speaker : undefined,
+      });
+      cueWords = [];
+    };
+
+    for (const word of words) {
+      const prefix = speaker && (cueWords[0] ?? word) === words[0] ? `${speaker}: ` : '';
+      const candidate = `${prefix}${[...cueWords, word].map((w) => w.text).join(' ')}`;
+      const fits = wrapLines(candidate.split(' '), maxLineLength).length <= maxLinesPerCue &&
+        word.end - (cueWords[0]?.start ?? word.start) <= maxCueDuration;
+      if (!fits) closeCue();
+      cueWords.push(word);
+
+      const length = cueWords.map((w) => w.text).join(' ').length;
+      if (SENTENCE_END.test(word.text) && length > maxLineLength && word !== words[words.length - 1]) {
+        closeCue();
+      }
+    }
+    closeCue();
+  });
+
+  cues.sort((a, b) => a.start - b.start);
+  return cues.map((cue, i) => {
+    const next = cues[i + 1];
+    const end = next && next.start < cue.end ? next.start : cue.end;
+    return { ...cue, end: Math.max(end, cue.start) };
+  });
+}
+
+/**
+ * Format seconds as HH:MM:SS plus milliseconds after the separator
+ */
+function formatCueTime(seconds: number, separator: ',' | '.'): string {
+  const totalMs = Math.max(0, Math.round(seconds * 1000));
+  const hours = Math.floor(totalMs / 3600000);
+  const minutes = Math.floor((totalMs % 3600000) / 60000);
+  const secs = Math.floor((totalMs % 60000) / 1000);
+  const ms = totalMs % 1000;
+  const pad = (value: number, length = 2) => value.toString().padStart(length, '0');
+  return `${pad(hours)}:${pad(minutes)}:${pad(secs)}${separator}${pad(ms, 3)}`;
+}
+
+function escapeMarkup(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+/**
+ * SubRip (.srt): numbered cues with comma-separated milliseconds
+ */
+export function formatSrt(cues: SubtitleCue[]): string {
+  return cues
+    .map((cue, i) => `${i + 1}\n${formatCueTime(cue.start, ',')} --> ${formatCueTime(cue.end, ',')}\n${cue.lines.join('\n')}\n`)
+    .join('\n');
+}
+
+/**
+ * WebVTT (.vtt): cues of a speaker are also marked with a voice tag
+ */
+export function formatWebVtt(cues: SubtitleCue[]): string {
+  const body = cues.map((cue) => {
+    const text = escapeMarkup(cue.lines.join('\n'));
+    const voice = cue.speaker ? `<v ${escapeMarkup(cue.speaker)}>` : '';
+    return `${formatCueTime(cue.start, '.')} --> ${formatCueTime(cue.end, '.')}\n${voice}${text}\n`;
+  });
+  return ['WEBVTT\n', ...body].join('\n');
+}
+
+/**
+ * TTML (.ttml): one paragraph per cue, lines separated by <br/>
+ * @param language - Language of the text (e.g. 'el')
+ */
+export function formatTtml(cues: SubtitleCue[], language: string, title?: string): string {
+  const paragraphs = cues.map((cue) => {
+    const text = cue.lines.map(escapeMarkup).join('<br/>');
+    return `      <p begin="${formatCueTime(cue.start, '.')}" end="${formatCueTime(cue.end, '.')}">${text}</p>`;
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<tt xmlns="http://www.w3.org/ns/ttml" xmlns:tts="http://www.w3.org/ns/ttml#styling" xmlns:ttm="http://www.w3.org/ns/ttml#metadata" xml:lang="${escapeMarkup(language)}">`,
+    '  <head>',
+    ...(title ? ['    <metadata>', `      <ttm:title>${escapeMarkup(title)}</ttm:title>`, '    </metadata>'] : []),
+    '    <styling>',
+    '      <style xml:id="caption" tts:textAlign="center" tts:color="white" tts:backgroundColor="black"/>',
+    '    </styling>',
+    '  </head>',
+    '  <body style="caption">',
+    '    <div>',
+    ...paragraphs,
+    '    </div>',
+    '  </body>',
+    '</tt>',
+    '',
+  ].join('\n');
+}
+
+/**
+ * Subtitles of the segments in a format
+ * @param language - Language of the text, for TTML
+ */
+export function formatSubtitles(
+  format: SubtitleFormat,
+  cues: SubtitleCue[],
+  language: string,
+  title?: string
+): string {
+  switch (format) {
+    case 'srt':
+      return formatSrt(cues);
+    case 'vtt':
+      return formatWebVtt(cues);
+    case 'ttml':
+      return formatTtml(cues, language, title);
+  }
+}
+
+/**
+ * A cue read from a subtitle file
+ */
+export interface ParsedCue {
+  start: number;
+  end: number;
+  text: string;
+  /** Speaker from a WebVTT voice tag, or a "Name: " prefix */
+  speaker?: string;
+}
+
+/** Cue timing line: (HH:)MM:SS,mmm --> (HH:)MM:SS.mmm, with optional WebVTT settings */
+const CUE_TIMING = /^\s*((?:\d+:)?\d{1,2}:\d{2}[,.]\d{1,3})\s*-->\s*((?:\d+:)?\d{1,2}:\d{2}[,.]\d{1,3})/;
+
+/**
+ * Speaker prefix written by our exports and common in vendor subtitles: up to
+ * four capitalized words and a colon ("Πρόεδρος: ", "Speaker A: ", ">> Γ. Νικολάου: ")
+ */
+const SPEAKER_PREFIX = /^(?:-\s*|>>\s*)?(\p{Lu}[\p{L}\p{M}\p{N}.'’-]*(?:\s\p{Lu}[\p{L}\p{M}\p{N}.'’-]*){0,3}):\s+(?=\S)/u;
+
+function parseCueTime(value: string): number {
+  const [clock, ms] = value.split(/[,.]/);
+  const parts = clock.split(':').map(Number);
+  const seconds = parts.reduce((total, part) => total * 60 + part, 0);
+  return seconds + Number(ms.padEnd(3, '0')) / 1000;
+}
+
+function decodeEntities(text: string): string {
+  return text
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&amp;/g, '&');
+}
+
+/**
+ * Read the cues of an SRT or WebVTT file
+ * Formatting tags are removed and cue lines are joined with spaces. A cue
+ * without a speaker keeps the speaker of the previous cue, since exports name
+ * the speaker on the first cue of each segment only.
+ * @throws Error when the file has no cues
+ */
+export function parseSubtitles(content: string): ParsedCue[] {
+  const blocks = content.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n').split(/\n{2,}/);
+  const cues: ParsedCue[] = [];
+  let speaker: string | undefined;
+
+  for (const block of blocks) {
+    const lines = block.split('\n').filter((line) => line.trim());
+    const timingIndex = lines.findIndex((line) => CUE_TIMING.test(line));
+    // Headers, NOTE/STYLE/REGION blocks and stray text have no timing line
+    if (timingIndex === -1 || /^(WEBVTT|NOTE|STYLE|REGION)\b/.test(lines[0])) continue;
+
+    const [, start, end] = lines[timingIndex].match(CUE_TIMING)!;
+    let text = lines.slice(timingIndex + 1).join(' ');
+
+    const voice = text.match(/<v(?:\.[^\s>]+)?\s+([^>]+)>/);
+    text = decodeEntities(
+      text
+        .replace(/<[^>]*>/g, '') // Tags (<i>, <b>, <v ...>, <c.class>, cue timestamps)
+        .replace(/\{\\[^}]*\}/g, '') // ASS overrides some SRT files carry ({\an8})
+    ).replace(/\s+/g, ' ').trim();
+
+    const prefix = text.match(SPEAKER_PREFIX);
+    if (voice) {
+      speaker = voice[1].trim();
+      // Our WebVTT export also writes the name in the text
+      if (prefix?.[1] === speaker) text = text.slice(prefix[0].length);
+    } else if (prefix) {
+      speaker = prefix[1];
+      text = text.slice(prefix[0].length);
+    }
+
+    if (text) {
+      cues.push({ start: parseCueTime(start), end: parseCueTime(end), text, speaker });
+    }
+  }
+
+  if (cues.length === 0) {
+    throw new Error('No subtitle cues found');
+  }
+  return cues.sort((a, b) => a.start - b.start);
+}
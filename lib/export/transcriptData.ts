@@ -0,0 +1,274 @@
+/**
+ * Machine-readable transcript exports (versioned JSON, CSV) and the matching
+ * JSON import. The JSON format is documented in TRANSCRIPT_DATA_FORMAT.md.
+ */
+
+import type { TranscriptionSegment } from '@/lib/ai/types';
+import { toTranslatedTexts } from '@/lib/editor/segmentStructure';
+import type {
+  EditorSegment,
+  SavedTranscription,
+  SegmentApproval,
+  TranscriptionEditorState,
+  TranscriptionTranslation,
+} from '@/lib/transcriptionStorage';
+
+/** Identifies a transcript data file */
+export const TRANSCRIPT_DATA_FORMAT = 'grechoai-transcript';
+
+/**
+ * Version of the JSON format; raised when a change would break readers.
+ * Files of a newer version than this are not imported.
+ * - 2: translated texts keyed by segment ID (lists in editor order before)
+ */
+export const TRANSCRIPT_DATA_VERSION = 2;
+
+/**
+ * Transcript data file (version 2)
+ */
+export interface TranscriptDataFile {
+  format: typeof TRANSCRIPT_DATA_FORMAT;
+  version: number;
+  /** ISO 8601 */
+  exportedAt: string;
+  transcription: {
+    /** ID in the library it was exported from (not kept on import) */
+    id: string;
+    fileName: string;
+    /** Plain text as returned by the provider */
+    text: string;
+    provider?: string;
+    /** Creation time, ISO 8601 */
+    createdAt: string;
+    /** Provider metadata (model, duration, language, pricing...) */
+    metadata: ProviderMetadata;
+  };
+  /** Provider segments, unchanged by edits */
+  structuredData: { segments: TranscriptionSegment[] };
+  /** Approvals, edited texts, speaker labels and the edited segments */
+  editorState?: TranscriptionEditorState;
+  translations: TranscriptionTranslation[];
+}
+
+/**
+ * Metadata of a transcription apart from the data exported on its own and
+ * what stays with a library (raw provider responses, workflow, comments)
+ */
+type ProviderMetadata = Omit<
+  NonNullable<SavedTranscription['metadata']>,
+  'structuredData' | 'editorState' | 'translations' | 'workflow' | 'comments' | 'rawJson' | 'rawResponses'
+>;
+
+/**
+ * Transcript data file of a transcription
+ * @param editorState - Current editor state (may be newer than the saved one)
+ * @param translations - Current translations
+ */
+export function buildTranscriptData(
+  transcription: SavedTranscription,
+  editorState: TranscriptionEditorState | undefined,
+  translations: TranscriptionTranslation[],
+  exportedAt: Date = new Date()
+): TranscriptDataFile {
+  const {
+    structuredData,
+    editorState: _editorState,
+    translations: _translations,
+    workflow: _workflow,
+    comments: _comments,
+    rawJson: _rawJson,
+    rawResponses: _rawResponses,
+    ...metadata
+  } = transcription.metadata ?? {};
+
+  return {
+    format: TRANSCRIPT_DATA_FORMAT,
+    version: TRANSCRIPT_DATA_VERSION,
+    exportedAt: exportedAt.toISOString(),
+    transcription: {
+      id: transcription.id,
+      fileName: transcription.fileName,
+      text: transcription.text,
+      provider: transcription.provider,
+      createdAt: new Date(transcription.timestamp).toISOString(),
+      metadata,
+    },
+    structuredData: { segments: structuredData?.segments ?? [] },
+    editorState,
+    translations,
+  };
+}
+
+/**
+ * Quote a CSV field when it contains a separator, quote or line break
+ * Text that a spreadsheet would read as a formula (starting with =, +, -, @,
+ * a tab or a carriage return) is prefixed with an apostrophe.
+ */
+function csvField(value: string | number | boolean): string {
+  const raw = String(value);
+  const text = typeof value === 'string' && /^[=+\-@\t\r]/.test(raw) ? `'${raw}` : raw;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/** Columns of the CSV export */
+export const TRANSCRIPT_CSV_COLUMNS = [
+  'segment_id',
+  'start',
+  'end',
+  'speaker_id',
+  'speaker_name',
+  'original_text',
+  'edited_text',
+  'approved',
+] as const;
+
+/**
+ * CSV with one row per segment, in editor order
+ * Times are in seconds; edited_text is empty for unedited segments. Starts
+ * with a byte order mark so spreadsheets read it as UTF-8.
+ * @param approvals - Approvals aligned with the segments
+ */
+export function formatTranscriptCsv(
+  segments: EditorSegment[],
+  approvals: SegmentApproval[],
+  getSpeakerDisplayName: (id: string) => string
+): string {
+  const rows = segments.map((segment, index) => {
+    const approval = approvals[index];
+    return [
+      segment.id,
+      segment.startTime.toFixed(3),
+      segment.endTime.toFixed(3),
+      segment.speaker,
+      getSpeakerDisplayName(segment.speaker),
+      segment.text,
+      approval?.editedText ?? '',
+      approval?.approved ?? false,
+    ].map(csvField).join(',');
+  });
+
+  return `\uFEFF${[TRANSCRIPT_CSV_COLUMNS.join(','), ...rows].join('\r\n')}\r\n`;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+function isRecordOrList(value: unknown): boolean {
+  return isRecord(value) || Array.isArray(value);
+}
+
+function isSegment(value: unknown): value is TranscriptionSegment {
+  return isRecord(value) &&
+    typeof value.speaker === 'string' &&
+    typeof value.text === 'string' &&
+    Number.isFinite(value.startTime) &&
+    Number.isFinite(value.endTime);
+}
+
+function isOptional<T>(value: unknown, check: (value: unknown) => value is T): boolean {
+  return value === undefined || check(value);
+}
+
+function isString(value: unknown): value is string {
+  return typeof value === 'string';
+}
+
+function isNumber(value: unknown): value is number {
+  return Number.isFinite(value);
+}
+
+/**
+ * Editor segment: a segment with a string ID (states saved before segments
+ * had IDs have none)
+ */
+function isEditorSegment(value: unknown): boolean {
+  return isSegment(value) && isRecord(value) && isOptional(value.id, isString);
+}
+
+function isRevision(value: unknown): boolean {
+  return isRecord(value) && isString(value.before) && isString(value.after) && isNumber(value.editedAt);
+}
+
+/**
+ * Approval keyed by segment ID (or by position, in states saved before segments had IDs)
+ */
+function isApproval(value: unknown): boolean {
+  return isRecord(value) &&
+    typeof value.approved === 'boolean' &&
+    (isString(value.segmentId) || Number.isInteger(value.segmentIndex)) &&
+    isOptional(value.editedText, isString) &&
+    isOptional(value.editedAt, isNumber) &&
+    (value.revisions === undefined || (Array.isArray(value.revisions) && value.revisions.every(isRevision)));
+}
+
+function isSpeakerLabel(value: unknown): boolean {
+  return isRecord(value) && isString(value.originalId) && isString(value.customName);
+}
+
+/**
+ * Read a transcript data file as a new library entry (without ID)
+ * Imported entries start as drafts, and audio references are dropped since
+ * audio files stay in the browser they were loaded in.
+ * @throws Error describing the first problem found
+ */
+export function parseTranscriptData(data: unknown): Omit<SavedTranscription, 'id'> {
+  if (!isRecord(data) || data.format !== TRANSCRIPT_DATA_FORMAT) {
+    throw new Error('Not a transcript data file');
+  }
+  if (typeof data.version !== 'number' || data.version > TRANSCRIPT_DATA_VERSION) {
+    throw new Error(`Unsupported transcript data version: ${data.version}`);
+  }
+
+  const { transcription, structuredData, editorState, translations } = data;
+  if (!isRecord(transcription) || typeof transcription.fileName !== 'string' || typeof transcription.text !== 'string') {
+    throw new Error('transcription.fileName and transcription.text are required');
+  }
+  if (!isRecord(structuredData) || !Array.isArray(structuredData.segments) || !structuredData.segments.every(isSegment)) {
+    throw new Error('structuredData.segments must be a list of segments');
+  }
+  if (editorState !== undefined) {
+    if (!isRecord(editorState) || !Array.isArray(editorState.approvals) || !editorState.approvals.every(isApproval)) {
+      throw new Error('editorState.approvals must be a list of approvals');
+    }
+    if (editorState.segments !== undefined && !(Array.isArray(editorState.segments) && editorState.segments.every(isEditorSegment))) {
+      throw new Error('editorState.segments must be a list of segments');
+    }
+    if (editorState.speakerLabels !== undefined &&
+      !(Array.isArray(editorState.speakerLabels) && editorState.speakerLabels.every(isSpeakerLabel))) {
+      throw new Error('editorState.speakerLabels must be a list of speaker labels');
+    }
+  }
+  if (translations !== undefined && !Array.isArray(translations)) {
+    throw new Error('translations must be a list');
+  }
+
+  const createdAt = typeof transcription.createdAt === 'string' ? Date.parse(transcription.createdAt) : NaN;
+  const metadata = isRecord(transcription.metadata) ? (transcription.metadata as ProviderMetadata) : {};
+  const importedState = editorState as TranscriptionEditorState | undefined;
+
+  return {
+    fileName: transcription.fileName,
+    text: transcription.text,
+    provider: typeof transcription.provider === 'string' ? transcription.provider : undefined,
+    timestamp: Number.isNaN(createdAt) ? Date.now() : createdAt,
+    metadata: {
+      ...metadata,
+      structuredData: { segments: structuredData.segments },
+      editorState: importedState && {
+        ...importedState,
+        isDraft: true,
+        finalizedAt: undefined,
+        audioFileId: undefined,
+        audioFileName: undefined,
+      },
+      translations: (translations as TranscriptionTranslation[] | undefined)
+        ?.filter((translation) => typeof translation?.language === 'string' && isRecordOrList(translation.segments))
+        .map((translation) => ({
+          ...translation,
+          segments: toTranslatedTexts(translation.segments),
+          sourceTexts: translation.sourceTexts && toTranslatedTexts(translation.sourceTexts),
+        })),
+    },
+  };
+}
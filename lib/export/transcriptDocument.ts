@@ -0,0 +1,532 @@
+/**
+ * Structured transcript documents (DOCX, PDF): a cover page with the
+ * transcription details, then every segment with its time and speaker
+ */
+
+import { jsPDF } from 'jspdf';
+import {
+  AlignmentType,
+  Document,
+  Footer,
+  HeadingLevel,
+  LineNumberRestartFormat,
+  Packer,
+  PageNumber,
+  Paragraph,
+  Table,
+  TableCell,
+  TableRow,
+  TextRun,
+  WidthType,
+} from 'docx';
+import { saveAs } from 'file-saver';
+import type { EditorSegment, SegmentApproval, SpeakerLabel } from '@/lib/transcriptionStorage';
+import { getSegmentText } from '@/lib/editor/segmentStructure';
+import { SPEAKER_COLORS, formatTimestamp } from '@/lib/editor/speakerColors';
+import { formatDuration } from '@/lib/utils/format';
+import { registerPdfFonts } from './pdfFonts';
+
+/**
+ * Layout of the segments: a time/speaker/text table, one paragraph per
+ * segment, or line-numbered paragraphs for legal use
+ */
+export type TranscriptLayout = 'table' | 'paragraphs' | 'legal';
+
+export const TRANSCRIPT_LAYOUTS: TranscriptLayout[] = ['table', 'paragraphs', 'legal'];
+
+export type TranscriptDocumentFormat = 'docx' | 'pdf';
+
+export interface TranscriptDocumentOptions {
+  layout: TranscriptLayout;
+  /** Speaker names in their editor colors (always black in the legal layout) */
+  colorSpeakers: boolean;
+}
+
+export const DEFAULT_TRANSCRIPT_DOCUMENT_OPTIONS: TranscriptDocumentOptions = {
+  layout: 'table',
+  colorSpeakers: true,
+};
+
+/**
+ * Headings of the document, so it can be generated in the interface language
+ */
+export interface TranscriptDocumentLabels {
+  title: string;
+  file: string;
+  date: string;
+  duration: string;
+  words: string;
+  segments: string;
+  approved: string;
+  language: string;
+  generated: string;
+  speakers: string;
+  time: string;
+  speaker: string;
+  text: string;
+  page: string;
+  of: string;
+}
+
+export const DEFAULT_TRANSCRIPT_DOCUMENT_LABELS: TranscriptDocumentLabels = {
+  title: 'Transcript',
+  file: 'File',
+  date: 'Date',
+  duration: 'Duration',
+  words: 'Words',
+  segments: 'Segments',
+  approved: 'Approved',
+  language: 'Language',
+  generated: 'Generated',
+  speakers: 'Speakers',
+  time: 'Time',
+  speaker: 'Speaker',
+  text: 'Text',
+  page: 'Page',
+  of: 'of',
+};
+
+export interface TranscriptEntry {
+  start: number;
+  end: number;
+  speaker: string;
+  /** Speaker color as hex (RRGGBB) */
+  color: string;
+  text: string;
+}
+
+/**
+ * Content of a transcript document, independent of its format
+ */
+export interface TranscriptDocument {
+  title: string;
+  /** Cover page details, in order */
+  details: Array<{ label: string; value: string }>;
+  speakers: Array<{ name: string; color: string }>;
+  entries: TranscriptEntry[];
+  labels: TranscriptDocumentLabels;
+}
+
+interface TranscriptInfo {
+  fileName: string;
+  /** When the transcription was made */
+  timestamp: number;
+  audioDurationSeconds?: number;
+  /** Language code of the text (e.g. 'el') */
+  language?: string;
+}
+
+interface TranscriptDocumentContext {
+  labels?: TranscriptDocumentLabels;
+  /** Locale for dates (e.g. 'el-GR') */
+  locale?: string;
+  generatedAt?: Date;
+}
+
+/** Default text color (slate-900) */
+const TEXT_COLOR = '0F172A';
+/** Color of times and page numbers (slate-500) */
+const MUTED_COLOR = '64748B';
+
+/**
+ * Transcript of the segments as the editor shows them (edited texts and
+ * speaker labels), with the speaker colors of the editor
+ * Empty segments are left out.
+ * @param approvals - Approvals aligned with the segments
+ */
+export function buildTranscriptDocument(
+  segments: EditorSegment[],
+  approvals: SegmentApproval[],
+  speakerLabels: SpeakerLabel[],
+  info: TranscriptInfo,
+  { labels = DEFAULT_TRANSCRIPT_DOCUMENT_LABELS, locale, generatedAt = new Date() }: TranscriptDocumentContext = {}
+): TranscriptDocument {
+  const getName = (speaker: string) =>
+    speakerLabels.find((label) => label.originalId === speaker)?.customName.trim() || speaker;
+
+  // Colors follow the order of first appearance, as in the editor
+  const speakerOrder: string[] = [];
+  for (const segment of segments) {
+    if (!speakerOrder.includes(segment.speaker)) speakerOrder.push(segment.speaker);
+  }
+  const getColor = (speaker: string) => SPEAKER_COLORS[speakerOrder.indexOf(speaker) % SPEAKER_COLORS.length].hex;
+
+  const entries = segments
+    .map((segment, index) => ({
+      start: segment.startTime,
+      end: segment.endTime,
+      speaker: getName(segment.speaker),
+      color: getColor(segment.speaker),
+      text: getSegmentText(segment, approvals[index]).trim(),
+    }))
+    .filter((entry) => entry.text);
+
+  const wordCount = entries.reduce((count, entry) => count + entry.text.split(/\s+/).length, 0);
+  const duration = info.audioDurationSeconds ?? Math.max(0, ...segments.map((segment) => segment.endTime));
+  const approvedCount = approvals.filter((approval) => approval?.approved).length;
+
+  const details = [
+    { label: labels.file, value: info.fileName },
+    { label: labels.date, value: new Date(info.timestamp).toLocaleDateString(locale) },
+    { label: labels.duration, value: formatDuration(duration) },
+    { label: labels.words, value: wordCount.toString() },
+    { label: labels.segments, value: entries.length.toString() },
+    { label: labels.approved, value: `${approvedCount} / ${segments.length}` },
+    ...(info.language ? [{ label: labels.language, value: info.language.toUpperCase() }] : []),
+    { label: labels.generated, value: generatedAt.toLocaleString(locale) },
+  ];
+
+  const speakers = speakerOrder
+    .map((speaker) => ({ name: getName(speaker), color: getColor(speaker) }))
+    .filter((speaker, i, all) => all.findIndex((other) => other.name === speaker.name) === i);
+
+  return { title: info.fileName.replace(/\.[^/.]+$/, ''), details, speakers, entries, labels };
+}
+
+function formatEntryTime(entry: TranscriptEntry): string {
+  return `${formatTimestamp(entry.start)} – ${formatTimestamp(entry.end)}`;
+}
+
+/**
+ * Build the DOCX document: a cover section, then the transcript section with
+ * page numbers (and line numbers in the legal layout)
+ */
+function buildDocx(transcript: TranscriptDocument, options: TranscriptDocumentOptions): Document {
+  const { labels } = transcript;
+  const { layout } = options;
+  const speakerColor = (color: string) => (options.colorSpeakers && layout !== 'legal' ? color : TEXT_COLOR);
+
+  const cover: Paragraph[] = [
+    new Paragraph({ children: [new TextRun({ text: labels.title, size: 24, color: MUTED_COLOR })] }),
+    new Paragraph({
+      heading: HeadingLevel.HEADING_1,
+      spacing: { after: 400 },
+      children: [new TextRun({ text: transcript.title, bold: true, size: 40 })],
+    }),
+    ...transcript.details.map((detail) =>
+      new Paragraph({
+        spacing: { after: 80 },
+        children: [
+          new TextRun({ text: `${detail.label}: `, bold: true, size: 22 }),
+          new TextRun({ text: detail.value, size: 22 }),
+        ],
+      })
+    ),
+    new Paragraph({
+      heading: HeadingLevel.HEADING_2,
+      spacing: { before: 400, after: 120 },
+      children: [new TextRun({ text: labels.speakers, bold: true, size: 26 })],
+    }),
+    ...transcript.speakers.map((speaker) =>
+      new Paragraph({
+        bullet: { level: 0 },
+        children: [new TextRun({ text: speaker.name, bold: true, size: 22, color: speakerColor(speaker.color) })],
+      })
+    ),
+  ];
+
+  let body: Array<Paragraph | Table>;
+  if (layout === 'table') {
+    const cell = (children: TextRun[], width: number) =>
+      new TableCell({
+        width: { size: width, type: WidthType.PERCENTAGE },
+        margins: { top: 60, bottom: 60, left: 100, right: 100 },
+        children: [new Paragraph({ children })],
+      });
+
+    body = [
+      new Table({
+        width: { size: 100, type: WidthType.PERCENTAGE },
+        rows: [
+          new TableRow({
+            tableHeader: true,
+            children: [
+              cell([new TextRun({ text: labels.time, bold: true, size: 20 })], 14),
+              cell([new TextRun({ text: labels.speaker, bold: true, size: 20 })], 22),
+              cell([new TextRun({ text: labels.text, bold: true, size: 20 })], 64),
+            ],
+          }),
+          ...transcript.entries.map((entry) =>
+            new TableRow({
+              children: [
+                cell([new TextRun({ text: formatTimestamp(entry.start), size: 20, color: MUTED_COLOR })], 14),
+                cell([new TextRun({ text: entry.speaker, bold: true, size: 20, color: speakerColor(entry.color) })], 22),
+                cell([new TextRun({ text: entry.text, size: 20 })], 64),
+              ],
+            })
+          ),
+        ],
+      }),
+    ];
+  } else if (layout === 'paragraphs') {
+    body = transcript.entries.flatMap((entry) => [
+      new Paragraph({
+        keepNext: true,
+        spacing: { before: 200 },
+        children: [
+          new TextRun({ text: `[${formatEntryTime(entry)}] `, size: 20, color: MUTED_COLOR }),
+          new TextRun({ text: entry.speaker, bold: true, size: 22, color: speakerColor(entry.color) }),
+        ],
+      }),
+      new Paragraph({ children: [new TextRun({ text: entry.text, size: 22 })] }),
+    ]);
+  } else {
+    body = transcript.entries.map((entry) =>
+      new Paragraph({
+        spacing: { line: 480 },
+        children: [
+          new TextRun({ text: `[${formatTimestamp(entry.start)}] `, size: 20, color: MUTED_COLOR }),
+          new TextRun({ text: `${entry.speaker}: `, bold: true, size: 24 }),
+          new TextRun({ text: entry.text, size: 24 }),
+        ],
+      })
+    );
+  }
+
+  return new Document({
+    sections: [
+      { properties: {}, children: cover },
+      {
+        properties: {
+          page: { pageNumbers: { start: 1 } },
+          ...(layout === 'legal' && {
+            lineNumbers: { countBy: 1, restart: LineNumberRestartFormat.NEW_PAGE },
+          }),
+        },
+        footers: {
+          default: new Footer({
+            children: [
+              new Paragraph({
+                alignment: AlignmentType.CENTER,
+                children: [
+                  new TextRun({
+                    children: [`${labels.page} `, PageNumber.CURRENT, ` ${labels.of} `, PageNumber.TOTAL_PAGES_IN_SECTION],
+                    size: 18,
+                    color: MUTED_COLOR,
+                  }),
+                ],
+              }),
+            ],
+          }),
+        },
+        children: body,
+      },
+    ],
+  });
+}
+
+function hexToRgb(hex: string): [number, number, number] {
+  const value = parseInt(hex, 16);
+  return [(value >> 16) & 255, (value >> 8) & 255, value & 255];
+}
+
+/**
+ * Part of a line drawn in its own style
+ */
+interface PdfRun {
+  text: string;
+  bold?: boolean;
+  /** Monospace, for times and line numbers (no bold face) */
+  mono?: boolean;
+  color?: string;
+  fontSize?: number;
+}
+
+/**
+ * Build the PDF: a cover page, then the transcript with page numbers (and
+ * line numbers restarting on each page in the legal layout)
+ */
+async function buildPdf(transcript: TranscriptDocument, options: TranscriptDocumentOptions): Promise<jsPDF> {
+  const { labels } = transcript;
+  const { layout } = options;
+  const pdf = new jsPDF({ orientation: 'portrait', unit: 'mm', format: 'a4' });
+  const fonts = await registerPdfFonts(pdf, ['sans', 'mono']);
+
+  const pageWidth = pdf.internal.pageSize.getWidth();
+  const pageHeight = pdf.internal.pageSize.getHeight();
+  const margin = 20;
+  const bottom = pageHeight - margin - 5;
+  const fontSize = 10;
+  const lineHeight = layout === 'legal' ? 8 : 5.5;
+  const speakerColor = (color: string) => (options.colorSpeakers && layout !== 'legal' ? color : TEXT_COLOR);
+
+  const setStyle = ({ bold, mono, color, fontSize: size }: Omit<PdfRun, 'text'>) => {
+    pdf.setFont(mono ? fonts.mono : fonts.sans, bold && !mono ? 'bold' : 'normal');
+    pdf.setFontSize(size ?? fontSize);
+    pdf.setTextColor(...hexToRgb(color ?? TEXT_COLOR));
+  };
+
+  // Draws the runs that start a wrapped line, up to the length of the line
+  const drawRuns = (runs: PdfRun[], line: string, x: number, y: number) => {
+    let remaining = line.length;
+    let cursor = x;
+    for (const run of runs) {
+      if (remaining <= 0) break;
+      const text = run.text.slice(0, remaining);
+      setStyle(run);
+      pdf.text(text, cursor, y);
+      cursor += pdf.getTextWidth(text);
+      remaining -= text.length;
+    }
+  };
+
+  // Wraps runs into lines of a width; the first line keeps the run styles
+  const wrapRuns = (runs: PdfRun[], width: number): Array<{ line: string; runs: PdfRun[] }> => {
+    setStyle({});
+    const lines: string[] = pdf.splitTextToSize(runs.map((run) => run.text).join(''), width);
+    return lines.map((line, i) => ({ line, runs: i === 0 ? runs : [{ text: line }] }));
+  };
+
+  // Cover page
+  let y = 50;
+  setStyle({ fontSize: 12, color: MUTED_COLOR });
+  pdf.text(labels.title, margin, y);
+  y += 10;
+  setStyle({ fontSize: 20, bold: true });
+  const titleLines: string[] = pdf.splitTextToSize(transcript.title, pageWidth - 2 * margin);
+  pdf.text(titleLines, margin, y);
+  y += titleLines.length * 9 + 6;
+  pdf.setDrawColor(203, 213, 225);
+  pdf.line(margin, y, pageWidth - margin, y);
+  y += 10;
+
+  for (const detail of transcript.details) {
+    setStyle({ fontSize: 11, bold: true });
+    pdf.text(detail.label, margin, y);
+    setStyle({ fontSize: 11 });
+    pdf.text(pdf.splitTextToSize(detail.value, pageWidth - 2 * margin - 45)[0], margin + 45, y);
+    y += 7;
+  }
+
+  y += 6;
+  setStyle({ fontSize: 13, bold: true });
+  pdf.text(labels.speakers, margin, y);
+  y += 8;
+  for (const speaker of transcript.speakers) {
+    if (y > bottom) {
+      pdf.addPage();
+      y = margin;
+    }
+    setStyle({ fontSize: 11, bold: true, color: speakerColor(speaker.color) });
+    pdf.text(`•  ${speaker.name}`, margin, y);
+    y += 6.5;
+  }
+
+  // Transcript pages
+  const firstPage = pdf.getNumberOfPages() + 1;
+  const timeWidth = 20;
+  const speakerWidth = 38;
+  const textX = layout === 'table' ? margin + timeWidth + speakerWidth : layout === 'legal' ? margin + 10 : margin;
+  const textWidth = pageWidth - margin - textX;
+  let lineNumber = 0;
+
+  const drawTableHeader = () => {
+    setStyle({ fontSize: 9, bold: true, color: MUTED_COLOR });
+    pdf.text(labels.time, margin, y + 4);
+    pdf.text(labels.speaker, margin + timeWidth, y + 4);
+    pdf.text(labels.text, textX, y + 4);
+    y += 6;
+    pdf.setDrawColor(148, 163, 184);
+    pdf.line(margin, y, pageWidth - margin, y);
+    y += 2;
+  };
+
+  const newPage = () => {
+    pdf.addPage();
+    y = margin;
+    lineNumber = 0;
+    if (layout === 'table') drawTableHeader();
+  };
+
+  // Draws one line of body text at the current position, on a new page if needed
+  const drawLine = (line: { line: string; runs: PdfRun[] }, x = textX) => {
+    if (y + lineHeight > bottom) newPage();
+    const baseline = y + 4;
+    if (layout === 'legal') {
+      lineNumber++;
+      setStyle({ fontSize: 8, mono: true, color: MUTED_COLOR });
+      pdf.text(lineNumber.toString(), margin + 6, baseline, { align: 'right' });
+    }
+    drawRuns(line.runs, line.line, x, baseline);
+    y += lineHeight;
+  };
+
+  newPage();
+  for (const entry of transcript.entries) {
+    if (layout === 'table') {
+      setStyle({ bold: true });
+      const speakerLines: string[] = pdf.splitTextToSize(entry.speaker, speakerWidth - 3);
+      const textLines = wrapRuns([{ text: entry.text }], textWidth);
+      const rows = Math.max(speakerLines.length, textLines.length);
+      if (y + lineHeight * Math.min(rows, 3) > bottom) newPage();
+
+      for (let i = 0; i < rows; i++) {
+        if (y + lineHeight > bottom) newPage();
+        const baseline = y + 4;
+        if (i === 0) {
+          setStyle({ fontSize: 9, mono: true, color: MUTED_COLOR });
+          pdf.text(formatTimestamp(entry.start), margin, baseline);
+        }
+        if (speakerLines[i]) {
+          setStyle({ bold: true, color: speakerColor(entry.color) });
+          pdf.text(speakerLines[i], margin + timeWidth, baseline);
+        }
+        if (textLines[i]) drawRuns(textLines[i].runs, textLines[i].line, textX, baseline);
+        y += lineHeight;
+      }
+      y += 1.5;
+      pdf.setDrawColor(226, 232, 240);
+      pdf.line(margin, y, pageWidth - margin, y);
+      y += 1.5;
+    } else if (layout === 'paragraphs') {
+      if (y + lineHeight * 3 > bottom) newPage();
+      y += 2;
+      drawLine({
+        line: `[${formatEntryTime(entry)}] ${entry.speaker}`,
+        runs: [
+          { text: `[${formatEntryTime(entry)}] `, fontSize: 9, mono: true, color: MUTED_COLOR },
+          { text: entry.speaker, bold: true, color: speakerColor(entry.color) },
+        ],
+      });
+      wrapRuns([{ text: entry.text }], textWidth).forEach((line) => drawLine(line));
+      y += 2;
+    } else {
+      const runs: PdfRun[] = [
+        { text: `[${formatTimestamp(entry.start)}] `, fontSize: 9, mono: true, color: MUTED_COLOR },
+        { text: `${entry.speaker}: `, bold: true },
+        { text: entry.text },
+      ];
+      wrapRuns(runs, textWidth).forEach((line) => drawLine(line));
+    }
+  }
+
+  // Page numbers of the transcript pages
+  const pageCount = pdf.getNumberOfPages() - firstPage + 1;
+  for (let page = firstPage; page <= pdf.getNumberOfPages(); page++) {
+    pdf.setPage(page);
+    setStyle({ fontSize: 9, color: MUTED_COLOR });
+    pdf.text(`${labels.page} ${page - firstPage + 1} ${labels.of} ${pageCount}`, pageWidth / 2, pageHeight - 10, {
+      align: 'center',
+    });
+  }
+
+  return pdf;
+}
+
+/**
+ * Download a transcript document as DOCX or PDF
+ */
+export async function downloadTranscriptDocument(
+  transcript: TranscriptDocument,
+  filename: string,
+  format: TranscriptDocumentFormat,
+  options: TranscriptDocumentOptions = DEFAULT_TRANSCRIPT_DOCUMENT_OPTIONS
+): Promise<void> {
+  if (format === 'docx') {
+    const blob = await Packer.toBlob(buildDocx(transcript, options));
+    saveAs(blob, `${filename}.docx`);
+  } else {
+    const pdf = await buildPdf(transcript, options);
+    pdf.save(`${filename}.pdf`);
+  }
+}
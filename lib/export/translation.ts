@@ -0,0 +1,25 @@
+/**
+ * Which text columns an export contains when the transcription has a translation
+ */
+
+export type ExportColumns = 'original' | 'translation' | 'both';
+
+export const EXPORT_COLUMNS: ExportColumns[] = ['original', 'translation', 'both'];
+
+/**
+ * Text of one segment for an export
+ * With both columns the translation follows the original, prefixed with its language code
+ * @param translation - Translated text, or undefined when there is no translation
+ */
+export function formatSegmentColumns(
+  original: string,
+  translation: string | undefined,
+  columns: ExportColumns,
+  translationLanguage?: string
+): string {
+  if (translation === undefined || columns === 'original') return original;
+  if (columns === 'translation') return translation;
+
+  const label = translationLanguage ? `[${translationLanguage.toUpperCase()}] ` : '';
+  return `${original}\n${label}${translation}`;
+}
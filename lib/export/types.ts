@@ -53,6 +53,8 @@ export interface ResolvedSegment {
 export interface OfficialMinutesRequest {
   segments: ResolvedSegment[];
   metadata: OfficialMinutesMetadata;
+  /** Library entry the minutes were generated from, recorded with the export */
+  transcriptionId?: string;
 }
 
 /**
@@ -252,6 +254,7 @@ export function extractMetadataFromFormState(formState: OfficialMinutesFormState
 
 /**
  * Resolve segments with display names for API submission
+ * @param approvals - Approval of each segment, in segment order
  */
 export function resolveSegmentsForExport(
   segments: TranscriptionSegment[],
@@ -259,7 +262,7 @@ export function resolveSegmentsForExport(
   getSpeakerDisplayName: (id: string) => string
 ): ResolvedSegment[] {
   return segments.map((segment, index) => {
-    const approval = approvals.find(a => a.segmentIndex === index);
+    const approval = approvals[index];
     return {
       speaker: segment.speaker,
       speakerDisplayName: getSpeakerDisplayName(segment.speaker),
@@ -19,6 +19,7 @@ interface UseAudioSyncReturn {
   handleTimeUpdate: (time: number, audioRef: React.RefObject<HTMLAudioElement | null>) => void;
   handleSeek: (time: number) => void;
   handleSegmentClick: (segment: TranscriptionSegment, audioRef: React.RefObject<HTMLAudioElement | null>) => void;
+  handleWordClick: (time: number, audioRef: React.RefObject<HTMLAudioElement | null>) => void;
   navigateToSegment: (index: number, audioRef: React.RefObject<HTMLAudioElement | null>) => void;
   playFromActiveSegment: (audioRef: React.RefObject<HTMLAudioElement | null>) => void;
   clearSeekEvent: () => void;
@@ -109,6 +110,22 @@ export function useAudioSync(segments: TranscriptionSegment[]): UseAudioSyncRetu
     [segments, emitSeekEvent]
   );
 
+  // Click on a word - seeks to its start within the segment and starts playback
+  const handleWordClick = useCallback(
+    (time: number, audioRef: React.RefObject<HTMLAudioElement | null>) => {
+      if (!audioRef.current) return;
+
+      lastNavigationTimeRef.current = Date.now();
+      const index = findSegmentAtTime(time);
+
+      audioRef.current.currentTime = time;
+      setCurrentTime(time);
+      if (index !== -1) setActiveSegmentIndex(index);
+      audioRef.current.play();
+    },
+    [findSegmentAtTime]
+  );
+
   // Keyboard navigation - seeks without auto-play
   const navigateToSegment = useCallback(
     (index: number, audioRef: React.RefObject<HTMLAudioElement | null>) => {
@@ -151,6 +168,7 @@ export function useAudioSync(segments: TranscriptionSegment[]): UseAudioSyncRetu
     handleTimeUpdate,
     handleSeek,
     handleSegmentClick,
+    handleWordClick,
     navigateToSegment,
     playFromActiveSegment,
     clearSeekEvent,
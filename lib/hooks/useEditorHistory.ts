@@ -0,0 +1,180 @@
+import { useReducer, useCallback, useMemo } from 'react';
+import { TranscriptionEditorState } from '@/lib/transcriptionStorage';
+
+/** Older actions are dropped beyond this many */
+const MAX_HISTORY = 100;
+
+/**
+ * Kinds of editor actions recorded in the history
+ */
+export type EditorActionType =
+  | 'approve'
+  | 'unapprove'
+  | 'approveAll'
+  | 'unapproveAll'
+  | 'edit'
+  | 'labelSpeaker'
+  | 'rejectSuggestion'
+  | 'mergeSpeakers'
+  | 'reassignSpeaker'
+  | 'splitSegment'
+  | 'mergeSegments'
+  | 'insertSegment'
+  | 'deleteSegment'
+  | 'nudgeTiming';
+
+/**
+ * An editor action, as described in the history panel
+ */
+export interface EditorAction {
+  type: EditorActionType;
+  /** Segment the action applied to, if any */
+  segmentIndex?: number;
+  /** Speaker name, text excerpt etc. shown next to the action */
+  detail?: string;
+}
+
+export interface EditorHistoryEntry {
+  id: number;
+  action: EditorAction;
+  timestamp: number;
+}
+
+interface HistoryItem {
+  entry: EditorHistoryEntry;
+  /** Editor state before the action */
+  state: TranscriptionEditorState;
+}
+
+interface HistoryState {
+  present: TranscriptionEditorState;
+  past: HistoryItem[];
+  /** Undone actions, most recently undone last */
+  future: HistoryItem[];
+  nextId: number;
+}
+
+type HistoryCommand =
+  | {
+      kind: 'apply';
+      action: EditorAction;
+      timestamp: number;
+      update: (prev: TranscriptionEditorState) => TranscriptionEditorState;
+    }
+  | { kind: 'undo' }
+  | { kind: 'redo' }
+  | { kind: 'jump'; entryId: number | null };
+
+function undo(history: HistoryState): HistoryState {
+  const item = history.past[history.past.length - 1];
+  if (!item) return history;
+  return {
+    ...history,
+    present: item.state,
+    past: history.past.slice(0, -1),
+    future: [...history.future, { entry: item.entry, state: history.present }],
+  };
+}
+
+function redo(history: HistoryState): HistoryState {
+  const item = history.future[history.future.length - 1];
+  if (!item) return history;
+  return {
+    ...history,
+    present: item.state,
+    past: [...history.past, { entry: item.entry, state: history.present }],
+    future: history.future.slice(0, -1),
+  };
+}
+
+function historyReducer(history: HistoryState, command: HistoryCommand): HistoryState {
+  switch (command.kind) {
+    case 'apply': {
+      const next = command.update(history.present);
+      if (next === history.present) return history;
+      const entry = { id: history.nextId, action: command.action, timestamp: command.timestamp };
+      return {
+        present: next,
+        past: [...history.past, { entry, state: history.present }].slice(-MAX_HISTORY),
+        future: [],
+        nextId: history.nextId + 1,
+      };
+    }
+    case 'undo':
+      return undo(history);
+    case 'redo':
+      return redo(history);
+    case 'jump': {
+      // Step until the entry is the last applied action (null: before all of them)
+      let result = history;
+      const lastId = (state: HistoryState) => state.past[state.past.length - 1]?.entry.id ?? null;
+      const isUndone = result.future.some((item) => item.entry.id === command.entryId);
+      while (lastId(result) !== command.entryId) {
+        const stepped = isUndone ? redo(result) : undo(result);
+        if (stepped === result) break;
+        result = stepped;
+      }
+      return result;
+    }
+  }
+}
+
+interface UseEditorHistoryReturn {
+  editorState: TranscriptionEditorState;
+  /** Apply a change to the editor state and record it as an undoable action */
+  applyAction: (action: EditorAction, update: (prev: TranscriptionEditorState) => TranscriptionEditorState) => void;
+  undo: () => void;
+  redo: () => void;
+  /** Undo or redo until this entry is the last applied action (null: undo everything) */
+  jumpTo: (entryId: number | null) => void;
+  canUndo: boolean;
+  canRedo: boolean;
+  /** Applied actions, oldest first */
+  past: EditorHistoryEntry[];
+  /** Undone actions, next to redo first */
+  future: EditorHistoryEntry[];
+}
+
+/**
+ * Hook for the undo/redo history of the transcription editor.
+ *
+ * Every change to the editor state goes through applyAction, which keeps the
+ * state before the change. Undoing restores it, and a new action after undoing
+ * discards the undone ones. The history lasts for the editing session.
+ *
+ * @param initialize - Creates the initial editor state
+ */
+export function useEditorHistory(initialize: () => TranscriptionEditorState): UseEditorHistoryReturn {
+  const [history, dispatch] = useReducer(historyReducer, undefined, () => ({
+    present: initialize(),
+    past: [],
+    future: [],
+    nextId: 1,
+  }));
+
+  const applyAction = useCallback(
+    (action: EditorAction, update: (prev: TranscriptionEditorState) => TranscriptionEditorState) => {
+      dispatch({ kind: 'apply', action, timestamp: Date.now(), update });
+    },
+    []
+  );
+
+  const undoAction = useCallback(() => dispatch({ kind: 'undo' }), []);
+  const redoAction = useCallback(() => dispatch({ kind: 'redo' }), []);
+  const jumpTo = useCallback((entryId: number | null) => dispatch({ kind: 'jump', entryId }), []);
+
+  const past = useMemo(() => history.past.map((item) => item.entry), [history.past]);
+  const future = useMemo(() => [...history.future].reverse().map((item) => item.entry), [history.future]);
+
+  return {
+    editorState: history.present,
+    applyAction,
+    undo: undoAction,
+    redo: redoAction,
+    jumpTo,
+    canUndo: history.past.length > 0,
+    canRedo: history.future.length > 0,
+    past,
+    future,
+  };
+}
@@ -7,9 +7,14 @@ interface KeyboardShortcutsConfig {
   onPrevSegment: () => void;
   onNextUnapproved: () => void;
   onPrevUnapproved: () => void;
+  onNextComment?: () => void;
+  onPrevComment?: () => void;
   onPlayPause: () => void;
   onEscape: () => void;
   onSearch: () => void;
+  onInsertSegment?: () => void;
+  onUndo?: () => void;
+  onRedo?: () => void;
   enabled?: boolean;
 }
 
@@ -27,8 +32,12 @@ interface KeyboardShortcutsConfig {
  * - K / ArrowUp: Select previous segment
  * - N: Navigate to next unapproved segment
  * - P: Navigate to previous unapproved segment
+ * - ] / [: Navigate to next / previous segment with open comments
  * - Space: Play/pause audio playback
  * - / or Ctrl+F: Open search
+ * - I: Insert a segment at the playback position
+ * - Ctrl+Z: Undo the last editor action
+ * - Ctrl+Shift+Z or Ctrl+Y: Redo
  * - Escape: Cancel editing / clear selection / close search
  *
  * @param config - Configuration object with callback handlers
@@ -38,8 +47,13 @@ interface KeyboardShortcutsConfig {
  * @param config.onPrevSegment - Called when K or ArrowUp is pressed
  * @param config.onNextUnapproved - Called when N is pressed
  * @param config.onPrevUnapproved - Called when P is pressed
+ * @param config.onNextComment - Called when ] is pressed
+ * @param config.onPrevComment - Called when [ is pressed
  * @param config.onPlayPause - Called when Space is pressed
  * @param config.onSearch - Called when / or Ctrl+F is pressed
+ * @param config.onInsertSegment - Called when I is pressed
+ * @param config.onUndo - Called when Ctrl+Z / Cmd+Z is pressed
+ * @param config.onRedo - Called when Ctrl+Shift+Z / Cmd+Shift+Z or Ctrl+Y is pressed
  * @param config.onEscape - Called when Escape is pressed
  * @param config.enabled - Whether shortcuts are active (default: true)
  *
@@ -61,8 +75,13 @@ export function useEditorKeyboardShortcuts({
   onPrevSegment,
   onNextUnapproved,
   onPrevUnapproved,
+  onNextComment,
+  onPrevComment,
   onPlayPause,
   onSearch,
+  onInsertSegment,
+  onUndo,
+  onRedo,
   onEscape,
   enabled = true,
 }: KeyboardShortcutsConfig) {
@@ -136,6 +155,22 @@ export function useEditorKeyboardShortcuts({
           }
           break;
 
+        case ']':
+          // Navigate to next segment with open comments
+          if (onNextComment && !e.metaKey && !e.ctrlKey && !e.altKey) {
+            e.preventDefault();
+            onNextComment();
+          }
+          break;
+
+        case '[':
+          // Navigate to previous segment with open comments
+          if (onPrevComment && !e.metaKey && !e.ctrlKey && !e.altKey) {
+            e.preventDefault();
+            onPrevComment();
+          }
+          break;
+
         case ' ':
           // Toggle audio playback
           e.preventDefault();
@@ -159,6 +194,37 @@ export function useEditorKeyboardShortcuts({
           }
           break;
 
+        case 'i':
+        case 'I':
+          // Insert a segment (ignore if modifier keys are pressed)
+          if (onInsertSegment && !e.metaKey && !e.ctrlKey && !e.altKey) {
+            e.preventDefault();
+            onInsertSegment();
+          }
+          break;
+
+        case 'z':
+        case 'Z':
+          // Undo with Ctrl+Z / Cmd+Z, redo with Shift
+          if (e.metaKey || e.ctrlKey) {
+            e.preventDefault();
+            if (e.shiftKey) {
+              onRedo?.();
+            } else {
+              onUndo?.();
+            }
+          }
+          break;
+
+        case 'y':
+        case 'Y':
+          // Redo with Ctrl+Y
+          if (e.ctrlKey && !e.metaKey) {
+            e.preventDefault();
+            onRedo?.();
+          }
+          break;
+
         case 'Escape':
           // Clear selection or cancel editing
           e.preventDefault();
@@ -166,7 +232,7 @@ export function useEditorKeyboardShortcuts({
           break;
       }
     },
-    [enabled, onApprove, onEdit, onNextSegment, onPrevSegment, onNextUnapproved, onPrevUnapproved, onPlayPause, onSearch, onEscape]
+    [enabled, onApprove, onEdit, onNextSegment, onPrevSegment, onNextUnapproved, onPrevUnapproved, onNextComment, onPrevComment, onPlayPause, onSearch, onInsertSegment, onUndo, onRedo, onEscape]
   );
 
   // Register keyboard event listener
@@ -1,29 +1,60 @@
-import { useState, useEffect, useCallback, useMemo } from 'react';
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { useSession } from 'next-auth/react';
+import { useEditorHistory, EditorAction, EditorHistoryEntry } from './useEditorHistory';
 import {
   SavedTranscription,
   TranscriptionEditorState,
   SpeakerLabel,
-  updateTranscriptionEditorState,
+  SegmentApproval,
+  SegmentRevision,
+  EditorSegment,
 } from '@/lib/transcriptionStorage';
+import { saveEditorState } from '@/lib/library/client';
+import { enrollRosterSpeaker } from '@/lib/organizations/client';
 import { TranscriptionSegment } from '@/lib/ai/types';
+import { getSegmentUncertainty, orderByUncertainty } from '@/lib/editor/uncertainty';
+import { getNewSpeakerId, mergeSpeakers, reassignSegmentSpeaker } from '@/lib/editor/speakerOperations';
+import {
+  alignApprovals,
+  deleteSegment,
+  getEditorSegments,
+  getSegmentText,
+  insertSegment,
+  mergeWithNext,
+  nudgeSegmentTiming,
+  splitSegment,
+  splitText,
+} from '@/lib/editor/segmentStructure';
+
+/**
+ * Order in which next/previous unapproved navigation visits segments
+ * - sequential: by position in the transcription
+ * - uncertain-first: most uncertain segments first (provider confidence)
+ */
+export type ReviewOrder = 'sequential' | 'uncertain-first';
 
 /**
  * Initializes editor state from a saved transcription.
- * If the transcription already has editor state saved, it uses that.
- * Otherwise, creates a new state with all segments unapproved.
+ * If the transcription already has editor state saved, it uses that, keying
+ * approvals of older states by segment ID. Otherwise, creates a new state
+ * with all segments unapproved.
  */
-function initializeEditorState(transcription: SavedTranscription): TranscriptionEditorState {
-  if (transcription.metadata?.editorState) {
-    return transcription.metadata.editorState;
+function initializeEditorState(
+  transcription: SavedTranscription,
+  segments: TranscriptionSegment[]
+): TranscriptionEditorState {
+  const savedState = transcription.metadata?.editorState;
+  if (savedState) {
+    const editorSegments = getEditorSegments(savedState, segments);
+    return {
+      ...savedState,
+      segments: savedState.segments && editorSegments,
+      approvals: alignApprovals(editorSegments, savedState.approvals),
+    };
   }
 
-  const segments = transcription.metadata?.structuredData?.segments || [];
-
   return {
-    approvals: segments.map((_, index) => ({
-      segmentIndex: index,
-      approved: false,
-    })),
+    approvals: [],
     isDraft: true,
     audioFileId: transcription.metadata?.editorState?.audioFileId,
     audioFileName: transcription.fileName,
@@ -31,42 +62,140 @@ function initializeEditorState(transcription: SavedTranscription): Transcription
   };
 }
 
+/**
+ * Set fields of a segment's approval, adding the approval if needed
+ */
+function updateApproval(
+  approvals: SegmentApproval[],
+  segmentId: string,
+  changes: Partial<SegmentApproval>
+): SegmentApproval[] {
+  return approvals.some((a) => a.segmentId === segmentId)
+    ? approvals.map((a) => (a.segmentId === segmentId ? { ...a, ...changes } : a))
+    : [...approvals, { segmentId, approved: false, ...changes }];
+}
+
+/**
+ * Approvals with a segment's approval reset, keeping its edits
+ * Used when a structural edit changes the segment's text (split, merge). The
+ * segment keeps its provider text, and the text shown is recorded as edited
+ * when it differs, so reports still compare edits with the provider output.
+ * @param text - Text the segment shows after the structural edit
+ * @param revisions - Revisions the segment keeps (e.g. those of both merged segments)
+ * @param editedAt - When the shown text was last edited
+ */
+function resetApproval(
+  approvals: SegmentApproval[],
+  segment: EditorSegment,
+  text: string,
+  revisions: SegmentRevision[],
+  editedAt?: number
+): SegmentApproval[] {
+  const others = approvals.filter((a) => a.segmentId !== segment.id);
+  const isEdited = text !== segment.text;
+  if (!isEdited && revisions.length === 0) return others;
+
+  return [...others, {
+    segmentId: segment.id,
+    approved: false,
+    ...(isEdited ? { editedText: text, editedAt } : {}),
+    ...(revisions.length > 0 ? { revisions } : {}),
+  }];
+}
+
+/**
+ * Roster enrollments for the speaker label changes between two saved states:
+ * the new name of each relabelled speaker, or an empty name when a label was
+ * cleared (not when a speaker was merged away, which drops its label too)
+ * @param speakers - Speakers of the segments of the newer state
+ */
+function getRosterChanges(
+  before: TranscriptionEditorState,
+  after: TranscriptionEditorState,
+  speakers: string[]
+): Array<{ speaker: string; name: string }> {
+  const nameOf = (state: TranscriptionEditorState, speaker: string) =>
+    state.speakerLabels?.find((l) => l.originalId === speaker)?.customName.trim() ?? '';
+
+  return speakers
+    .map((speaker) => ({ speaker, name: nameOf(after, speaker) }))
+    .filter(({ speaker, name }) => name !== nameOf(before, speaker));
+}
+
 interface UseEditorStateReturn {
   editorState: TranscriptionEditorState;
-  setEditorState: React.Dispatch<React.SetStateAction<TranscriptionEditorState>>;
+  /** Why the last auto-save (or the roster update after it) failed, until a save succeeds */
+  saveError: string | null;
+  /** Segments as edited (speaker corrections, structural edits), in editor order */
+  segments: EditorSegment[];
+  /** Approval of each segment, in segment order */
+  approvals: SegmentApproval[];
+  /** Apply a change to the editor state as an undoable action */
+  applyAction: (action: EditorAction, update: (prev: TranscriptionEditorState) => TranscriptionEditorState) => void;
+  // Undo/redo
+  undo: () => void;
+  redo: () => void;
+  jumpTo: (entryId: number | null) => void;
+  canUndo: boolean;
+  canRedo: boolean;
+  /** Applied actions (oldest first) and undone actions (next to redo first) */
+  history: { past: EditorHistoryEntry[]; future: EditorHistoryEntry[] };
   handleApprove: (segmentIndex: number) => void;
   handleUnapprove: (segmentIndex: number) => void;
   handleApproveAll: () => void;
   handleUnapproveAll: () => void;
   handleEdit: (segmentIndex: number, newText: string) => void;
-  handleFinalize: () => void;
-  handleRevertToDraft: () => void;
   approvedCount: number;
   getNextUnapprovedIndex: (fromIndex?: number) => number | null;
   getPrevUnapprovedIndex: (fromIndex?: number) => number | null;
+  reviewOrder: ReviewOrder;
+  setReviewOrder: (order: ReviewOrder) => void;
+  /** Whether any segment has a confidence score to order by */
+  hasUncertaintyScores: boolean;
   // Speaker label management
   speakerLabels: SpeakerLabel[];
   handleLabelSpeaker: (originalId: string, customName: string) => void;
   getSpeakerDisplayName: (originalId: string) => string;
   uniqueSpeakers: string[];
   labeledCount: number;
+  // Speaker corrections
+  handleMergeSpeakers: (from: string, into: string) => void;
+  handleReassignSpeaker: (segmentIndex: number, speaker: string) => void;
+  /** An unused speaker ID for a speaker diarization missed */
+  newSpeakerId: string;
+  // Segment structure
+  /** @returns Whether the segment was split (false when the cursor leaves one part empty) */
+  handleSplitSegment: (segmentIndex: number, text: string, offset: number, speaker: string) => boolean;
+  handleMergeWithNext: (segmentIndex: number) => void;
+  /** @returns Index of the inserted segment */
+  handleInsertSegment: (time: number, speaker: string) => number;
+  handleDeleteSegment: (segmentIndex: number) => void;
+  handleNudgeTiming: (segmentIndex: number, edge: 'startTime' | 'endTime', delta: number) => void;
 }
 
 /**
  * Hook for managing the transcription editor state.
  *
- * Handles segment approvals, text edits, and finalization status.
- * Automatically persists changes to IndexedDB with debouncing (500ms delay).
+ * Handles segment approvals, text edits, speaker labels and segment structure.
+ * Automatically persists changes to the server library with debouncing (500ms delay),
+ * keeping the IndexedDB copy as an offline cache. Once the transcription is
+ * past draft in the review workflow (see useWorkflow) nothing can be changed.
  *
  * Features:
  * - Approve/unapprove individual segments
- * - Edit segment text with timestamp tracking
- * - Finalize transcription when all segments are approved
- * - Auto-save to IndexedDB (debounced)
+ * - Edit segment text, recording each edit as a revision (author, time, before/after)
+ * - Review unapproved segments in order or most uncertain first
+ * - Label speakers, adding their voice to the organization roster once saved
+ * - Merge speakers and reassign a segment's speaker
+ * - Split, merge, insert and delete segments and nudge their timing, on a
+ *   working copy of the segments (the provider output is kept); approvals are
+ *   keyed by segment ID so they follow their segments
+ * - Undo/redo of every change (see useEditorHistory)
+ * - Auto-save to the server and IndexedDB cache (debounced)
  *
  * @param transcription - The saved transcription to edit
- * @param segments - The transcription segments (for computing unique speakers)
- * @param onFinalizeSuccess - Optional callback when finalization succeeds
+ * @param segments - The provider segments in start time order (used until the first speaker correction)
+ * @param isLocked - Whether nothing can be changed (past draft in the review workflow, or below the reviewer role)
  * @returns Editor state and handler functions
  *
  * @example
@@ -76,102 +205,177 @@ interface UseEditorStateReturn {
 export function useEditorState(
   transcription: SavedTranscription,
   segments: TranscriptionSegment[],
-  onFinalizeSuccess?: () => void
+  isLocked: boolean = false
 ): UseEditorStateReturn {
-  const [editorState, setEditorState] = useState<TranscriptionEditorState>(() =>
-    initializeEditorState(transcription)
+  const {
+    editorState,
+    applyAction: applyHistoryAction,
+    undo: undoHistory,
+    redo: redoHistory,
+    jumpTo: jumpToHistory,
+    canUndo: canUndoHistory,
+    canRedo: canRedoHistory,
+    past,
+    future,
+  } = useEditorHistory(() => initializeEditorState(transcription, segments));
+  const [reviewOrder, setReviewOrder] = useState<ReviewOrder>('sequential');
+
+  // Changes (including undo/redo) are ignored while the transcription is in review
+  const applyAction = useCallback(
+    (action: EditorAction, update: (prev: TranscriptionEditorState) => TranscriptionEditorState) => {
+      if (!isLocked) applyHistoryAction(action, update);
+    },
+    [isLocked, applyHistoryAction]
+  );
+  const undo = useCallback(() => {
+    if (!isLocked) undoHistory();
+  }, [isLocked, undoHistory]);
+  const redo = useCallback(() => {
+    if (!isLocked) redoHistory();
+  }, [isLocked, redoHistory]);
+  const jumpTo = useCallback((entryId: number | null) => {
+    if (!isLocked) jumpToHistory(entryId);
+  }, [isLocked, jumpToHistory]);
+  const canUndo = !isLocked && canUndoHistory;
+  const canRedo = !isLocked && canRedoHistory;
+
+  // Author recorded with text revisions
+  const { data: session } = useSession();
+  const authorId = session?.user?.id;
+  const authorEmail = session?.user?.email ?? undefined;
+
+  // Working copy after speaker corrections and structural edits, or the provider segments
+  const workingCopy = editorState.segments;
+  const currentSegments = useMemo(
+    () => getEditorSegments({ segments: workingCopy }, segments),
+    [workingCopy, segments]
+  );
+  const approvals = useMemo(
+    () => alignApprovals(currentSegments, editorState.approvals),
+    [currentSegments, editorState.approvals]
   );
 
-  // Auto-save editor state to IndexedDB with 500ms debounce
+  // Apply a change to the segment with this index in the current working copy
+  const withSegmentId = useCallback(
+    (
+      action: EditorAction & { segmentIndex: number },
+      update: (prev: TranscriptionEditorState, segmentId: string) => TranscriptionEditorState
+    ) => {
+      applyAction(action, (prev) => {
+        const segment = getEditorSegments(prev, segments)[action.segmentIndex];
+        return segment ? update(prev, segment.id) : prev;
+      });
+    },
+    [segments, applyAction]
+  );
+
+  const uncertaintyOrder = useMemo(() => orderByUncertainty(currentSegments), [currentSegments]);
+  const hasUncertaintyScores = useMemo(
+    () => currentSegments.some((segment) => getSegmentUncertainty(segment) !== undefined),
+    [currentSegments]
+  );
+
+  // Auto-save editor state to the server (and offline cache) with 500ms debounce.
+  // The state as loaded needs no saving; a rejected save is retried with the next change.
+  // Speaker labels that changed since the last save (including by undo) then update
+  // the organization roster, so it only learns labels that were saved.
+  const [saveError, setSaveError] = useState<string | null>(null);
+  const savedStateRef = useRef(editorState);
   useEffect(() => {
+    if (isLocked || editorState === savedStateRef.current) return;
     const timeoutId = setTimeout(() => {
-      updateTranscriptionEditorState(transcription.id, editorState).catch(console.error);
+      setSaveError(null);
+      saveEditorState(transcription.id, editorState)
+        .then(() => {
+          const previous = savedStateRef.current;
+          savedStateRef.current = editorState;
+          const speakers = [...new Set(getEditorSegments(editorState, segments).map((segment) => segment.speaker))];
+          return Promise.all(
+            getRosterChanges(previous, editorState, speakers).map(({ speaker, name }) =>
+              enrollRosterSpeaker(transcription.id, speaker, name).catch((error) => {
+                console.warn('[Editor] Failed to update speaker roster:', error);
+                setSaveError(`Speaker roster not updated: ${error instanceof Error ? error.message : error}`);
+              })
+            )
+          );
+        })
+        .catch((error) => {
+          console.error('[Editor] Failed to save editor state:', error);
+          setSaveError(error instanceof Error ? error.message : 'Failed to save changes');
+        });
     }, 500);
 
     return () => clearTimeout(timeoutId);
-  }, [editorState, transcription.id]);
+  }, [editorState, transcription.id, isLocked, segments]);
 
   // Mark a segment as approved
   const handleApprove = useCallback((segmentIndex: number) => {
-    setEditorState((prev) => ({
+    withSegmentId({ type: 'approve', segmentIndex }, (prev, segmentId) => ({
       ...prev,
-      approvals: prev.approvals.map((a, i) =>
-        i === segmentIndex ? { ...a, approved: true } : a
-      ),
+      approvals: updateApproval(prev.approvals, segmentId, { approved: true }),
     }));
-  }, []);
+  }, [withSegmentId]);
 
-  // Remove approval from a segment (reverts to draft if finalized)
+  // Remove approval from a segment
   const handleUnapprove = useCallback((segmentIndex: number) => {
-    setEditorState((prev) => ({
+    withSegmentId({ type: 'unapprove', segmentIndex }, (prev, segmentId) => ({
       ...prev,
-      isDraft: true, // Revert to draft when any segment is unapproved
-      approvals: prev.approvals.map((a, i) =>
-        i === segmentIndex ? { ...a, approved: false } : a
-      ),
+      approvals: updateApproval(prev.approvals, segmentId, { approved: false }),
     }));
-  }, []);
+  }, [withSegmentId]);
 
   // Mark all segments as approved
   const handleApproveAll = useCallback(() => {
-    setEditorState((prev) => ({
+    applyAction({ type: 'approveAll' }, (prev) => ({
       ...prev,
-      approvals: prev.approvals.map((a) => ({ ...a, approved: true })),
+      approvals: alignApprovals(getEditorSegments(prev, segments), prev.approvals)
+        .map((a) => ({ ...a, approved: true })),
     }));
-  }, []);
+  }, [segments, applyAction]);
 
-  // Remove approval from all segments (reverts to draft if finalized)
+  // Remove approval from all segments
   const handleUnapproveAll = useCallback(() => {
-    setEditorState((prev) => ({
+    applyAction({ type: 'unapproveAll' }, (prev) => ({
       ...prev,
-      isDraft: true, // Revert to draft when segments are unapproved
       approvals: prev.approvals.map((a) => ({ ...a, approved: false })),
     }));
-  }, []);
+  }, [applyAction]);
 
-  // Update segment text with edit timestamp
+  // Update segment text with edit timestamp, recording the edit as a revision
   const handleEdit = useCallback((segmentIndex: number, newText: string) => {
-    setEditorState((prev) => ({
-      ...prev,
-      approvals: prev.approvals.map((a, i) =>
-        i === segmentIndex
-          ? { ...a, editedText: newText, editedAt: Date.now() }
-          : a
-      ),
-    }));
-  }, []);
+    const editedAt = Date.now();
+    applyAction({ type: 'edit', segmentIndex }, (prev) => {
+      const segment = getEditorSegments(prev, segments)[segmentIndex];
+      if (!segment) return prev;
 
-  // Mark transcription as finalized (no longer a draft)
-  const handleFinalize = useCallback(() => {
-    setEditorState((prev) => ({
-      ...prev,
-      isDraft: false,
-      finalizedAt: Date.now(),
-    }));
-    onFinalizeSuccess?.();
-  }, [onFinalizeSuccess]);
+      const approval = prev.approvals.find((a) => a.segmentId === segment.id);
+      const before = getSegmentText(segment, approval);
+      if (before === newText) return prev;
 
-  // Revert finalized transcription back to draft for further editing
-  const handleRevertToDraft = useCallback(() => {
-    setEditorState((prev) => ({
-      ...prev,
-      isDraft: true,
-      finalizedAt: undefined,
-    }));
-  }, []);
+      const revision: SegmentRevision = { before, after: newText, editedAt, authorId, authorEmail };
+      return {
+        ...prev,
+        approvals: updateApproval(prev.approvals, segment.id, {
+          editedText: newText,
+          editedAt,
+          revisions: [...(approval?.revisions ?? []), revision],
+        }),
+      };
+    });
+  }, [segments, applyAction, authorId, authorEmail]);
 
-  const approvedCount = editorState.approvals.filter((a) => a.approved).length;
+  const approvedCount = approvals.filter((a) => a.approved).length;
 
   // Compute unique speakers from segments
   const uniqueSpeakers = useMemo(() => {
     const speakers: string[] = [];
-    for (const segment of segments) {
+    for (const segment of currentSegments) {
       if (!speakers.includes(segment.speaker)) {
         speakers.push(segment.speaker);
       }
     }
     return speakers;
-  }, [segments]);
+  }, [currentSegments]);
 
   // Speaker labels from state
   const speakerLabels = editorState.speakerLabels || [];
@@ -190,7 +394,8 @@ export function useEditorState(
   // Label a speaker with a custom name
   const handleLabelSpeaker = useCallback(
     (originalId: string, customName: string) => {
-      setEditorState((prev) => {
+      const labeledAt = Date.now();
+      applyAction({ type: 'labelSpeaker', detail: customName.trim() ? `${originalId} → ${customName.trim()}` : originalId }, (prev) => {
         const existingLabels = prev.speakerLabels || [];
         const existingIndex = existingLabels.findIndex((l) => l.originalId === originalId);
 
@@ -201,17 +406,17 @@ export function useEditorState(
         } else if (existingIndex >= 0) {
           // Update existing label
           newLabels = existingLabels.map((l, i) =>
-            i === existingIndex ? { ...l, customName, labeledAt: Date.now() } : l
+            i === existingIndex ? { ...l, customName, labeledAt } : l
           );
         } else {
           // Add new label
-          newLabels = [...existingLabels, { originalId, customName, labeledAt: Date.now() }];
+          newLabels = [...existingLabels, { originalId, customName, labeledAt }];
         }
 
         return { ...prev, speakerLabels: newLabels };
       });
     },
-    [setEditorState]
+    [applyAction]
   );
 
   // Get display name for a speaker (custom name or original ID)
@@ -225,58 +430,237 @@ export function useEditorState(
     [speakerLabels]
   );
 
+  // Merge speaker `from` into `into`; the merged speaker's label is dropped
+  const handleMergeSpeakers = useCallback(
+    (from: string, into: string) => {
+      if (from === into) return;
+      applyAction({ type: 'mergeSpeakers', detail: `${from} → ${into}` }, (prev) => ({
+        ...prev,
+        segments: mergeSpeakers(getEditorSegments(prev, segments), from, into),
+        speakerLabels: (prev.speakerLabels || []).filter((l) => l.originalId !== from),
+      }));
+    },
+    [segments, applyAction]
+  );
+
+  // Give one segment to another speaker (it needs approving again)
+  const handleReassignSpeaker = useCallback(
+    (segmentIndex: number, speaker: string) => {
+      withSegmentId({ type: 'reassignSpeaker', segmentIndex, detail: speaker }, (prev, segmentId) => ({
+        ...prev,
+        segments: reassignSegmentSpeaker(getEditorSegments(prev, segments), segmentIndex, speaker),
+        approvals: updateApproval(prev.approvals, segmentId, { approved: false }),
+      }));
+    },
+    [segments, withSegmentId]
+  );
+
+  // Split a segment at a cursor position; both parts need approving again
+  // Each part keeps its share of the provider text, and of the text being edited
+  // as its edited text, with the revisions of the segment
+  const handleSplitSegment = useCallback(
+    (segmentIndex: number, text: string, offset: number, speaker: string): boolean => {
+      const [firstText, secondText] = splitText(text, offset);
+      if (!currentSegments[segmentIndex] || !firstText || !secondText) return false;
+
+      applyAction({ type: 'splitSegment', segmentIndex }, (prev) => {
+        const split = splitSegment(getEditorSegments(prev, segments), segmentIndex, text, offset, speaker);
+        if (!split) return prev;
+
+        // The first part keeps the segment's ID
+        const [first, second] = [split[segmentIndex], split[segmentIndex + 1]];
+        const approval = prev.approvals.find((a) => a.segmentId === first.id);
+        const revisions = approval?.revisions ?? [];
+        return {
+          ...prev,
+          segments: split,
+          approvals: resetApproval(
+            resetApproval(prev.approvals, first, firstText, revisions, approval?.editedAt),
+            second,
+            secondText,
+            revisions,
+            approval?.editedAt
+          ),
+        };
+      });
+      return true;
+    },
+    [currentSegments, segments, applyAction]
+  );
+
+  // Merge a segment with the next one, joining their provider and current texts (needs approving again)
+  const handleMergeWithNext = useCallback(
+    (segmentIndex: number) => {
+      applyAction({ type: 'mergeSegments', segmentIndex }, (prev) => {
+        const current = getEditorSegments(prev, segments);
+        const [first, second] = [current[segmentIndex], current[segmentIndex + 1]];
+        if (!first || !second) return prev;
+
+        const pair = alignApprovals([first, second], prev.approvals);
+        const texts = pair.map((approval, i) => getSegmentText([first, second][i], approval));
+        const merged = mergeWithNext(current, segmentIndex);
+        if (!merged) return prev;
+
+        // The merged segment keeps the revisions of both
+        const revisions = pair
+          .flatMap((approval) => approval.revisions ?? [])
+          .sort((a, b) => a.editedAt - b.editedAt);
+        const editedAt = Math.max(0, ...pair.map((approval) => approval.editedAt ?? 0)) || undefined;
+
+        return {
+          ...prev,
+          segments: merged,
+          approvals: resetApproval(
+            prev.approvals.filter((a) => a.segmentId !== second.id),
+            merged[segmentIndex],
+            texts.filter(Boolean).join(' '),
+            revisions,
+            editedAt
+          ),
+        };
+      });
+    },
+    [segments, applyAction]
+  );
+
+  // Insert an empty segment at an audio position (e.g. speech the provider missed)
+  const handleInsertSegment = useCallback(
+    (time: number, speaker: string): number => {
+      // Index in the segments shown, for focusing; the segment goes into the latest state
+      const index = insertSegment(currentSegments, time, speaker).index;
+      applyAction({ type: 'insertSegment', segmentIndex: index }, (prev) => ({
+        ...prev,
+        segments: insertSegment(getEditorSegments(prev, segments), time, speaker).segments,
+      }));
+      return index;
+    },
+    [currentSegments, segments, applyAction]
+  );
+
+  // Delete a segment (e.g. noise transcribed as speech)
+  const handleDeleteSegment = useCallback(
+    (segmentIndex: number) => {
+      withSegmentId({ type: 'deleteSegment', segmentIndex }, (prev, segmentId) => ({
+        ...prev,
+        segments: deleteSegment(getEditorSegments(prev, segments), segmentIndex),
+        approvals: prev.approvals.filter((a) => a.segmentId !== segmentId),
+      }));
+    },
+    [segments, withSegmentId]
+  );
+
+  // Move the start or end of a segment (it needs approving again)
+  const handleNudgeTiming = useCallback(
+    (segmentIndex: number, edge: 'startTime' | 'endTime', delta: number) => {
+      withSegmentId({ type: 'nudgeTiming', segmentIndex }, (prev, segmentId) => ({
+        ...prev,
+        segments: nudgeSegmentTiming(getEditorSegments(prev, segments), segmentIndex, edge, delta),
+        approvals: updateApproval(prev.approvals, segmentId, { approved: false }),
+      }));
+    },
+    [segments, withSegmentId]
+  );
+
+  const newSpeakerId = useMemo(() => getNewSpeakerId(currentSegments), [currentSegments]);
+
+  // Step through unapproved segments from most to least uncertain, wrapping around
+  const getUnapprovedIndexByUncertainty = useCallback(
+    (fromIndex: number | undefined, direction: 1 | -1): number | null => {
+      const count = uncertaintyOrder.length;
+      const from = fromIndex !== undefined ? uncertaintyOrder.indexOf(fromIndex) : -1;
+
+      for (let step = 1; step <= count; step++) {
+        const position = from === -1
+          ? (direction === 1 ? step - 1 : count - step)
+          : (((from + direction * step) % count) + count) % count;
+        const index = uncertaintyOrder[position];
+        if (!approvals[index]?.approved) {
+          return index;
+        }
+      }
+      return null;
+    },
+    [uncertaintyOrder, approvals]
+  );
+
   // Get the next unapproved segment index (searching forward from fromIndex)
   const getNextUnapprovedIndex = useCallback((fromIndex?: number): number | null => {
+    if (reviewOrder === 'uncertain-first') {
+      return getUnapprovedIndexByUncertainty(fromIndex, 1);
+    }
     const startIndex = fromIndex !== undefined ? fromIndex + 1 : 0;
-    for (let i = startIndex; i < editorState.approvals.length; i++) {
-      if (!editorState.approvals[i]?.approved) {
+    for (let i = startIndex; i < approvals.length; i++) {
+      if (!approvals[i]?.approved) {
         return i;
       }
     }
     // Wrap around to beginning if not found
     for (let i = 0; i < startIndex; i++) {
-      if (!editorState.approvals[i]?.approved) {
+      if (!approvals[i]?.approved) {
         return i;
       }
     }
     return null;
-  }, [editorState.approvals]);
+  }, [approvals, reviewOrder, getUnapprovedIndexByUncertainty]);
 
   // Get the previous unapproved segment index (searching backward from fromIndex)
   const getPrevUnapprovedIndex = useCallback((fromIndex?: number): number | null => {
-    const startIndex = fromIndex !== undefined ? fromIndex - 1 : editorState.approvals.length - 1;
+    if (reviewOrder === 'uncertain-first') {
+      return getUnapprovedIndexByUncertainty(fromIndex, -1);
+    }
+    const startIndex = fromIndex !== undefined ? fromIndex - 1 : approvals.length - 1;
     for (let i = startIndex; i >= 0; i--) {
-      if (!editorState.approvals[i]?.approved) {
+      if (!approvals[i]?.approved) {
         return i;
       }
     }
     // Wrap around to end if not found
-    for (let i = editorState.approvals.length - 1; i > startIndex; i--) {
-      if (!editorState.approvals[i]?.approved) {
+    for (let i = approvals.length - 1; i > startIndex; i--) {
+      if (!approvals[i]?.approved) {
         return i;
       }
     }
     return null;
-  }, [editorState.approvals]);
+  }, [approvals, reviewOrder, getUnapprovedIndexByUncertainty]);
 
   return {
     editorState,
-    setEditorState,
+    saveError,
+    segments: currentSegments,
+    approvals,
+    applyAction,
+    undo,
+    redo,
+    jumpTo,
+    canUndo,
+    canRedo,
+    history: { past, future },
     handleApprove,
     handleUnapprove,
     handleApproveAll,
     handleUnapproveAll,
     handleEdit,
-    handleFinalize,
-    handleRevertToDraft,
     approvedCount,
     getNextUnapprovedIndex,
     getPrevUnapprovedIndex,
+    reviewOrder,
+    setReviewOrder,
+    hasUncertaintyScores,
     // Speaker label management
     speakerLabels,
     handleLabelSpeaker,
     getSpeakerDisplayName,
     uniqueSpeakers,
     labeledCount,
+    // Speaker corrections
+    handleMergeSpeakers,
+    handleReassignSpeaker,
+    newSpeakerId,
+    // Segment structure
+    handleSplitSegment,
+    handleMergeWithNext,
+    handleInsertSegment,
+    handleDeleteSegment,
+    handleNudgeTiming,
   };
 }
@@ -0,0 +1,68 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useSession } from 'next-auth/react';
+import type { OrganizationMembership } from '@/lib/organizations/membership';
+import { hasRole, type OrganizationRole } from '@/lib/organizations/roles';
+import { fetchOrganizations, switchOrganization } from '@/lib/organizations/client';
+
+interface UseOrganizationReturn {
+  organizations: OrganizationMembership[];
+  active: OrganizationMembership | null;
+  isLoading: boolean;
+  /** Whether the user's role in the active organization grants the given role */
+  can: (role: OrganizationRole) => boolean;
+  switchTo: (organizationId: string) => Promise<void>;
+  reload: () => Promise<void>;
+}
+
+/**
+ * Hook for the organization the signed-in user is working in.
+ *
+ * Switching reloads the page, since every library view belongs to the
+ * previously active organization.
+ *
+ * @example
+ * const { active, can, switchTo } = useOrganization();
+ *
+ * {can('editor') && <UploadButton />}
+ */
+export function useOrganization(): UseOrganizationReturn {
+  const { status } = useSession();
+  const [organizations, setOrganizations] = useState<OrganizationMembership[]>([]);
+  const [activeId, setActiveId] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const reload = useCallback(async () => {
+    try {
+      const result = await fetchOrganizations();
+      setOrganizations(result.organizations);
+      setActiveId(result.activeOrganizationId);
+    } catch (error) {
+      console.warn('[Organizations] Failed to load organizations:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (status === 'authenticated') {
+      reload();
+    } else if (status === 'unauthenticated') {
+      setIsLoading(false);
+    }
+  }, [status, reload]);
+
+  const active = organizations.find(org => org.organizationId === activeId) ?? null;
+
+  const can = useCallback(
+    (role: OrganizationRole) => !!active && hasRole(active.role, role),
+    [active]
+  );
+
+  const switchTo = useCallback(async (organizationId: string) => {
+    if (organizationId === activeId) return;
+    await switchOrganization(organizationId);
+    window.location.reload();
+  }, [activeId]);
+
+  return { organizations, active, isLoading, can, switchTo, reload };
+}
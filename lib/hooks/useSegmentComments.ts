@@ -0,0 +1,126 @@
+'use client';
+
+import { useCallback, useMemo, useState } from 'react';
+import { useSession } from 'next-auth/react';
+import type { EditorSegment, SavedTranscription, SegmentComment } from '@/lib/transcriptionStorage';
+import { addSegmentComment, removeSegmentComment, setCommentThreadResolved } from '@/lib/library/client';
+import { getCommentThreads, getOpenCommentIndexes, type CommentThread } from '@/lib/editor/comments';
+import { useOrganization } from './useOrganization';
+
+/**
+ * Comment actions passed down to the segment cards
+ */
+export interface SegmentCommentActions {
+  canComment: boolean;
+  /** Whether the user may delete a comment (its author or an owner) */
+  canDelete: (comment: SegmentComment) => boolean;
+  /** Each change resolves to whether it was saved */
+  add: (segmentId: string, text: string, range?: SegmentComment['range']) => Promise<boolean>;
+  reply: (thread: SegmentComment, text: string) => Promise<boolean>;
+  setResolved: (threadId: string, resolved: boolean) => Promise<boolean>;
+  remove: (commentId: string) => Promise<boolean>;
+}
+
+interface UseSegmentCommentsProps {
+  transcription: SavedTranscription;
+  segments: EditorSegment[];
+  onError: (error: unknown) => void;
+}
+
+interface UseSegmentCommentsReturn {
+  /** Threads of each segment, by segment ID */
+  threads: Map<string, CommentThread[]>;
+  /** Number of unresolved threads on current segments */
+  openThreadCount: number;
+  getNextCommentIndex: (currentIndex: number) => number | null;
+  getPrevCommentIndex: (currentIndex: number) => number | null;
+  actions: SegmentCommentActions;
+}
+
+/**
+ * Hook for review comments on the segments of a transcription.
+ *
+ * Comments are saved on the server as they are made, independently of the
+ * editor state, so they can be added to transcriptions that are in review.
+ * Segments with unresolved threads can be stepped through like unapproved ones.
+ */
+export function useSegmentComments({
+  transcription,
+  segments,
+  onError,
+}: UseSegmentCommentsProps): UseSegmentCommentsReturn {
+  const { can } = useOrganization();
+  const { data: session } = useSession();
+  const userId = session?.user?.id;
+  const [comments, setComments] = useState<SegmentComment[]>(transcription.metadata?.comments ?? []);
+
+  const threads = useMemo(() => getCommentThreads(comments), [comments]);
+  const openIndexes = useMemo(() => getOpenCommentIndexes(segments, threads), [segments, threads]);
+
+  const getNextCommentIndex = useCallback(
+    (currentIndex: number) => openIndexes.find(index => index > currentIndex) ?? openIndexes[0] ?? null,
+    [openIndexes]
+  );
+
+  const getPrevCommentIndex = useCallback(
+    (currentIndex: number) =>
+      [...openIndexes].reverse().find(index => index < currentIndex) ?? openIndexes[openIndexes.length - 1] ?? null,
+    [openIndexes]
+  );
+
+  // Runs a server change, reporting failures instead of throwing
+  const run = useCallback(async (change: () => Promise<void>) => {
+    try {
+      await change();
+      return true;
+    } catch (error) {
+      onError(error);
+      return false;
+    }
+  }, [onError]);
+
+  const add = useCallback((segmentId: string, text: string, range?: SegmentComment['range']) => run(async () => {
+    const comment = await addSegmentComment(transcription.id, { segmentId, text, range });
+    setComments(prev => [...prev, comment]);
+  }), [transcription.id, run]);
+
+  const reply = useCallback((thread: SegmentComment, text: string) => run(async () => {
+    const comment = await addSegmentComment(transcription.id, { segmentId: thread.segmentId, parentId: thread.id, text });
+    setComments(prev => [...prev, comment]);
+  }), [transcription.id, run]);
+
+  const setResolved = useCallback((threadId: string, resolved: boolean) => run(async () => {
+    const updated = await setCommentThreadResolved(transcription.id, threadId, resolved);
+    setComments(prev => prev.map(comment => comment.id === threadId ? updated : comment));
+  }), [transcription.id, run]);
+
+  const remove = useCallback((commentId: string) => run(async () => {
+    await removeSegmentComment(transcription.id, commentId);
+    setComments(prev => prev.filter(comment => comment.id !== commentId && comment.parentId !== commentId));
+  }), [transcription.id, run]);
+
+  const canDelete = useCallback(
+    (comment: SegmentComment) => comment.authorId === userId || can('owner'),
+    [userId, can]
+  );
+
+  const actions = useMemo<SegmentCommentActions>(() => ({
+    canComment: can('reviewer'),
+    canDelete,
+    add,
+    reply,
+    setResolved,
+    remove,
+  }), [can, canDelete, add, reply, setResolved, remove]);
+
+  return {
+    threads,
+    openThreadCount: openIndexes.reduce(
+      (count, index) => count + (threads.get(segments[index].id)?.filter(thread => !thread.resolved).length ?? 0),
+      0
+    ),
+    getNextCommentIndex,
+    getPrevCommentIndex,
+    actions,
+  };
+}
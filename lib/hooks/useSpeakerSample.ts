@@ -2,6 +2,7 @@
 
 import { useCallback, useEffect, useRef, useState } from 'react';
 import { TranscriptionSegment } from '@/lib/ai/types';
+import { getBestSampleSegments } from '@/lib/editor/speakerSamples';
 
 interface UseSpeakerSampleProps {
   segments: TranscriptionSegment[];
@@ -37,30 +38,12 @@ export function useSpeakerSample({
   const sampleEndTimeRef = useRef<number>(0);
   const progressIntervalRef = useRef<NodeJS.Timeout | null>(null);
 
-  // Get all segments for a specific speaker
-  const getSpeakerSegments = useCallback(
-    (speakerId: string): TranscriptionSegment[] => {
-      return segments.filter((s) => s.speaker === speakerId);
-    },
-    [segments]
-  );
-
   // Find the best sample segment for a speaker (prefer longer segments)
   const getBestSampleSegment = useCallback(
     (speakerId: string): TranscriptionSegment | null => {
-      const speakerSegments = getSpeakerSegments(speakerId);
-      if (speakerSegments.length === 0) return null;
-
-      // Sort by duration (descending) and pick the longest one up to 10 seconds
-      const sorted = [...speakerSegments].sort((a, b) => {
-        const durationA = a.endTime - a.startTime;
-        const durationB = b.endTime - b.startTime;
-        return durationB - durationA;
-      });
-
-      return sorted[0];
+      return getBestSampleSegments(segments, speakerId)[0] ?? null;
     },
-    [getSpeakerSegments]
+    [segments]
   );
 
   // Stop any currently playing sample
@@ -0,0 +1,70 @@
+'use client';
+
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { SpeakerSuggestion, TranscriptionEditorState } from '@/lib/transcriptionStorage';
+import { fetchSpeakerSuggestions } from '@/lib/library/client';
+import { pickSpeakerSuggestions } from '@/lib/editor/speakerSuggestions';
+import type { EditorAction } from './useEditorHistory';
+
+interface UseSpeakerSuggestionsProps {
+  transcriptionId: string;
+  editorState: TranscriptionEditorState;
+  applyAction: (action: EditorAction, update: (prev: TranscriptionEditorState) => TranscriptionEditorState) => void;
+  onLabelSpeaker: (originalId: string, customName: string) => void;
+}
+
+interface UseSpeakerSuggestionsReturn {
+  /** At most one suggestion per unlabelled speaker */
+  suggestions: SpeakerSuggestion[];
+  acceptSuggestion: (suggestion: SpeakerSuggestion) => void;
+  rejectSuggestion: (suggestion: SpeakerSuggestion) => void;
+}
+
+/**
+ * Hook for speaker labels suggested from the organization roster by voice.
+ * Accepting a suggestion labels the speaker; rejected suggestions are kept in
+ * the editor state so they are not offered again.
+ */
+export function useSpeakerSuggestions({
+  transcriptionId,
+  editorState,
+  applyAction,
+  onLabelSpeaker,
+}: UseSpeakerSuggestionsProps): UseSpeakerSuggestionsReturn {
+  const [candidates, setCandidates] = useState<SpeakerSuggestion[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetchSpeakerSuggestions(transcriptionId).then((result) => {
+      if (!cancelled) setCandidates(result);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [transcriptionId]);
+
+  const suggestions = useMemo(
+    () => pickSpeakerSuggestions(candidates, editorState.speakerLabels || [], editorState.rejectedSpeakerSuggestions),
+    [candidates, editorState.speakerLabels, editorState.rejectedSpeakerSuggestions]
+  );
+
+  const acceptSuggestion = useCallback(
+    (suggestion: SpeakerSuggestion) => onLabelSpeaker(suggestion.originalId, suggestion.customName),
+    [onLabelSpeaker]
+  );
+
+  const rejectSuggestion = useCallback(
+    (suggestion: SpeakerSuggestion) => {
+      applyAction({ type: 'rejectSuggestion', detail: `${suggestion.originalId} ≠ ${suggestion.customName}` }, (prev) => ({
+        ...prev,
+        rejectedSpeakerSuggestions: [
+          ...(prev.rejectedSpeakerSuggestions || []),
+          { originalId: suggestion.originalId, rosterSpeakerId: suggestion.rosterSpeakerId },
+        ],
+      }));
+    },
+    [applyAction]
+  );
+
+  return { suggestions, acceptSuggestion, rejectSuggestion };
+}
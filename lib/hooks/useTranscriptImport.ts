@@ -0,0 +1,62 @@
+import { useCallback, useState } from 'react';
+import type { SavedTranscription } from '@/lib/transcriptionStorage';
+import { importTranscription } from '@/lib/library/client';
+import { parseTranscriptFile } from '@/lib/library/imports';
+import { deleteAudioFile, saveAudioFile } from '@/lib/audioStorage';
+
+interface UseTranscriptImportReturn {
+  isImporting: boolean;
+  errorMsg: string | null;
+  /**
+   * Import a transcript file, optionally with its audio
+   * @returns The new library entry, or null when the import failed
+   */
+  importTranscript: (file: File, audio?: File | null) => Promise<SavedTranscription | null>;
+}
+
+/**
+ * Hook for importing existing transcripts (SRT, WebVTT or transcript data
+ * JSON) into the library.
+ *
+ * The audio, when given, is stored in IndexedDB and linked in the editor
+ * state, as for uploaded recordings, so it plays in the editor.
+ */
+export function useTranscriptImport(): UseTranscriptImportReturn {
+  const [isImporting, setIsImporting] = useState(false);
+  const [errorMsg, setErrorMsg] = useState<string | null>(null);
+
+  const importTranscript = useCallback(async (file: File, audio?: File | null) => {
+    setIsImporting(true);
+    setErrorMsg(null);
+    let audioFileId: string | undefined;
+
+    try {
+      const entry = parseTranscriptFile(await file.text(), file.name);
+
+      if (audio) {
+        audioFileId = await saveAudioFile(audio, undefined, audio.name);
+        entry.metadata = {
+          ...entry.metadata,
+          editorState: {
+            ...(entry.metadata?.editorState ?? { approvals: [], isDraft: true }),
+            audioFileId,
+            audioFileName: audio.name,
+          },
+        };
+      }
+
+      return await importTranscription(entry);
+    } catch (err: unknown) {
+      console.error('Transcript import failed:', err);
+      if (audioFileId) {
+        await deleteAudioFile(audioFileId).catch(() => {});
+      }
+      setErrorMsg(err instanceof Error ? err.message : 'Failed to import transcript.');
+      return null;
+    } finally {
+      setIsImporting(false);
+    }
+  }, []);
+
+  return { isImporting, errorMsg, importTranscript };
+}
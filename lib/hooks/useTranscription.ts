@@ -1,27 +1,73 @@
-import { useState } from 'react';
+import { useCallback, useEffect, useState } from 'react';
 import { AppStatus, TranscriptionResult, UploadConfig } from '@/types';
-import { saveMultiModelTranscriptions, updateTranscriptionEditorState } from '@/lib/transcriptionStorage';
-import { saveAudioFile } from '@/lib/audioStorage';
+import { fetchTranscription, saveEditorState, saveLocalTranscriptions } from '@/lib/library/client';
+import { deleteAudioFile, saveAudioFile } from '@/lib/audioStorage';
+
+/** localStorage key of the job being processed, so it survives closing the tab */
+const ACTIVE_JOB_STORAGE_KEY = 'grecho-active-transcription-job';
+
+/** How often job status is polled */
+const POLL_INTERVAL_MS = 3000;
+
+/**
+ * Job being processed, persisted in localStorage
+ */
+interface ActiveJob {
+  jobId: string;
+  fileName: string;
+  /** Uploaded audio saved to IndexedDB for editor playback */
+  audioFileId?: string;
+}
+
+/**
+ * Progress reported by the job API
+ */
+export interface TranscriptionJobProgress {
+  stage?: string;
+  percent: number;
+}
 
 interface UseTranscriptionReturn {
   status: AppStatus;
   results: TranscriptionResult[] | null;
   errorMsg: string | null;
   currentFileName: string;
+  progress: TranscriptionJobProgress | null;
   handleStartProcessing: (config: UploadConfig) => Promise<void>;
+  cancelProcessing: () => Promise<void>;
   resetApp: () => void;
 }
 
+function loadActiveJob(): ActiveJob | null {
+  try {
+    const stored = localStorage.getItem(ACTIVE_JOB_STORAGE_KEY);
+    return stored ? JSON.parse(stored) : null;
+  } catch {
+    return null;
+  }
+}
+
+function storeActiveJob(job: ActiveJob | null): void {
+  if (job) {
+    localStorage.setItem(ACTIVE_JOB_STORAGE_KEY, JSON.stringify(job));
+  } else {
+    localStorage.removeItem(ACTIVE_JOB_STORAGE_KEY);
+  }
+}
+
 /**
  * Hook for managing the transcription workflow.
  *
  * Handles the complete transcription process including:
  * - File upload or YouTube URL processing
- * - API calls to the transcription endpoint
- * - Saving results to IndexedDB
+ * - Submitting a background job and polling its status
+ * - Caching the library entry saved by the job in IndexedDB
  * - Storing the original audio file for playback in the editor
  * - Error handling and state management
  *
+ * The active job is kept in localStorage, so users can close the tab while a
+ * long recording is processed and pick it up again when they come back.
+ *
  * Supports two modes:
  * 1. File upload: User uploads an audio/video file
  * 2. YouTube URL: User provides a YouTube video URL (when enabled)
@@ -29,19 +75,131 @@ interface UseTranscriptionReturn {
  * @returns Transcription state and handler functions
  *
  * @example
- * const { status, results, handleStartProcessing, resetApp } = useTranscription();
+ * const { status, progress, handleStartProcessing, cancelProcessing, resetApp } = useTranscription();
  *
  * // Start transcription
  * await handleStartProcessing({ mode: 'file', file: audioFile });
  *
- * // Reset to initial state
- * resetApp();
+ * // Cancel the running job
+ * await cancelProcessing();
  */
 export function useTranscription(): UseTranscriptionReturn {
   const [status, setStatus] = useState<AppStatus>(AppStatus.IDLE);
   const [results, setResults] = useState<TranscriptionResult[] | null>(null);
   const [errorMsg, setErrorMsg] = useState<string | null>(null);
   const [currentFileName, setCurrentFileName] = useState<string>('');
+  const [progress, setProgress] = useState<TranscriptionJobProgress | null>(null);
+  const [activeJob, setActiveJob] = useState<ActiveJob | null>(null);
+
+  // Pick up a job that was still running when the tab was closed
+  useEffect(() => {
+    const stored = loadActiveJob();
+    if (stored) {
+      setActiveJob(stored);
+      setCurrentFileName(stored.fileName);
+      setStatus(AppStatus.PROCESSING);
+    }
+  }, []);
+
+  const finishJob = useCallback(() => {
+    storeActiveJob(null);
+    setActiveJob(null);
+    setProgress(null);
+  }, []);
+
+  // Cache the library entry (or save locally) and link the uploaded audio for editor playback
+  const saveJobResults = useCallback(async (
+    job: ActiveJob,
+    jobResults: Parameters<typeof saveLocalTranscriptions>[0],
+    transcriptionId?: string
+  ) => {
+    // The job saves its result to the server library; keep a local copy only if that failed
+    const serverCopy = transcriptionId ? await fetchTranscription(transcriptionId) : null;
+    const savedTranscriptions = serverCopy ? [serverCopy] : await saveLocalTranscriptions(jobResults);
+
+    if (!job.audioFileId) return;
+
+    try {
+      for (const transcription of savedTranscriptions) {
+        await saveEditorState(transcription.id, {
+          approvals: [], // Segments without an approval are unapproved
+          isDraft: true,
+          audioFileId: job.audioFileId,
+          audioFileName: job.fileName,
+          audioDuration: transcription.metadata?.audioDurationSeconds,
+        });
+      }
+    } catch (err) {
+      console.error('Failed to link audio file:', err);
+    }
+  }, []);
+
+  // Poll the active job until it finishes
+  useEffect(() => {
+    if (!activeJob) return;
+
+    let stopped = false;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    const poll = async () => {
+      try {
+        const response = await fetch(`/api/jobs/${activeJob.jobId}`);
+        const data = await response.json();
+        if (stopped) return;
+
+        // The job is gone (expired or not ours) - nothing left to wait for
+        if (response.status === 404) {
+          finishJob();
+          setErrorMsg(data.error || 'Transcription job not found.');
+          setStatus(AppStatus.ERROR);
+          return;
+        }
+
+        if (!response.ok) {
+          throw new Error(data.error || 'Failed to load transcription status.');
+        }
+
+        if (data.status === 'completed') {
+          await saveJobResults(activeJob, data.results, data.transcriptionId);
+          if (stopped) return;
+          finishJob();
+          setResults(data.results);
+          setStatus(AppStatus.COMPLETED);
+          return;
+        }
+
+        if (data.status === 'failed' || data.status === 'cancelled') {
+          if (activeJob.audioFileId) {
+            await deleteAudioFile(activeJob.audioFileId).catch(() => {});
+          }
+          finishJob();
+          if (data.status === 'failed') {
+            setErrorMsg(data.error || 'An unexpected error occurred.');
+            setStatus(AppStatus.ERROR);
+          } else {
+            setStatus(AppStatus.IDLE);
+          }
+          return;
+        }
+
+        setProgress({ stage: data.stage, percent: data.progress ?? 0 });
+      } catch (err: unknown) {
+        // Network hiccups and server errors are retried; the job keeps running server-side
+        console.error('Failed to poll transcription job:', err);
+      }
+
+      if (stopped) return;
+
+      timer = setTimeout(poll, POLL_INTERVAL_MS);
+    };
+
+    poll();
+
+    return () => {
+      stopped = true;
+      clearTimeout(timer);
+    };
+  }, [activeJob, finishJob, saveJobResults]);
 
   const handleStartProcessing = async (config: UploadConfig) => {
     setErrorMsg(null);
@@ -66,7 +224,7 @@ export function useTranscription(): UseTranscriptionReturn {
 
         setResults(data.results);
         setStatus(AppStatus.COMPLETED);
-        await saveMultiModelTranscriptions(data.results);
+        await saveLocalTranscriptions(data.results);
       } catch (err: unknown) {
         console.error('YouTube Processing Error:', err);
         const message = err instanceof Error ? err.message : 'Failed to process YouTube video. Please try again.';
@@ -80,11 +238,23 @@ export function useTranscription(): UseTranscriptionReturn {
     if (config.mode === 'file' && config.file) {
       setStatus(AppStatus.PROCESSING);
       setCurrentFileName(config.file.name);
+      setProgress(null);
+
+      // Save the audio up front so it can be linked even if the tab is closed meanwhile
+      let audioFileId: string | undefined;
+      try {
+        audioFileId = await saveAudioFile(config.file, undefined, config.file.name);
+      } catch (err) {
+        console.error('Failed to save audio file:', err);
+      }
 
       try {
         // Send file to transcription API
         const formData = new FormData();
         formData.append('file', config.file);
+        if (config.language) {
+          formData.append('language', config.language);
+        }
 
         const response = await fetch('/api/transcribe', {
           method: 'POST',
@@ -97,36 +267,14 @@ export function useTranscription(): UseTranscriptionReturn {
           throw new Error(data.error || 'An unexpected error occurred.');
         }
 
-        setResults(data.results);
-        setStatus(AppStatus.COMPLETED);
-
-        // Save transcription results to IndexedDB
-        const savedTranscriptions = await saveMultiModelTranscriptions(data.results);
-
-        // Save audio file to IndexedDB and link it to transcriptions for editor playback
-        if (config.file) {
-          try {
-            const audioFileId = await saveAudioFile(config.file, undefined, config.file.name);
-
-            // Update each transcription with the audio file reference
-            for (const transcription of savedTranscriptions) {
-              await updateTranscriptionEditorState(transcription.id, {
-                approvals: transcription.metadata?.structuredData?.segments.map((_, index) => ({
-                  segmentIndex: index,
-                  approved: false,
-                })) || [],
-                isDraft: true,
-                audioFileId,
-                audioFileName: config.file!.name,
-                audioDuration: transcription.metadata?.audioDurationSeconds,
-              });
-            }
-          } catch (err) {
-            console.error('Failed to save audio file:', err);
-          }
-        }
+        const job: ActiveJob = { jobId: data.jobId, fileName: config.file.name, audioFileId };
+        storeActiveJob(job);
+        setActiveJob(job);
       } catch (err: unknown) {
         console.error(err);
+        if (audioFileId) {
+          await deleteAudioFile(audioFileId).catch(() => {});
+        }
         const message = err instanceof Error ? err.message : 'An unexpected error occurred.';
         setErrorMsg(message);
         setStatus(AppStatus.ERROR);
@@ -134,12 +282,28 @@ export function useTranscription(): UseTranscriptionReturn {
     }
   };
 
+  // Cancel the active job; polling picks up the cancelled status
+  const cancelProcessing = async () => {
+    if (!activeJob) return;
+
+    try {
+      const response = await fetch(`/api/jobs/${activeJob.jobId}`, { method: 'DELETE' });
+      if (!response.ok && response.status !== 409) {
+        const data = await response.json();
+        throw new Error(data.error || 'Failed to cancel transcription.');
+      }
+    } catch (err) {
+      console.error('Failed to cancel job:', err);
+    }
+  };
+
   // Reset app to initial idle state
   const resetApp = () => {
     setStatus(AppStatus.IDLE);
     setResults(null);
     setErrorMsg(null);
     setCurrentFileName('');
+    setProgress(null);
   };
 
   return {
@@ -147,7 +311,9 @@ export function useTranscription(): UseTranscriptionReturn {
     results,
     errorMsg,
     currentFileName,
+    progress,
     handleStartProcessing,
+    cancelProcessing,
     resetApp,
   };
 }
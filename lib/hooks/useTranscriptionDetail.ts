@@ -1,5 +1,6 @@
 import { useState, useEffect } from 'react';
-import { SavedTranscription, getTranscriptionById } from '@/lib/transcriptionStorage';
+import { SavedTranscription } from '@/lib/transcriptionStorage';
+import { fetchTranscription } from '@/lib/library/client';
 
 interface UseTranscriptionDetailReturn {
   transcription: SavedTranscription | null;
@@ -9,7 +10,8 @@ interface UseTranscriptionDetailReturn {
 /**
  * Hook for loading a transcription detail page.
  *
- * Fetches the transcription data for use in the library detail view.
+ * Fetches the transcription from the server library (falling back to the
+ * offline cache) for use in the library detail view.
  *
  * @param id - The ID of the transcription to load
  * @returns Transcription data and loading state
@@ -27,7 +29,7 @@ export function useTranscriptionDetail(id: string): UseTranscriptionDetailReturn
   useEffect(() => {
     const loadData = async () => {
       if (id) {
-        const data = await getTranscriptionById(id);
+        const data = await fetchTranscription(id);
         setTranscription(data);
         setIsLoading(false);
       }
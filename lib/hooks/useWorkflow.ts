@@ -0,0 +1,72 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import type { SavedTranscription } from '@/lib/transcriptionStorage';
+import { transitionWorkflow } from '@/lib/library/client';
+import { fetchSettings } from '@/lib/organizations/client';
+import {
+  DEFAULT_WORKFLOW,
+  getWorkflowTransitions,
+  type TranscriptionWorkflow,
+  type WorkflowStage,
+  type WorkflowState,
+  type WorkflowTransition,
+} from '@/lib/library/workflow';
+import { useOrganization } from './useOrganization';
+
+interface UseWorkflowReturn {
+  workflow: TranscriptionWorkflow;
+  /** Whether the transcription is past draft, so its editor state cannot change */
+  isLocked: boolean;
+  /** Transitions the user's role allows from the current state */
+  transitions: WorkflowTransition[];
+  isTransitioning: boolean;
+  transition: (to: WorkflowState, comment?: string) => Promise<void>;
+}
+
+/**
+ * Hook for the review workflow of a transcription in the editor.
+ *
+ * Loads the organization's workflow stages and offers the transitions the
+ * user's role allows. Transitions are made on the server, which records them.
+ *
+ * @param transcription - The transcription being edited
+ */
+export function useWorkflow(transcription: SavedTranscription): UseWorkflowReturn {
+  const { active, can } = useOrganization();
+  const [workflow, setWorkflow] = useState<TranscriptionWorkflow>(
+    () => transcription.metadata?.workflow ?? {
+      state: transcription.metadata?.editorState?.isDraft === false ? 'reviewed' : 'draft',
+      events: [],
+    }
+  );
+  const [stages, setStages] = useState<WorkflowStage[]>(DEFAULT_WORKFLOW);
+  const [isTransitioning, setIsTransitioning] = useState(false);
+
+  useEffect(() => {
+    if (!active) return;
+    fetchSettings()
+      .then(settings => setStages(settings.workflow ?? DEFAULT_WORKFLOW))
+      .catch(error => console.warn('[Workflow] Failed to load workflow stages:', error));
+  }, [active]);
+
+  const transitions = useMemo(
+    () => getWorkflowTransitions(workflow.state, stages).filter(item => can(item.role)),
+    [workflow.state, stages, can]
+  );
+
+  const transition = useCallback(async (to: WorkflowState, comment?: string) => {
+    setIsTransitioning(true);
+    try {
+      setWorkflow(await transitionWorkflow(transcription.id, to, comment));
+    } finally {
+      setIsTransitioning(false);
+    }
+  }, [transcription.id]);
+
+  return {
+    workflow,
+    isLocked: workflow.state !== 'draft',
+    transitions,
+    isTransitioning,
+    transition,
+  };
+}
@@ -0,0 +1,26 @@
+import { storageConfig } from '../config';
+import { InMemoryTranscriptionJobStore } from './memory';
+import { PrismaTranscriptionJobStore } from './prisma';
+import type { TranscriptionJobStore } from './types';
+
+export * from './types';
+export { InMemoryTranscriptionJobStore } from './memory';
+export { PrismaTranscriptionJobStore } from './prisma';
+
+/**
+ * Create the store selected by storageConfig.jobStore
+ */
+export function createTranscriptionJobStore(): TranscriptionJobStore {
+  return storageConfig.jobStore === 'prisma'
+    ? new PrismaTranscriptionJobStore()
+    : new InMemoryTranscriptionJobStore();
+}
+
+// Keep a single instance across hot reloads so routes and the runner share jobs
+const globalForJobs = globalThis as unknown as {
+  transcriptionJobStore: TranscriptionJobStore | undefined
+};
+
+export const transcriptionJobStore = globalForJobs.transcriptionJobStore ?? createTranscriptionJobStore();
+
+if (process.env.NODE_ENV !== 'production') globalForJobs.transcriptionJobStore = transcriptionJobStore;
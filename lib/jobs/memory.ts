@@ -0,0 +1,104 @@
+/**
+ * In-memory storage for transcription jobs
+ *
+ * Process-local and lost on restart - use it for tests and single-instance
+ * development. Production should use PrismaTranscriptionJobStore.
+ */
+
+import { randomUUID } from 'crypto';
+import type { TranscriberResult } from '../transcriber';
+import {
+  isJobActive,
+  type CreateTranscriptionJobInput,
+  type TranscriptionJob,
+  type TranscriptionJobStore,
+} from './types';
+
+export class InMemoryTranscriptionJobStore implements TranscriptionJobStore {
+  private jobs: Map<string, TranscriptionJob> = new Map();
+
+  async create(input: CreateTranscriptionJobInput): Promise<TranscriptionJob> {
+    const now = Date.now();
+    const job: TranscriptionJob = {
+      id: randomUUID(),
+      ...input,
+      status: 'queued',
+      progress: 0,
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.jobs.set(job.id, job);
+    return { ...job };
+  }
+
+  async get(id: string): Promise<TranscriptionJob | undefined> {
+    const job = this.jobs.get(id);
+    return job ? { ...job } : undefined;
+  }
+
+  async updateProgress(id: string, progress: number, stage: string): Promise<void> {
+    this.update(id, { status: 'processing', progress, stage });
+  }
+
+  async complete(id: string, result: TranscriberResult, transcriptionId?: string): Promise<void> {
+    this.update(id, { status: 'completed', progress: 100, result, transcriptionId, completedAt: Date.now() });
+  }
+
+  async fail(id: string, error: string): Promise<void> {
+    this.update(id, { status: 'failed', error, completedAt: Date.now() });
+  }
+
+  async cancel(id: string): Promise<boolean> {
+    return this.update(id, { status: 'cancelled', completedAt: Date.now() });
+  }
+
+  async claim(id: string, owner: string, leaseMs: number): Promise<boolean> {
+    const job = this.jobs.get(id);
+    const now = Date.now();
+    if (!job || !isJobActive(job)) {
+      return false;
+    }
+    if (job.leaseOwner !== owner && job.leaseExpiresAt !== undefined && job.leaseExpiresAt >= now) {
+      return false;
+    }
+
+    job.leaseOwner = owner;
+    job.leaseExpiresAt = now + leaseMs;
+    return true;
+  }
+
+  async listActive(): Promise<TranscriptionJob[]> {
+    return [...this.jobs.values()]
+      .filter(isJobActive)
+      .sort((a, b) => a.createdAt - b.createdAt)
+      .map(job => ({ ...job }));
+  }
+
+  async purgeExpired(maxAgeMs: number): Promise<number> {
+    const cutoff = Date.now() - maxAgeMs;
+    let removed = 0;
+
+    for (const [id, job] of this.jobs.entries()) {
+      if (job.completedAt !== undefined && job.completedAt < cutoff) {
+        this.jobs.delete(id);
+        removed++;
+      }
+    }
+
+    return removed;
+  }
+
+  /**
+   * Apply changes to an active job
+   * @returns Whether the job was found and still active
+   */
+  private update(id: string, changes: Partial<TranscriptionJob>): boolean {
+    const job = this.jobs.get(id);
+    if (!job || !isJobActive(job)) {
+      return false;
+    }
+
+    Object.assign(job, changes, { updatedAt: Date.now() });
+    return true;
+  }
+}
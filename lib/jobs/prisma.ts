@@ -0,0 +1,125 @@
+/**
+ * Postgres-backed storage for transcription jobs
+ *
+ * Lets users close the tab and come back later, and keeps job status
+ * visible to every app instance.
+ */
+
+import type { Prisma, TranscriptionJob as TranscriptionJobRow } from '@prisma/client';
+import { prisma } from '../prisma';
+import type { TranscriberResult } from '../transcriber';
+import type {
+  CreateTranscriptionJobInput,
+  TranscriptionJob,
+  TranscriptionJobStatus,
+  TranscriptionJobStore,
+} from './types';
+
+const ACTIVE_STATUSES: TranscriptionJobStatus[] = ['queued', 'processing'];
+
+function toTranscriptionJob(row: TranscriptionJobRow): TranscriptionJob {
+  return {
+    id: row.id,
+    userId: row.userId,
+    // Jobs from before organizations are moved into the personal organization on first sign-in
+    organizationId: row.organizationId ?? '',
+    status: row.status as TranscriptionJobStatus,
+    progress: row.progress,
+    stage: row.stage ?? undefined,
+    fileName: row.fileName,
+    mimeType: row.mimeType,
+    pipelineMode: row.pipelineMode ?? undefined,
+    language: row.language ?? undefined,
+    uploadPath: row.uploadPath ?? undefined,
+    result: (row.result as unknown as TranscriberResult | null) ?? undefined,
+    transcriptionId: row.transcriptionId ?? undefined,
+    error: row.error ?? undefined,
+    createdAt: row.createdAt.getTime(),
+    updatedAt: row.updatedAt.getTime(),
+    completedAt: row.completedAt?.getTime(),
+    leaseOwner: row.leaseOwner ?? undefined,
+    leaseExpiresAt: row.leaseExpiresAt?.getTime(),
+  };
+}
+
+export class PrismaTranscriptionJobStore implements TranscriptionJobStore {
+  async create(input: CreateTranscriptionJobInput): Promise<TranscriptionJob> {
+    const row = await prisma.transcriptionJob.create({ data: input });
+    return toTranscriptionJob(row);
+  }
+
+  async get(id: string): Promise<TranscriptionJob | undefined> {
+    const row = await prisma.transcriptionJob.findUnique({ where: { id } });
+    return row ? toTranscriptionJob(row) : undefined;
+  }
+
+  async updateProgress(id: string, progress: number, stage: string): Promise<void> {
+    await this.updateActive(id, { status: 'processing', progress, stage });
+  }
+
+  async complete(id: string, result: TranscriberResult, transcriptionId?: string): Promise<void> {
+    await this.updateActive(id, {
+      status: 'completed',
+      progress: 100,
+      result: result as unknown as Prisma.InputJsonValue,
+      transcriptionId,
+      completedAt: new Date(),
+    });
+  }
+
+  async fail(id: string, error: string): Promise<void> {
+    await this.updateActive(id, { status: 'failed', error, completedAt: new Date() });
+  }
+
+  async cancel(id: string): Promise<boolean> {
+    return this.updateActive(id, { status: 'cancelled', completedAt: new Date() });
+  }
+
+  async claim(id: string, owner: string, leaseMs: number): Promise<boolean> {
+    const now = new Date();
+    // A single conditional update, so two instances cannot both win an expired lease
+    const { count } = await prisma.transcriptionJob.updateMany({
+      where: {
+        id,
+        status: { in: ACTIVE_STATUSES },
+        OR: [
+          { leaseExpiresAt: null },
+          { leaseExpiresAt: { lt: now } },
+          { leaseOwner: owner },
+        ],
+      },
+      data: { leaseOwner: owner, leaseExpiresAt: new Date(now.getTime() + leaseMs) },
+    });
+    return count > 0;
+  }
+
+  async listActive(): Promise<TranscriptionJob[]> {
+    const rows = await prisma.transcriptionJob.findMany({
+      where: { status: { in: ACTIVE_STATUSES } },
+      orderBy: { createdAt: 'asc' },
+    });
+    return rows.map(toTranscriptionJob);
+  }
+
+  async purgeExpired(maxAgeMs: number): Promise<number> {
+    const { count } = await prisma.transcriptionJob.deleteMany({
+      where: {
+        status: { notIn: ACTIVE_STATUSES },
+        completedAt: { lt: new Date(Date.now() - maxAgeMs) },
+      },
+    });
+    return count;
+  }
+
+  /**
+   * Update a job only while it is still active
+   * @returns Whether a row was updated
+   */
+  private async updateActive(id: string, data: Prisma.TranscriptionJobUpdateManyMutationInput): Promise<boolean> {
+    const { count } = await prisma.transcriptionJob.updateMany({
+      where: { id, status: { in: ACTIVE_STATUSES } },
+      data,
+    });
+    return count > 0;
+  }
+}
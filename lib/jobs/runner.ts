@@ -0,0 +1,260 @@
+/**
+ * Background runner for transcription jobs
+ *
+ * POST /api/transcribe saves the upload to disk, creates a job and returns
+ * immediately; the job runs in this process and reports progress to the job
+ * store, where GET /api/jobs/:id reads it. Uploads stay on disk until the job
+ * finishes, so jobs interrupted by a restart are resumed by resumeActiveJobs().
+ *
+ * Each instance claims the jobs it runs with a lease that it renews while the
+ * job runs. Jobs are only started or resumed after a successful claim, so two
+ * instances never run the same job, and a job whose instance died is taken
+ * over once its lease runs out.
+ */
+
+import { createWriteStream } from 'fs';
+import { access, mkdir, readFile, rm } from 'fs/promises';
+import { randomUUID } from 'crypto';
+import path from 'path';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import type { ReadableStream as NodeReadableStream } from 'stream/web';
+import type { TranscriptionProgress } from '../ai/types';
+import { storageConfig } from '../config';
+import { createTranscription, type TranscriptionScope } from '../library/repository';
+import { getOrganizationSettings } from '../organizations/settings';
+import { saveVoiceprints } from '../organizations/roster';
+import { extractSpeakerVoiceprints } from '../audio/voiceprint';
+import { Transcriber, type TranscriberResult } from '../transcriber';
+import { transcriptionJobStore } from './index';
+import { isJobActive, type TranscriptionJob } from './types';
+
+/** Minimum time between two progress writes for the same job */
+const PROGRESS_WRITE_INTERVAL_MS = 1000;
+
+// Always shared through globalThis: route handlers and instrumentation can be
+// bundled separately and must still see the same running jobs
+const globalForRunner = globalThis as unknown as {
+  runningTranscriptionJobs: Map<string, AbortController> | undefined
+  transcriptionJobInstanceId: string | undefined
+};
+
+const runningJobs = globalForRunner.runningTranscriptionJobs ?? new Map<string, AbortController>();
+globalForRunner.runningTranscriptionJobs = runningJobs;
+
+/** Lease owner for the jobs run by this process */
+const instanceId = globalForRunner.transcriptionJobInstanceId ?? randomUUID();
+globalForRunner.transcriptionJobInstanceId = instanceId;
+
+/**
+ * Claim a job for this process, or renew the claim
+ * @returns Whether this process holds the job's lease
+ */
+function claimJob(id: string): Promise<boolean> {
+  return transcriptionJobStore.claim(id, instanceId, storageConfig.jobLeaseMs);
+}
+
+/**
+ * Save an upload and start transcribing it in the background
+ * @param pipelineMode - Mode to transcribe with, defaults to PIPELINE_MODE
+ * @param language - Spoken language or 'auto', defaults to TRANSCRIPTION_LANGUAGE
+ * @returns The queued job
+ */
+export async function enqueueTranscriptionJob(
+  scope: TranscriptionScope,
+  file: File,
+  pipelineMode?: string,
+  language?: string
+): Promise<TranscriptionJob> {
+  await mkdir(storageConfig.jobUploadDir, { recursive: true });
+
+  const uploadPath = path.join(storageConfig.jobUploadDir, `${randomUUID()}${path.extname(file.name)}`);
+  await pipeline(
+    Readable.fromWeb(file.stream() as unknown as NodeReadableStream),
+    createWriteStream(uploadPath)
+  );
+
+  const job = await transcriptionJobStore.create({
+    ...scope,
+    fileName: file.name,
+    mimeType: file.type,
+    pipelineMode,
+    language,
+    uploadPath,
+  });
+
+  console.log(`[Jobs] Queued ${job.id} (${file.name})`);
+  if (await claimJob(job.id)) {
+    void runJob(job);
+  }
+
+  transcriptionJobStore.purgeExpired(storageConfig.jobTtlMs).catch(error => {
+    console.warn('[Jobs] Failed to purge expired jobs:', error);
+  });
+
+  return job;
+}
+
+/**
+ * Cancel a job and stop its run if it is executing in this process
+ * Runs on other instances notice the cancellation on their next status check
+ * @returns Whether the job was still active
+ */
+export async function cancelTranscriptionJob(id: string): Promise<boolean> {
+  const cancelled = await transcriptionJobStore.cancel(id);
+  runningJobs.get(id)?.abort();
+  return cancelled;
+}
+
+/**
+ * Resume queued and processing jobs that this process manages to claim
+ * Jobs leased by a live instance are skipped. Called on server start and
+ * periodically afterwards, to take over jobs of instances that died (see
+ * instrumentation.ts)
+ */
+export async function resumeActiveJobs(): Promise<void> {
+  const jobs = await transcriptionJobStore.listActive();
+
+  for (const job of jobs) {
+    if (runningJobs.has(job.id)) continue;
+    if (!await claimJob(job.id)) continue;
+
+    const uploadAvailable = !!job.uploadPath && await access(job.uploadPath).then(() => true, () => false);
+    if (!uploadAvailable) {
+      console.warn(`[Jobs] Upload for ${job.id} is gone, failing job`);
+      await transcriptionJobStore.fail(job.id, 'The uploaded file is no longer available. Please upload it again.');
+      continue;
+    }
+
+    console.log(`[Jobs] Resuming ${job.id} (${job.fileName})`);
+    void runJob(job);
+  }
+}
+
+/**
+ * Store voiceprints of the diarized speakers for roster suggestions
+ * Needs the upload, which is removed once the job finishes; failures (e.g. no
+ * ffmpeg) only mean no speaker suggestions for this transcription
+ */
+async function saveSpeakerVoiceprints(
+  job: TranscriptionJob,
+  transcriptionId: string,
+  result: TranscriberResult
+): Promise<void> {
+  const segments = result.metadata.structuredData?.segments ?? [];
+  if (segments.length === 0) return;
+
+  try {
+    await saveVoiceprints(transcriptionId, await extractSpeakerVoiceprints(job.uploadPath!, segments));
+  } catch (error) {
+    console.warn(`[Jobs] No voiceprints for ${job.id}:`, error);
+  }
+}
+
+/**
+ * Save a job's result to the organization's library
+ * The job still completes when this fails - the browser then keeps a local copy
+ * @returns ID of the library entry
+ */
+async function saveToLibrary(job: TranscriptionJob, result: TranscriberResult): Promise<string | undefined> {
+  try {
+    const saved = await createTranscription({ organizationId: job.organizationId, userId: job.userId }, {
+      fileName: result.fileName,
+      text: result.text,
+      provider: result.metadata.provider,
+      metadata: result.metadata,
+    });
+    return saved.id;
+  } catch (error) {
+    console.error(`[Jobs] Failed to save ${job.id} to the library:`, error);
+    return undefined;
+  }
+}
+
+/**
+ * Run a job to completion, recording the outcome in the job store
+ * Never throws - failures are stored on the job
+ */
+async function runJob(job: TranscriptionJob): Promise<void> {
+  const controller = new AbortController();
+  runningJobs.set(job.id, controller);
+
+  // Cancellation may come from another instance through the store. The same
+  // check renews the lease; losing it means another instance took the job over
+  const cancelCheck = setInterval(async () => {
+    const current = await transcriptionJobStore.get(job.id).catch(() => undefined);
+    if (current?.status === 'cancelled') {
+      controller.abort();
+      return;
+    }
+
+    const leased = await claimJob(job.id).catch(() => true);
+    if (!leased && !controller.signal.aborted) {
+      console.warn(`[Jobs] Lost the lease on ${job.id}, stopping`);
+      controller.abort();
+    }
+  }, storageConfig.jobCancelCheckIntervalMs);
+
+  let lastStage: string | undefined;
+  let lastWriteAt = 0;
+  const onProgress = ({ stage, percent }: TranscriptionProgress) => {
+    const now = Date.now();
+    if (stage === lastStage && now - lastWriteAt < PROGRESS_WRITE_INTERVAL_MS) return;
+
+    lastStage = stage;
+    lastWriteAt = now;
+    transcriptionJobStore.updateProgress(job.id, percent, stage).catch(error => {
+      console.warn(`[Jobs] Failed to record progress for ${job.id}:`, error);
+    });
+  };
+
+  try {
+    const buffer = await readFile(job.uploadPath!);
+    // Read when the job runs, so glossary changes apply to queued jobs too
+    const { glossary } = await getOrganizationSettings(job.organizationId);
+    const result = await new Transcriber().transcribe(
+      {
+        buffer: buffer.buffer.slice(buffer.byteOffset, buffer.byteOffset + buffer.byteLength) as ArrayBuffer,
+        mimeType: job.mimeType,
+        fileName: job.fileName,
+      },
+      { mode: job.pipelineMode, language: job.language, glossary, jobId: job.id, signal: controller.signal, onProgress }
+    );
+
+    // Cancelled, or taken over by another instance after this one lost the lease
+    if (controller.signal.aborted) {
+      console.log(`[Jobs] Stopped ${job.id}`);
+      return;
+    }
+
+    const transcriptionId = await saveToLibrary(job, result);
+
+    if (transcriptionId) {
+      await saveSpeakerVoiceprints(job, transcriptionId, result);
+    }
+
+    await transcriptionJobStore.complete(job.id, result, transcriptionId);
+    console.log(`[Jobs] Completed ${job.id}`);
+  } catch (error) {
+    if (controller.signal.aborted) {
+      console.log(`[Jobs] Stopped ${job.id}`);
+    } else {
+      console.error(`[Jobs] Failed ${job.id}:`, error);
+      const message = error instanceof Error ? error.message : 'Failed to process the media file.';
+      await transcriptionJobStore.fail(job.id, message).catch(storeError => {
+        console.error(`[Jobs] Failed to record failure for ${job.id}:`, storeError);
+      });
+    }
+  } finally {
+    clearInterval(cancelCheck);
+    runningJobs.delete(job.id);
+
+    // Keep the upload while the job is still active (e.g. the store was unreachable)
+    const current = await transcriptionJobStore.get(job.id).catch(() => undefined);
+    if (current && !isJobActive(current)) {
+      await rm(job.uploadPath!, { force: true }).catch(() => {
+        // Ignore cleanup errors
+      });
+    }
+  }
+}
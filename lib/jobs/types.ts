@@ -0,0 +1,112 @@
+/**
+ * Types for background transcription jobs
+ */
+
+import type { TranscriberResult } from '../transcriber';
+
+export type TranscriptionJobStatus = 'queued' | 'processing' | 'completed' | 'failed' | 'cancelled';
+
+export interface TranscriptionJob {
+  id: string;
+  userId: string;
+  organizationId: string;
+  status: TranscriptionJobStatus;
+  /** Completion of the current stage (0-100) */
+  progress: number;
+  stage?: string;
+  fileName: string;
+  mimeType: string;
+  /** Pipeline mode resolved when the job was submitted, so resumed runs use the same one */
+  pipelineMode?: string;
+  /** Spoken language (ISO-639-1) or 'auto', resolved when the job was submitted */
+  language?: string;
+  /** Uploaded file on disk, removed once the job finishes */
+  uploadPath?: string;
+  result?: TranscriberResult;
+  /** Library entry created from the result */
+  transcriptionId?: string;
+  error?: string;
+  createdAt: number;
+  updatedAt: number;
+  completedAt?: number;
+  /** Instance currently running the job */
+  leaseOwner?: string;
+  /** When the lease of leaseOwner runs out */
+  leaseExpiresAt?: number;
+}
+
+export interface CreateTranscriptionJobInput {
+  userId: string;
+  organizationId: string;
+  fileName: string;
+  mimeType: string;
+  pipelineMode?: string;
+  language?: string;
+  uploadPath: string;
+}
+
+/**
+ * Check whether a job can still make progress
+ */
+export function isJobActive(job: Pick<TranscriptionJob, 'status'>): boolean {
+  return job.status === 'queued' || job.status === 'processing';
+}
+
+/**
+ * Storage for transcription jobs
+ *
+ * Updates to a finished job (completed, failed or cancelled) are ignored, so a
+ * run that finishes after its job was cancelled cannot overwrite the status.
+ */
+export interface TranscriptionJobStore {
+  /**
+   * Create a queued job
+   */
+  create(input: CreateTranscriptionJobInput): Promise<TranscriptionJob>;
+
+  /**
+   * Get job by ID
+   */
+  get(id: string): Promise<TranscriptionJob | undefined>;
+
+  /**
+   * Mark the job as processing and record its progress
+   */
+  updateProgress(id: string, progress: number, stage: string): Promise<void>;
+
+  /**
+   * Store the result of a finished run and the library entry created from it
+   */
+  complete(id: string, result: TranscriberResult, transcriptionId?: string): Promise<void>;
+
+  /**
+   * Store failed job
+   */
+  fail(id: string, error: string): Promise<void>;
+
+  /**
+   * Cancel an active job
+   * @returns Whether the job was still active
+   */
+  cancel(id: string): Promise<boolean>;
+
+  /**
+   * Claim an active job for an instance, or renew the instance's claim
+   * Succeeds only while the job is unclaimed, its lease has expired or the
+   * instance already holds it, so at most one instance runs each job
+   * @returns Whether the instance now holds the lease
+   */
+  claim(id: string, owner: string, leaseMs: number): Promise<boolean>;
+
+  /**
+   * List queued and processing jobs, oldest first
+   * Used to resume jobs after a restart
+   */
+  listActive(): Promise<TranscriptionJob[]>;
+
+  /**
+   * Remove finished jobs older than the given age
+   * @returns Number of removed jobs
+   */
+  purgeExpired(maxAgeMs: number): Promise<number>;
+}
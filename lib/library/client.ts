@@ -0,0 +1,461 @@
+/**
+ * Browser access to the server-side transcription library
+ *
+ * The server (/api/transcriptions) is the source of truth. IndexedDB keeps a
+ * copy of every opened transcription so the library and editor keep working
+ * offline; changes made offline are marked unsynced (no syncedAt) and pushed
+ * by syncLocalTranscriptions() once the server is reachable again.
+ *
+ * Cached copies record the organization they belong to, and only those of the
+ * active organization are listed, cleared or synced.
+ */
+
+import {
+  SavedTranscription,
+  SegmentComment,
+  SpeakerSuggestion,
+  TranscriptionEditorState,
+  TranscriptionListItem,
+  TranscriptionTranslation,
+  clearAllTranscriptions,
+  deleteTranscription,
+  getSavedTranscriptions,
+  getTranscriptionById,
+  getTranscriptionList,
+  putTranscription,
+  saveMultiModelTranscriptions,
+} from '../transcriptionStorage';
+import { fetchActiveOrganizationId } from '../organizations/client';
+import type { TranscriptionWorkflow, WorkflowState } from './workflow';
+
+export interface TranscriptionListPage {
+  items: TranscriptionListItem[];
+  nextCursor: string | null;
+  total: number;
+}
+
+/**
+ * Read the JSON body of a failed response as an Error
+ */
+async function toError(response: Response, fallback: string): Promise<Error> {
+  const data = await response.json().catch(() => ({}));
+  return new Error(data.error || `${fallback} (${response.status})`);
+}
+
+/**
+ * Whether a request failed because the server could not be reached
+ * fetch rejects with a TypeError only for network failures; responses with an
+ * error status are turned into plain Errors by toError.
+ */
+function isNetworkError(error: unknown): boolean {
+  return error instanceof TypeError;
+}
+
+/**
+ * Whether a cached copy may be used in the active organization
+ * Copies from before organizations are only used while the active one is unknown
+ */
+function belongsTo(transcription: SavedTranscription, organizationId: string | null): boolean {
+  return !organizationId || transcription.organizationId === organizationId;
+}
+
+/**
+ * Store a server copy in the offline cache
+ * The server only returns transcriptions of the active organization
+ */
+async function cacheTranscription(transcription: SavedTranscription): Promise<SavedTranscription> {
+  const organizationId = await fetchActiveOrganizationId();
+  const cached = { ...transcription, syncedAt: Date.now(), ...(organizationId ? { organizationId } : {}) };
+  await putTranscription(cached).catch(error => {
+    console.warn('[Library] Failed to cache transcription:', error);
+  });
+  return cached;
+}
+
+/**
+ * Push a locally stored transcription to the server
+ * Updates the editor state of an existing entry (the only thing changed
+ * offline, and all a reviewer may change), or creates the entry when the
+ * server does not have it yet
+ */
+async function pushTranscription(transcription: SavedTranscription): Promise<void> {
+  const response = await fetch(`/api/transcriptions/${transcription.id}`, {
+    method: 'PATCH',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ editorState: transcription.metadata?.editorState }),
+  });
+
+  if (response.status === 404) {
+    const created = await fetch('/api/transcriptions', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        id: transcription.id,
+        fileName: transcription.fileName,
+        text: transcription.text,
+        provider: transcription.provider,
+        timestamp: transcription.timestamp,
+        metadata: transcription.metadata,
+      }),
+    });
+    if (!created.ok) throw await toError(created, 'Failed to upload transcription');
+  } else if (!response.ok) {
+    throw await toError(response, 'Failed to sync transcription');
+  }
+
+  await putTranscription({ ...transcription, syncedAt: Date.now() });
+}
+
+/**
+ * Get a page of the library, newest first
+ * Falls back to the offline cache when the server cannot be reached (offline,
+ * the workflow filter only applies within the page)
+ * @throws Error when the server responds with an error
+ * @param workflowState - Only list transcriptions in this workflow state
+ */
+export async function fetchTranscriptionList(
+  cursor?: string,
+  limit: number = 20,
+  workflowState?: WorkflowState
+): Promise<TranscriptionListPage> {
+  try {
+    const params = new URLSearchParams({ limit: String(limit) });
+    if (cursor) params.set('cursor', cursor);
+    if (workflowState) params.set('state', workflowState);
+
+    const response = await fetch(`/api/transcriptions?${params}`);
+    if (!response.ok) throw await toError(response, 'Failed to load transcriptions');
+
+    return await response.json();
+  } catch (error) {
+    // Errors from the server (e.g. signed out or missing role) are not shown as an offline list
+    if (!isNetworkError(error)) throw error;
+
+    console.warn('[Library] Server unavailable, listing offline cache:', error);
+    const organizationId = await fetchActiveOrganizationId();
+    const page = await getTranscriptionList(cursor, limit, organizationId ?? undefined);
+    return workflowState
+      ? { ...page, items: page.items.filter(item => (item.workflowState ?? 'draft') === workflowState) }
+      : page;
+  }
+}
+
+/**
+ * Get a full transcription and refresh its cached copy
+ * Local changes that have not reached the server yet win over the server copy
+ * while the server cannot be reached; once the server rejects them (e.g. the
+ * transcription left draft meanwhile) the server copy replaces them.
+ */
+export async function fetchTranscription(id: string): Promise<SavedTranscription | null> {
+  const organizationId = await fetchActiveOrganizationId();
+  const cached = await getTranscriptionById(id).catch(() => null);
+  // Copies of another organization are neither pushed to nor shown in this one
+  const local = cached && belongsTo(cached, organizationId) ? cached : null;
+
+  if (local && !local.syncedAt) {
+    try {
+      await pushTranscription(local);
+      return local;
+    } catch (error) {
+      if (isNetworkError(error)) {
+        console.warn('[Library] Could not sync local changes yet:', error);
+        return local;
+      }
+      console.warn('[Library] Server rejected local changes, loading the server copy:', error);
+    }
+  }
+
+  try {
+    const response = await fetch(`/api/transcriptions/${id}`);
+    if (response.status === 404) return null;
+    if (!response.ok) throw await toError(response, 'Failed to load transcription');
+
+    return await cacheTranscription(await response.json());
+  } catch (error) {
+    console.warn('[Library] Server unavailable, using offline cache:', error);
+    return local;
+  }
+}
+
+/**
+ * Save editor state to the server and the offline cache
+ * When the server cannot be reached, or does not have the transcription yet
+ * (saved locally only), the cached copy is marked unsynced.
+ * @throws Error when the server rejects the change (e.g. missing role, or the
+ * transcription is past draft); the cached copy is left unchanged
+ */
+export async function saveEditorState(id: string, editorState: TranscriptionEditorState): Promise<void> {
+  let synced = false;
+
+  const response = await fetch(`/api/transcriptions/${id}`, {
+    method: 'PATCH',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ editorState }),
+  }).catch(error => {
+    console.warn('[Library] Editor state saved offline only:', error);
+    return null;
+  });
+
+  if (response?.ok) {
+    synced = true;
+  } else if (response && response.status !== 404) {
+    throw await toError(response, 'Failed to save editor state');
+  }
+
+  const local = await getTranscriptionById(id).catch(() => null);
+  if (local) {
+    await putTranscription({
+      ...local,
+      metadata: { ...local.metadata, editorState },
+      syncedAt: synced ? Date.now() : undefined,
+    });
+  }
+}
+
+/**
+ * Replace the translations in the cached copy of a transcription
+ */
+async function updateCachedTranslations(
+  id: string,
+  update: (translations: TranscriptionTranslation[]) => TranscriptionTranslation[]
+): Promise<void> {
+  const local = await getTranscriptionById(id).catch(() => null);
+  if (local) {
+    await putTranscription({
+      ...local,
+      metadata: { ...local.metadata, translations: update(local.metadata?.translations ?? []) },
+    });
+  }
+}
+
+/**
+ * Translate a transcription on the server (needs a connection)
+ * @returns The new translation, which replaces an earlier one in the same language
+ */
+export async function translateTranscription(id: string, language: string): Promise<TranscriptionTranslation> {
+  const response = await fetch(`/api/transcriptions/${id}/translations`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ language }),
+  });
+  if (!response.ok) throw await toError(response, 'Failed to translate transcription');
+
+  const translation: TranscriptionTranslation = await response.json();
+  await updateCachedTranslations(id, translations => [
+    ...translations.filter(existing => existing.language !== language),
+    translation,
+  ]);
+  return translation;
+}
+
+/**
+ * Delete the translation of a transcription into one language
+ */
+export async function removeTranslation(id: string, language: string): Promise<void> {
+  const response = await fetch(`/api/transcriptions/${id}/translations?language=${encodeURIComponent(language)}`, {
+    method: 'DELETE',
+  });
+  if (!response.ok && response.status !== 404) {
+    throw await toError(response, 'Failed to delete translation');
+  }
+
+  await updateCachedTranslations(id, translations =>
+    translations.filter(existing => existing.language !== language)
+  );
+}
+
+/**
+ * Move a transcription to another workflow state (needs a connection)
+ * @param comment - Why the transcription is sent back (required when sending back)
+ * @returns The updated workflow
+ */
+export async function transitionWorkflow(
+  id: string,
+  to: WorkflowState,
+  comment?: string
+): Promise<TranscriptionWorkflow> {
+  const response = await fetch(`/api/transcriptions/${id}/workflow`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ to, comment }),
+  });
+  if (!response.ok) throw await toError(response, 'Failed to change workflow state');
+
+  const workflow: TranscriptionWorkflow = await response.json();
+  const local = await getTranscriptionById(id).catch(() => null);
+  if (local) {
+    await putTranscription({ ...local, metadata: { ...local.metadata, workflow } });
+  }
+  return workflow;
+}
+
+/**
+ * Replace the review comments in the cached copy of a transcription
+ */
+async function updateCachedComments(
+  id: string,
+  update: (comments: SegmentComment[]) => SegmentComment[]
+): Promise<void> {
+  const local = await getTranscriptionById(id).catch(() => null);
+  if (local) {
+    await putTranscription({
+      ...local,
+      metadata: { ...local.metadata, comments: update(local.metadata?.comments ?? []) },
+    });
+  }
+}
+
+/**
+ * Comment on a segment, or reply to a thread when parentId is set (needs a connection)
+ */
+export async function addSegmentComment(
+  id: string,
+  comment: Pick<SegmentComment, 'segmentId' | 'parentId' | 'text' | 'range'>
+): Promise<SegmentComment> {
+  const response = await fetch(`/api/transcriptions/${id}/comments`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(comment),
+  });
+  if (!response.ok) throw await toError(response, 'Failed to add comment');
+
+  const created: SegmentComment = await response.json();
+  await updateCachedComments(id, comments => [...comments, created]);
+  return created;
+}
+
+/**
+ * Resolve or reopen the thread a comment starts
+ * @returns The updated first comment of the thread
+ */
+export async function setCommentThreadResolved(
+  id: string,
+  commentId: string,
+  resolved: boolean
+): Promise<SegmentComment> {
+  const response = await fetch(`/api/transcriptions/${id}/comments/${commentId}`, {
+    method: 'PATCH',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ resolved }),
+  });
+  if (!response.ok) throw await toError(response, 'Failed to update comment');
+
+  const updated: SegmentComment = await response.json();
+  await updateCachedComments(id, comments =>
+    comments.map(comment => comment.id === commentId ? updated : comment)
+  );
+  return updated;
+}
+
+/**
+ * Delete a review comment, with its replies when it starts a thread
+ */
+export async function removeSegmentComment(id: string, commentId: string): Promise<void> {
+  const response = await fetch(`/api/transcriptions/${id}/comments/${commentId}`, { method: 'DELETE' });
+  if (!response.ok && response.status !== 404) {
+    throw await toError(response, 'Failed to delete comment');
+  }
+
+  await updateCachedComments(id, comments =>
+    comments.filter(comment => comment.id !== commentId && comment.parentId !== commentId)
+  );
+}
+
+/**
+ * Get roster speakers whose voice matches the transcription's speakers, best first
+ * Returns no suggestions when offline
+ */
+export async function fetchSpeakerSuggestions(id: string): Promise<SpeakerSuggestion[]> {
+  const response = await fetch(`/api/transcriptions/${id}/speaker-suggestions`).catch(() => null);
+  if (!response?.ok) return [];
+  return (await response.json()).suggestions;
+}
+
+/**
+ * Delete a transcription from the server and the offline cache
+ */
+export async function removeTranscription(id: string): Promise<void> {
+  const response = await fetch(`/api/transcriptions/${id}`, { method: 'DELETE' });
+  if (!response.ok && response.status !== 404) {
+    throw await toError(response, 'Failed to delete transcription');
+  }
+
+  await deleteTranscription(id);
+}
+
+/**
+ * Delete every transcription of the active organization, on the server and in
+ * the offline cache
+ */
+export async function removeAllTranscriptions(): Promise<void> {
+  const response = await fetch('/api/transcriptions', { method: 'DELETE' });
+  if (!response.ok) {
+    throw await toError(response, 'Failed to delete transcriptions');
+  }
+
+  const organizationId = await fetchActiveOrganizationId();
+  if (organizationId) {
+    await clearAllTranscriptions(organizationId);
+  }
+}
+
+/**
+ * Keep transcriptions in this browser when they could not be saved to the server
+ * They belong to the active organization and are pushed by syncLocalTranscriptions()
+ */
+export async function saveLocalTranscriptions(
+  results: Parameters<typeof saveMultiModelTranscriptions>[0]
+): Promise<SavedTranscription[]> {
+  const organizationId = await fetchActiveOrganizationId();
+  return saveMultiModelTranscriptions(results, organizationId ?? undefined);
+}
+
+/**
+ * Add an imported transcription to the library as a new entry
+ */
+export async function importTranscription(transcription: Omit<SavedTranscription, 'id'>): Promise<SavedTranscription> {
+  const response = await fetch('/api/transcriptions', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(transcription),
+  });
+  if (!response.ok) throw await toError(response, 'Failed to import transcription');
+
+  return cacheTranscription(await response.json());
+}
+
+/**
+ * Push every transcription of the active organization that so far only exists
+ * (or changed) in this browser
+ * Covers libraries created before server storage and edits made offline.
+ * Unsynced copies from before organizations are claimed by the active organization.
+ * @returns Number of transcriptions synced
+ */
+export async function syncLocalTranscriptions(): Promise<number> {
+  const organizationId = await fetchActiveOrganizationId();
+  if (!organizationId) return 0;
+
+  const unsynced = (await getSavedTranscriptions()).filter(transcription =>
+    !transcription.syncedAt && (!transcription.organizationId || transcription.organizationId === organizationId)
+  );
+  let synced = 0;
+
+  for (const stored of unsynced) {
+    const transcription = { ...stored, organizationId };
+    if (!stored.organizationId) {
+      await putTranscription(transcription);
+    }
+
+    try {
+      await pushTranscription(transcription);
+      synced++;
+    } catch (error) {
+      console.warn(`[Library] Failed to sync ${transcription.id}:`, error);
+    }
+  }
+
+  if (synced > 0) {
+    console.log(`[Library] Synced ${synced} local transcriptions to the server`);
+  }
+  return synced;
+}
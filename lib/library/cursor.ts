@@ -0,0 +1,42 @@
+/**
+ * Cursor of a library page, shared by the server and the offline cache
+ *
+ * Pages are ordered newest first, so the cursor is the creation time of the
+ * last item of the previous page plus its ID: several transcriptions can be
+ * created in the same millisecond (imports, multi-model runs) and the ID
+ * orders them, so none is skipped between pages.
+ */
+
+export interface ListCursor {
+  timestamp: number;
+  /** Empty for cursors sent before the ID was part of them */
+  id: string;
+}
+
+/**
+ * Cursor that continues after the given item, as sent in `?cursor=`
+ */
+export function encodeListCursor(item: { timestamp: number; id: string }): string {
+  return `${item.timestamp}_${item.id}`;
+}
+
+/**
+ * Read a cursor from `encodeListCursor()`, or a bare timestamp
+ * @returns undefined when there is no valid cursor
+ */
+export function parseListCursor(value: string | null | undefined): ListCursor | undefined {
+  if (!value) return undefined;
+
+  const separator = value.indexOf('_');
+  const timestamp = Number(separator === -1 ? value : value.slice(0, separator));
+  if (!Number.isFinite(timestamp) || timestamp <= 0) return undefined;
+
+  return { timestamp, id: separator === -1 ? '' : value.slice(separator + 1) };
+}
+
+/**
+ * Whether an item comes after the cursor, newest first
+ */
+export function isAfterListCursor(item: { timestamp: number; id: string }, cursor: ListCursor): boolean {
+  return item.timestamp < cursor.timestamp || (item.timestamp === cursor.timestamp && item.id < cursor.id);
+}
@@ -0,0 +1,102 @@
+/**
+ * Existing transcripts (SRT, WebVTT, transcript data JSON) as library entries,
+ * so they can be reviewed in the editor like provider transcriptions
+ */
+
+import type { TranscriptionSegment } from '@/lib/ai/types';
+import type { SavedTranscription } from '@/lib/transcriptionStorage';
+import { parseSubtitles, type ParsedCue } from '@/lib/export/subtitles';
+import { parseTranscriptData } from '@/lib/export/transcriptData';
+
+export type TranscriptImportFormat = 'srt' | 'vtt' | 'json';
+
+/** File types accepted by the import, for file inputs */
+export const TRANSCRIPT_IMPORT_ACCEPT = '.srt,.vtt,.json,application/json,text/vtt';
+
+/** Speaker of cues that name none (all of them, in most subtitle files) */
+const DEFAULT_SPEAKER = 'Speaker A';
+
+/** Longest silence between cues merged into one segment (seconds) */
+const MAX_MERGE_GAP = 1;
+
+/** Longest segment made of merged cues (seconds) */
+const MAX_SEGMENT_DURATION = 30;
+
+/** Merged segments at least this long end at the next sentence end (seconds) */
+const SENTENCE_SEGMENT_DURATION = 8;
+
+const SENTENCE_END = /[.!?;…]["»”’)]*$/;
+
+/**
+ * Format of a transcript file, by its extension
+ */
+export function getImportFormat(fileName: string): TranscriptImportFormat | null {
+  const extension = fileName.split('.').pop()?.toLowerCase();
+  return extension === 'srt' || extension === 'vtt' || extension === 'json' ? extension : null;
+}
+
+/**
+ * Merge subtitle cues into segments
+ * Subtitle cues are a line or two long; consecutive cues of one speaker with
+ * little silence between them are merged, ending segments at sentence ends
+ * once they are long enough to review comfortably.
+ */
+export function cuesToSegments(cues: ParsedCue[]): TranscriptionSegment[] {
+  const segments: TranscriptionSegment[] = [];
+
+  for (const cue of cues) {
+    const speaker = cue.speaker ?? DEFAULT_SPEAKER;
+    const last = segments[segments.length - 1];
+    const canMerge = last &&
+      last.speaker === speaker &&
+      cue.start - last.endTime <= MAX_MERGE_GAP &&
+      cue.end - last.startTime <= MAX_SEGMENT_DURATION &&
+      !(SENTENCE_END.test(last.text) && last.endTime - last.startTime >= SENTENCE_SEGMENT_DURATION);
+
+    if (canMerge) {
+      last.endTime = Math.max(last.endTime, cue.end);
+      last.text = `${last.text} ${cue.text}`;
+    } else {
+      segments.push({ speaker, startTime: cue.start, endTime: cue.end, text: cue.text });
+    }
+  }
+
+  return segments;
+}
+
+/**
+ * Library entry (without ID) from the content of a transcript file
+ * @throws Error when the format is not supported or the file cannot be read
+ */
+export function parseTranscriptFile(content: string, fileName: string): Omit<SavedTranscription, 'id'> {
+  const format = getImportFormat(fileName);
+  if (!format) {
+    throw new Error('Unsupported file type (use .srt, .vtt or .json)');
+  }
+
+  if (format === 'json') {
+    let data: unknown;
+    try {
+      data = JSON.parse(content);
+    } catch {
+      throw new Error('Invalid JSON');
+    }
+    return parseTranscriptData(data);
+  }
+
+  const segments = cuesToSegments(parseSubtitles(content));
+  const text = segments.map((segment) => segment.text).join(' ');
+
+  return {
+    fileName,
+    text,
+    provider: 'import',
+    timestamp: Date.now(),
+    metadata: {
+      model: format === 'srt' ? 'SRT' : 'WebVTT',
+      wordCount: text.split(/\s+/).length,
+      audioDurationSeconds: segments[segments.length - 1].endTime,
+      structuredData: { segments },
+    },
+  };
+}
@@ -0,0 +1,662 @@
+/**
+ * Server-side transcription library stored in Postgres
+ *
+ * Every query is scoped to an organization, so all of its members share one
+ * library; the creating user is kept for attribution. Provider segments are stored as
+ * Segment rows and never change; edits, approvals and speaker labels live in
+ * the EditorState row. Translations are stored per language as Translation rows.
+ *
+ * The review workflow state is a column of the transcription, changed only by
+ * transitionWorkflow(), which records each change as a WorkflowEvent row.
+ * Transcriptions created before the workflow have no state; they count as
+ * reviewed when they were finalized in the editor and as drafts otherwise.
+ *
+ * Review comments are SegmentComment rows keyed by segment ID; they can be
+ * added whatever the workflow state, since they never change the text.
+ */
+
+import { Prisma, type Segment, type Transcription, type EditorState, type Translation, type WorkflowEvent, type SegmentComment as SegmentCommentModel } from '@prisma/client';
+import { prisma } from '../prisma';
+import type { TranscriptionWord } from '../ai/types';
+import type {
+  SavedTranscription,
+  SegmentComment,
+  TranscriptionEditorState,
+  TranscriptionListItem,
+  TranscriptionTranslation,
+} from '../transcriptionStorage';
+import { isWorkflowState, type TranscriptionWorkflow, type WorkflowState } from './workflow';
+import { encodeListCursor, type ListCursor } from './cursor';
+import { toTranslatedTexts } from '../editor/segmentStructure';
+
+type WorkflowEventRow = WorkflowEvent & { user?: { email: string } };
+
+type SegmentCommentRow = SegmentCommentModel & {
+  user: { email: string };
+  resolvedBy: { email: string } | null;
+};
+
+type TranscriptionRow = Transcription & {
+  segments?: Segment[];
+  editorState?: EditorState | null;
+  translations?: Translation[];
+  workflowEvents?: WorkflowEventRow[];
+  comments?: SegmentCommentRow[];
+};
+
+/** Relations loaded for a full transcription */
+const FULL_TRANSCRIPTION_INCLUDE = {
+  segments: { orderBy: { position: 'asc' } },
+  editorState: true,
+  translations: { orderBy: { createdAt: 'asc' } },
+  workflowEvents: { orderBy: { createdAt: 'asc' }, include: { user: { select: { email: true } } } },
+  comments: { orderBy: { createdAt: 'asc' }, include: { user: { select: { email: true } }, resolvedBy: { select: { email: true } } } },
+} satisfies Prisma.TranscriptionInclude;
+
+/**
+ * Data for a new library entry, in the same shape the browser stores
+ */
+export interface CreateTranscriptionInput {
+  /** Keeps the ID of a transcription created in the browser (optional) */
+  id?: string;
+  fileName: string;
+  text: string;
+  provider?: string;
+  /** Creation time in ms, defaults to now */
+  timestamp?: number;
+  metadata?: SavedTranscription['metadata'];
+}
+
+/**
+ * Organization and user a new entry belongs to
+ */
+export interface TranscriptionScope {
+  organizationId: string;
+  userId: string;
+}
+
+/**
+ * A workflow transition checked by the caller (see getWorkflowTransitions)
+ */
+export interface WorkflowTransitionInput {
+  from: WorkflowState;
+  to: WorkflowState;
+  userId: string;
+  comment?: string;
+}
+
+/**
+ * A new review comment, or a reply when parentId is set
+ */
+export interface SegmentCommentInput {
+  segmentId: string;
+  parentId?: string;
+  text: string;
+  range?: SegmentComment['range'];
+  userId: string;
+}
+
+export interface UpdateTranscriptionInput {
+  fileName?: string;
+  editorState?: TranscriptionEditorState;
+}
+
+export interface TranscriptionListPage {
+  items: TranscriptionListItem[];
+  nextCursor: string | null;
+  total: number;
+}
+
+/**
+ * Workflow state of a transcription, deriving it for transcriptions created before the workflow
+ */
+function resolveWorkflowState(
+  workflowState: string | null,
+  editorState: Pick<EditorState, 'isDraft'> | null | undefined
+): WorkflowState {
+  if (isWorkflowState(workflowState)) return workflowState;
+  return editorState?.isDraft === false ? 'reviewed' : 'draft';
+}
+
+/**
+ * Filter for transcriptions in a workflow state (including those created before the workflow)
+ */
+function workflowStateWhere(state: WorkflowState): Prisma.TranscriptionWhereInput {
+  if (state === 'draft') {
+    return {
+      OR: [
+        { workflowState: 'draft' },
+        { workflowState: null, editorState: { is: null } },
+        { workflowState: null, editorState: { is: { isDraft: true } } },
+      ],
+    };
+  }
+  if (state === 'reviewed') {
+    return {
+      OR: [
+        { workflowState: 'reviewed' },
+        { workflowState: null, editorState: { is: { isDraft: false } } },
+      ],
+    };
+  }
+  return { workflowState: state };
+}
+
+function toTranscriptionWorkflow(row: TranscriptionRow): TranscriptionWorkflow {
+  return {
+    state: resolveWorkflowState(row.workflowState, row.editorState),
+    events: (row.workflowEvents ?? []).map(event => ({
+      from: event.fromState as WorkflowState,
+      to: event.toState as WorkflowState,
+      userId: event.userId,
+      userEmail: event.user?.email,
+      comment: event.comment ?? undefined,
+      timestamp: event.createdAt.getTime(),
+    })),
+  };
+}
+
+function toSavedTranscription(row: TranscriptionRow): SavedTranscription {
+  const metadata = (row.metadata ?? {}) as NonNullable<SavedTranscription['metadata']>;
+  const segments = row.segments ?? [];
+  const workflow = toTranscriptionWorkflow(row);
+  const editorState = row.editorState?.state as TranscriptionEditorState | undefined;
+
+  return {
+    id: row.id,
+    text: row.text,
+    fileName: row.fileName,
+    timestamp: row.createdAt.getTime(),
+    provider: row.provider ?? undefined,
+    metadata: {
+      ...metadata,
+      structuredData: segments.length > 0
+        ? {
+            segments: segments.map(segment => ({
+              speaker: segment.speaker,
+              startTime: segment.startTime,
+              endTime: segment.endTime,
+              text: segment.text,
+              words: (segment.words ?? undefined) as TranscriptionWord[] | undefined,
+              confidence: segment.confidence ?? undefined,
+            })),
+          }
+        : undefined,
+      rawJson: row.rawJson ?? undefined,
+      rawResponses: (row.rawResponses ?? undefined) as NonNullable<SavedTranscription['metadata']>['rawResponses'],
+      editorState: editorState
+        ? {
+            ...editorState,
+            isDraft: workflow.state === 'draft',
+            finalizedAt: row.editorState?.finalizedAt?.getTime(),
+          }
+        : undefined,
+      translations: row.translations && row.translations.length > 0
+        ? row.translations.map(toTranscriptionTranslation)
+        : undefined,
+      workflow,
+      comments: row.comments && row.comments.length > 0
+        ? row.comments.map(toSegmentComment)
+        : undefined,
+    },
+  };
+}
+
+function toListItem(
+  row: Pick<Transcription, 'id' | 'fileName' | 'createdAt' | 'provider' | 'text' | 'metadata' | 'workflowState'> & {
+    editorState: Pick<EditorState, 'isDraft'> | null;
+  }
+): TranscriptionListItem {
+  const metadata = (row.metadata ?? {}) as NonNullable<SavedTranscription['metadata']>;
+
+  return {
+    id: row.id,
+    fileName: row.fileName,
+    timestamp: row.createdAt.getTime(),
+    provider: row.provider ?? undefined,
+    preview: row.text.slice(0, 200),
+    workflowState: resolveWorkflowState(row.workflowState, row.editorState),
+    metadata: {
+      wordCount: metadata.wordCount,
+      model: metadata.model,
+      audioDurationSeconds: metadata.audioDurationSeconds,
+      processingTimeMs: metadata.processingTimeMs,
+      error: metadata.error,
+      pricing: metadata.pricing,
+    },
+  };
+}
+
+function toTranscriptionTranslation(row: Translation): TranscriptionTranslation {
+  return {
+    language: row.language,
+    segments: toTranslatedTexts(row.segments),
+    sourceTexts: row.sourceTexts ? toTranslatedTexts(row.sourceTexts) : undefined,
+    model: row.model ?? undefined,
+    timestamp: row.updatedAt.getTime(),
+  };
+}
+
+function toSegmentComment(row: SegmentCommentRow): SegmentComment {
+  return {
+    id: row.id,
+    segmentId: row.segmentId,
+    parentId: row.parentId ?? undefined,
+    text: row.text,
+    range: row.rangeStart !== null && row.rangeEnd !== null
+      ? { start: row.rangeStart, end: row.rangeEnd, quote: row.quote ?? '' }
+      : undefined,
+    authorId: row.userId,
+    authorEmail: row.user.email,
+    createdAt: row.createdAt.getTime(),
+    resolvedAt: row.resolvedAt?.getTime(),
+    resolvedByEmail: row.resolvedBy?.email,
+  };
+}
+
+function toEditorStateData(editorState: TranscriptionEditorState) {
+  return {
+    state: editorState as unknown as Prisma.InputJsonValue,
+    isDraft: editorState.isDraft,
+    finalizedAt: editorState.finalizedAt ? new Date(editorState.finalizedAt) : null,
+  };
+}
+
+/**
+ * List an organization's transcriptions, newest first
+ * @param cursor - Cursor of the previous page (see encodeListCursor)
+ * @param workflowState - Only list transcriptions in this workflow state
+ */
+export async function listTranscriptions(
+  organizationId: string,
+  cursor?: ListCursor,
+  limit: number = 20,
+  workflowState?: WorkflowState
+): Promise<TranscriptionListPage> {
+  const where: Prisma.TranscriptionWhereInput = {
+    organizationId,
+    ...(workflowState ? workflowStateWhere(workflowState) : {}),
+  };
+
+  const [rows, total] = await Promise.all([
+    prisma.transcription.findMany({
+      where: cursor
+        ? {
+            AND: [
+              where,
+              {
+                OR: [
+                  { createdAt: { lt: new Date(cursor.timestamp) } },
+                  { createdAt: new Date(cursor.timestamp), id: { lt: cursor.id } },
+                ],
+              },
+            ],
+          }
+        : where,
+      select: {
+        id: true,
+        fileName: true,
+        createdAt: true,
+        provider: true,
+        text: true,
+        metadata: true,
+        workflowState: true,
+        editorState: { select: { isDraft: true } },
+      },
+      orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+      take: limit,
+    }),
+    prisma.transcription.count({ where }),
+  ]);
+
+  const items = rows.map(toListItem);
+  const nextCursor = items.length === limit ? encodeListCursor(items[items.length - 1]) : null;
+
+  return { items, nextCursor, total };
+}
+
+/**
+ * Get an organization's transcription with segments and editor state
+ */
+export async function getTranscription(organizationId: string, id: string): Promise<SavedTranscription | null> {
+  const row = await prisma.transcription.findFirst({
+    where: { id, organizationId },
+    include: FULL_TRANSCRIPTION_INCLUDE,
+  });
+
+  return row ? toSavedTranscription(row) : null;
+}
+
+/**
+ * Create a library entry, splitting structured data into Segment rows
+ * New entries start as draft. Only with keepFinalized does an entry finalized
+ * in the browser before the workflow start as reviewed, since that skips the
+ * reviewer.
+ * @param keepFinalized - Whether the caller may create reviewed entries (owners)
+ */
+export async function createTranscription(
+  scope: TranscriptionScope,
+  input: CreateTranscriptionInput,
+  keepFinalized: boolean = false
+): Promise<SavedTranscription> {
+  const {
+    structuredData,
+    editorState: inputEditorState,
+    rawJson,
+    rawResponses,
+    translations,
+    // The workflow starts over on the server (see workflowState below)
+    workflow: _workflow,
+    // Comments need their authors, so they are not copied
+    comments: _comments,
+    ...metadata
+  } = input.metadata ?? {};
+
+  const isReviewed = keepFinalized && inputEditorState?.isDraft === false;
+  const editorState = inputEditorState && !isReviewed
+    ? { ...inputEditorState, isDraft: true, finalizedAt: undefined }
+    : inputEditorState;
+
+  const row = await prisma.transcription.create({
+    data: {
+      id: input.id,
+      userId: scope.userId,
+      organizationId: scope.organizationId,
+      fileName: input.fileName,
+      text: input.text,
+      provider: input.provider,
+      metadata: metadata as Prisma.InputJsonValue,
+      rawResponses: rawResponses ? (rawResponses as Prisma.InputJsonValue) : undefined,
+      rawJson,
+      workflowState: isReviewed ? 'reviewed' : 'draft',
+      createdAt: input.timestamp ? new Date(input.timestamp) : undefined,
+      segments: {
+        create: (structuredData?.segments ?? []).map((segment, position) => ({
+          position,
+          speaker: segment.speaker,
+          startTime: segment.startTime,
+          endTime: segment.endTime,
+          text: segment.text,
+          words: segment.words ? (segment.words as unknown as Prisma.InputJsonValue) : undefined,
+          confidence: segment.confidence,
+        })),
+      },
+      editorState: editorState ? { create: toEditorStateData(editorState) } : undefined,
+      translations: translations?.length
+        ? {
+            create: translations.map(translation => ({
+              language: translation.language,
+              segments: translation.segments,
+              sourceTexts: translation.sourceTexts,
+              model: translation.model,
+            })),
+          }
+        : undefined,
+    },
+    include: FULL_TRANSCRIPTION_INCLUDE,
+  });
+
+  console.log(`[Library] Created transcription ${row.id} in organization ${scope.organizationId}`);
+  return toSavedTranscription(row);
+}
+
+/**
+ * Update file name and/or editor state
+ * @returns Whether the transcription exists in the organization
+ */
+export async function updateTranscription(
+  organizationId: string,
+  id: string,
+  input: UpdateTranscriptionInput
+): Promise<boolean> {
+  const existing = await prisma.transcription.findFirst({ where: { id, organizationId }, select: { id: true } });
+  if (!existing) {
+    return false;
+  }
+
+  // Draft status and finalization time follow the workflow (see transitionWorkflow)
+  const editorStateData = input.editorState ? toEditorStateData(input.editorState) : undefined;
+
+  await prisma.transcription.update({
+    where: { id },
+    data: {
+      fileName: input.fileName,
+      editorState: editorStateData
+        ? { upsert: { create: editorStateData, update: { state: editorStateData.state } } }
+        : undefined,
+    },
+  });
+
+  return true;
+}
+
+/**
+ * Get the workflow state and transitions of an organization's transcription
+ */
+export async function getTranscriptionWorkflow(
+  organizationId: string,
+  id: string
+): Promise<TranscriptionWorkflow | null> {
+  const row = await prisma.transcription.findFirst({
+    where: { id, organizationId },
+    include: {
+      editorState: true,
+      workflowEvents: FULL_TRANSCRIPTION_INCLUDE.workflowEvents,
+    },
+  });
+
+  return row ? toTranscriptionWorkflow(row) : null;
+}
+
+/**
+ * Move a transcription to another workflow state and record the transition
+ * The editor state follows: it is a draft only in the draft state, and it is
+ * finalized when it leaves draft.
+ * @returns The updated workflow, or null when the transcription is not in the
+ *   organization or no longer in the `from` state (changed concurrently)
+ */
+export async function transitionWorkflow(
+  organizationId: string,
+  id: string,
+  transition: WorkflowTransitionInput
+): Promise<TranscriptionWorkflow | null> {
+  const moved = await prisma.$transaction(async (tx) => {
+    const { count } = await tx.transcription.updateMany({
+      where: { id, organizationId, ...workflowStateWhere(transition.from) },
+      data: { workflowState: transition.to },
+    });
+    if (count === 0) return false;
+
+    await tx.workflowEvent.create({
+      data: {
+        transcriptionId: id,
+        userId: transition.userId,
+        fromState: transition.from,
+        toState: transition.to,
+        comment: transition.comment,
+      },
+    });
+
+    if (transition.to === 'draft') {
+      await tx.editorState.updateMany({ where: { transcriptionId: id }, data: { isDraft: true, finalizedAt: null } });
+    } else if (transition.from === 'draft') {
+      await tx.editorState.updateMany({ where: { transcriptionId: id }, data: { isDraft: false, finalizedAt: new Date() } });
+    }
+    return true;
+  });
+
+  if (!moved) return null;
+
+  console.log(`[Library] Transcription ${id}: ${transition.from} -> ${transition.to}`);
+  return getTranscriptionWorkflow(organizationId, id);
+}
+
+/**
+ * Store the translation of a transcription, replacing an earlier one in the same language
+ * @returns The stored translation, or null when the transcription is not in the organization
+ */
+export async function saveTranslation(
+  organizationId: string,
+  transcriptionId: string,
+  translation: Omit<TranscriptionTranslation, 'timestamp'>
+): Promise<TranscriptionTranslation | null> {
+  const existing = await prisma.transcription.findFirst({
+    where: { id: transcriptionId, organizationId },
+    select: { id: true },
+  });
+  if (!existing) {
+    return null;
+  }
+
+  const data = {
+    segments: translation.segments,
+    sourceTexts: translation.sourceTexts ?? Prisma.DbNull,
+    model: translation.model ?? null,
+  };
+  const row = await prisma.translation.upsert({
+    where: { transcriptionId_language: { transcriptionId, language: translation.language } },
+    create: { transcriptionId, language: translation.language, ...data },
+    update: data,
+  });
+
+  return toTranscriptionTranslation(row);
+}
+
+/**
+ * Delete the translation of a transcription into one language
+ * @returns Whether a translation was deleted
+ */
+export async function deleteTranslation(
+  organizationId: string,
+  transcriptionId: string,
+  language: string
+): Promise<boolean> {
+  const { count } = await prisma.translation.deleteMany({
+    where: { transcriptionId, language, transcription: { organizationId } },
+  });
+  return count > 0;
+}
+
+/**
+ * Add a review comment to a segment of a transcription
+ * A reply joins the thread of the comment it answers.
+ * @returns The new comment, or null when the transcription is not in the
+ *   organization or the comment replied to does not belong to it
+ */
+export async function addSegmentComment(
+  organizationId: string,
+  transcriptionId: string,
+  input: SegmentCommentInput
+): Promise<SegmentComment | null> {
+  const existing = await prisma.transcription.findFirst({
+    where: { id: transcriptionId, organizationId },
+    select: { id: true },
+  });
+  if (!existing) {
+    return null;
+  }
+
+  let parentId: string | null = null;
+  let segmentId = input.segmentId;
+  if (input.parentId) {
+    const parent = await prisma.segmentComment.findFirst({
+      where: { id: input.parentId, transcriptionId },
+      select: { id: true, parentId: true, segmentId: true },
+    });
+    if (!parent) {
+      return null;
+    }
+    parentId = parent.parentId ?? parent.id;
+    segmentId = parent.segmentId;
+  }
+
+  const row = await prisma.segmentComment.create({
+    data: {
+      transcriptionId,
+      segmentId,
+      parentId,
+      userId: input.userId,
+      text: input.text,
+      rangeStart: parentId ? null : input.range?.start ?? null,
+      rangeEnd: parentId ? null : input.range?.end ?? null,
+      quote: parentId ? null : input.range?.quote ?? null,
+    },
+    include: FULL_TRANSCRIPTION_INCLUDE.comments.include,
+  });
+
+  return toSegmentComment(row);
+}
+
+/**
+ * Resolve or reopen the thread a comment starts
+ * @param resolvedById - User resolving the thread, or null to reopen it
+ * @returns The updated comment, or null when it is not a thread of the transcription
+ */
+export async function setSegmentCommentResolved(
+  organizationId: string,
+  transcriptionId: string,
+  commentId: string,
+  resolvedById: string | null
+): Promise<SegmentComment | null> {
+  const { count } = await prisma.segmentComment.updateMany({
+    where: { id: commentId, transcriptionId, parentId: null, transcription: { organizationId } },
+    data: { resolvedAt: resolvedById ? new Date() : null, resolvedById },
+  });
+  if (count === 0) {
+    return null;
+  }
+
+  const row = await prisma.segmentComment.findUniqueOrThrow({
+    where: { id: commentId },
+    include: FULL_TRANSCRIPTION_INCLUDE.comments.include,
+  });
+  return toSegmentComment(row);
+}
+
+/**
+ * Get a review comment of an organization's transcription
+ */
+export async function getSegmentComment(
+  organizationId: string,
+  transcriptionId: string,
+  commentId: string
+): Promise<SegmentComment | null> {
+  const row = await prisma.segmentComment.findFirst({
+    where: { id: commentId, transcriptionId, transcription: { organizationId } },
+    include: FULL_TRANSCRIPTION_INCLUDE.comments.include,
+  });
+  return row ? toSegmentComment(row) : null;
+}
+
+/**
+ * Delete a review comment (deleting the first comment of a thread deletes its replies)
+ * @returns Whether a comment was deleted
+ */
+export async function deleteSegmentComment(
+  organizationId: string,
+  transcriptionId: string,
+  commentId: string
+): Promise<boolean> {
+  const { count } = await prisma.segmentComment.deleteMany({
+    where: { id: commentId, transcriptionId, transcription: { organizationId } },
+  });
+  return count > 0;
+}
+
+/**
+ * Delete an organization's transcription (segments and editor state cascade)
+ * @returns Whether a transcription was deleted
+ */
+export async function deleteTranscription(organizationId: string, id: string): Promise<boolean> {
+  const { count } = await prisma.transcription.deleteMany({ where: { id, organizationId } });
+  return count > 0;
+}
+
+/**
+ * Delete every transcription of an organization
+ * @returns Number of deleted transcriptions
+ */
+export async function deleteAllTranscriptions(organizationId: string): Promise<number> {
+  const { count } = await prisma.transcription.deleteMany({ where: { organizationId } });
+  return count;
+}
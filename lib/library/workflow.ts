@@ -0,0 +1,116 @@
+/**
+ * Review workflow of a transcription, shared by API routes and the UI
+ *
+ * A transcription starts as a draft and moves forward through the stages its
+ * organization uses (by default a clerk marks it reviewed, the secretary
+ * approves it and the council president publishes it). Each stage needs a
+ * role; someone with that role can also send the transcription back to an
+ * earlier stage, with a comment saying why. The stages are stored in the
+ * organization settings (`workflow` key).
+ */
+
+import { isOrganizationRole, type OrganizationRole } from '../organizations/roles';
+
+export const WORKFLOW_STATES = ['draft', 'reviewed', 'approved', 'published'] as const;
+
+export type WorkflowState = (typeof WORKFLOW_STATES)[number];
+
+/**
+ * A stage after draft and the role needed to move a transcription into it
+ */
+export interface WorkflowStage {
+  state: Exclude<WorkflowState, 'draft'>;
+  role: OrganizationRole;
+}
+
+export const DEFAULT_WORKFLOW: WorkflowStage[] = [
+  { state: 'reviewed', role: 'reviewer' },
+  { state: 'approved', role: 'editor' },
+  { state: 'published', role: 'owner' },
+];
+
+/**
+ * A change of workflow state
+ */
+export interface WorkflowEvent {
+  from: WorkflowState;
+  to: WorkflowState;
+  userId: string;
+  userEmail?: string;
+  /** Why the transcription was sent back (required when sending back) */
+  comment?: string;
+  timestamp: number;
+}
+
+/**
+ * Workflow state of a transcription with its transitions, oldest first
+ */
+export interface TranscriptionWorkflow {
+  state: WorkflowState;
+  events: WorkflowEvent[];
+}
+
+export interface WorkflowTransition {
+  to: WorkflowState;
+  kind: 'advance' | 'sendBack';
+  /** Role needed for the transition */
+  role: OrganizationRole;
+}
+
+/**
+ * Check whether a value is a known workflow state
+ */
+export function isWorkflowState(value: unknown): value is WorkflowState {
+  return typeof value === 'string' && (WORKFLOW_STATES as readonly string[]).includes(value);
+}
+
+/**
+ * Check whether a value is a list of workflow stages
+ */
+export function isWorkflowStages(value: unknown): value is WorkflowStage[] {
+  return Array.isArray(value) && value.every(item =>
+    !!item && typeof item === 'object' &&
+    isWorkflowState(item.state) && item.state !== 'draft' &&
+    isOrganizationRole(item.role)
+  );
+}
+
+/**
+ * Put stages in workflow order and drop duplicates
+ */
+export function normalizeWorkflowStages(stages: WorkflowStage[]): WorkflowStage[] {
+  return WORKFLOW_STATES
+    .map(state => stages.find(stage => stage.state === state))
+    .filter((stage): stage is WorkflowStage => !!stage);
+}
+
+/**
+ * Transitions available from a state
+ * A transcription in a stage the organization no longer uses can still move
+ * on and be sent back; sending it back needs the role of its stage.
+ */
+export function getWorkflowTransitions(
+  state: WorkflowState,
+  stages: WorkflowStage[] = DEFAULT_WORKFLOW
+): WorkflowTransition[] {
+  const position = WORKFLOW_STATES.indexOf(state);
+  const transitions: WorkflowTransition[] = [];
+
+  const next = stages.find(stage => WORKFLOW_STATES.indexOf(stage.state) > position);
+  if (next) {
+    transitions.push({ to: next.state, kind: 'advance', role: next.role });
+  }
+
+  if (state !== 'draft') {
+    const role = stages.find(stage => stage.state === state)?.role
+      ?? DEFAULT_WORKFLOW.find(stage => stage.state === state)!.role;
+    const earlier = [
+      'draft' as const,
+      ...stages.map(stage => stage.state).filter(earlierState => WORKFLOW_STATES.indexOf(earlierState) < position),
+    ];
+    // Nearest stage first
+    earlier.reverse().forEach(to => transitions.push({ to, kind: 'sendBack', role }));
+  }
+
+  return transitions;
+}
@@ -0,0 +1,188 @@
+/**
+ * Browser access to the organization API (/api/organizations)
+ */
+
+import type { OrganizationMember, OrganizationMembership } from './membership';
+import type { OrganizationRole } from './roles';
+import type { OrganizationSettingsData } from './settings';
+import type { RosterSpeaker } from './roster';
+
+export interface OrganizationList {
+  organizations: OrganizationMembership[];
+  activeOrganizationId: string;
+}
+
+/** Last active organization seen, for the offline library cache */
+const ACTIVE_ORGANIZATION_STORAGE_KEY = 'grecho-active-organization';
+
+export interface PipelineModeOption {
+  mode: string;
+  label: string;
+  configured: boolean;
+  supportedMimeTypes: string[];
+}
+
+/**
+ * Read the JSON body of a failed response as an Error
+ */
+async function toError(response: Response, fallback: string): Promise<Error> {
+  const data = await response.json().catch(() => ({}));
+  return new Error(data.error || `${fallback} (${response.status})`);
+}
+
+/**
+ * Send a JSON request and return the parsed response
+ */
+async function request<T>(url: string, method: string, body: unknown, fallback: string): Promise<T> {
+  const response = await fetch(url, {
+    method,
+    headers: { 'Content-Type': 'application/json' },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+  if (!response.ok) throw await toError(response, fallback);
+  return response.json();
+}
+
+/**
+ * Remember the active organization for when the server cannot be reached
+ */
+function rememberActiveOrganization(organizationId: string): void {
+  try {
+    localStorage.setItem(ACTIVE_ORGANIZATION_STORAGE_KEY, organizationId);
+  } catch {
+    // Storage unavailable (e.g. private mode) - offline fallback only
+  }
+}
+
+/**
+ * Get the user's organizations and the active one
+ */
+export async function fetchOrganizations(): Promise<OrganizationList> {
+  const response = await fetch('/api/organizations');
+  if (!response.ok) throw await toError(response, 'Failed to load organizations');
+
+  const list: OrganizationList = await response.json();
+  rememberActiveOrganization(list.activeOrganizationId);
+  return list;
+}
+
+let activeOrganizationRequest: Promise<string> | null = null;
+
+/**
+ * Get the ID of the active organization
+ * Asked once per page load (switching reloads the page); falls back to the
+ * last one seen when the server cannot be reached
+ * @returns null when offline and no organization was seen in this browser yet
+ */
+export async function fetchActiveOrganizationId(): Promise<string | null> {
+  activeOrganizationRequest ??= fetchOrganizations().then(list => list.activeOrganizationId);
+
+  try {
+    return await activeOrganizationRequest;
+  } catch (error) {
+    activeOrganizationRequest = null;
+    console.warn('[Organizations] Using the last known active organization:', error);
+    try {
+      return localStorage.getItem(ACTIVE_ORGANIZATION_STORAGE_KEY);
+    } catch {
+      return null;
+    }
+  }
+}
+
+/**
+ * Create an organization owned by the user
+ */
+export function createOrganization(name: string): Promise<OrganizationMembership> {
+  return request('/api/organizations', 'POST', { name }, 'Failed to create organization');
+}
+
+/**
+ * Make an organization the one the user works in
+ */
+export async function switchOrganization(organizationId: string): Promise<OrganizationMembership> {
+  const membership = await request<OrganizationMembership>(
+    '/api/organizations/active', 'POST', { organizationId }, 'Failed to switch organization'
+  );
+  rememberActiveOrganization(membership.organizationId);
+  return membership;
+}
+
+/**
+ * Get the members of the active organization
+ */
+export async function fetchMembers(): Promise<OrganizationMember[]> {
+  const response = await fetch('/api/organizations/members');
+  if (!response.ok) throw await toError(response, 'Failed to load members');
+  return (await response.json()).members;
+}
+
+/**
+ * Add a registered user to the active organization
+ */
+export function addMember(email: string, role: OrganizationRole): Promise<OrganizationMember> {
+  return request('/api/organizations/members', 'POST', { email, role }, 'Failed to add member');
+}
+
+/**
+ * Change the role of a member of the active organization
+ */
+export async function updateMemberRole(userId: string, role: OrganizationRole): Promise<void> {
+  await request(`/api/organizations/members/${userId}`, 'PATCH', { role }, 'Failed to update member');
+}
+
+/**
+ * Remove a member from the active organization
+ */
+export async function removeMember(userId: string): Promise<void> {
+  await request(`/api/organizations/members/${userId}`, 'DELETE', undefined, 'Failed to remove member');
+}
+
+/**
+ * Get the settings of the active organization
+ */
+export async function fetchSettings(): Promise<OrganizationSettingsData> {
+  const response = await fetch('/api/organizations/settings');
+  if (!response.ok) throw await toError(response, 'Failed to load settings');
+  return response.json();
+}
+
+/**
+ * Merge changes into the settings of the active organization (null removes a key)
+ */
+export function updateSettings(changes: Record<string, unknown>): Promise<OrganizationSettingsData> {
+  return request('/api/organizations/settings', 'PATCH', changes, 'Failed to update settings');
+}
+
+/**
+ * Get the speaker roster of the active organization
+ */
+export async function fetchRosterSpeakers(): Promise<RosterSpeaker[]> {
+  const response = await fetch('/api/organizations/speakers');
+  if (!response.ok) throw await toError(response, 'Failed to load speakers');
+  return (await response.json()).speakers;
+}
+
+/**
+ * Add a labelled speaker's voice clips to the roster speaker of that name
+ * An empty name removes the speaker's clips (label cleared)
+ */
+export async function enrollRosterSpeaker(transcriptionId: string, speaker: string, name: string): Promise<void> {
+  await request('/api/organizations/speakers', 'POST', { transcriptionId, speaker, name }, 'Failed to enroll speaker');
+}
+
+/**
+ * Remove a speaker from the roster of the active organization
+ */
+export async function removeRosterSpeaker(id: string): Promise<void> {
+  await request(`/api/organizations/speakers/${id}`, 'DELETE', undefined, 'Failed to remove speaker');
+}
+
+/**
+ * Get the registered pipeline modes and the server default
+ */
+export async function fetchPipelineModes(): Promise<{ modes: PipelineModeOption[]; defaultMode: string }> {
+  const response = await fetch('/api/providers');
+  if (!response.ok) throw await toError(response, 'Failed to load providers');
+  return response.json();
+}
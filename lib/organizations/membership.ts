@@ -0,0 +1,274 @@
+/**
+ * Organization and membership lookups (server only)
+ */
+
+import { Prisma, type Membership, type Organization, type User } from '@prisma/client';
+import { prisma } from '../prisma';
+import { isOrganizationRole, type OrganizationRole } from './roles';
+
+/**
+ * An organization as seen by one of its members
+ */
+export interface OrganizationMembership {
+  organizationId: string;
+  organizationName: string;
+  role: OrganizationRole;
+}
+
+/**
+ * A member as listed on the organization page
+ */
+export interface OrganizationMember {
+  userId: string;
+  email: string;
+  role: OrganizationRole;
+  joinedAt: number;
+}
+
+function toOrganizationMembership(row: Membership & { organization: Organization }): OrganizationMembership {
+  return {
+    organizationId: row.organizationId,
+    organizationName: row.organization.name,
+    // Unknown roles (e.g. edited by hand) get the least privileges
+    role: isOrganizationRole(row.role) ? row.role : 'viewer',
+  };
+}
+
+function toOrganizationMember(row: Membership & { user: User }): OrganizationMember {
+  return {
+    userId: row.userId,
+    email: row.user.email,
+    role: isOrganizationRole(row.role) ? row.role : 'viewer',
+    joinedAt: row.createdAt.getTime(),
+  };
+}
+
+/**
+ * Create an organization with the user as its owner
+ */
+export async function createOrganization(userId: string, name: string): Promise<OrganizationMembership> {
+  const membership = await prisma.membership.create({
+    data: {
+      role: 'owner',
+      user: { connect: { id: userId } },
+      organization: { create: { name } },
+    },
+    include: { organization: true },
+  });
+
+  console.log(`[Organizations] Created ${membership.organizationId} (${name}) for user ${userId}`);
+  return toOrganizationMembership(membership);
+}
+
+/**
+ * Create the personal organization of a user and move their
+ * pre-organization transcriptions and jobs into it
+ * Idempotent, so concurrent first requests of a new user share one
+ * organization: it is keyed by the user (personalOwnerId).
+ */
+export async function createPersonalOrganization(userId: string, email: string): Promise<OrganizationMembership> {
+  const organization = await upsertIgnoringRace(() =>
+    prisma.organization.upsert({
+      where: { personalOwnerId: userId },
+      update: {},
+      create: { name: email, personalOwnerId: userId },
+    })
+  );
+  const membership = await upsertIgnoringRace(() =>
+    prisma.membership.upsert({
+      where: { userId_organizationId: { userId, organizationId: organization.id } },
+      update: {},
+      create: { userId, organizationId: organization.id, role: 'owner' },
+      include: { organization: true },
+    })
+  );
+
+  const where = { userId, organizationId: null };
+  const data = { organizationId: organization.id };
+  await prisma.transcription.updateMany({ where, data });
+  await prisma.transcriptionJob.updateMany({ where, data });
+
+  return toOrganizationMembership(membership);
+}
+
+/**
+ * Run an upsert, once more if a concurrent upsert created the row first
+ * (Prisma may run upserts as a read then a create, which can then fail on
+ * the unique key; the retry finds the row)
+ */
+async function upsertIgnoringRace<T>(upsert: () => Promise<T>): Promise<T> {
+  try {
+    return await upsert();
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      return upsert();
+    }
+    throw error;
+  }
+}
+
+/**
+ * List the organizations a user belongs to, oldest membership first
+ */
+export async function listMemberships(userId: string): Promise<OrganizationMembership[]> {
+  const rows = await prisma.membership.findMany({
+    where: { userId },
+    include: { organization: true },
+    orderBy: { createdAt: 'asc' },
+  });
+  return rows.map(toOrganizationMembership);
+}
+
+/**
+ * Get a user's membership in an organization
+ */
+export async function getMembership(userId: string, organizationId: string): Promise<OrganizationMembership | null> {
+  const row = await prisma.membership.findUnique({
+    where: { userId_organizationId: { userId, organizationId } },
+    include: { organization: true },
+  });
+  return row ? toOrganizationMembership(row) : null;
+}
+
+// Users whose pre-organization rows were already looked for in this process;
+// no such rows are created any more, so one check per user is enough
+const globalForMembership = globalThis as unknown as {
+  legacyCheckedUsers: Set<string> | undefined
+};
+
+const legacyCheckedUsers = globalForMembership.legacyCheckedUsers ?? new Set<string>();
+globalForMembership.legacyCheckedUsers = legacyCheckedUsers;
+
+/**
+ * Move a user's pre-organization transcriptions and jobs into their personal
+ * organization, creating it if needed
+ * Also runs for users who were added to another organization before their
+ * first sign-in, so their old library is never left behind.
+ */
+async function migrateLegacyLibrary(userId: string, email: string): Promise<void> {
+  if (legacyCheckedUsers.has(userId)) return;
+
+  const where = { userId, organizationId: null };
+  const [transcription, job] = await Promise.all([
+    prisma.transcription.findFirst({ where, select: { id: true } }),
+    prisma.transcriptionJob.findFirst({ where, select: { id: true } }),
+  ]);
+  if (transcription || job) {
+    await createPersonalOrganization(userId, email);
+  }
+
+  legacyCheckedUsers.add(userId);
+}
+
+/**
+ * Resolve the organization a request works in
+ * Uses the preferred organization when the user belongs to it, then the oldest
+ * membership, and creates a personal organization for users without any
+ */
+export async function resolveMembership(
+  userId: string,
+  email: string,
+  preferredOrganizationId?: string
+): Promise<OrganizationMembership> {
+  await migrateLegacyLibrary(userId, email);
+
+  if (preferredOrganizationId) {
+    const preferred = await getMembership(userId, preferredOrganizationId);
+    if (preferred) return preferred;
+  }
+
+  const [first] = await listMemberships(userId);
+  return first ?? createPersonalOrganization(userId, email);
+}
+
+/**
+ * List the members of an organization
+ */
+export async function listMembers(organizationId: string): Promise<OrganizationMember[]> {
+  const rows = await prisma.membership.findMany({
+    where: { organizationId },
+    include: { user: true },
+    orderBy: { createdAt: 'asc' },
+  });
+  return rows.map(toOrganizationMember);
+}
+
+/**
+ * Add a registered user to an organization
+ * @returns The new member, or null when no user has this email
+ */
+export async function addMember(
+  organizationId: string,
+  email: string,
+  role: OrganizationRole
+): Promise<OrganizationMember | null> {
+  const user = await prisma.user.findUnique({ where: { email } });
+  if (!user) return null;
+
+  const row = await prisma.membership.create({
+    data: { organizationId, userId: user.id, role },
+    include: { user: true },
+  });
+  return toOrganizationMember(row);
+}
+
+/**
+ * Outcome of changing or removing a member
+ */
+export type MemberChangeResult = 'changed' | 'not_found' | 'last_owner';
+
+/**
+ * Change a member in a transaction that keeps at least one owner
+ * The organization row is locked first, so concurrent changes to its members
+ * run one after the other and each counts the owners the previous one left.
+ * @param keepsOwner - Whether the member is still an owner after the change
+ */
+async function changeMember(
+  organizationId: string,
+  userId: string,
+  keepsOwner: boolean,
+  change: (tx: Prisma.TransactionClient) => Promise<unknown>
+): Promise<MemberChangeResult> {
+  return prisma.$transaction(async (tx) => {
+    const organization = await tx.organization.updateMany({
+      where: { id: organizationId },
+      data: { updatedAt: new Date() },
+    });
+    if (organization.count === 0) return 'not_found';
+
+    const membership = await tx.membership.findUnique({
+      where: { userId_organizationId: { userId, organizationId } },
+    });
+    if (!membership) return 'not_found';
+
+    if (membership.role === 'owner' && !keepsOwner) {
+      const owners = await tx.membership.count({ where: { organizationId, role: 'owner' } });
+      if (owners <= 1) return 'last_owner';
+    }
+
+    await change(tx);
+    return 'changed';
+  });
+}
+
+/**
+ * Change a member's role, unless it demotes the last owner
+ */
+export async function updateMemberRole(
+  organizationId: string,
+  userId: string,
+  role: OrganizationRole
+): Promise<MemberChangeResult> {
+  return changeMember(organizationId, userId, role === 'owner', tx =>
+    tx.membership.update({ where: { userId_organizationId: { userId, organizationId } }, data: { role } })
+  );
+}
+
+/**
+ * Remove a member from an organization, unless they are its last owner
+ */
+export async function removeMember(organizationId: string, userId: string): Promise<MemberChangeResult> {
+  return changeMember(organizationId, userId, false, tx =>
+    tx.membership.delete({ where: { userId_organizationId: { userId, organizationId } } })
+  );
+}
@@ -0,0 +1,30 @@
+/**
+ * Organization roles, shared by API routes and the UI
+ *
+ * Roles are ordered: every role can do everything the roles before it can.
+ * - viewer: read transcriptions and exports
+ * - reviewer: approve segments, label speakers and comment on segments
+ * - editor: upload, edit, export and delete transcriptions
+ * - owner: manage members and organization settings
+ */
+
+export const ORGANIZATION_ROLES = ['viewer', 'reviewer', 'editor', 'owner'] as const;
+
+export type OrganizationRole = (typeof ORGANIZATION_ROLES)[number];
+
+/**
+ * Check whether a value is a known role
+ */
+export function isOrganizationRole(value: unknown): value is OrganizationRole {
+  return typeof value === 'string' && (ORGANIZATION_ROLES as readonly string[]).includes(value);
+}
+
+/**
+ * Check whether a role grants at least the required role
+ */
+export function hasRole(role: OrganizationRole, required: OrganizationRole): boolean {
+  return ORGANIZATION_ROLES.indexOf(role) >= ORGANIZATION_ROLES.indexOf(required);
+}
+
+/** Cookie holding the organization the user is currently working in */
+export const ACTIVE_ORGANIZATION_COOKIE = 'grecho-organization';
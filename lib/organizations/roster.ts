@@ -0,0 +1,193 @@
+/**
+ * Speaker roster of an organization (server only)
+ *
+ * Roster speakers are the people who regularly speak in the organization's
+ * meetings. Labelling a diarized speaker in the editor adds that speaker's
+ * voiceprints (see lib/audio/voiceprint.ts) to the roster speaker of the same
+ * name; new transcriptions are then matched against the roster to suggest
+ * speaker labels.
+ */
+
+import type { Prisma, RosterSpeaker as RosterSpeakerRow } from '@prisma/client';
+import { prisma } from '../prisma';
+import { compareVoiceprints, type SpeakerVoiceprint } from '../audio/voiceprint';
+import type { SpeakerSuggestion } from '../transcriptionStorage';
+
+/** Oldest clips are dropped beyond this many per roster speaker */
+export const MAX_CLIPS_PER_SPEAKER = 12;
+
+/** Suggestions below this voice similarity are not offered */
+export const MIN_SUGGESTION_CONFIDENCE = 0.6;
+
+/**
+ * Reference clip of a roster speaker, taken from a labelled transcription
+ */
+export interface RosterClip extends SpeakerVoiceprint {
+  transcriptionId: string;
+  addedAt: number;
+}
+
+/**
+ * A roster speaker as listed on the organization page
+ */
+export interface RosterSpeaker {
+  id: string;
+  name: string;
+  clipCount: number;
+  updatedAt: number;
+}
+
+function getClips(row: RosterSpeakerRow): RosterClip[] {
+  return (row.clips as unknown as RosterClip[] | null) ?? [];
+}
+
+function toRosterSpeaker(row: RosterSpeakerRow): RosterSpeaker {
+  return {
+    id: row.id,
+    name: row.name,
+    clipCount: getClips(row).length,
+    updatedAt: row.updatedAt.getTime(),
+  };
+}
+
+/**
+ * List the roster of an organization by name
+ */
+export async function listRosterSpeakers(organizationId: string): Promise<RosterSpeaker[]> {
+  const rows = await prisma.rosterSpeaker.findMany({
+    where: { organizationId },
+    orderBy: { name: 'asc' },
+  });
+  return rows.map(toRosterSpeaker);
+}
+
+/**
+ * Store the voiceprints of a transcription's diarized speakers
+ */
+export async function saveVoiceprints(transcriptionId: string, voiceprints: SpeakerVoiceprint[]): Promise<void> {
+  await prisma.transcription.update({
+    where: { id: transcriptionId },
+    data: { voiceprints: voiceprints as unknown as Prisma.InputJsonValue },
+  });
+}
+
+/**
+ * Voiceprints of a transcription, or null when it is not in the organization
+ */
+async function getVoiceprints(organizationId: string, transcriptionId: string): Promise<SpeakerVoiceprint[] | null> {
+  const row = await prisma.transcription.findFirst({
+    where: { id: transcriptionId, organizationId },
+    select: { voiceprints: true },
+  });
+  if (!row) return null;
+  return (row.voiceprints as unknown as SpeakerVoiceprint[] | null) ?? [];
+}
+
+/**
+ * Record that a diarized speaker of a transcription is a roster speaker
+ * Clips of the diarized speaker are moved to the roster speaker named `name`
+ * (created when needed); without a name they are only removed, e.g. when a
+ * label is cleared.
+ * @returns The roster speaker, undefined without a name, or null when the
+ *   transcription is not in the organization
+ */
+export async function enrollSpeaker(
+  organizationId: string,
+  transcriptionId: string,
+  speaker: string,
+  name: string | undefined
+): Promise<RosterSpeaker | undefined | null> {
+  const voiceprints = await getVoiceprints(organizationId, transcriptionId);
+  if (!voiceprints) return null;
+
+  const isFromSpeaker = (clip: RosterClip) => clip.transcriptionId === transcriptionId && clip.speaker === speaker;
+
+  return prisma.$transaction(async (tx) => {
+    // A relabelled speaker's clips no longer belong to the previous name
+    const rows = await tx.rosterSpeaker.findMany({ where: { organizationId } });
+    for (const row of rows) {
+      const clips = getClips(row);
+      if (row.name !== name && clips.some(isFromSpeaker)) {
+        await tx.rosterSpeaker.update({
+          where: { id: row.id },
+          data: { clips: clips.filter(clip => !isFromSpeaker(clip)) as unknown as Prisma.InputJsonValue },
+        });
+      }
+    }
+
+    if (!name) return undefined;
+
+    const existing = rows.find(row => row.name === name);
+    const addedAt = Date.now();
+    const clips = [
+      ...(existing ? getClips(existing).filter(clip => !isFromSpeaker(clip)) : []),
+      ...voiceprints
+        .filter(voiceprint => voiceprint.speaker === speaker)
+        .map(voiceprint => ({ ...voiceprint, transcriptionId, addedAt })),
+    ].slice(-MAX_CLIPS_PER_SPEAKER);
+
+    const row = await tx.rosterSpeaker.upsert({
+      where: { organizationId_name: { organizationId, name } },
+      create: { organizationId, name, clips: clips as unknown as Prisma.InputJsonValue },
+      update: { clips: clips as unknown as Prisma.InputJsonValue },
+    });
+
+    console.log(`[Roster] ${speaker} of ${transcriptionId} enrolled as ${name} (${clips.length} clips)`);
+    return toRosterSpeaker(row);
+  });
+}
+
+/**
+ * Remove a speaker from the roster
+ * @returns Whether the speaker existed in the organization
+ */
+export async function deleteRosterSpeaker(organizationId: string, id: string): Promise<boolean> {
+  const { count } = await prisma.rosterSpeaker.deleteMany({ where: { id, organizationId } });
+  return count > 0;
+}
+
+/**
+ * Candidate roster speakers for the diarized speakers of a transcription
+ * Each diarized speaker is scored against each roster speaker by its clips'
+ * best matches; the editor picks the suggestions from these candidates (see
+ * pickSpeakerSuggestions in lib/editor/speakerSuggestions.ts).
+ * @returns Candidates above MIN_SUGGESTION_CONFIDENCE, best first, or null
+ *   when the transcription is not in the organization
+ */
+export async function findSpeakerCandidates(
+  organizationId: string,
+  transcriptionId: string
+): Promise<SpeakerSuggestion[] | null> {
+  const voiceprints = await getVoiceprints(organizationId, transcriptionId);
+  if (!voiceprints) return null;
+  if (voiceprints.length === 0) return [];
+
+  const rows = await prisma.rosterSpeaker.findMany({ where: { organizationId } });
+  const speakers = [...new Set(voiceprints.map(voiceprint => voiceprint.speaker))];
+
+  const candidates: SpeakerSuggestion[] = [];
+  for (const speaker of speakers) {
+    const speakerClips = voiceprints.filter(voiceprint => voiceprint.speaker === speaker);
+
+    for (const row of rows) {
+      // Clips from this transcription would only match themselves
+      const rosterClips = getClips(row).filter(clip => clip.transcriptionId !== transcriptionId);
+      if (rosterClips.length === 0) continue;
+
+      const confidence = speakerClips.reduce((sum, clip) =>
+        sum + Math.max(...rosterClips.map(rosterClip => compareVoiceprints(clip.voiceprint, rosterClip.voiceprint))),
+      0) / speakerClips.length;
+
+      if (confidence >= MIN_SUGGESTION_CONFIDENCE) {
+        candidates.push({
+          originalId: speaker,
+          customName: row.name,
+          rosterSpeakerId: row.id,
+          confidence: Math.round(confidence * 100) / 100,
+        });
+      }
+    }
+  }
+
+  return candidates.sort((a, b) => b.confidence - a.confidence);
+}
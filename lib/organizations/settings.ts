@@ -0,0 +1,54 @@
+/**
+ * Organization-wide settings (server only)
+ *
+ * Stored as one JSON document per organization; features that can be
+ * configured per organization read their own keys from it.
+ */
+
+import type { Prisma } from '@prisma/client';
+import { prisma } from '../prisma';
+import type { GlossaryTerm } from '../ai/glossary';
+import type { WorkflowStage } from '../library/workflow';
+
+export interface OrganizationSettingsData {
+  /** Pipeline mode for the organization's transcriptions (see lib/ai/registry.ts) */
+  pipelineMode?: string;
+  /** Preferred spellings of names, streets and local bodies (see lib/ai/glossary.ts) */
+  glossary?: GlossaryTerm[];
+  /** Review stages after draft and the role each needs (see lib/library/workflow.ts) */
+  workflow?: WorkflowStage[];
+  [key: string]: unknown;
+}
+
+/**
+ * Get the settings of an organization (empty when never saved)
+ */
+export async function getOrganizationSettings(organizationId: string): Promise<OrganizationSettingsData> {
+  const row = await prisma.organizationSettings.findUnique({ where: { organizationId } });
+  return (row?.data as OrganizationSettingsData | undefined) ?? {};
+}
+
+/**
+ * Merge changes into the settings of an organization
+ * Keys set to null are removed
+ * @returns The updated settings
+ */
+export async function updateOrganizationSettings(
+  organizationId: string,
+  changes: Record<string, unknown>
+): Promise<OrganizationSettingsData> {
+  const current = await getOrganizationSettings(organizationId);
+  const data: OrganizationSettingsData = { ...current, ...changes };
+
+  for (const [key, value] of Object.entries(data)) {
+    if (value === null) delete data[key];
+  }
+
+  await prisma.organizationSettings.upsert({
+    where: { organizationId },
+    create: { organizationId, data: data as Prisma.InputJsonValue },
+    update: { data: data as Prisma.InputJsonValue },
+  });
+
+  return data;
+}
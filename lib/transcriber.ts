@@ -1,10 +1,19 @@
-import type { TranscriptionInput, StructuredTranscription } from './ai/types';
-import { ElevenLabsProvider } from './ai/providers/elevenlabs';
-import { GoogleGeminiProvider } from './ai/providers/google';
+import type {
+  TranscriptionInput,
+  TranscriptionProgress,
+  TranscriptionResult,
+  StructuredTranscription,
+} from './ai/types';
+import {
+  getFallbackChain,
+  getTranscriptionProvider,
+  resolvePipelineMode,
+} from './ai/registry';
+import { describeLanguageForPrompt } from './ai/languages';
+import { applyGlossary, applyGlossaryToText, type GlossaryTerm } from './ai/glossary';
+import { transcribeWithChunking } from './audio/chunking';
 import { pipelineConfig } from './config';
 
-type PipelineMode = 'gemini-only' | 'elevenlabs-only';
-
 /**
  * Transcription input
  */
@@ -14,6 +23,24 @@ export interface TranscriberInput {
   fileName: string;
 }
 
+/**
+ * Options for a single transcription run
+ */
+export interface TranscribeOptions {
+  /** Pipeline mode to use, defaults to PIPELINE_MODE (see lib/ai/registry.ts) */
+  mode?: string;
+  /** Spoken language (ISO-639-1) or 'auto' to detect it, defaults to TRANSCRIPTION_LANGUAGE */
+  language?: string;
+  /** Organization glossary: vocabulary hints for providers and spelling fixes afterwards */
+  glossary?: GlossaryTerm[];
+  /** Job this run belongs to; lets async provider requests be picked up again after a restart */
+  jobId?: string;
+  /** Aborts the run (e.g. when the job is cancelled) */
+  signal?: AbortSignal;
+  /** Called as the run advances */
+  onProgress?: (progress: TranscriptionProgress) => void;
+}
+
 /**
  * Transcription result
  */
@@ -21,41 +48,59 @@ export interface TranscriberResult {
   text: string;
   fileName: string;
   metadata: {
-    pipelineMode: PipelineMode;
+    pipelineMode: string;
     provider: string;
     model?: string;
     processingTimeMs: number;
     wordCount?: number;
+    /** Language requested for the run ('auto' for detection) */
+    language: string;
+    /** Language detected by the provider (ISO-639-1 when known) */
+    languageCode?: string;
+    /** Confidence of the detected language from 0 to 1 */
+    languageProbability?: number;
     structuredData?: StructuredTranscription;
     rawResponses?: {
       gemini?: string;
       elevenlabs?: string;
+      whisper?: string;
     };
   };
 }
 
 /**
  * Simple Transcriber
- * Combines everything into one class - no stages, no complex orchestration
- * Supports two modes:
- * 1. gemini-only: Direct Gemini transcription with native multimodal capabilities
- * 2. elevenlabs-only: ElevenLabs for precise timestamps and speaker identification
+ * Looks the pipeline mode up in the provider registry (lib/ai/registry.ts):
+ * - gemini-only: Direct Gemini transcription with native multimodal capabilities
+ * - elevenlabs-only: ElevenLabs for precise timestamps and speaker identification
+ * - hybrid: ElevenLabs timing and speakers with Gemini's wording aligned onto them
+ * - local-whisper: whisper.cpp / faster-whisper on this server, without network access
+ *
+ * The input is validated before dispatch; when the selected provider cannot
+ * take it, the next mode of the fallback chain is used.
+ *
+ * Long recordings are split on silences and transcribed chunk by chunk
+ * when audioConfig.enableChunking is set (see lib/audio/chunking.ts)
+ *
+ * The organization glossary is passed to the provider and then applied to
+ * the result, replacing known misspellings (see lib/ai/glossary.ts)
  */
 export class Transcriber {
   /**
    * Transcribe audio file
    */
-  async transcribe(input: TranscriberInput): Promise<TranscriberResult> {
+  async transcribe(input: TranscriberInput, options: TranscribeOptions = {}): Promise<TranscriberResult> {
     const startTime = Date.now();
+    const mode = this.selectMode(input, resolvePipelineMode(options.mode));
+    const language = options.language ?? pipelineConfig.language;
 
     console.log(`[Transcriber] Processing: ${input.fileName}`);
-    console.log(`[Transcriber] Mode: ${pipelineConfig.mode}`);
+    console.log(`[Transcriber] Mode: ${mode}, language: ${language}`);
+    options.onProgress?.({ stage: 'preparing', percent: 0 });
 
-    // Execute transcription based on configured mode
-    const mode = pipelineConfig.mode as PipelineMode;
-    const result = mode === 'gemini-only'
-      ? await this.transcribeGeminiOnly(input)
-      : await this.transcribeElevenLabsOnly(input);
+    const result = await this.transcribeWith(mode, input, language, options);
+
+    options.onProgress?.({ stage: 'finalizing', percent: 100 });
 
     // Build final result
     const processingTimeMs = Date.now() - startTime;
@@ -67,11 +112,14 @@ export class Transcriber {
       text: result.text,
       fileName: input.fileName,
       metadata: {
-        pipelineMode: pipelineConfig.mode,
+        pipelineMode: mode,
         provider: result.provider,
         model: result.model,
         processingTimeMs,
         wordCount,
+        language,
+        languageCode: result.languageCode,
+        languageProbability: result.languageProbability,
         structuredData: result.structuredData,
         rawResponses: result.rawResponses,
       },
@@ -79,16 +127,40 @@ export class Transcriber {
   }
 
   /**
-   * Gemini-Only Mode
-   * Uses Gemini with native multimodal capabilities
+   * Pick the first mode of the fallback chain whose provider accepts the input
+   * @throws When no provider accepts it, listing every provider's reason
    */
-  private async transcribeGeminiOnly(input: TranscriberInput) {
-    console.log('[Transcriber] Gemini-only: Starting transcription');
+  private selectMode(input: TranscriberInput, mode: string): string {
+    const errors: string[] = [];
+
+    for (const candidate of getFallbackChain(mode)) {
+      const { provider } = getTranscriptionProvider(candidate)!;
+
+      if (!provider.isConfigured()) {
+        errors.push(`${candidate}: not configured`);
+        continue;
+      }
+
+      const validation = provider.validateInput(input);
+      if (validation.valid) {
+        if (candidate !== mode) {
+          console.warn(`[Transcriber] ${mode} cannot take ${input.mimeType}, falling back to ${candidate}`);
+        }
+        return candidate;
+      }
+
+      errors.push(`${candidate}: ${validation.error}`);
+    }
+
+    throw new Error(`No transcription provider can process this file (${errors.join('; ')})`);
+  }
 
-    const provider = new GoogleGeminiProvider({
-      model: pipelineConfig.geminiModel,
-      enableStructuredOutput: true,
-    });
+  /**
+   * Transcribe with the provider registered for a mode
+   */
+  private async transcribeWith(mode: string, input: TranscriberInput, language: string, options: TranscribeOptions) {
+    const { entry, provider } = getTranscriptionProvider(mode)!;
+    console.log(`[Transcriber] ${mode}: Starting transcription`);
 
     const transcriptionInput: TranscriptionInput = {
       buffer: input.buffer,
@@ -96,18 +168,42 @@ export class Transcriber {
       fileName: input.fileName,
     };
 
-    const result = await provider.transcribe(transcriptionInput, {
-      targetLanguage: pipelineConfig.targetLanguage,
+    const glossary = options.glossary ?? [];
+    const result = this.applyGlossary(await transcribeWithChunking(provider, transcriptionInput, {
+      targetLanguage: describeLanguageForPrompt(language),
+      language,
       enableSpeakerIdentification: true,
       enableTimestamps: true,
-    });
+      glossary: glossary.length > 0 ? glossary : undefined,
+      resumeKey: options.jobId,
+      signal: options.signal,
+    }, options.onProgress), glossary);
 
     return {
-      text: result.text,
+      text: this.formatPlainText(result),
       structuredData: result.structuredData,
-      rawResponses: { gemini: result.rawJson },
-      provider: `${pipelineConfig.geminiModel}`,
-      model: pipelineConfig.geminiModel,
+      rawResponses: result.rawResponses ?? (entry.rawResponseKey ? { [entry.rawResponseKey]: result.rawJson } : undefined),
+      provider: entry.label,
+      model: entry.model,
+      languageCode: result.metadata?.languageCode,
+      languageProbability: result.metadata?.languageProbability,
+    };
+  }
+
+  /**
+   * Replace glossary misspellings in the segments (or the text without segments)
+   */
+  private applyGlossary(result: TranscriptionResult, glossary: GlossaryTerm[]): TranscriptionResult {
+    if (glossary.length === 0) return result;
+
+    if (!result.structuredData?.segments) {
+      return { ...result, text: applyGlossaryToText(result.text, glossary) };
+    }
+
+    console.log(`[Transcriber] Applying glossary (${glossary.length} terms)`);
+    return {
+      ...result,
+      structuredData: { segments: applyGlossary(result.structuredData.segments, glossary) },
     };
   }
 
@@ -126,49 +222,18 @@ export class Transcriber {
   }
 
   /**
-   * ElevenLabs-Only Mode
-   * Uses ElevenLabs for precise timestamps and speaker identification
+   * Generate plain text from structured data, falling back to the provider's text
    */
-  private async transcribeElevenLabsOnly(input: TranscriberInput) {
-    console.log('[Transcriber] ElevenLabs-only: Starting transcription');
-
-    const transcriptionInput: TranscriptionInput = {
-      buffer: input.buffer,
-      mimeType: input.mimeType,
-      fileName: input.fileName,
-    };
-
-    const useAsyncMode = !!process.env.ELEVENLABS_WEBHOOK_SECRET;
-
-    const provider = new ElevenLabsProvider({
-      model: pipelineConfig.elevenLabsModel,
-      timeoutMs: 2 * 60 * 60 * 1000, // 2 hours for very long audio files
-      // Use async webhook mode if ELEVENLABS_WEBHOOK_SECRET is set
-      useAsyncMode,
-    });
-
-    const result = await provider.transcribe(transcriptionInput, {
-      targetLanguage: pipelineConfig.targetLanguage,
-      enableSpeakerIdentification: true,
-      enableTimestamps: true,
-    });
-
-    // Generate plain text from structured data
-    const plainText = result.structuredData?.segments
-      ? result.structuredData.segments
-          .map(seg => {
-            const timestamp = this.formatTimestamp(seg.startTime);
-            return `[${timestamp}] ${seg.speaker}: ${seg.text}`;
-          })
-          .join('\n\n')
-      : result.text;
+  private formatPlainText(result: TranscriptionResult): string {
+    if (!result.structuredData?.segments) {
+      return result.text;
+    }
 
-    return {
-      text: plainText,
-      structuredData: result.structuredData,
-      rawResponses: { elevenlabs: result.rawJson },
-      provider: `elevenlabs-${pipelineConfig.elevenLabsModel}`,
-      model: pipelineConfig.elevenLabsModel,
-    };
+    return result.structuredData.segments
+      .map(seg => {
+        const timestamp = this.formatTimestamp(seg.startTime);
+        return `[${timestamp}] ${seg.speaker}: ${seg.text}`;
+      })
+      .join('\n\n');
   }
 }
@@ -0,0 +1,27 @@
+import { storageConfig } from '../config';
+import { InMemoryTranscriptionStore } from './memory';
+import { PrismaTranscriptionStore } from './prisma';
+import type { TranscriptionStore } from './types';
+
+export * from './types';
+export { InMemoryTranscriptionStore } from './memory';
+export { PrismaTranscriptionStore } from './prisma';
+
+/**
+ * Create the store selected by storageConfig.transcriptionStore
+ */
+export function createTranscriptionStore(): TranscriptionStore {
+  return storageConfig.transcriptionStore === 'prisma'
+    ? new PrismaTranscriptionStore()
+    : new InMemoryTranscriptionStore();
+}
+
+// Keep a single instance across hot reloads so the webhook route and the
+// provider never end up with different in-memory maps
+const globalForStore = globalThis as unknown as {
+  transcriptionStore: TranscriptionStore | undefined
+};
+
+export const transcriptionStore = globalForStore.transcriptionStore ?? createTranscriptionStore();
+
+if (process.env.NODE_ENV !== 'production') globalForStore.transcriptionStore = transcriptionStore;
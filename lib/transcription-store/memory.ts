@@ -0,0 +1,100 @@
+/**
+ * In-memory storage for async transcription results
+ *
+ * Process-local and lost on restart - use it for tests and single-instance
+ * development. Production should use PrismaTranscriptionStore.
+ */
+
+import type { StoredTranscription, TranscriptionStore } from './types';
+
+export class InMemoryTranscriptionStore implements TranscriptionStore {
+  private store: Map<string, StoredTranscription> = new Map();
+
+  async create(requestId: string, transcriptionId?: string): Promise<void> {
+    this.store.set(requestId, {
+      requestId,
+      transcriptionId,
+      status: 'pending',
+      createdAt: Date.now(),
+    });
+  }
+
+  async updateStatus(requestId: string, status: StoredTranscription['status']): Promise<void> {
+    const entry = this.store.get(requestId);
+    if (entry) {
+      entry.status = status;
+      this.store.set(requestId, entry);
+    }
+  }
+
+  async complete(requestId: string, result: any): Promise<void> {
+    const entry = this.store.get(requestId);
+    if (entry) {
+      entry.status = 'completed';
+      entry.result = result;
+      entry.completedAt = Date.now();
+      this.store.set(requestId, entry);
+    } else {
+      // Create new entry if it doesn't exist (webhook-first scenario)
+      this.store.set(requestId, {
+        requestId,
+        status: 'completed',
+        result,
+        createdAt: Date.now(),
+        completedAt: Date.now(),
+      });
+    }
+  }
+
+  async fail(requestId: string, error: string): Promise<void> {
+    const entry = this.store.get(requestId);
+    if (entry) {
+      entry.status = 'failed';
+      entry.error = error;
+      entry.completedAt = Date.now();
+      this.store.set(requestId, entry);
+    }
+  }
+
+  async get(requestId: string): Promise<StoredTranscription | undefined> {
+    return this.store.get(requestId);
+  }
+
+  async findByTranscriptionId(transcriptionId: string): Promise<StoredTranscription | undefined> {
+    return [...this.store.values()]
+      .filter(entry => entry.transcriptionId === transcriptionId)
+      .sort((a, b) => b.createdAt - a.createdAt)[0];
+  }
+
+  async isComplete(requestId: string): Promise<boolean> {
+    const entry = this.store.get(requestId);
+    return entry?.status === 'completed' || entry?.status === 'failed';
+  }
+
+  async delete(requestId: string): Promise<void> {
+    this.store.delete(requestId);
+  }
+
+  async purgeExpired(maxAgeMs: number): Promise<number> {
+    const cutoff = Date.now() - maxAgeMs;
+    const toDelete: string[] = [];
+
+    // Only finished entries expire - pending ones must stay resumable
+    for (const [requestId, entry] of this.store.entries()) {
+      const finished = entry.status === 'completed' || entry.status === 'failed';
+      if (finished && entry.completedAt !== undefined && entry.completedAt < cutoff) {
+        toDelete.push(requestId);
+      }
+    }
+
+    toDelete.forEach(id => this.store.delete(id));
+    return toDelete.length;
+  }
+
+  /**
+   * Get store size
+   */
+  size(): number {
+    return this.store.size;
+  }
+}
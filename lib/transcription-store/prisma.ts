@@ -0,0 +1,90 @@
+/**
+ * Postgres-backed storage for async transcription results
+ *
+ * Survives restarts and is shared by every app instance, so a webhook can be
+ * received by a different instance than the one that submitted the job.
+ */
+
+import type { TranscriptionRequest } from '@prisma/client';
+import { prisma } from '../prisma';
+import type { StoredTranscription, StoredTranscriptionStatus, TranscriptionStore } from './types';
+
+function toStoredTranscription(row: TranscriptionRequest): StoredTranscription {
+  return {
+    requestId: row.requestId,
+    transcriptionId: row.transcriptionId ?? undefined,
+    status: row.status as StoredTranscriptionStatus,
+    result: row.result ?? undefined,
+    error: row.error ?? undefined,
+    createdAt: row.createdAt.getTime(),
+    completedAt: row.completedAt?.getTime(),
+  };
+}
+
+export class PrismaTranscriptionStore implements TranscriptionStore {
+  async create(requestId: string, transcriptionId?: string): Promise<void> {
+    // Upsert: the webhook may already have delivered the result
+    await prisma.transcriptionRequest.upsert({
+      where: { requestId },
+      create: { requestId, transcriptionId, status: 'pending' },
+      update: { transcriptionId },
+    });
+  }
+
+  async updateStatus(requestId: string, status: StoredTranscriptionStatus): Promise<void> {
+    // Never move a finished entry back to pending/processing
+    await prisma.transcriptionRequest.updateMany({
+      where: { requestId, status: { notIn: ['completed', 'failed'] } },
+      data: { status },
+    });
+  }
+
+  async complete(requestId: string, result: any): Promise<void> {
+    const completedAt = new Date();
+    await prisma.transcriptionRequest.upsert({
+      where: { requestId },
+      create: { requestId, status: 'completed', result, completedAt },
+      update: { status: 'completed', result, completedAt },
+    });
+  }
+
+  async fail(requestId: string, error: string): Promise<void> {
+    await prisma.transcriptionRequest.updateMany({
+      where: { requestId },
+      data: { status: 'failed', error, completedAt: new Date() },
+    });
+  }
+
+  async get(requestId: string): Promise<StoredTranscription | undefined> {
+    const row = await prisma.transcriptionRequest.findUnique({ where: { requestId } });
+    return row ? toStoredTranscription(row) : undefined;
+  }
+
+  async findByTranscriptionId(transcriptionId: string): Promise<StoredTranscription | undefined> {
+    const row = await prisma.transcriptionRequest.findFirst({
+      where: { transcriptionId },
+      orderBy: { createdAt: 'desc' },
+    });
+    return row ? toStoredTranscription(row) : undefined;
+  }
+
+  async isComplete(requestId: string): Promise<boolean> {
+    const entry = await this.get(requestId);
+    return entry?.status === 'completed' || entry?.status === 'failed';
+  }
+
+  async delete(requestId: string): Promise<void> {
+    await prisma.transcriptionRequest.deleteMany({ where: { requestId } });
+  }
+
+  async purgeExpired(maxAgeMs: number): Promise<number> {
+    // Only finished entries expire - pending ones must stay resumable
+    const { count } = await prisma.transcriptionRequest.deleteMany({
+      where: {
+        status: { in: ['completed', 'failed'] },
+        completedAt: { lt: new Date(Date.now() - maxAgeMs) },
+      },
+    });
+    return count;
+  }
+}
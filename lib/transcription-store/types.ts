@@ -0,0 +1,72 @@
+/**
+ * Types for storing async provider transcription requests
+ * (e.g. ElevenLabs jobs whose result arrives through a webhook)
+ */
+
+export type StoredTranscriptionStatus = 'pending' | 'processing' | 'completed' | 'failed';
+
+export interface StoredTranscription {
+  requestId: string;
+  transcriptionId?: string;
+  status: StoredTranscriptionStatus;
+  result?: any;
+  error?: string;
+  createdAt: number;
+  completedAt?: number;
+}
+
+/**
+ * Storage for async transcription requests
+ *
+ * Shared by the provider (which polls for the result) and the webhook route
+ * (which delivers it), so implementations must work across processes when
+ * the app runs on more than one instance.
+ */
+export interface TranscriptionStore {
+  /**
+   * Create a new transcription entry
+   */
+  create(requestId: string, transcriptionId?: string): Promise<void>;
+
+  /**
+   * Update transcription status
+   */
+  updateStatus(requestId: string, status: StoredTranscriptionStatus): Promise<void>;
+
+  /**
+   * Store completed transcription result
+   * Creates the entry when the webhook arrives before the submission was recorded
+   */
+  complete(requestId: string, result: any): Promise<void>;
+
+  /**
+   * Store failed transcription
+   */
+  fail(requestId: string, error: string): Promise<void>;
+
+  /**
+   * Get transcription by request ID
+   */
+  get(requestId: string): Promise<StoredTranscription | undefined>;
+
+  /**
+   * Get the most recent entry recorded for a transcription ID (e.g. a job's resume key)
+   */
+  findByTranscriptionId(transcriptionId: string): Promise<StoredTranscription | undefined>;
+
+  /**
+   * Check if transcription is complete
+   */
+  isComplete(requestId: string): Promise<boolean>;
+
+  /**
+   * Delete transcription entry
+   */
+  delete(requestId: string): Promise<void>;
+
+  /**
+   * Remove finished entries older than the given age
+   * @returns Number of removed entries
+   */
+  purgeExpired(maxAgeMs: number): Promise<number>;
+}
@@ -3,7 +3,9 @@
  * Replaces localStorage to avoid quota limits with large transcriptions
  */
 
-import { StructuredTranscription } from './ai/types';
+import { StructuredTranscription, TranscriptionSegment } from './ai/types';
+import type { TranscriptionWorkflow, WorkflowState } from './library/workflow';
+import { encodeListCursor, isAfterListCursor, parseListCursor } from './library/cursor';
 
 const DB_NAME = 'grecho-transcription-storage';
 const DB_VERSION = 1;
@@ -13,10 +15,28 @@ const STORE_NAME = 'transcriptions';
  * Segment approval status for editor workflow
  */
 export interface SegmentApproval {
-  segmentIndex: number;
+  /** ID of the approved segment (see EditorSegment) */
+  segmentId: string;
+  /** Position of the segment, in states saved before segments had IDs */
+  segmentIndex?: number;
   approved: boolean;
   editedText?: string;
   editedAt?: number;
+  /** Text edits of the segment, oldest first */
+  revisions?: SegmentRevision[];
+}
+
+/**
+ * A text edit of a segment, kept for the change report
+ */
+export interface SegmentRevision {
+  /** Text before the edit (the provider text for the first edit) */
+  before: string;
+  after: string;
+  editedAt: number;
+  /** User who made the edit */
+  authorId?: string;
+  authorEmail?: string;
 }
 
 /**
@@ -28,17 +48,89 @@ export interface SpeakerLabel {
   labeledAt?: number; // Timestamp when labeled
 }
 
+/**
+ * Speaker label suggested from the organization roster by voice
+ */
+export interface SpeakerSuggestion extends SpeakerLabel {
+  /** Roster speaker the voice matched */
+  rosterSpeakerId: string;
+  /** Voice similarity from 0 to 1 */
+  confidence: number;
+}
+
+/**
+ * Segment in the editor, with an ID that stays the same across structural edits
+ * Provider segments are identified by position (see lib/editor/segmentStructure.ts)
+ */
+export interface EditorSegment extends TranscriptionSegment {
+  id: string;
+}
+
 /**
  * Transcription editor state for segment approval workflow
  */
 export interface TranscriptionEditorState {
   approvals: SegmentApproval[];
+  /** Whether the workflow state is draft (set by the server from the review workflow) */
   isDraft: boolean;
+  /** When the transcription left draft */
   finalizedAt?: number;
   audioFileId?: string;
   audioFileName?: string;
   audioDuration?: number;
   speakerLabels?: SpeakerLabel[];
+  /**
+   * Working copy of the segments after speaker corrections and structural edits,
+   * in editor order. Unset until the first such change; structuredData keeps the
+   * provider output either way.
+   */
+  segments?: EditorSegment[];
+  /** Roster suggestions the clerk rejected, so they are not offered again */
+  rejectedSpeakerSuggestions?: Array<{ originalId: string; rosterSpeakerId: string }>;
+}
+
+/**
+ * Translation of a transcription, aligned with its segments
+ * Boundaries and speakers are those of the original segments
+ */
+export interface TranscriptionTranslation {
+  /** ISO-639-1 code of the translation */
+  language: string;
+  /**
+   * Translated text by segment ID (see EditorSegment); segments inserted
+   * after the translation have none
+   */
+  segments: Record<string, string>;
+  /**
+   * Text of each segment when it was translated; a translated text is only
+   * shown while its segment still has this text (not after a split, merge or
+   * edit). Missing for translations made before it was recorded.
+   */
+  sourceTexts?: Record<string, string>;
+  model?: string;
+  /** When the translation was created or last replaced */
+  timestamp: number;
+}
+
+/**
+ * Review comment on a segment
+ * A comment without parentId starts a thread; replies point to it.
+ */
+export interface SegmentComment {
+  id: string;
+  /** ID of the commented segment (see EditorSegment) */
+  segmentId: string;
+  /** First comment of the thread, for replies */
+  parentId?: string;
+  text: string;
+  /** Commented character range of the segment text, and the text it covered */
+  range?: { start: number; end: number; quote: string };
+  authorId: string;
+  authorEmail?: string;
+  createdAt: number;
+  /** When the thread was resolved (set on its first comment) */
+  resolvedAt?: number;
+  resolvedByEmail?: string;
 }
 
 /**
@@ -64,10 +156,30 @@ export interface SavedTranscription {
       model1hr: string;
       bestFor: string;
     };
+    /** Language requested for the transcription ('auto' for detection) */
+    language?: string;
+    /** Language detected by the provider (ISO-639-1 when known) */
+    languageCode?: string;
+    /** Confidence of the detected language from 0 to 1 */
+    languageProbability?: number;
     structuredData?: StructuredTranscription;
     rawJson?: string;
+    rawResponses?: {
+      gemini?: string;
+      elevenlabs?: string;
+      whisper?: string;
+    };
     editorState?: TranscriptionEditorState;
+    translations?: TranscriptionTranslation[];
+    /** Review workflow state and transitions (see lib/library/workflow.ts) */
+    workflow?: TranscriptionWorkflow;
+    /** Review comments on segments, oldest first (not exported by default) */
+    comments?: SegmentComment[];
   };
+  /** When the server copy was last confirmed; unset while only stored in this browser */
+  syncedAt?: number;
+  /** Organization a copy in this browser belongs to; unset for copies from before organizations */
+  organizationId?: string;
 }
 
 /**
@@ -79,6 +191,7 @@ export interface TranscriptionListItem {
   timestamp: number;
   provider?: string;
   preview: string; // First 200 chars of text
+  workflowState?: WorkflowState;
   metadata?: {
     wordCount?: number;
     model?: string;
@@ -161,15 +274,18 @@ export async function getSavedTranscriptions(): Promise<SavedTranscription[]> {
 /**
  * Get paginated list of transcriptions with lightweight metadata only
  * Uses cursor-based pagination for efficient large dataset handling
+ * @param organizationId - Only list copies of this organization
  */
 export async function getTranscriptionList(
-  cursor?: number,
-  limit: number = 20
-): Promise<{ items: TranscriptionListItem[]; nextCursor: number | null; total: number }> {
+  cursor?: string,
+  limit: number = 20,
+  organizationId?: string
+): Promise<{ items: TranscriptionListItem[]; nextCursor: string | null; total: number }> {
   if (typeof window === 'undefined') return { items: [], nextCursor: null, total: 0 };
 
   try {
     const db = await openDB();
+    const after = parseListCursor(cursor);
 
     return new Promise((resolve, reject) => {
       const transaction = db.transaction(STORE_NAME, 'readonly');
@@ -177,16 +293,24 @@ export async function getTranscriptionList(
       const index = store.index('timestamp');
 
       const items: TranscriptionListItem[] = [];
+      const belongs = (transcription: SavedTranscription) =>
+        !organizationId || transcription.organizationId === organizationId;
 
-      // Get total count first
-      const countRequest = store.count();
+      // Count the organization's copies first
+      const countRequest = index.openCursor();
       let total = 0;
 
       countRequest.onsuccess = () => {
-        total = countRequest.result;
-
-        // Use cursor with descending order (newest first)
-        const range = cursor ? IDBKeyRange.upperBound(cursor, true) : null;
+        const countCursor = countRequest.result;
+        if (countCursor) {
+          if (belongs(countCursor.value)) total++;
+          countCursor.continue();
+          return;
+        }
+
+        // Use cursor with descending order (newest first); copies with the same
+        // timestamp come by descending ID, so the range includes the cursor's timestamp
+        const range = after ? IDBKeyRange.upperBound(after.timestamp) : null;
         const cursorRequest = index.openCursor(range, 'prev');
 
         cursorRequest.onsuccess = (event) => {
@@ -194,6 +318,10 @@ export async function getTranscriptionList(
 
           if (cursorResult && items.length < limit) {
             const full = cursorResult.value as SavedTranscription;
+            if (!belongs(full) || (after && !isAfterListCursor(full, after))) {
+              cursorResult.continue();
+              return;
+            }
 
             // Convert to lightweight list item
             items.push({
@@ -202,6 +330,7 @@ export async function getTranscriptionList(
               timestamp: full.timestamp,
               provider: full.provider,
               preview: full.text.slice(0, 200),
+              workflowState: full.metadata?.workflow?.state,
               metadata: {
                 wordCount: full.metadata?.wordCount,
                 model: full.metadata?.model,
@@ -213,7 +342,7 @@ export async function getTranscriptionList(
             });
             cursorResult.continue();
           } else {
-            const nextCursor = items.length === limit ? items[items.length - 1].timestamp : null;
+            const nextCursor = items.length === limit ? encodeListCursor(items[items.length - 1]) : null;
             resolve({ items, nextCursor, total });
           }
         };
@@ -265,6 +394,24 @@ export async function saveTranscription(
   });
 }
 
+/**
+ * Store a transcription as-is (keeps its ID), replacing any existing copy
+ */
+export async function putTranscription(transcription: SavedTranscription): Promise<void> {
+  const db = await openDB();
+
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(STORE_NAME, 'readwrite');
+    const store = transaction.objectStore(STORE_NAME);
+    const request = store.put(transcription);
+
+    request.onsuccess = () => resolve();
+    request.onerror = () => reject(request.error);
+
+    transaction.oncomplete = () => db.close();
+  });
+}
+
 /**
  * Delete a transcription by ID
  */
@@ -306,20 +453,38 @@ export async function getTranscriptionById(id: string): Promise<SavedTranscripti
 
 /**
  * Clear all transcriptions
+ * @param organizationId - Only clear copies of this organization
  */
-export async function clearAllTranscriptions(): Promise<void> {
+export async function clearAllTranscriptions(organizationId?: string): Promise<void> {
   const db = await openDB();
 
   return new Promise((resolve, reject) => {
     const transaction = db.transaction(STORE_NAME, 'readwrite');
     const store = transaction.objectStore(STORE_NAME);
-    const request = store.clear();
 
-    request.onsuccess = () => {
-      console.log('[TranscriptionStorage] Cleared all transcriptions');
-      resolve();
-    };
-    request.onerror = () => reject(request.error);
+    if (!organizationId) {
+      const request = store.clear();
+      request.onsuccess = () => {
+        console.log('[TranscriptionStorage] Cleared all transcriptions');
+        resolve();
+      };
+      request.onerror = () => reject(request.error);
+    } else {
+      const request = store.openCursor();
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (!cursor) {
+          console.log(`[TranscriptionStorage] Cleared transcriptions of organization ${organizationId}`);
+          resolve();
+          return;
+        }
+        if ((cursor.value as SavedTranscription).organizationId === organizationId) {
+          cursor.delete();
+        }
+        cursor.continue();
+      };
+      request.onerror = () => reject(request.error);
+    }
 
     transaction.oncomplete = () => db.close();
   });
@@ -327,6 +492,7 @@ export async function clearAllTranscriptions(): Promise<void> {
 
 /**
  * Save multiple transcriptions from multi-model processing
+ * @param organizationId - Organization the transcriptions were made in
  */
 export async function saveMultiModelTranscriptions(
   results: Array<{
@@ -336,7 +502,8 @@ export async function saveMultiModelTranscriptions(
     metadata: any;
     provider: string;
     success: boolean;
-  }>
+  }>,
+  organizationId?: string
 ): Promise<SavedTranscription[]> {
   const uploadGroupId = generateId();
   const timestamp = Date.now();
@@ -359,6 +526,7 @@ export async function saveMultiModelTranscriptions(
           ...result.metadata,
           uploadGroupId,
         },
+        ...(organizationId ? { organizationId } : {}),
       };
 
       savedTranscriptions.push(transcription);
@@ -0,0 +1,32 @@
+/**
+ * Fails the build when a font face registered for PDF exports
+ * (PDF_FONT_FACES in lib/export/pdfFonts.ts) is missing from public/fonts
+ * or is not a TrueType font
+ */
+
+import { readFileSync, existsSync } from 'node:fs';
+import { fileURLToPath } from 'node:url';
+import { dirname, join } from 'node:path';
+
+const root = join(dirname(fileURLToPath(import.meta.url)), '..');
+const registry = readFileSync(join(root, 'lib/export/pdfFonts.ts'), 'utf8');
+const files = [...registry.matchAll(/file: '([^']+\.ttf)'/g)].map((match) => match[1]);
+
+if (files.length === 0) {
+  console.error('No PDF font faces found in lib/export/pdfFonts.ts');
+  process.exit(1);
+}
+
+const problems = files.flatMap((file) => {
+  const path = join(root, 'public/fonts', file);
+  if (!existsSync(path)) return [`${file}: missing`];
+  const signature = readFileSync(path).subarray(0, 4).readUInt32BE(0);
+  return signature === 0x00010000 || signature === 0x74727565 ? [] : [`${file}: not a TrueType font`];
+});
+
+if (problems.length > 0) {
+  console.error(`PDF fonts in public/fonts are not usable:\n  ${problems.join('\n  ')}`);
+  process.exit(1);
+}
+
+console.log(`PDF fonts: ${files.length} faces found`);
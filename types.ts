@@ -30,4 +30,6 @@ export interface UploadConfig {
   file: File | null;
   youtubeUrl: string;
   mode: 'file' | 'url';
+  /** Spoken language (ISO-639-1) or 'auto' to detect it */
+  language?: string;
 }